@@ -37,11 +37,22 @@ export default [
         clearInterval: 'readonly',
         crypto: 'readonly',
         fetch: 'readonly',
+        URL: 'readonly',
+        // Pair snapshot store
+        indexedDB: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBKeyRange: 'readonly',
+        IDBTransaction: 'readonly',
+        // Request cancellation
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
         // Web Crypto API
         CryptoKey: 'readonly',
         // Text encoding/decoding
         TextEncoder: 'readonly',
         TextDecoder: 'readonly',
+        // Streams (SSE responses)
+        ReadableStream: 'readonly',
         // Base64 encoding/decoding
         btoa: 'readonly',
         atob: 'readonly',
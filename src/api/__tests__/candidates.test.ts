@@ -0,0 +1,178 @@
+// Candidate Selection Tests
+// DEXscreener responses are mocked at the HTTP client
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { makeLiquidity, makePair, makeToken } from '@/test/fixtures';
+import type { DexPair } from '@/types/dexscreener';
+
+// Mock response holder
+let mockJsonResponse: unknown = null;
+
+// Mock ky
+vi.mock('ky', () => {
+  const mockJson = vi.fn(async () => mockJsonResponse);
+  const mockGet = vi.fn(() => ({ json: mockJson }));
+  const mockPost = vi.fn(() => ({ json: mockJson }));
+  const mockCreate = vi.fn(() => ({
+    get: mockGet,
+    post: mockPost,
+  }));
+
+  return {
+    default: {
+      create: mockCreate,
+    },
+  };
+});
+
+// Mock cache
+vi.mock('@/background/utils/cache', () => ({
+  cacheManager: {
+    getOrFetch: vi.fn(async (_key, fetchFn) => fetchFn()),
+    delete: vi.fn(),
+  },
+  getDexCacheKey: vi.fn((chain: string) => `dex:${chain}`),
+}));
+
+// Mock rate limiter
+vi.mock('@/background/utils/rate-limiter', () => ({
+  dexLimiter: {
+    execute: vi.fn(async fn => fn()),
+  },
+}));
+
+// Mock retry helper
+vi.mock('@/background/utils/retry-helper', () => ({
+  retryWithBackoff: vi.fn(async fn => fn()),
+}));
+
+// Mock chrome storage
+global.chrome = {
+  storage: {
+    local: {
+      get: vi.fn(async () => ({ dex_api_key: 'test-key' })),
+      set: vi.fn(),
+    },
+    session: {
+      get: vi.fn(async () => ({})),
+      set: vi.fn(),
+    },
+  },
+} as unknown as typeof chrome;
+
+describe('fetchPairsByChain', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockJsonResponse = null;
+  });
+
+  it('should fetch and sort pairs by volume', async () => {
+    const mockPairs: DexPair[] = [
+      {
+        chainId: 'solana',
+        dexId: 'raydium',
+        url: 'https://dexscreener.com/solana/pair1',
+        pairAddress: 'pair1',
+        baseToken: { address: 'base1', name: 'Token1', symbol: 'TKN1' },
+        quoteToken: { address: 'quote1', name: 'USDC', symbol: 'USDC' },
+        priceNative: '1.5',
+        priceUsd: '1.5',
+        txns: { h24: { buys: 100, sells: 50 } },
+        volume: { h24: 100000 },
+        priceChange: { h24: 5.2 },
+        liquidity: { usd: 50000, base: 25000, quote: 25000 },
+      },
+      {
+        chainId: 'solana',
+        dexId: 'raydium',
+        url: 'https://dexscreener.com/solana/pair2',
+        pairAddress: 'pair2',
+        baseToken: { address: 'base2', name: 'Token2', symbol: 'TKN2' },
+        quoteToken: { address: 'quote2', name: 'USDC', symbol: 'USDC' },
+        priceNative: '2.5',
+        priceUsd: '2.5',
+        txns: { h24: { buys: 200, sells: 100 } },
+        volume: { h24: 200000 },
+        priceChange: { h24: 10.5 },
+        liquidity: { usd: 100000, base: 50000, quote: 50000 },
+      },
+    ];
+
+    // Mock response for multiple search queries
+    mockJsonResponse = { schemaVersion: '1.0.0', pairs: mockPairs };
+
+    const { fetchPairsByChain } = await import('../candidates');
+    const { pairs: result } = await fetchPairsByChain('solana', { maxPairs: 10 });
+
+    // Should return pairs and sort by volume descending
+    expect(result.length).toBeGreaterThan(0);
+    // Should remove duplicates
+    const addresses = result.map(p => p.pairAddress);
+    expect(new Set(addresses).size).toBe(addresses.length);
+  });
+
+  it('should respect maxPairs parameter', async () => {
+    const mockPairs: DexPair[] = Array.from({ length: 50 }, (_, i) => ({
+      chainId: 'solana',
+      dexId: 'raydium',
+      url: `https://dexscreener.com/solana/pair${i}`,
+      pairAddress: `pair${i}`,
+      baseToken: { address: `base${i}`, name: `Token${i}`, symbol: `TKN${i}` },
+      quoteToken: { address: 'quote', name: 'USDC', symbol: 'USDC' },
+      priceNative: '1.0',
+      priceUsd: '1.0',
+      txns: { h24: { buys: 50, sells: 30 } },
+      volume: { h24: 1000 * (50 - i) },
+      priceChange: { h24: 2.5 },
+      liquidity: { usd: 5000, base: 2500, quote: 2500 },
+    }));
+
+    mockJsonResponse = { schemaVersion: '1.0.0', pairs: mockPairs };
+
+    const { fetchPairsByChain } = await import('../candidates');
+    const { pairs: result } = await fetchPairsByChain('solana', { maxPairs: 20 });
+
+    expect(result).toHaveLength(20);
+  });
+
+  it('should handle empty response', async () => {
+    mockJsonResponse = { schemaVersion: '1.0.0', pairs: [] };
+
+    const { fetchPairsByChain } = await import('../candidates');
+    const { pairs: result } = await fetchPairsByChain('ethereum', { maxPairs: 10 });
+
+    expect(result).toHaveLength(0);
+  });
+
+  it('should not replace a candidate with a deeper pool the filters remove', async () => {
+    const candidate = makePair({
+      pairAddress: 'raydium-pool',
+      baseToken: makeToken('tokenA'),
+      liquidity: makeLiquidity(10_000),
+    });
+    const deniedPool = makePair({
+      pairAddress: 'pump-pool',
+      dexId: 'pumpswap',
+      baseToken: makeToken('tokenA'),
+      liquidity: makeLiquidity(90_000),
+    });
+
+    // The chain listing and the token's pools both answer with the two pools
+    mockJsonResponse = { schemaVersion: '1.0.0', pairs: [candidate, deniedPool] };
+
+    const { fetchPairsByChain } = await import('../candidates');
+    const {
+      pairs: [result],
+      filterCounts,
+      seenDexIds,
+    } = await fetchPairsByChain('solana', {
+      maxPairs: 10,
+      dexVenues: { allow: [], deny: ['pumpswap'] },
+    });
+
+    expect(filterCounts).toEqual({ dex: 1 });
+    expect([...seenDexIds].sort()).toEqual(['pumpswap', 'raydium']);
+    expect(result.pairAddress).toBe('raydium-pool');
+    expect(result.tokenPools?.poolCount).toBe(2);
+    expect(result.tokenPools?.liquidityUsd).toBe(100_000);
+  });
+});
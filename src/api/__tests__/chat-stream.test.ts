@@ -0,0 +1,150 @@
+// Chat Completion Stream Reader Tests
+import { describe, it, expect } from 'vitest';
+import { readChatCompletionStream } from '../chat-stream';
+
+const encoder = new TextEncoder();
+
+/**
+ * Response body delivering the given chunks, then closing
+ */
+function makeBody(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+/**
+ * SSE frame carrying a content delta
+ */
+function deltaFrame(content: string): string {
+  return `data: ${JSON.stringify({
+    id: 'gen-1',
+    model: 'openai/gpt-4o',
+    created: 1700000000,
+    choices: [{ index: 0, delta: { content } }],
+  })}\n\n`;
+}
+
+async function read(body: ReadableStream<Uint8Array>) {
+  const deltas: string[] = [];
+  const result = await readChatCompletionStream(
+    body,
+    'requested/model',
+    delta => deltas.push(delta),
+    'OpenRouter'
+  );
+  return { result, deltas };
+}
+
+describe('readChatCompletionStream', () => {
+  it('should assemble the content and report each delta', async () => {
+    const { result, deltas } = await read(
+      makeBody([deltaFrame('Hello'), deltaFrame(', world'), 'data: [DONE]\n\n'])
+    );
+
+    expect(deltas).toEqual(['Hello', ', world']);
+    expect(result).toMatchObject({
+      id: 'gen-1',
+      model: 'openai/gpt-4o',
+      created: 1700000000,
+      choices: [{ message: { role: 'assistant', content: 'Hello, world' } }],
+    });
+  });
+
+  it('should join a frame split across chunks', async () => {
+    // Split inside the JSON payload and inside the bytes of a multi-byte character
+    const frame = encoder.encode(deltaFrame('価格'));
+    const cut = frame.indexOf(0xe4) + 1;
+    const { result } = await read(
+      makeBody([frame.slice(0, 12), frame.slice(12, cut), frame.slice(cut), 'data: [DONE]\n\n'])
+    );
+
+    expect(result.choices[0].message.content).toBe('価格');
+  });
+
+  it('should handle CRLF line endings and a last frame without a trailing newline', async () => {
+    const { result } = await read(
+      makeBody([deltaFrame('a').replace(/\n/g, '\r\n'), deltaFrame('b').trimEnd()])
+    );
+
+    expect(result.choices[0].message.content).toBe('ab');
+  });
+
+  it('should ignore comment and keep-alive lines', async () => {
+    const { result, deltas } = await read(
+      makeBody([': OPENROUTER PROCESSING\n\n', deltaFrame('ok'), ':\n\n', 'data: [DONE]\n\n'])
+    );
+
+    expect(deltas).toEqual(['ok']);
+    expect(result.choices[0].message.content).toBe('ok');
+  });
+
+  it('should not parse the [DONE] marker as a chunk', async () => {
+    const { result } = await read(makeBody([deltaFrame('done'), 'data: [DONE]\n\n']));
+    expect(result.choices[0].message.content).toBe('done');
+  });
+
+  it('should keep the requested model until the stream reports one', async () => {
+    const { result } = await read(makeBody(['data: [DONE]\n\n']));
+
+    expect(result.model).toBe('requested/model');
+    expect(result.choices[0].message.content).toBe('');
+    expect(result.usage).toBeUndefined();
+  });
+
+  it('should take usage and finish reason from the final chunks', async () => {
+    const usage = { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150, cost: 0.0021 };
+    const { result } = await read(
+      makeBody([
+        deltaFrame('hi'),
+        `data: ${JSON.stringify({ id: 'gen-1', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] })}\n\n`,
+        `data: ${JSON.stringify({ id: 'gen-1', choices: [], usage })}\n\n`,
+        'data: [DONE]\n\n',
+      ])
+    );
+
+    expect(result.usage).toEqual(usage);
+    expect(result.choices[0].finish_reason).toBe('stop');
+  });
+
+  it('should throw on an error chunk in the stream', async () => {
+    const body = makeBody([
+      deltaFrame('partial'),
+      `data: ${JSON.stringify({ error: { code: 502, message: 'Provider disconnected' } })}\n\n`,
+    ]);
+
+    await expect(read(body)).rejects.toThrow('OpenRouter stream error: Provider disconnected');
+  });
+
+  it('should reject when the stream is aborted midway', async () => {
+    const controller = new AbortController();
+    const body = new ReadableStream<Uint8Array>({
+      start(c) {
+        c.enqueue(encoder.encode(deltaFrame('Hel')));
+        // A fetch body errors with the abort reason once its request is aborted
+        controller.signal.addEventListener('abort', () => c.error(controller.signal.reason));
+      },
+    });
+
+    const deltas: string[] = [];
+    const reading = readChatCompletionStream(
+      body,
+      'requested/model',
+      delta => {
+        deltas.push(delta);
+        controller.abort();
+      },
+      'OpenRouter'
+    );
+
+    await expect(reading).rejects.toMatchObject({ name: 'AbortError' });
+    expect(deltas).toEqual(['Hel']);
+    // The reader's lock is released, so the body can be cancelled
+    expect(body.locked).toBe(false);
+  });
+});
@@ -63,86 +63,6 @@ describe('DEXscreener API Integration', () => {
     mockJsonResponse = null;
   });
 
-  describe('fetchPairsByChain', () => {
-    it('should fetch and sort pairs by volume', async () => {
-      const mockPairs: DexPair[] = [
-        {
-          chainId: 'solana',
-          dexId: 'raydium',
-          url: 'https://dexscreener.com/solana/pair1',
-          pairAddress: 'pair1',
-          baseToken: { address: 'base1', name: 'Token1', symbol: 'TKN1' },
-          quoteToken: { address: 'quote1', name: 'USDC', symbol: 'USDC' },
-          priceNative: '1.5',
-          priceUsd: '1.5',
-          txns: { h24: { buys: 100, sells: 50 } },
-          volume: { h24: 100000 },
-          priceChange: { h24: 5.2 },
-          liquidity: { usd: 50000, base: 25000, quote: 25000 },
-        },
-        {
-          chainId: 'solana',
-          dexId: 'raydium',
-          url: 'https://dexscreener.com/solana/pair2',
-          pairAddress: 'pair2',
-          baseToken: { address: 'base2', name: 'Token2', symbol: 'TKN2' },
-          quoteToken: { address: 'quote2', name: 'USDC', symbol: 'USDC' },
-          priceNative: '2.5',
-          priceUsd: '2.5',
-          txns: { h24: { buys: 200, sells: 100 } },
-          volume: { h24: 200000 },
-          priceChange: { h24: 10.5 },
-          liquidity: { usd: 100000, base: 50000, quote: 50000 },
-        },
-      ];
-
-      // Mock response for multiple search queries
-      mockJsonResponse = { schemaVersion: '1.0.0', pairs: mockPairs };
-
-      const { fetchPairsByChain } = await import('../dexscreener');
-      const result = await fetchPairsByChain('solana', 10);
-
-      // Should return pairs and sort by volume descending
-      expect(result.length).toBeGreaterThan(0);
-      // Should remove duplicates
-      const addresses = result.map(p => p.pairAddress);
-      expect(new Set(addresses).size).toBe(addresses.length);
-    });
-
-    it('should respect maxPairs parameter', async () => {
-      const mockPairs: DexPair[] = Array.from({ length: 50 }, (_, i) => ({
-        chainId: 'solana',
-        dexId: 'raydium',
-        url: `https://dexscreener.com/solana/pair${i}`,
-        pairAddress: `pair${i}`,
-        baseToken: { address: `base${i}`, name: `Token${i}`, symbol: `TKN${i}` },
-        quoteToken: { address: 'quote', name: 'USDC', symbol: 'USDC' },
-        priceNative: '1.0',
-        priceUsd: '1.0',
-        txns: { h24: { buys: 50, sells: 30 } },
-        volume: { h24: 1000 * (50 - i) },
-        priceChange: { h24: 2.5 },
-        liquidity: { usd: 5000, base: 2500, quote: 2500 },
-      }));
-
-      mockJsonResponse = { schemaVersion: '1.0.0', pairs: mockPairs };
-
-      const { fetchPairsByChain } = await import('../dexscreener');
-      const result = await fetchPairsByChain('solana', 20);
-
-      expect(result).toHaveLength(20);
-    });
-
-    it('should handle empty response', async () => {
-      mockJsonResponse = { schemaVersion: '1.0.0', pairs: [] };
-
-      const { fetchPairsByChain } = await import('../dexscreener');
-      const result = await fetchPairsByChain('ethereum', 10);
-
-      expect(result).toHaveLength(0);
-    });
-  });
-
   describe('fetchPairByAddress', () => {
     it('should fetch specific pair by address', async () => {
       const mockPair: DexPair = {
@@ -211,9 +131,9 @@ describe('DEXscreener API Integration', () => {
       mockJsonResponse = { schemaVersion: '1.0.0', pairs: [] };
 
       const { dexLimiter } = await import('@/background/utils/rate-limiter');
-      const { fetchPairsByChain } = await import('../dexscreener');
+      const { dexScreenerProvider } = await import('../dexscreener');
 
-      await fetchPairsByChain('solana', 10);
+      await dexScreenerProvider.listPairsByChain('solana');
 
       expect(dexLimiter.execute).toHaveBeenCalled();
     });
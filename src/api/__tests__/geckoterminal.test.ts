@@ -0,0 +1,155 @@
+// GeckoTerminal API Tests
+// Normalization runs against recorded responses in ./fixtures
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import trendingPools from './fixtures/geckoterminal-trending-pools.json';
+import tokenPools from './fixtures/geckoterminal-token-pools.json';
+import type { GeckoTerminalPoolsResponse } from '@/types/geckoterminal';
+
+// Responses by request path (null = request fails)
+let mockResponses: Record<string, unknown> = {};
+const requestedPaths: string[] = [];
+
+// Mock ky
+vi.mock('ky', () => {
+  const mockGet = vi.fn((path: string) => ({
+    json: async () => {
+      requestedPaths.push(path);
+      const key = path.split('?')[0];
+      const response = mockResponses[key];
+      if (response === undefined || response === null) {
+        throw Object.assign(new Error('Request failed'), { response: { status: 404 } });
+      }
+      return response;
+    },
+  }));
+
+  return {
+    default: {
+      create: vi.fn(() => ({ get: mockGet })),
+    },
+  };
+});
+
+// Mock rate limiter
+vi.mock('@/background/utils/rate-limiter', () => ({
+  geckoLimiter: {
+    execute: vi.fn(async fn => fn()),
+  },
+}));
+
+// Mock retry helper
+vi.mock('@/background/utils/retry-helper', () => ({
+  retryWithBackoff: vi.fn(async fn => fn()),
+}));
+
+describe('GeckoTerminal API', () => {
+  beforeEach(() => {
+    mockResponses = {};
+    requestedPaths.length = 0;
+  });
+
+  describe('normalizeGeckoTerminalPools', () => {
+    it('should convert pools to DEXscreener-shaped pairs', async () => {
+      const { normalizeGeckoTerminalPools } = await import('../geckoterminal');
+      const [bonk, wif] = normalizeGeckoTerminalPools(trendingPools as GeckoTerminalPoolsResponse);
+
+      expect(bonk).toEqual({
+        chainId: 'solana',
+        dexId: 'raydium',
+        url: 'https://www.geckoterminal.com/solana/pools/Bonk1Pool111111111111111111111111111111',
+        pairAddress: 'Bonk1Pool111111111111111111111111111111',
+        baseToken: { address: 'BonkToken1111111111111111111111111', name: 'Bonk', symbol: 'BONK' },
+        quoteToken: {
+          address: 'So11111111111111111111111111111111111111112',
+          name: 'Wrapped SOL',
+          symbol: 'SOL',
+        },
+        priceNative: '0.000000156',
+        priceUsd: '0.0000234512',
+        txns: {
+          m5: { buys: 12, sells: 8 },
+          h1: { buys: 120, sells: 95 },
+          h24: { buys: 2400, sells: 2100 },
+        },
+        volume: { m5: 1200.5, h1: 15000.2, h6: 80000.1, h24: 250000.9 },
+        priceChange: { m5: 0.52, h1: -2.1, h6: 4.3, h24: 12.8 },
+        liquidity: { usd: 420000.55, base: 0, quote: 0 },
+        fdv: 1500000.25,
+        pairCreatedAt: Date.parse('2024-05-01T10:00:00Z'),
+      });
+
+      expect(wif.marketCap).toBe(2300000000);
+      expect(wif.pairCreatedAt).toBeUndefined();
+      expect(wif.priceChange.m5).toBe(0);
+    });
+
+    it('should map networks to chain IDs and split versioned DEX IDs', async () => {
+      const { normalizeGeckoTerminalPools } = await import('../geckoterminal');
+      const pairs = normalizeGeckoTerminalPools(tokenPools as GeckoTerminalPoolsResponse);
+
+      // The pool without a base token is skipped
+      expect(pairs.map(pair => pair.pairAddress)).toEqual(['0xpoolv3', '0xpoolv2']);
+      expect(pairs[0].chainId).toBe('ethereum');
+      expect(pairs[0].dexId).toBe('uniswap');
+      expect(pairs[0].labels).toEqual(['v3']);
+      expect(pairs[1].labels).toEqual(['v2']);
+      expect(pairs[1].fdv).toBeUndefined();
+      expect(pairs[0].url).toBe('https://www.geckoterminal.com/eth/pools/0xpoolv3');
+    });
+  });
+
+  describe('geckoTerminalProvider', () => {
+    it('should merge trending and top pools of a chain', async () => {
+      mockResponses = {
+        'networks/solana/trending_pools': trendingPools,
+        'networks/solana/pools': {
+          data: [trendingPools.data[1]],
+          included: trendingPools.included,
+        },
+      };
+
+      const { geckoTerminalProvider } = await import('../geckoterminal');
+      const pairs = await geckoTerminalProvider.listPairsByChain('solana');
+
+      expect(pairs.map(pair => pair.baseToken.symbol)).toEqual(['BONK', 'WIF']);
+      expect(
+        requestedPaths.every(path => path.includes('include=base_token,quote_token,dex'))
+      ).toBe(true);
+    });
+
+    it('should use GeckoTerminal network IDs in requests', async () => {
+      mockResponses = { 'networks/eth/tokens/0xpepe/pools': tokenPools };
+
+      const { geckoTerminalProvider } = await import('../geckoterminal');
+      const pools = await geckoTerminalProvider.getTokenPools('ethereum', '0xpepe');
+
+      expect(pools).toHaveLength(2);
+    });
+
+    it('should request each token and drop pools shared by two tokens', async () => {
+      mockResponses = {
+        'networks/eth/tokens/0xpepe/pools': tokenPools,
+        'networks/eth/tokens/0xweth/pools': tokenPools,
+      };
+
+      const { geckoTerminalProvider } = await import('../geckoterminal');
+      const pools = await geckoTerminalProvider.getPairsByTokens('ethereum', ['0xpepe', '0xweth']);
+
+      expect(requestedPaths.map(path => path.split('?')[0])).toEqual([
+        'networks/eth/tokens/0xpepe/pools',
+        'networks/eth/tokens/0xweth/pools',
+      ]);
+      expect(pools).toHaveLength(2);
+    });
+
+    it('should throw when no pool list could be fetched', async () => {
+      const { geckoTerminalProvider } = await import('../geckoterminal');
+      await expect(geckoTerminalProvider.listPairsByChain('base')).rejects.toThrow();
+    });
+
+    it('should return null for an unknown pair', async () => {
+      const { geckoTerminalProvider } = await import('../geckoterminal');
+      await expect(geckoTerminalProvider.getPair('solana', 'missing')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+// LLM Client Tests
+// Fallback chain of callLLM, with OpenRouter mocked
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { callLLM } from '../llm-client';
+import { chatCompletion } from '../openrouter';
+import { ERR } from '@/shared/errors';
+import type { OpenRouterChatRequest, OpenRouterChatResponse } from '@/types/openrouter';
+
+vi.mock('../openrouter', () => ({
+  chatCompletion: vi.fn(),
+  chatCompletionStream: vi.fn(),
+}));
+
+vi.mock('../gemini-nano', () => ({
+  geminiNanoPrompt: vi.fn(),
+  geminiNanoPromptStreaming: vi.fn(),
+}));
+
+vi.mock('../local-llm', () => ({
+  localChatCompletion: vi.fn(),
+  localChatCompletionStream: vi.fn(),
+}));
+
+// Mock chrome storage (error messages are translated)
+global.chrome = {
+  storage: {
+    local: {
+      get: vi.fn(async () => ({})),
+      set: vi.fn(),
+    },
+  },
+} as unknown as typeof chrome;
+
+/**
+ * ky-style HTTP error from the OpenRouter chat endpoint
+ */
+function httpError(status: number, message = `Request failed with status ${status}`): Error {
+  return Object.assign(new Error(message), {
+    response: {
+      status,
+      url: 'https://openrouter.ai/api/v1/chat/completions',
+      headers: { get: () => null },
+    },
+  });
+}
+
+function makeResponse(model: string): OpenRouterChatResponse {
+  return {
+    id: 'gen-1',
+    model,
+    created: 0,
+    object: 'chat.completion',
+    choices: [
+      { index: 0, message: { role: 'assistant', content: '{"pairs":[]}' }, finish_reason: 'stop' },
+    ],
+    usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+  };
+}
+
+/**
+ * Let each model fail with its error, or answer when it has none
+ */
+function answerBy(errors: Record<string, Error>) {
+  vi.mocked(chatCompletion).mockImplementation(async (request: OpenRouterChatRequest) => {
+    const error = errors[request.model];
+    if (error) throw error;
+    return makeResponse(request.model);
+  });
+}
+
+function calledModels(): string[] {
+  return vi.mocked(chatCompletion).mock.calls.map(([request]) => request.model);
+}
+
+const fallbackModels = ['backup/one', 'backup/two'];
+
+describe('callLLM fallback chain', () => {
+  beforeEach(() => {
+    vi.mocked(chatCompletion).mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should answer with the requested model when it succeeds', async () => {
+    answerBy({});
+
+    const response = await callLLM('primary/model', 'prompt', { fallbackModels });
+
+    expect(calledModels()).toEqual(['primary/model']);
+    expect(response.model).toBe('primary/model');
+    expect(response.attempts).toEqual([{ model: 'primary/model' }]);
+    expect(response.content).toBe('{"pairs":[]}');
+  });
+
+  it.each([
+    ['a rate limit', httpError(429), ERR.LLM_RATE_LIMIT],
+    ['a server error', httpError(502), ERR.LLM_SERVER_ERROR],
+    [
+      'a context-length error',
+      httpError(400, "This endpoint's maximum context length is 8192 tokens"),
+      ERR.LLM_CONTEXT_LENGTH,
+    ],
+  ])('should move to the next model on %s', async (_name, error, code) => {
+    answerBy({ 'primary/model': error });
+
+    const response = await callLLM('primary/model', 'prompt', { fallbackModels });
+
+    expect(calledModels()).toEqual(['primary/model', 'backup/one']);
+    expect(response.model).toBe('backup/one');
+    expect(response.attempts).toEqual([
+      { model: 'primary/model', errorCode: code, error: error.message },
+      { model: 'backup/one' },
+    ]);
+  });
+
+  it('should record every failed model before the one that answered', async () => {
+    answerBy({ 'primary/model': httpError(503), 'backup/one': httpError(429) });
+
+    const response = await callLLM('primary/model', 'prompt', { fallbackModels });
+
+    expect(response.model).toBe('backup/two');
+    expect(response.attempts?.map(attempt => [attempt.model, attempt.errorCode])).toEqual([
+      ['primary/model', ERR.LLM_SERVER_ERROR],
+      ['backup/one', ERR.LLM_RATE_LIMIT],
+      ['backup/two', undefined],
+    ]);
+  });
+
+  it.each([
+    ['an invalid API key', httpError(401)],
+    ['a bad request', httpError(400, 'Invalid response_format')],
+  ])('should not fall back on %s', async (_name, error) => {
+    answerBy({ 'primary/model': error });
+
+    await expect(callLLM('primary/model', 'prompt', { fallbackModels })).rejects.toBe(error);
+    expect(calledModels()).toEqual(['primary/model']);
+  });
+
+  it('should not fall back once the request was cancelled', async () => {
+    const controller = new AbortController();
+    const abortError = Object.assign(new Error('The operation was aborted.'), {
+      name: 'AbortError',
+    });
+    vi.mocked(chatCompletion).mockImplementation(async () => {
+      controller.abort();
+      throw abortError;
+    });
+
+    await expect(
+      callLLM('primary/model', 'prompt', { fallbackModels, signal: controller.signal })
+    ).rejects.toBe(abortError);
+    expect(calledModels()).toEqual(['primary/model']);
+  });
+
+  it('should throw the last error when the whole chain fails', async () => {
+    const lastError = httpError(429);
+    answerBy({
+      'primary/model': httpError(500),
+      'backup/one': httpError(404),
+      'backup/two': lastError,
+    });
+
+    await expect(callLLM('primary/model', 'prompt', { fallbackModels })).rejects.toBe(lastError);
+    expect(calledModels()).toEqual(['primary/model', 'backup/one', 'backup/two']);
+  });
+
+  it('should skip the requested model in its own fallback chain', async () => {
+    answerBy({ 'primary/model': httpError(500) });
+
+    const response = await callLLM('primary/model', 'prompt', {
+      fallbackModels: ['primary/model', 'backup/one'],
+    });
+
+    expect(calledModels()).toEqual(['primary/model', 'backup/one']);
+    expect(response.model).toBe('backup/one');
+  });
+});
@@ -0,0 +1,60 @@
+// Local LLM Provider Tests
+import { describe, it, expect } from 'vitest';
+import { getLocalOriginPattern, getNonLocalHost, normalizeLocalBaseUrl } from '../local-llm';
+import { isLocalModel } from '@/types/local-llm';
+
+describe('normalizeLocalBaseUrl', () => {
+  it('should append /v1 to a bare server origin', () => {
+    expect(normalizeLocalBaseUrl('http://localhost:11434')).toBe('http://localhost:11434/v1');
+    expect(normalizeLocalBaseUrl(' http://localhost:11434/ ')).toBe('http://localhost:11434/v1');
+  });
+
+  it('should not duplicate an existing /v1 suffix', () => {
+    expect(normalizeLocalBaseUrl('http://127.0.0.1:1234/v1')).toBe('http://127.0.0.1:1234/v1');
+    expect(normalizeLocalBaseUrl('http://127.0.0.1:1234/v1/')).toBe('http://127.0.0.1:1234/v1');
+  });
+
+  it('should keep a path prefix', () => {
+    expect(normalizeLocalBaseUrl('http://localhost:8080/llm')).toBe('http://localhost:8080/llm/v1');
+  });
+
+  it('should reject remote hosts, other schemes and invalid URLs', () => {
+    expect(normalizeLocalBaseUrl('https://api.example.com')).toBeNull();
+    expect(normalizeLocalBaseUrl('http://192.168.1.10:11434')).toBeNull();
+    expect(normalizeLocalBaseUrl('ftp://localhost')).toBeNull();
+    expect(normalizeLocalBaseUrl('localhost:11434')).toBeNull();
+    expect(normalizeLocalBaseUrl('')).toBeNull();
+  });
+});
+
+describe('getLocalOriginPattern', () => {
+  it('should return a host permission pattern without the port', () => {
+    expect(getLocalOriginPattern('http://localhost:11434')).toBe('http://localhost/*');
+    expect(getLocalOriginPattern('https://127.0.0.1:8443/v1')).toBe('https://127.0.0.1/*');
+  });
+
+  it('should return null for non-local URLs', () => {
+    expect(getLocalOriginPattern('https://openrouter.ai/api/v1')).toBeNull();
+  });
+});
+
+describe('getNonLocalHost', () => {
+  it('should return the host of LAN and remote servers', () => {
+    expect(getNonLocalHost('http://192.168.1.10:11434')).toBe('192.168.1.10');
+    expect(getNonLocalHost('https://llm.example.com/v1')).toBe('llm.example.com');
+  });
+
+  it('should return null for local and malformed URLs', () => {
+    expect(getNonLocalHost('http://localhost:11434')).toBeNull();
+    expect(getNonLocalHost('ftp://192.168.1.10')).toBeNull();
+    expect(getNonLocalHost('localhost:11434')).toBeNull();
+  });
+});
+
+describe('isLocalModel', () => {
+  it('should match only prefixed model IDs', () => {
+    expect(isLocalModel('local/llama3.1:8b')).toBe(true);
+    expect(isLocalModel('meta-llama/llama-3.1-8b-instruct')).toBe(false);
+    expect(isLocalModel(undefined)).toBe(false);
+  });
+});
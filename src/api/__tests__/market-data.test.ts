@@ -0,0 +1,123 @@
+// Market Data Provider Tests
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFallbackProvider, getMarketDataSettings } from '../market-data';
+import { makePair } from '@/test/fixtures';
+import type { DexPair } from '@/types/dexscreener';
+import type { MarketDataProvider, MarketDataProviderId } from '@/types/market-data';
+
+let storedSettings: unknown;
+
+// Mock chrome storage
+global.chrome = {
+  storage: {
+    local: {
+      get: vi.fn(async () => (storedSettings ? { market_data: storedSettings } : {})),
+      set: vi.fn(),
+    },
+  },
+} as unknown as typeof chrome;
+
+/**
+ * Provider answering every request with the given pairs, or failing
+ */
+function makeProvider(id: MarketDataProviderId, pairs: DexPair[] | Error): MarketDataProvider {
+  const answer = vi.fn(async () => {
+    if (pairs instanceof Error) throw pairs;
+    return pairs;
+  });
+  return {
+    id,
+    listPairsByChain: answer,
+    searchPairs: answer,
+    getPair: vi.fn(async () => {
+      if (pairs instanceof Error) throw pairs;
+      return pairs[0] ?? null;
+    }),
+    getTokenPools: answer,
+    getPairsByTokens: answer,
+  };
+}
+
+describe('createFallbackProvider', () => {
+  it('should use the primary provider when it answers', async () => {
+    const primary = makeProvider('dexscreener', [makePair({ pairAddress: 'primary' })]);
+    const fallback = makeProvider('geckoterminal', [makePair({ pairAddress: 'fallback' })]);
+    const provider = createFallbackProvider(primary, fallback);
+
+    const pairs = await provider.listPairsByChain('solana');
+
+    expect(pairs.map(pair => pair.pairAddress)).toEqual(['primary']);
+    expect(fallback.listPairsByChain).not.toHaveBeenCalled();
+  });
+
+  it('should fall back when the primary provider fails', async () => {
+    const primary = makeProvider('dexscreener', new Error('503'));
+    const fallback = makeProvider('geckoterminal', [makePair({ pairAddress: 'fallback' })]);
+    const provider = createFallbackProvider(primary, fallback);
+
+    await expect(provider.getTokenPools('solana', 'base')).resolves.toHaveLength(1);
+    await expect(provider.getPair('solana', 'fallback')).resolves.toMatchObject({
+      pairAddress: 'fallback',
+    });
+  });
+
+  it('should not fall back on an empty answer', async () => {
+    const primary = makeProvider('dexscreener', []);
+    const fallback = makeProvider('geckoterminal', [makePair({ pairAddress: 'fallback' })]);
+    const provider = createFallbackProvider(primary, fallback);
+
+    await expect(provider.searchPairs('SOL')).resolves.toEqual([]);
+    expect(fallback.searchPairs).not.toHaveBeenCalled();
+  });
+
+  it('should not fall back once the request was cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const primary = makeProvider('dexscreener', new Error('aborted'));
+    const fallback = makeProvider('geckoterminal', [makePair({ pairAddress: 'fallback' })]);
+    const provider = createFallbackProvider(primary, fallback);
+
+    await expect(provider.listPairsByChain('solana', controller.signal)).rejects.toThrow('aborted');
+    expect(fallback.listPairsByChain).not.toHaveBeenCalled();
+  });
+
+  it('should return the primary provider when there is no fallback', () => {
+    const primary = makeProvider('dexscreener', []);
+    expect(createFallbackProvider(primary, null)).toBe(primary);
+  });
+});
+
+describe('getMarketDataSettings', () => {
+  beforeEach(() => {
+    storedSettings = undefined;
+  });
+
+  it('should default to DEXscreener with GeckoTerminal as fallback', async () => {
+    await expect(getMarketDataSettings()).resolves.toEqual({
+      primary: 'dexscreener',
+      fallback: 'geckoterminal',
+    });
+  });
+
+  it('should keep a disabled fallback and drop one equal to the primary', async () => {
+    storedSettings = { primary: 'geckoterminal', fallback: null };
+    await expect(getMarketDataSettings()).resolves.toEqual({
+      primary: 'geckoterminal',
+      fallback: null,
+    });
+
+    storedSettings = { primary: 'geckoterminal', fallback: 'geckoterminal' };
+    await expect(getMarketDataSettings()).resolves.toEqual({
+      primary: 'geckoterminal',
+      fallback: null,
+    });
+  });
+
+  it('should replace unknown provider IDs with the defaults', async () => {
+    storedSettings = { primary: 'coinmarketcap', fallback: 'dexscreener' };
+    await expect(getMarketDataSettings()).resolves.toEqual({
+      primary: 'dexscreener',
+      fallback: null,
+    });
+  });
+});
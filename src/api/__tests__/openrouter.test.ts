@@ -8,12 +8,13 @@ import type {
 
 // Mock response holder
 let mockJsonResponse: unknown = null;
+let mockStreamBody: ReadableStream<Uint8Array> | null = null;
 
 // Mock ky
 vi.mock('ky', () => {
   const mockJson = vi.fn(async () => mockJsonResponse);
   const mockGet = vi.fn(() => ({ json: mockJson }));
-  const mockPost = vi.fn(() => ({ json: mockJson }));
+  const mockPost = vi.fn(() => ({ json: mockJson, body: mockStreamBody }));
   const mockCreate = vi.fn(() => ({
     get: mockGet,
     post: mockPost,
@@ -65,6 +66,7 @@ describe('OpenRouter API Integration', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockJsonResponse = null;
+    mockStreamBody = null;
   });
 
   describe('fetchModels', () => {
@@ -234,6 +236,48 @@ describe('OpenRouter API Integration', () => {
     });
   });
 
+  describe('chatCompletionStream', () => {
+    const mockRequest: OpenRouterChatRequest = {
+      model: 'anthropic/claude-3.5-sonnet',
+      messages: [{ role: 'user', content: 'Test' }],
+    };
+
+    it('should request a stream with usage and assemble the reply', async () => {
+      const frames = [
+        'data: {"id":"gen-1","model":"anthropic/claude-3.5-sonnet","choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n',
+        'data: {"id":"gen-1","choices":[],"usage":{"prompt_tokens":10,"completion_tokens":2,"total_tokens":12}}\n\n',
+        'data: [DONE]\n\n',
+      ];
+      mockStreamBody = new ReadableStream({
+        start(controller) {
+          frames.forEach(frame => controller.enqueue(new TextEncoder().encode(frame)));
+          controller.close();
+        },
+      });
+
+      const ky = (await import('ky')).default;
+      const { chatCompletionStream } = await import('../openrouter');
+      const onDelta = vi.fn();
+      const result = await chatCompletionStream(mockRequest, onDelta);
+
+      const client = vi.mocked(ky.create).mock.results[0].value;
+      expect(client.post).toHaveBeenCalledWith('chat/completions', {
+        json: { ...mockRequest, stream: true, usage: { include: true } },
+        signal: undefined,
+      });
+      expect(onDelta).toHaveBeenCalledWith('Hi');
+      expect(result.choices[0].message.content).toBe('Hi');
+      expect(result.usage?.total_tokens).toBe(12);
+    });
+
+    it('should throw when the response has no body', async () => {
+      const { chatCompletionStream } = await import('../openrouter');
+      await expect(chatCompletionStream(mockRequest, vi.fn())).rejects.toThrow(
+        'OpenRouter returned an empty stream'
+      );
+    });
+  });
+
   describe('Rate limiting', () => {
     it('should use rate limiter for fetchModels', async () => {
       mockJsonResponse = { data: [] };
@@ -0,0 +1,339 @@
+// Candidate Pair Selection
+// Fetches pairs from the market data provider (or the launch feeds), then filters and ranks them into scan candidates
+
+import type { DexPair, Timeframe } from '@/types/dexscreener';
+import { DEFAULT_TIMEFRAME } from '@/types/dexscreener';
+import { fetchLaunchPairs, mapChainName } from './dexscreener';
+import { getMarketDataProvider } from './market-data';
+import type { MarketDataProvider } from '@/types/market-data';
+import { getExcludedTokens } from '@/utils/exclusion';
+import { calculateRiskLevel } from '@/utils/risk-assessment';
+import { BALANCED_RISK_PROFILE, type RiskProfile } from '@/types/risk-profile';
+import { findExcludingRule, type CompiledRule } from '@/utils/rule-language';
+import { rankPairs } from '@/utils/ranking-strategies';
+import { DEFAULT_RANKING_STRATEGY, type RankingStrategyId } from '@/types/ranking';
+import { applyPairFilters } from '@/utils/pair-filters';
+import { applyDexVenueFilter } from '@/utils/dex-venues';
+import { aggregateTokenPools, dedupeByBaseToken } from '@/utils/token-pools';
+import { DEFAULT_DISCOVERY_MODE, type DiscoveryMode } from '@/types/discovery';
+import {
+  EMPTY_DEX_VENUE_FILTER,
+  type DexVenueFilter,
+  type PairFilterCounts,
+  type PairFilters,
+} from '@/types/filters';
+
+/**
+ * Filter pairs by age
+ * @param pairs - Array of pairs to filter
+ * @param maxAgeHours - Maximum age in hours (null = no filtering)
+ * @returns Filtered array of pairs
+ */
+function filterPairsByAge(pairs: DexPair[], maxAgeHours: number | null): DexPair[] {
+  if (maxAgeHours === null) {
+    return pairs; // No age filtering
+  }
+
+  const now = Date.now();
+  const maxAgeMs = maxAgeHours * 60 * 60 * 1000;
+
+  const filtered = pairs.filter(pair => {
+    if (!pair.pairCreatedAt) {
+      return false; // Exclude pairs without creation timestamp
+    }
+    const ageMs = now - pair.pairCreatedAt;
+    return ageMs <= maxAgeMs;
+  });
+
+  console.log(
+    `[Candidates] Filtered pairs by age (max ${maxAgeHours}h): ${pairs.length} → ${filtered.length}`
+  );
+
+  return filtered;
+}
+
+/**
+ * Filter pairs by quote token
+ * @param pairs - Array of pairs to filter
+ * @param quoteTokens - Array of allowed quote token symbols (empty = all pairs)
+ * @returns Filtered array of pairs
+ */
+function filterPairsByQuoteToken(pairs: DexPair[], quoteTokens: string[]): DexPair[] {
+  if (!quoteTokens || quoteTokens.length === 0) {
+    return pairs; // No filtering
+  }
+
+  const allowedSymbols = new Set(quoteTokens.map(s => s.toUpperCase()));
+
+  const filtered = pairs.filter(pair => {
+    const quoteSymbol = pair.quoteToken?.symbol?.toUpperCase();
+    return quoteSymbol && allowedSymbols.has(quoteSymbol);
+  });
+
+  console.log(
+    `[Candidates] Filtered pairs by quote tokens (${quoteTokens.join(', ')}): ${pairs.length} → ${filtered.length}`
+  );
+
+  return filtered;
+}
+
+/**
+ * Filter out critical risk pairs (scam/honeypot confirmed)
+ * Prevents sending dangerous tokens to LLM for analysis
+ * @param pairs - Array of pairs to filter
+ * @param riskProfile - Profile to score with; pairs at or above its filterScore are dropped
+ * @returns Filtered array of pairs
+ */
+function filterCriticalRiskPairs(pairs: DexPair[], riskProfile: RiskProfile): DexPair[] {
+  const filtered = pairs.filter(pair => {
+    const { score } = calculateRiskLevel(pair, [], riskProfile);
+    return score < riskProfile.filterScore; // Critical labels alone score 100
+  });
+
+  const removedCount = pairs.length - filtered.length;
+  if (removedCount > 0) {
+    console.log(
+      `[Candidates] Filtered out ${removedCount} critical risk pairs (scam/honeypot labels detected)`
+    );
+  }
+
+  return filtered;
+}
+
+/**
+ * Filter out pairs matched by a user-written exclude rule
+ * @param pairs - Array of pairs to filter
+ * @param rules - Compiled rules (point rules are ignored here)
+ * @returns Filtered array of pairs
+ */
+function filterPairsByRules(pairs: DexPair[], rules: CompiledRule[]): DexPair[] {
+  if (!rules.some(rule => rule.action.kind === 'exclude')) {
+    return pairs;
+  }
+
+  const now = Date.now();
+  const filtered = pairs.filter(pair => !findExcludingRule(pair, rules, now));
+
+  const removedCount = pairs.length - filtered.length;
+  if (removedCount > 0) {
+    console.log(`[Candidates] Filtered out ${removedCount} pairs by exclude rules`);
+  }
+
+  return filtered;
+}
+
+/**
+ * Scan settings that decide which fetched pairs are returned
+ */
+export interface CandidateSelection {
+  maxPairs: number; // Maximum number of tokens to return (default: 20)
+  timeframe: Timeframe; // Timeframe for scoring pairs (default: DEFAULT_TIMEFRAME)
+  pairMaxAge: number | null; // Max pair age in hours (null = all pairs)
+  quoteTokens: string[]; // Allowed quote token symbols (empty = all pairs)
+  riskProfile: RiskProfile; // Profile for critical-risk filtering (default: Balanced)
+  rules: CompiledRule[]; // User-written rules; pairs matching an exclude rule are dropped
+  strategy: RankingStrategyId; // How candidates are ranked before the top N are kept (default: momentum)
+  filters: PairFilters; // Numeric pre-filters (liquidity, volume, market cap, FDV, ...)
+  dexVenues: DexVenueFilter; // DEX venues (dexId) to allow or deny (empty lists = all venues)
+}
+
+/**
+ * Options for fetchPairsByChain; unset selection fields use the defaults
+ */
+export interface ChainScanOptions extends Partial<CandidateSelection> {
+  discovery?: DiscoveryMode; // Hot pairs on the chain or the launch feeds (default: hot pairs)
+  signal?: AbortSignal; // Cancels queued and in-flight requests
+}
+
+/**
+ * Candidates of one chain scan, with what the filters saw and removed
+ */
+export interface ChainScanResult {
+  pairs: DexPair[];
+  filterCounts: PairFilterCounts; // Pairs each candidate filter removed (only filters that removed some)
+  seenDexIds: Set<string>; // dexIds of every fetched pair, before filtering
+}
+
+/**
+ * Filter, rank and cut fetched pairs down to the top N
+ * Venue and numeric pre-filters run before ranking so strategies only score eligible pairs.
+ */
+async function selectCandidates(
+  pairs: DexPair[],
+  apiChainId: string,
+  selection: CandidateSelection
+): Promise<ChainScanResult> {
+  const { timeframe, riskProfile, rules } = selection;
+  const filterCounts: PairFilterCounts = {};
+
+  // Record every venue fetched, so the form can offer venues the filter currently hides
+  const seenDexIds = new Set<string>();
+  for (const pair of pairs) {
+    if (pair.dexId) seenDexIds.add(pair.dexId);
+  }
+
+  // DEX venue allow/deny lists (by dexId)
+  const { pairs: venueFiltered, removed: venueRemoved } = applyDexVenueFilter(
+    pairs,
+    selection.dexVenues
+  );
+  if (venueRemoved > 0) {
+    filterCounts.dex = venueRemoved;
+  }
+
+  // Numeric pre-filters (liquidity, volume, market cap, FDV, FDV/MC, transactions)
+  const { pairs: numericFiltered, removed } = applyPairFilters(
+    venueFiltered,
+    selection.filters,
+    timeframe
+  );
+  Object.assign(filterCounts, removed);
+
+  // Rank by the selected strategy (see utils/ranking-strategies.ts)
+  const sorted = rankPairs(numericFiltered, selection.strategy, { timeframe, riskProfile, rules });
+
+  // Filter by pair age (if specified)
+  const ageFiltered = filterPairsByAge(sorted, selection.pairMaxAge);
+  if (ageFiltered.length < sorted.length) {
+    filterCounts.pairAge = sorted.length - ageFiltered.length;
+  }
+
+  // Filter by quote token (if specified)
+  const quoteFiltered = filterPairsByQuoteToken(ageFiltered, selection.quoteTokens);
+  if (quoteFiltered.length < ageFiltered.length) {
+    filterCounts.quoteToken = ageFiltered.length - quoteFiltered.length;
+  }
+
+  // Filter out critical risk pairs (confirmed scam/honeypot, or above the profile's filter score)
+  const safeFiltered = filterPairsByRules(
+    filterCriticalRiskPairs(quoteFiltered, riskProfile),
+    rules
+  );
+
+  // Filter out excluded tokens (checks baseToken.address)
+  const excludedTokens = await getExcludedTokens(apiChainId);
+  const excludedAddresses = new Set(excludedTokens.map(t => t.tokenAddress.toLowerCase()));
+
+  const filtered = safeFiltered.filter(
+    pair => !excludedAddresses.has(pair.baseToken?.address?.toLowerCase() || '')
+  );
+
+  if (excludedAddresses.size > 0) {
+    console.log(
+      `[Candidates] Filtered out ${quoteFiltered.length - filtered.length} pairs with excluded tokens for ${apiChainId}`
+    );
+  }
+
+  // One candidate per base token (its best ranked pair); pools are merged after selection
+  const tokens = dedupeByBaseToken(filtered);
+  if (tokens.length < filtered.length) {
+    console.log(
+      `[Candidates] Merged ${filtered.length - tokens.length} pairs of repeated base tokens`
+    );
+  }
+
+  // Return top N tokens (after exclusion)
+  return { pairs: tokens.slice(0, selection.maxPairs), filterCounts, seenDexIds };
+}
+
+/**
+ * Filter fetched pools with the same per-pair filters candidates go through
+ * Nothing is counted or recorded, and excluded tokens need no check: every pool shares
+ * its candidate's base token.
+ */
+function filterEligiblePools(pools: DexPair[], selection: CandidateSelection): DexPair[] {
+  const { timeframe, riskProfile, rules } = selection;
+
+  const { pairs: venueFiltered } = applyDexVenueFilter(pools, selection.dexVenues);
+  const { pairs: numericFiltered } = applyPairFilters(venueFiltered, selection.filters, timeframe);
+  const ageFiltered = filterPairsByAge(numericFiltered, selection.pairMaxAge);
+  const quoteFiltered = filterPairsByQuoteToken(ageFiltered, selection.quoteTokens);
+
+  return filterPairsByRules(filterCriticalRiskPairs(quoteFiltered, riskProfile), rules);
+}
+
+/**
+ * Replace each candidate with its token's deepest eligible pool and attach totals across all pools
+ * A failed pool lookup keeps the candidate as the only pool of its token.
+ */
+async function withTokenPools(
+  provider: MarketDataProvider,
+  candidates: DexPair[],
+  apiChainId: string,
+  selection: CandidateSelection,
+  signal?: AbortSignal
+): Promise<DexPair[]> {
+  const tokenAddresses = [
+    ...new Set(candidates.map(pair => pair.baseToken?.address).filter(Boolean)),
+  ] as string[];
+
+  const poolsByToken = new Map<string, DexPair[]>();
+  await Promise.all(
+    tokenAddresses.map(async address => {
+      try {
+        poolsByToken.set(
+          address.toLowerCase(),
+          await provider.getTokenPools(apiChainId, address, signal)
+        );
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn(`[Candidates] Failed to fetch pools for token ${address}:`, error);
+      }
+    })
+  );
+
+  const eligible = new Set(filterEligiblePools([...poolsByToken.values()].flat(), selection));
+  return aggregateTokenPools(candidates, poolsByToken, pool => eligible.has(pool));
+}
+
+/**
+ * Fetch token pairs by chain
+ * Lists the chain's pairs from the selected market data provider (with its fallback),
+ * or uses the DEXscreener launch feeds in newLaunches mode.
+ * Filters and ranking pick tokens; each token is returned as its deepest pool that passes
+ * the same filters, with totals across all of its pools in `tokenPools`.
+ *
+ * @param chain - Chain name (e.g., 'solana', 'ethereum', 'bsc')
+ * @param options - Scan settings, discovery mode and abort signal (unset fields use the defaults)
+ * @returns One pair per token (its deepest eligible pool), with filter counts and seen dexIds
+ */
+export async function fetchPairsByChain(
+  chain: string,
+  options: ChainScanOptions = {}
+): Promise<ChainScanResult> {
+  const { discovery = DEFAULT_DISCOVERY_MODE, signal } = options;
+  const selection: CandidateSelection = {
+    maxPairs: options.maxPairs ?? 20,
+    timeframe: options.timeframe ?? DEFAULT_TIMEFRAME,
+    pairMaxAge: options.pairMaxAge ?? null,
+    quoteTokens: options.quoteTokens ?? [],
+    riskProfile: options.riskProfile ?? BALANCED_RISK_PROFILE,
+    rules: options.rules ?? [],
+    strategy: options.strategy ?? DEFAULT_RANKING_STRATEGY,
+    filters: options.filters ?? {},
+    dexVenues: options.dexVenues ?? EMPTY_DEX_VENUE_FILTER,
+  };
+
+  // Map chain name to DEXscreener API chain ID
+  const apiChainId = mapChainName(chain);
+
+  if (discovery === 'newLaunches') {
+    // Launch feeds exist only on DEXscreener; pools still come from the selected provider
+    const launchPairs = await fetchLaunchPairs(apiChainId, signal);
+    const scan = await selectCandidates(launchPairs, apiChainId, selection);
+    const provider = await getMarketDataProvider();
+    return {
+      ...scan,
+      pairs: await withTokenPools(provider, scan.pairs, apiChainId, selection, signal),
+    };
+  }
+
+  const provider = await getMarketDataProvider();
+  const pairs = await provider.listPairsByChain(chain, signal);
+  const scan = await selectCandidates(pairs, apiChainId, selection);
+
+  return {
+    ...scan,
+    pairs: await withTokenPools(provider, scan.pairs, apiChainId, selection, signal),
+  };
+}
@@ -0,0 +1,87 @@
+// Chat Completion Stream Reader
+// Assembles an OpenAI-format SSE chat completion stream (OpenRouter and local servers)
+
+import type { OpenRouterChatChunk, OpenRouterChatResponse } from '@/types/openrouter';
+
+/**
+ * Read a streamed chat completion
+ * Content deltas are reported as they arrive; the assembled response is returned at the end.
+ *
+ * @param body - Response body of a `stream: true` chat completion request
+ * @param model - Requested model (used until the stream reports one)
+ * @param onDelta - Called with each content delta
+ * @param provider - Provider name for error messages
+ * @returns Chat completion response assembled from the stream
+ */
+export async function readChatCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  model: string,
+  onDelta: (delta: string) => void,
+  provider: string
+): Promise<OpenRouterChatResponse> {
+  const result: OpenRouterChatResponse = {
+    id: '',
+    model,
+    created: 0,
+    object: 'chat.completion',
+    choices: [{ index: 0, message: { role: 'assistant', content: '' }, finish_reason: null }],
+  };
+  const choice = result.choices[0];
+
+  await readSSE(body, data => {
+    if (data === '[DONE]') return;
+
+    const chunk = JSON.parse(data) as OpenRouterChatChunk;
+    if (chunk.error) {
+      throw new Error(`${provider} stream error: ${chunk.error.message}`);
+    }
+
+    result.id = chunk.id || result.id;
+    result.model = chunk.model || result.model;
+    result.created = chunk.created || result.created;
+    if (chunk.usage) result.usage = chunk.usage;
+
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      choice.message.content += delta;
+      onDelta(delta);
+    }
+    choice.finish_reason = chunk.choices?.[0]?.finish_reason ?? choice.finish_reason;
+  });
+
+  return result;
+}
+
+/**
+ * Read a Server-Sent Events stream
+ * Calls onData with the payload of each `data:` field. Comment lines
+ * (e.g. ": OPENROUTER PROCESSING") are ignored.
+ */
+async function readSSE(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          onData(line.slice(5).trim());
+        }
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -2,13 +2,18 @@
 // Handles all DEXscreener API requests with caching, rate limiting, and retry logic
 
 import ky from 'ky';
-import type { DexPair, DexPairsResponse, Timeframe } from '@/types/dexscreener';
-import { DEFAULT_TIMEFRAME } from '@/types/dexscreener';
+import type {
+  DexPair,
+  DexPairsResponse,
+  DexScreenerTokenBoost,
+  DexScreenerTokenPairsResponse,
+  DexScreenerTokenProfile,
+} from '@/types/dexscreener';
+import type { MarketDataProvider } from '@/types/market-data';
 import { dexLimiter } from '@/background/utils/rate-limiter';
 import { retryWithBackoff } from '@/background/utils/retry-helper';
 import { STORAGE_KEYS } from '@/types/storage';
-import { getExcludedTokens } from '@/utils/exclusion';
-import { calculateRiskLevel } from '@/utils/risk-assessment';
+import { attachPromotions, combineLaunchFeeds } from '@/utils/launch-feeds';
 
 const DEX_API_BASE = 'https://api.dexscreener.com/latest/dex';
 
@@ -16,7 +21,7 @@ const DEX_API_BASE = 'https://api.dexscreener.com/latest/dex';
  * Map user-facing chain names to DEXscreener API chain IDs
  * Some chains have different names in the API vs. what users expect
  */
-function mapChainName(chain: string): string {
+export function mapChainName(chain: string): string {
   const chainMap: Record<string, string> = {
     // No mapping needed for polygon - it exists as 'polygon' in DEXscreener (Polygon PoS)
     // polygonzkevm is a separate chain
@@ -47,156 +52,6 @@ async function createDexClient() {
   });
 }
 
-/**
- * Calculate buy/sell pressure score
- * Higher score indicates stronger buy pressure
- */
-function calculateBuySellPressure(pair: DexPair, timeframe: Timeframe): number {
-  const txns = pair.txns?.[timeframe];
-  if (!txns || (txns.buys === 0 && txns.sells === 0)) return 0;
-
-  const total = txns.buys + txns.sells;
-  const buyRatio = txns.buys / total;
-
-  // Score from -1 (all sells) to +1 (all buys)
-  return (buyRatio - 0.5) * 2;
-}
-
-/**
- * Calculate volume acceleration across timeframes
- * Measures if volume is increasing over time
- */
-function calculateVolumeAcceleration(pair: DexPair): number {
-  const m5Vol = pair.volume?.m5 || 0;
-  const h1Vol = pair.volume?.h1 || 0;
-  const h6Vol = pair.volume?.h6 || 0;
-
-  if (m5Vol === 0 || h1Vol === 0 || h6Vol === 0) return 0;
-
-  // Calculate velocity (rate of change)
-  // Positive = accelerating, Negative = decelerating
-  const shortTerm = (m5Vol * 12 - h1Vol) / (h1Vol + 1); // m5 to h1 velocity
-  const midTerm = (h1Vol * 6 - h6Vol) / (h6Vol + 1); // h1 to h6 velocity
-
-  // Average velocity, normalized
-  return (shortTerm + midTerm) / 2;
-}
-
-/**
- * Calculate liquidity health ratio
- * Healthy tokens have liquidity proportional to market cap
- */
-function calculateLiquidityHealthRatio(pair: DexPair): number {
-  const liquidity = pair.liquidity?.usd || 0;
-  const marketCap = pair.marketCap || 0;
-
-  if (marketCap === 0) return 0;
-
-  // Ideal ratio is 5-15% (healthy)
-  const ratio = liquidity / marketCap;
-
-  // Score: 1.0 for ideal range, lower for extremes
-  if (ratio >= 0.05 && ratio <= 0.15) return 1.0;
-  if (ratio < 0.05) return ratio / 0.05; // 0 to 1.0
-  if (ratio > 0.15) return Math.max(0, 1.0 - (ratio - 0.15) * 2); // 1.0 to 0
-
-  return 0;
-}
-
-/**
- * Calculate trend consistency across timeframes
- * Higher score = more consistent trend
- */
-function calculateTrendConsistency(pair: DexPair): number {
-  const m5 = pair.priceChange?.m5 || 0;
-  const h1 = pair.priceChange?.h1 || 0;
-  const h6 = pair.priceChange?.h6 || 0;
-  const h24 = pair.priceChange?.h24 || 0;
-
-  // Check if all timeframes have same direction
-  const signs = [Math.sign(m5), Math.sign(h1), Math.sign(h6), Math.sign(h24)];
-  const positiveCount = signs.filter(s => s > 0).length;
-  const negativeCount = signs.filter(s => s < 0).length;
-
-  // All same direction = 1.0, mixed = 0.0
-  const directionScore = Math.max(positiveCount, negativeCount) / 4;
-
-  // Calculate magnitude consistency (variance)
-  const changes = [m5, h1, h6, h24].filter(c => c !== 0);
-  if (changes.length === 0) return 0;
-
-  const mean = changes.reduce((a, b) => Math.abs(a) + Math.abs(b), 0) / changes.length;
-  const variance =
-    changes.reduce((acc, c) => acc + Math.pow(Math.abs(c) - mean, 2), 0) / changes.length;
-  const magnitudeScore = 1 / (1 + variance / 100); // Lower variance = higher score
-
-  return directionScore * 0.7 + magnitudeScore * 0.3;
-}
-
-/**
- * Calculate risk penalty based on labels and pair age
- * Returns a multiplier (0-1): 1 = no risk, 0 = extreme risk
- */
-function calculateRiskAdjustment(pair: DexPair): number {
-  let riskMultiplier = 1.0;
-
-  // Label-based risk
-  const labels = pair.labels || [];
-  if (labels.some(l => l.toLowerCase().includes('scam'))) return 0; // Exclude scams
-  if (labels.some(l => l.toLowerCase().includes('honeypot'))) return 0; // Exclude honeypots
-  if (labels.some(l => l.toLowerCase().includes('top'))) riskMultiplier *= 1.2; // Boost trusted
-  if (labels.some(l => l.toLowerCase().includes('verified'))) riskMultiplier *= 1.15;
-
-  // Age-based risk (newer = riskier)
-  if (pair.pairCreatedAt) {
-    const ageMs = Date.now() - pair.pairCreatedAt;
-    const ageHours = ageMs / (1000 * 60 * 60);
-
-    if (ageHours < 1)
-      riskMultiplier *= 0.3; // Very new = very risky
-    else if (ageHours < 24)
-      riskMultiplier *= 0.6; // Less than 1 day
-    else if (ageHours < 168) riskMultiplier *= 0.8; // Less than 1 week
-    // Older than 1 week = no penalty
-  }
-
-  return Math.min(riskMultiplier, 1.0); // Cap at 1.0
-}
-
-/**
- * Calculate advanced momentum score
- * Combines multiple factors for comprehensive scoring
- */
-function calculateAdvancedMomentumScore(pair: DexPair, timeframe: Timeframe): number {
-  const priceChange = pair.priceChange?.[timeframe] || 0;
-  const volume = pair.volume?.[timeframe] || 0;
-  const liquidity = pair.liquidity?.usd || 0;
-
-  // Base score components
-  const priceScore = Math.abs(priceChange) * 10; // Price change magnitude
-  const volumeScore = Math.log10(volume + 1) * 2; // Volume (log scale)
-  const liquidityBonus = liquidity > 10000 ? 5 : 0; // Minimum liquidity threshold
-
-  // Advanced components
-  const buySellPressure = calculateBuySellPressure(pair, timeframe);
-  const volumeAccel = calculateVolumeAcceleration(pair);
-  const liquidityHealth = calculateLiquidityHealthRatio(pair);
-  const trendConsistency = calculateTrendConsistency(pair);
-  const riskAdjustment = calculateRiskAdjustment(pair);
-
-  // Weighted combination
-  const baseScore = priceScore + volumeScore + liquidityBonus;
-  const advancedBonus =
-    buySellPressure * 15 + // Buy pressure is highly valuable
-    volumeAccel * 10 + // Volume acceleration indicates momentum
-    liquidityHealth * 5 + // Healthy liquidity structure
-    trendConsistency * 8; // Consistent trends are more reliable
-
-  const finalScore = (baseScore + advancedBonus) * riskAdjustment;
-
-  return finalScore;
-}
-
 /**
  * Get popular search queries for each chain
  */
@@ -211,139 +66,142 @@ const CHAIN_POPULAR_QUERIES: Record<string, string[]> = {
 };
 
 /**
- * Filter pairs by age
- * @param pairs - Array of pairs to filter
- * @param maxAgeHours - Maximum age in hours (null = no filtering)
- * @returns Filtered array of pairs
+ * Fetch a token feed (profiles or boosts, all chains)
+ * Not queued through dexLimiter; callers outside a limiter slot must queue it themselves.
+ *
+ * @param path - Feed path (e.g., 'token-boosts/top/v1')
+ * @param signal - Optional abort signal for cancellation
+ * @returns Feed entries (empty if the response is not a list)
  */
-function filterPairsByAge(pairs: DexPair[], maxAgeHours: number | null): DexPair[] {
-  if (maxAgeHours === null) {
-    return pairs; // No age filtering
-  }
-
-  const now = Date.now();
-  const maxAgeMs = maxAgeHours * 60 * 60 * 1000;
-
-  const filtered = pairs.filter(pair => {
-    if (!pair.pairCreatedAt) {
-      return false; // Exclude pairs without creation timestamp
-    }
-    const ageMs = now - pair.pairCreatedAt;
-    return ageMs <= maxAgeMs;
-  });
-
-  console.log(
-    `[DEX API] Filtered pairs by age (max ${maxAgeHours}h): ${pairs.length} → ${filtered.length}`
+async function fetchTokenFeed<T>(path: string, signal?: AbortSignal): Promise<T[]> {
+  const client = await createDexClient();
+  const response = await retryWithBackoff(
+    () =>
+      client
+        .get(`https://api.dexscreener.com/${path}`, {
+          prefixUrl: '', // Override prefixUrl to use full URL
+          signal,
+        })
+        .json<T[]>(),
+    { maxAttempts: 2, signal }
   );
 
-  return filtered;
+  return Array.isArray(response) ? response : [];
 }
 
 /**
- * Filter pairs by quote token
- * @param pairs - Array of pairs to filter
- * @param quoteTokens - Array of allowed quote token symbols (empty = all pairs)
- * @returns Filtered array of pairs
+ * Fetch boosted tokens (tokens with active boosts)
+ * These are typically trending/promoted tokens
+ *
+ * @param chain - Chain name to filter by
+ * @param signal - Optional abort signal for cancellation
+ * @returns Array of token addresses
  */
-function filterPairsByQuoteToken(pairs: DexPair[], quoteTokens: string[]): DexPair[] {
-  if (!quoteTokens || quoteTokens.length === 0) {
-    return pairs; // No filtering
-  }
-
-  const allowedSymbols = new Set(quoteTokens.map(s => s.toUpperCase()));
-
-  const filtered = pairs.filter(pair => {
-    const quoteSymbol = pair.quoteToken?.symbol?.toUpperCase();
-    return quoteSymbol && allowedSymbols.has(quoteSymbol);
-  });
-
-  console.log(
-    `[DEX API] Filtered pairs by quote tokens (${quoteTokens.join(', ')}): ${pairs.length} → ${filtered.length}`
-  );
+async function fetchBoostedTokens(chain: string, signal?: AbortSignal): Promise<string[]> {
+  try {
+    const response = await fetchTokenFeed<DexScreenerTokenBoost>('token-boosts/top/v1', signal);
 
-  return filtered;
+    // Filter by chain and return token addresses
+    return response
+      .filter(boost => boost.chainId?.toLowerCase() === chain.toLowerCase())
+      .map(boost => boost.tokenAddress)
+      .slice(0, 10); // Top 10 boosted tokens
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('[DEX API] Failed to fetch boosted tokens:', error);
+    return [];
+  }
 }
 
 /**
- * Filter out critical risk pairs (scam/honeypot confirmed)
- * Prevents sending dangerous tokens to LLM for analysis
- * @param pairs - Array of pairs to filter
- * @returns Filtered array of pairs (riskScore < 100 only)
+ * Fetch pairs of newly listed and promoted tokens on a chain
+ * Combines the token profile, latest boost and top boost feeds, then resolves the tokens
+ * to pairs in batches. Each pair carries the token's paid promotion marker.
+ *
+ * @param apiChainId - DEXscreener chain ID
+ * @param signal - Optional abort signal; cancels queued and in-flight requests
+ * @returns Pairs whose base token appeared in any of the feeds
  */
-function filterCriticalRiskPairs(pairs: DexPair[]): DexPair[] {
-  const filtered = pairs.filter(pair => {
-    const { score } = calculateRiskLevel(pair);
-    return score < 100; // Exclude riskScore=100 (confirmed scam/honeypot)
-  });
-
-  const removedCount = pairs.length - filtered.length;
-  if (removedCount > 0) {
-    console.log(
-      `[DEX API] Filtered out ${removedCount} critical risk pairs (scam/honeypot labels detected)`
-    );
-  }
+export async function fetchLaunchPairs(
+  apiChainId: string,
+  signal?: AbortSignal
+): Promise<DexPair[]> {
+  // A failed feed only narrows the launch set
+  const fetchFeed = <T>(path: string) =>
+    dexLimiter
+      .execute(() => fetchTokenFeed<T>(path, signal), signal)
+      .catch(error => {
+        if (signal?.aborted) throw error;
+        console.warn(`[DEX API] Failed to fetch ${path}:`, error);
+        return [] as T[];
+      });
+
+  const [profiles, latestBoosts, topBoosts] = await Promise.all([
+    fetchFeed<DexScreenerTokenProfile>('token-profiles/latest/v1'),
+    fetchFeed<DexScreenerTokenBoost>('token-boosts/latest/v1'),
+    fetchFeed<DexScreenerTokenBoost>('token-boosts/top/v1'),
+  ]);
+
+  const launches = combineLaunchFeeds(apiChainId, profiles, latestBoosts, topBoosts);
+  console.log(`[DEX API] Launch feeds listed ${launches.size} tokens on ${apiChainId}`);
+  if (launches.size === 0) return [];
+
+  const pairs = await fetchPairsByTokens(
+    apiChainId,
+    [...launches.values()].map(launch => launch.tokenAddress),
+    signal
+  );
 
-  return filtered;
+  return attachPromotions(pairs, launches);
 }
 
 /**
- * Fetch boosted tokens (tokens with active boosts)
- * These are typically trending/promoted tokens
+ * Fetch every pool of a token on one chain
  *
- * @param chain - Chain name to filter by
- * @returns Array of token addresses
+ * @param chainId - Chain ID (e.g., 'solana')
+ * @param tokenAddress - Token contract address
+ * @param signal - Optional abort signal; cancels queued and in-flight requests
+ * @returns Pairs of the token
  */
-async function fetchBoostedTokens(chain: string): Promise<string[]> {
-  try {
+export async function fetchTokenPools(
+  chainId: string,
+  tokenAddress: string,
+  signal?: AbortSignal
+): Promise<DexPair[]> {
+  return dexLimiter.execute(async () => {
     const client = await createDexClient();
     const response = await retryWithBackoff(
       () =>
         client
-          .get('https://api.dexscreener.com/token-boosts/top/v1', {
-            prefixUrl: '', // Override prefixUrl to use full URL
-          })
-          .json<
-            Array<{
-              chainId: string;
-              tokenAddress: string;
-              amount: number;
-            }>
-          >(),
-      { maxAttempts: 2 }
+          .get(
+            `https://api.dexscreener.com/token-pairs/v1/${mapChainName(chainId)}/${encodeURIComponent(tokenAddress)}`,
+            {
+              prefixUrl: '', // Override prefixUrl to use full URL
+              signal,
+            }
+          )
+          .json<DexPair[] | DexScreenerTokenPairsResponse>(),
+      { maxAttempts: 2, signal }
     );
 
-    // Filter by chain and return token addresses
-    return response
-      .filter(boost => boost.chainId?.toLowerCase() === chain.toLowerCase())
-      .map(boost => boost.tokenAddress)
-      .slice(0, 10); // Top 10 boosted tokens
-  } catch (error) {
-    console.warn('[DEX API] Failed to fetch boosted tokens:', error);
-    return [];
-  }
+    return Array.isArray(response) ? response : response.pairs || [];
+  }, signal);
 }
 
 /**
- * Fetch token pairs by chain
- * Uses search API + boosted tokens to find hot pairs on the chain
+ * List pairs on a chain
+ * Tries the pairs endpoint first, then searches boosted tokens and popular queries.
+ * Throws when the direct fetch and every search failed (an empty chain returns no pairs).
  *
  * @param chain - Chain name (e.g., 'solana', 'ethereum', 'bsc')
- * @param maxPairs - Maximum number of pairs to return (default: 20)
- * @param timeframe - Timeframe for scoring pairs (default: DEFAULT_TIMEFRAME)
- * @param pairMaxAge - Max pair age in hours (null = all pairs)
- * @param quoteTokens - Array of allowed quote token symbols (empty = all pairs)
- * @returns Array of token pairs
+ * @param signal - Optional abort signal; cancels queued and in-flight requests
+ * @returns Unfiltered pairs on the chain
  */
-export async function fetchPairsByChain(
-  chain: string,
-  maxPairs: number = 20,
-  timeframe: Timeframe = DEFAULT_TIMEFRAME,
-  pairMaxAge: number | null = null,
-  quoteTokens: string[] = []
-): Promise<DexPair[]> {
+async function listChainPairs(chain: string, signal?: AbortSignal): Promise<DexPair[]> {
+  // Map chain name to DEXscreener API chain ID
+  const apiChainId = mapChainName(chain);
+
   return dexLimiter.execute(async () => {
-    // Map chain name to DEXscreener API chain ID
-    const apiChainId = mapChainName(chain);
     console.log(
       `[DEX API] Fetching pairs for ${chain}${chain !== apiChainId ? ` (mapped to ${apiChainId})` : ''}`
     );
@@ -351,50 +209,22 @@ export async function fetchPairsByChain(
     const client = await createDexClient();
 
     // Try fetching pairs directly by chain ID first
+    let directError: unknown = null;
     try {
       console.log(`[DEX API] Trying direct fetch: pairs/${apiChainId}`);
       const directResponse = await retryWithBackoff(
-        () => client.get(`pairs/${apiChainId}`).json<DexPairsResponse>(),
-        { maxAttempts: 2 }
+        () => client.get(`pairs/${apiChainId}`, { signal }).json<DexPairsResponse>(),
+        { maxAttempts: 2, signal }
       );
 
       if (directResponse.pairs && directResponse.pairs.length > 0) {
         console.log(`[DEX API] Direct fetch returned ${directResponse.pairs.length} pairs`);
 
-        // Calculate advanced momentum scores and return top pairs
-        const pairsWithScore = directResponse.pairs.map(pair => {
-          const momentumScore = calculateAdvancedMomentumScore(pair, timeframe);
-          return { pair, score: momentumScore };
-        });
-
-        const sorted = pairsWithScore.sort((a, b) => b.score - a.score).map(item => item.pair);
-
-        // Filter by pair age (if specified)
-        const ageFiltered = filterPairsByAge(sorted, pairMaxAge);
-
-        // Filter by quote token (if specified)
-        const quoteFiltered = filterPairsByQuoteToken(ageFiltered, quoteTokens);
-
-        // Filter out critical risk pairs (riskScore=100 = confirmed scam/honeypot)
-        const safeFiltered = filterCriticalRiskPairs(quoteFiltered);
-
-        // Filter out excluded tokens (checks baseToken.address)
-        const excludedTokens = await getExcludedTokens(apiChainId);
-        const excludedAddresses = new Set(excludedTokens.map(t => t.tokenAddress.toLowerCase()));
-
-        const filtered = safeFiltered.filter(
-          pair => !excludedAddresses.has(pair.baseToken?.address?.toLowerCase() || '')
-        );
-
-        if (excludedAddresses.size > 0) {
-          console.log(
-            `[DEX API] Filtered out ${quoteFiltered.length - filtered.length} pairs with excluded tokens for ${apiChainId}`
-          );
-        }
-
-        return filtered.slice(0, maxPairs);
+        return directResponse.pairs;
       }
     } catch (error) {
+      if (signal?.aborted) throw error;
+      directError = error;
       console.warn(
         `[DEX API] Direct fetch failed for ${apiChainId}, falling back to search:`,
         error
@@ -403,7 +233,7 @@ export async function fetchPairsByChain(
 
     // Fallback: Use search-based approach
     // Strategy 1: Fetch boosted tokens (trending/promoted)
-    const boostedTokens = await fetchBoostedTokens(apiChainId);
+    const boostedTokens = await fetchBoostedTokens(apiChainId, signal);
     console.log(`[DEX API] Found ${boostedTokens.length} boosted tokens for ${apiChainId}`);
 
     // Strategy 2: Get popular token queries for this chain
@@ -424,12 +254,16 @@ export async function fetchPairsByChain(
     const seenPairs = new Set<string>();
 
     // Parallel API calls with Promise.all to reduce total request time
+    let failedSearches = 0;
     const searchResults = await Promise.all(
       searchTargets.map(async target => {
         try {
           const response = await retryWithBackoff(
-            () => client.get(`search?q=${encodeURIComponent(target)}`).json<DexPairsResponse>(),
-            { maxAttempts: 2 }
+            () =>
+              client
+                .get(`search?q=${encodeURIComponent(target)}`, { signal })
+                .json<DexPairsResponse>(),
+            { maxAttempts: 2, signal }
           );
 
           // Filter pairs from this chain (use mapped API chain ID)
@@ -443,7 +277,9 @@ export async function fetchPairsByChain(
 
           return chainPairs;
         } catch (error) {
+          if (signal?.aborted) throw error;
           console.warn(`[DEX API] Failed to fetch pairs for target "${target}":`, error);
+          failedSearches++;
           return [];
         }
       })
@@ -459,92 +295,125 @@ export async function fetchPairsByChain(
 
     console.log(`[DEX API] Total unique pairs collected for ${apiChainId}: ${allPairs.length}`);
 
-    // Calculate advanced momentum score for each pair
-    // Combines: price change, volume, liquidity, buy pressure, trend consistency, and risk
-    const pairsWithScore = allPairs.map(pair => {
-      const momentumScore = calculateAdvancedMomentumScore(pair, timeframe);
-      return { pair, score: momentumScore };
-    });
-
-    // Sort by momentum score (descending)
-    const sorted = pairsWithScore.sort((a, b) => b.score - a.score).map(item => item.pair);
-
-    // Filter by pair age (if specified)
-    const ageFiltered = filterPairsByAge(sorted, pairMaxAge);
-
-    // Filter by quote token (if specified)
-    const quoteFiltered = filterPairsByQuoteToken(ageFiltered, quoteTokens);
-
-    // Filter out critical risk pairs (riskScore=100 = confirmed scam/honeypot)
-    const safeFiltered = filterCriticalRiskPairs(quoteFiltered);
-
-    // Filter out excluded tokens (checks baseToken.address)
-    const excludedTokens = await getExcludedTokens(apiChainId);
-    const excludedAddresses = new Set(excludedTokens.map(t => t.tokenAddress.toLowerCase()));
-
-    const filtered = safeFiltered.filter(
-      pair => !excludedAddresses.has(pair.baseToken?.address?.toLowerCase() || '')
-    );
-
-    if (excludedAddresses.size > 0) {
-      console.log(
-        `[DEX API] Filtered out ${quoteFiltered.length - filtered.length} pairs with excluded tokens for ${apiChainId}`
-      );
+    // Nothing answered: let the caller fall back to another provider
+    if (directError && failedSearches === searchTargets.length) {
+      throw directError;
     }
 
-    // Return top N pairs (after exclusion)
-    return filtered.slice(0, maxPairs);
-  });
+    return allPairs;
+  }, signal);
 }
 
 /**
  * Fetch specific token pair by address
  *
  * @param pairAddress - Pair contract address
- * @returns Token pair data
+ * @param chainId - Chain ID (e.g., 'solana'); the API resolves pairs per chain
+ * @param signal - Optional abort signal; cancels queued and in-flight requests
+ * @returns Token pair data (null if the pair is unknown); throws when the request fails
  */
-export async function fetchPairByAddress(pairAddress: string): Promise<DexPair | null> {
+export async function fetchPairByAddress(
+  pairAddress: string,
+  chainId?: string,
+  signal?: AbortSignal
+): Promise<DexPair | null> {
   return dexLimiter.execute(async () => {
     console.log(`[DEX API] Fetching pair ${pairAddress}`);
 
     const client = await createDexClient();
+    const path = chainId ? `pairs/${mapChainName(chainId)}/${pairAddress}` : `pairs/${pairAddress}`;
 
-    try {
-      const response = await retryWithBackoff(
-        () => client.get(`pairs/${pairAddress}`).json<DexPairsResponse>(),
-        { maxAttempts: 3 }
-      );
+    const response = await retryWithBackoff(
+      () => client.get(path, { signal }).json<DexPairsResponse>(),
+      { maxAttempts: 3, signal }
+    );
 
-      return response.pairs?.[0] || null;
-    } catch (error) {
-      console.error(`[DEX API] Failed to fetch pair ${pairAddress}:`, error);
-      return null;
-    }
-  });
+    return response.pairs?.[0] || null;
+  }, signal);
+}
+
+/**
+ * Maximum token addresses per /tokens/v1 request (API limit)
+ */
+const TOKENS_PER_REQUEST = 30;
+
+/**
+ * Fetch all pairs of the given tokens on one chain
+ * Addresses are sent in batches of TOKENS_PER_REQUEST, each batch queued through dexLimiter.
+ *
+ * @param chainId - Chain ID (e.g., 'solana')
+ * @param tokenAddresses - Token contract addresses
+ * @param signal - Optional abort signal; cancels queued and in-flight requests
+ * @returns Pairs containing any of the tokens (as base or quote token)
+ */
+export async function fetchPairsByTokens(
+  chainId: string,
+  tokenAddresses: string[],
+  signal?: AbortSignal
+): Promise<DexPair[]> {
+  const batches: string[][] = [];
+  for (let i = 0; i < tokenAddresses.length; i += TOKENS_PER_REQUEST) {
+    batches.push(tokenAddresses.slice(i, i + TOKENS_PER_REQUEST));
+  }
+
+  const results = await Promise.all(
+    batches.map(batch =>
+      dexLimiter.execute(async () => {
+        console.log(`[DEX API] Fetching ${batch.length} tokens on ${chainId}`);
+
+        const client = await createDexClient();
+        const response = await retryWithBackoff(
+          () =>
+            client
+              .get(
+                `https://api.dexscreener.com/tokens/v1/${mapChainName(chainId)}/${batch.map(encodeURIComponent).join(',')}`,
+                {
+                  prefixUrl: '', // Override prefixUrl to use full URL
+                  signal,
+                }
+              )
+              .json<DexPair[]>(),
+          { maxAttempts: 3, signal }
+        );
+
+        return Array.isArray(response) ? response : [];
+      }, signal)
+    )
+  );
+
+  return results.flat();
 }
 
 /**
  * Search token pairs by query
  *
  * @param query - Search query (token symbol, name, or address)
- * @returns Array of matching pairs
+ * @param signal - Optional abort signal; cancels queued and in-flight requests
+ * @returns Array of matching pairs; throws when the request fails
  */
-export async function searchPairs(query: string): Promise<DexPair[]> {
+export async function searchPairs(query: string, signal?: AbortSignal): Promise<DexPair[]> {
   return dexLimiter.execute(async () => {
     console.log(`[DEX API] Searching for: ${query}`);
 
     const client = await createDexClient();
+    const response = await retryWithBackoff(
+      () =>
+        client.get(`search?q=${encodeURIComponent(query)}`, { signal }).json<DexPairsResponse>(),
+      { maxAttempts: 3, signal }
+    );
 
-    try {
-      const response = await retryWithBackoff(
-        () => client.get(`search?q=${encodeURIComponent(query)}`).json<DexPairsResponse>(),
-        { maxAttempts: 3 }
-      );
-
-      return response.pairs || [];
-    } catch (error) {
-      console.error(`[DEX API] Search failed:`, error);
-      return [];
-    }
-  });
+    return response.pairs || [];
+  }, signal);
 }
+
+/**
+ * DEXscreener market data provider
+ */
+export const dexScreenerProvider: MarketDataProvider = {
+  id: 'dexscreener',
+  listPairsByChain: listChainPairs,
+  searchPairs,
+  getPair: (chainId, pairAddress, signal) => fetchPairByAddress(pairAddress, chainId, signal),
+  getTokenPools: fetchTokenPools,
+  getPairsByTokens: fetchPairsByTokens,
+};
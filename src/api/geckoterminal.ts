@@ -0,0 +1,258 @@
+// GeckoTerminal API Client
+// Second market data provider; pools are normalized to the DexPair shape used everywhere else
+
+import ky from 'ky';
+import type { DexPair } from '@/types/dexscreener';
+import type {
+  GeckoTerminalIncluded,
+  GeckoTerminalPool,
+  GeckoTerminalPoolResponse,
+  GeckoTerminalPoolsResponse,
+} from '@/types/geckoterminal';
+import type { MarketDataProvider } from '@/types/market-data';
+import { geckoLimiter } from '@/background/utils/rate-limiter';
+import { retryWithBackoff } from '@/background/utils/retry-helper';
+import { isHTTPError } from '@/shared/errors';
+
+const GECKO_API_BASE = 'https://api.geckoterminal.com/api/v2';
+
+/**
+ * Related resources to embed in pool responses (token symbols and DEX ids)
+ */
+const POOL_INCLUDE = 'include=base_token,quote_token,dex';
+
+/**
+ * Map chain names (as used by the form and DEXscreener) to GeckoTerminal network IDs
+ */
+const NETWORK_IDS: Record<string, string> = {
+  solana: 'solana',
+  ethereum: 'eth',
+  bsc: 'bsc',
+  polygonzkevm: 'polygon-zkevm',
+  polygon: 'polygon_pos',
+  arbitrum: 'arbitrum',
+  optimism: 'optimism',
+  base: 'base',
+  avalanche: 'avax',
+};
+
+/**
+ * GeckoTerminal network ID → chain name, so normalized pairs carry DEXscreener chain IDs
+ */
+const CHAIN_IDS: Record<string, string> = Object.fromEntries(
+  Object.entries(NETWORK_IDS).map(([chain, network]) => [network, chain])
+);
+
+/**
+ * Map a chain name to a GeckoTerminal network ID (unknown chains are passed through)
+ */
+export function toGeckoNetwork(chain: string): string {
+  return NETWORK_IDS[chain.toLowerCase()] || chain.toLowerCase();
+}
+
+/**
+ * Parse a decimal string (GeckoTerminal sends numbers as strings)
+ */
+function toNumber(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Split a versioned DEX ID into the DEXscreener style (e.g., 'uniswap_v3' → 'uniswap' + label 'v3')
+ * Keeps DEX venue filters and venue labels consistent across providers.
+ */
+function splitDexVersion(dexId: string): { dexId: string; version?: string } {
+  const match = dexId.match(/^(.+?)[-_](v\d+)$/i);
+  return match ? { dexId: match[1], version: match[2].toLowerCase() } : { dexId };
+}
+
+/**
+ * Convert one pool to a DexPair
+ * @param pool - Pool resource
+ * @param included - Included resources by ID (tokens and DEXes)
+ * @returns Pair, or null if the pool has no base token
+ */
+function normalizePool(
+  pool: GeckoTerminalPool,
+  included: Map<string, GeckoTerminalIncluded>
+): DexPair | null {
+  const { attributes, relationships } = pool;
+  const network = relationships?.network?.data?.id ?? pool.id.split('_')[0];
+  const chainId = CHAIN_IDS[network] || network;
+
+  const getToken = (ref: { data: { id: string } | null } | undefined) => {
+    const id = ref?.data?.id;
+    if (!id) return null;
+    const token = included.get(id)?.attributes;
+    return {
+      // Token IDs are '{network}_{address}'
+      address: token?.address ?? id.slice(id.indexOf('_') + 1),
+      name: token?.name ?? '',
+      symbol: token?.symbol ?? '',
+    };
+  };
+
+  const baseToken = getToken(relationships?.base_token);
+  const quoteToken = getToken(relationships?.quote_token);
+  if (!baseToken || !quoteToken) return null;
+
+  const { dexId, version } = splitDexVersion(relationships?.dex?.data?.id ?? '');
+
+  const txns: DexPair['txns'] = {};
+  const volume: DexPair['volume'] = {};
+  const priceChange: DexPair['priceChange'] = {};
+  for (const timeframe of ['m5', 'h1', 'h6', 'h24'] as const) {
+    const trades = attributes.transactions?.[timeframe];
+    if (trades) {
+      txns[timeframe] = { buys: trades.buys ?? 0, sells: trades.sells ?? 0 };
+    }
+    const volumeUsd = toNumber(attributes.volume_usd?.[timeframe]);
+    if (volumeUsd !== undefined) volume[timeframe] = volumeUsd;
+    const change = toNumber(attributes.price_change_percentage?.[timeframe]);
+    if (change !== undefined) priceChange[timeframe] = change;
+  }
+
+  const reserveUsd = toNumber(attributes.reserve_in_usd);
+  const fdv = toNumber(attributes.fdv_usd);
+  const marketCap = toNumber(attributes.market_cap_usd);
+  const createdAt = attributes.pool_created_at ? Date.parse(attributes.pool_created_at) : NaN;
+
+  return {
+    chainId,
+    dexId,
+    url: `https://www.geckoterminal.com/${network}/pools/${attributes.address}`,
+    pairAddress: attributes.address,
+    ...(version ? { labels: [version] } : {}),
+    baseToken,
+    quoteToken,
+    priceNative: attributes.base_token_price_native_currency ?? '0',
+    priceUsd: attributes.base_token_price_usd ?? '0',
+    txns,
+    volume,
+    priceChange,
+    // Per-token reserves are not reported; only the USD total is used by the extension
+    ...(reserveUsd !== undefined ? { liquidity: { usd: reserveUsd, base: 0, quote: 0 } } : {}),
+    ...(fdv !== undefined ? { fdv } : {}),
+    ...(marketCap !== undefined ? { marketCap } : {}),
+    ...(Number.isFinite(createdAt) ? { pairCreatedAt: createdAt } : {}),
+  };
+}
+
+/**
+ * Convert a pools response to DexPairs
+ * Pools without a base or quote token are skipped.
+ */
+export function normalizeGeckoTerminalPools(
+  response: GeckoTerminalPoolsResponse | GeckoTerminalPoolResponse
+): DexPair[] {
+  const included = new Map((response.included ?? []).map(item => [item.id, item]));
+  const pools = Array.isArray(response.data) ? response.data : response.data ? [response.data] : [];
+
+  return pools.flatMap(pool => {
+    const pair = normalizePool(pool, included);
+    return pair ? [pair] : [];
+  });
+}
+
+/**
+ * Fetch a GeckoTerminal path through the GeckoTerminal limiter
+ * @param path - Path below the API base, without the include parameter
+ * @param signal - Optional abort signal; cancels queued and in-flight requests
+ */
+async function fetchGecko<T>(path: string, signal?: AbortSignal): Promise<T> {
+  return geckoLimiter.execute(async () => {
+    const client = ky.create({
+      prefixUrl: GECKO_API_BASE,
+      headers: { Accept: 'application/json' },
+      timeout: 30000, // 30 seconds
+    });
+    const separator = path.includes('?') ? '&' : '?';
+
+    return retryWithBackoff(
+      () => client.get(`${path}${separator}${POOL_INCLUDE}`, { signal }).json<T>(),
+      { maxAttempts: 2, signal }
+    );
+  }, signal);
+}
+
+/**
+ * GeckoTerminal market data provider
+ * Chain listings combine trending and top pools, as the API has no single hot-pairs endpoint.
+ */
+export const geckoTerminalProvider: MarketDataProvider = {
+  id: 'geckoterminal',
+
+  async listPairsByChain(chain, signal) {
+    const network = toGeckoNetwork(chain);
+    console.log(`[GeckoTerminal] Fetching pools for ${chain} (network ${network})`);
+
+    const [trending, top] = await Promise.allSettled([
+      fetchGecko<GeckoTerminalPoolsResponse>(`networks/${network}/trending_pools`, signal),
+      fetchGecko<GeckoTerminalPoolsResponse>(`networks/${network}/pools`, signal),
+    ]);
+    signal?.throwIfAborted();
+    if (trending.status === 'rejected' && top.status === 'rejected') {
+      throw trending.reason;
+    }
+
+    // Deduplicate pools listed as both trending and top
+    const seen = new Set<string>();
+    const pairs = [trending, top]
+      .flatMap(result =>
+        result.status === 'fulfilled' ? normalizeGeckoTerminalPools(result.value) : []
+      )
+      .filter(pair => {
+        if (seen.has(pair.pairAddress)) return false;
+        seen.add(pair.pairAddress);
+        return true;
+      });
+
+    console.log(`[GeckoTerminal] ${pairs.length} pools for ${network}`);
+    return pairs;
+  },
+
+  async searchPairs(query, signal) {
+    const response = await fetchGecko<GeckoTerminalPoolsResponse>(
+      `search/pools?query=${encodeURIComponent(query)}`,
+      signal
+    );
+    return normalizeGeckoTerminalPools(response);
+  },
+
+  async getPair(chainId, pairAddress, signal) {
+    try {
+      const response = await fetchGecko<GeckoTerminalPoolResponse>(
+        `networks/${toGeckoNetwork(chainId)}/pools/${encodeURIComponent(pairAddress)}`,
+        signal
+      );
+      return normalizeGeckoTerminalPools(response)[0] ?? null;
+    } catch (error) {
+      // An unknown pool is a missing pair, not a provider failure
+      if (isHTTPError(error) && error.response.status === 404) return null;
+      throw error;
+    }
+  },
+
+  async getTokenPools(chainId, tokenAddress, signal) {
+    const response = await fetchGecko<GeckoTerminalPoolsResponse>(
+      `networks/${toGeckoNetwork(chainId)}/tokens/${encodeURIComponent(tokenAddress)}/pools`,
+      signal
+    );
+    return normalizeGeckoTerminalPools(response);
+  },
+
+  async getPairsByTokens(chainId, tokenAddresses, signal) {
+    // No batch endpoint: one pools request per token, deduplicating pools shared by two tokens
+    const pools = await Promise.all(
+      tokenAddresses.map(address => geckoTerminalProvider.getTokenPools(chainId, address, signal))
+    );
+    const seen = new Set<string>();
+    return pools.flat().filter(pair => {
+      if (seen.has(pair.pairAddress)) return false;
+      seen.add(pair.pairAddress);
+      return true;
+    });
+  },
+};
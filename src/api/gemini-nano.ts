@@ -76,6 +76,7 @@ export async function createGeminiNanoSession(
     console.log('[Gemini Nano] Session created successfully');
     return session;
   } catch (error) {
+    if (options?.signal?.aborted) throw error;
     console.error('[Gemini Nano] Failed to create session:', error);
     throw new Error('Failed to create Gemini Nano session. The model may need to be downloaded.');
   }
@@ -85,13 +86,17 @@ export async function createGeminiNanoSession(
  * Send prompt to Gemini Nano
  * @param prompt - User prompt
  * @param options - Session options
+ * @param signal - Optional abort signal; cancels session creation and the prompt
  * @returns Model response
  */
 export async function geminiNanoPrompt(
   prompt: string,
-  options?: GeminiNanoSessionOptions
+  options?: GeminiNanoSessionOptions,
+  signal?: AbortSignal
 ): Promise<string> {
-  const session = await createGeminiNanoSession(options);
+  signal?.throwIfAborted();
+
+  const session = await createGeminiNanoSession({ ...options, signal });
 
   try {
     console.log('[Gemini Nano] Sending prompt:', {
@@ -99,7 +104,7 @@ export async function geminiNanoPrompt(
       options,
     });
 
-    const response = await session.prompt(prompt);
+    const response = await session.prompt(prompt, { signal });
 
     console.log('[Gemini Nano] Response received:', {
       responseLength: response.length,
@@ -113,3 +118,51 @@ export async function geminiNanoPrompt(
     session.destroy();
   }
 }
+
+/**
+ * Send prompt to Gemini Nano and stream the response
+ * Older Chrome builds yield the cumulative text on each chunk, newer ones yield deltas;
+ * both are normalized to deltas for onDelta.
+ *
+ * @param prompt - User prompt
+ * @param onDelta - Called with each new piece of text
+ * @param options - Session options
+ * @param signal - Optional abort signal; cancels session creation and the stream
+ * @returns Full model response
+ */
+export async function geminiNanoPromptStreaming(
+  prompt: string,
+  onDelta: (delta: string) => void,
+  options?: GeminiNanoSessionOptions,
+  signal?: AbortSignal
+): Promise<string> {
+  signal?.throwIfAborted();
+
+  const session = await createGeminiNanoSession({ ...options, signal });
+
+  try {
+    console.log('[Gemini Nano] Streaming prompt:', {
+      promptLength: prompt.length,
+      options,
+    });
+
+    let response = '';
+    for await (const chunk of session.promptStreaming(prompt, { signal })) {
+      const delta = chunk.startsWith(response) ? chunk.slice(response.length) : chunk;
+      if (!delta) continue;
+      response += delta;
+      onDelta(delta);
+    }
+
+    console.log('[Gemini Nano] Stream complete:', {
+      responseLength: response.length,
+    });
+
+    return response;
+  } catch (error) {
+    console.error('[Gemini Nano] Streaming prompt failed:', error);
+    throw error;
+  } finally {
+    session.destroy();
+  }
+}
@@ -1,9 +1,15 @@
 // Unified LLM Client Interface
-// Provides a unified interface for both OpenRouter and Gemini Nano
+// Provides a unified interface for OpenRouter, Gemini Nano and local OpenAI-compatible servers
 
-import { chatCompletion } from './openrouter';
-import { geminiNanoPrompt } from './gemini-nano';
+import { chatCompletion, chatCompletionStream } from './openrouter';
+import { geminiNanoPrompt, geminiNanoPromptStreaming } from './gemini-nano';
+import { localChatCompletion, localChatCompletionStream } from './local-llm';
+import { isLocalModel } from '@/types/local-llm';
 import { GEMINI_NANO_MODEL_ID } from '@/types/gemini-nano';
+import type { OpenRouterChatRequest, OpenRouterMessage } from '@/types/openrouter';
+import type { ModelAttempt } from '@/types/analysis';
+import { handleApiError, shouldFallbackModel } from '@/shared/errors';
+import { supportsStructuredOutputs, type AvailableModel } from './models';
 
 /**
  * Unified LLM response interface
@@ -16,26 +22,117 @@ export interface LLMResponse {
     total_tokens?: number;
   };
   model?: string;
+  attempts?: ModelAttempt[]; // Models tried in order; the last one answered
+}
+
+/**
+ * Chat message accepted by callLLM
+ */
+export type LLMMessage = OpenRouterMessage;
+
+/**
+ * Options for callLLM
+ */
+export interface LLMCallOptions {
+  temperature?: number; // Temperature for generation (default: 0.3)
+  signal?: AbortSignal; // Cancels the request
+  responseSchema?: {
+    name: string;
+    schema: Record<string, unknown>;
+  }; // JSON Schema for structured output (sent only to models that support it)
+  models?: AvailableModel[]; // Model catalogue used to check structured output support
+  fallbackModels?: string[]; // Tried in order when the model fails with a model-specific error
+  onContent?: (content: string) => void; // Enables streaming; called with the text so far
+}
+
+/**
+ * Flatten chat messages into a single prompt for single-turn models
+ */
+function flattenMessages(messages: LLMMessage[]): string {
+  if (messages.length === 1) return messages[0].content;
+  return messages
+    .map(message => `[${message.role.toUpperCase()}]\n${message.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Turn a per-delta callback into one that receives the accumulated text
+ */
+function createContentAccumulator(onContent: (content: string) => void) {
+  let content = '';
+  return (delta: string) => {
+    content += delta;
+    onContent(content);
+  };
 }
 
 /**
  * Call LLM with unified interface
- * Automatically routes to OpenRouter or Gemini Nano based on model ID
+ * Automatically routes to OpenRouter, Gemini Nano or the local server based on model ID.
+ * On rate limits, server errors, context-length errors or unavailable models,
+ * walks `fallbackModels` in order; other errors are thrown immediately.
  *
  * @param model - Model ID (e.g., 'anthropic/claude-3.5-sonnet' or 'gemini-nano')
- * @param prompt - User prompt
- * @param temperature - Temperature for generation (default: 0.3)
- * @returns Unified LLM response
+ * @param input - User prompt, or a full message list for multi-turn requests
+ * @param options - Temperature, abort signal, structured output, fallbacks and streaming callback
+ * @returns Unified LLM response, including the model that answered and all attempts
  */
 export async function callLLM(
   model: string,
-  prompt: string,
-  temperature = 0.3
+  input: string | LLMMessage[],
+  options: LLMCallOptions = {}
 ): Promise<LLMResponse> {
+  const messages: LLMMessage[] =
+    typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+  const chain = [model, ...(options.fallbackModels ?? []).filter(m => m !== model)];
+  const attempts: ModelAttempt[] = [];
+
+  for (const [index, candidate] of chain.entries()) {
+    try {
+      const response = await callModel(candidate, messages, options);
+      attempts.push({ model: candidate });
+      return { ...response, model: candidate, attempts };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+
+      const errorInfo = await handleApiError(error);
+      const next = chain[index + 1];
+      if (!next || !shouldFallbackModel(errorInfo)) throw error;
+
+      attempts.push({
+        model: candidate,
+        errorCode: errorInfo.code,
+        error: errorInfo.developerMessage,
+      });
+      console.warn(`[LLM Client] ${candidate} failed (${errorInfo.code}), falling back to ${next}`);
+    }
+  }
+
+  // Unreachable: the loop either returns or throws on the last model
+  throw new Error('No model available');
+}
+
+/**
+ * Call a single model
+ */
+async function callModel(
+  model: string,
+  messages: LLMMessage[],
+  options: LLMCallOptions
+): Promise<LLMResponse> {
+  const { temperature = 0.3, signal, responseSchema, models, onContent } = options;
+
   // Route to Gemini Nano if model ID matches
   if (model === GEMINI_NANO_MODEL_ID) {
     console.log('[LLM Client] Routing to Gemini Nano');
-    const content = await geminiNanoPrompt(prompt, { temperature });
+    const content = onContent
+      ? await geminiNanoPromptStreaming(
+          flattenMessages(messages),
+          createContentAccumulator(onContent),
+          { temperature },
+          signal
+        )
+      : await geminiNanoPrompt(flattenMessages(messages), { temperature }, signal);
 
     return {
       content,
@@ -46,20 +143,30 @@ export async function callLLM(
     };
   }
 
-  // Otherwise, route to OpenRouter
-  console.log(`[LLM Client] Routing to OpenRouter (${model})`);
-  const response = await chatCompletion({
+  // Route to the local server for "local/..." model IDs, otherwise to OpenRouter
+  const isLocal = isLocalModel(model);
+  console.log(`[LLM Client] Routing to ${isLocal ? 'local server' : 'OpenRouter'} (${model})`);
+  const useSchema = responseSchema && supportsStructuredOutputs(models?.find(m => m.id === model));
+  const request: OpenRouterChatRequest = {
     model,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
+    messages,
     temperature,
-  });
+    response_format: useSchema
+      ? {
+          type: 'json_schema',
+          json_schema: { name: responseSchema.name, strict: false, schema: responseSchema.schema },
+        }
+      : undefined,
+  };
+  const response = isLocal
+    ? onContent
+      ? await localChatCompletionStream(request, createContentAccumulator(onContent), signal)
+      : await localChatCompletion(request, signal)
+    : onContent
+      ? await chatCompletionStream(request, createContentAccumulator(onContent), signal)
+      : await chatCompletion(request, signal);
 
-  // Convert OpenRouter response to unified format
+  // Convert OpenAI-format response to unified format
   const content = response.choices?.[0]?.message?.content || '';
 
   return {
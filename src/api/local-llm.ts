@@ -0,0 +1,234 @@
+// Local LLM API Client
+// Talks to OpenAI-compatible servers on the user's machine (Ollama, LM Studio, llama.cpp server)
+
+import ky from 'ky';
+import type { OpenRouterChatRequest, OpenRouterChatResponse } from '@/types/openrouter';
+import {
+  LOCAL_MODEL_PREFIX,
+  type LocalLLMConfig,
+  type LocalModelsResponse,
+} from '@/types/local-llm';
+import { STORAGE_KEYS } from '@/types/storage';
+import { localLlmLimiter } from '@/background/utils/rate-limiter';
+import { LocalLLMError } from '@/shared/errors';
+import { readChatCompletionStream } from './chat-stream';
+import type { AvailableModel } from './models';
+
+/**
+ * Hosts the extension may talk to (must match connect-src in the manifest CSP)
+ * Servers on other machines (LAN or remote) are not supported: the CSP and the optional host
+ * permissions are fixed at install time. Such servers can be reached through a port forward to
+ * localhost (e.g. "ssh -L 11434:localhost:11434 host").
+ */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1'];
+
+/**
+ * Normalize a user-entered base URL to its OpenAI API root
+ * Accepts "http://localhost:11434", "http://localhost:11434/" or "http://localhost:11434/v1".
+ *
+ * @returns API root ending in "/v1", or null if the URL is invalid or not a local host
+ */
+export function normalizeLocalBaseUrl(baseUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(baseUrl.trim());
+  } catch {
+    return null;
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol) || !LOCAL_HOSTS.includes(url.hostname)) {
+    return null;
+  }
+
+  const path = url.pathname.replace(/\/+$/, '').replace(/\/v1$/, '');
+  return `${url.origin}${path}/v1`;
+}
+
+/**
+ * Host of a well-formed http(s) URL that is not on this machine
+ * Lets the settings explain the localhost-only limit instead of reporting an invalid URL.
+ *
+ * @returns Hostname, or null if the URL is local or not an http(s) URL
+ */
+export function getNonLocalHost(baseUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(baseUrl.trim());
+  } catch {
+    return null;
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol) || LOCAL_HOSTS.includes(url.hostname)) {
+    return null;
+  }
+  return url.hostname;
+}
+
+/**
+ * Host permission pattern for a base URL (match patterns cover every port)
+ */
+export function getLocalOriginPattern(baseUrl: string): string | null {
+  const apiRoot = normalizeLocalBaseUrl(baseUrl);
+  if (!apiRoot) return null;
+  const url = new URL(apiRoot);
+  return `${url.protocol}//${url.hostname}/*`;
+}
+
+/**
+ * Load the local provider settings
+ * @returns Settings, or null if no server is configured
+ */
+export async function getLocalLLMConfig(): Promise<LocalLLMConfig | null> {
+  const storage = await chrome.storage.local.get(STORAGE_KEYS.LOCAL_LLM);
+  const config = storage[STORAGE_KEYS.LOCAL_LLM] as LocalLLMConfig | undefined;
+  return config?.baseUrl ? config : null;
+}
+
+/**
+ * Create a client for the configured local server
+ * Checks the URL and that the user granted host permission for its origin.
+ */
+async function createLocalClient(config: LocalLLMConfig | null) {
+  if (!config) {
+    throw new LocalLLMError('Local LLM server is not configured');
+  }
+
+  const apiRoot = normalizeLocalBaseUrl(config.baseUrl);
+  const origin = getLocalOriginPattern(config.baseUrl);
+  if (!apiRoot || !origin) {
+    throw new LocalLLMError(`Invalid local LLM base URL: ${config.baseUrl}`);
+  }
+
+  const granted = await chrome.permissions.contains({ origins: [origin] });
+  if (!granted) {
+    throw new LocalLLMError(`Host permission not granted for ${origin}`);
+  }
+
+  return ky.create({
+    prefixUrl: apiRoot,
+    timeout: 600000, // 10 minutes (local models can be slow on large prompts)
+    retry: 0,
+  });
+}
+
+/**
+ * Turn fetch failures (server not running) into LocalLLMError
+ */
+function wrapConnectionError(error: unknown, baseUrl: string): unknown {
+  if (error instanceof TypeError) {
+    return new LocalLLMError(`Cannot reach local LLM server at ${baseUrl}: ${error.message}`);
+  }
+  return error;
+}
+
+/**
+ * List models on the local server, plus those configured manually
+ * Model IDs are prefixed with LOCAL_MODEL_PREFIX so callLLM can route them.
+ *
+ * @param config - Settings to use (defaults to the saved settings)
+ * @returns Local models (free), or an empty list if no server is configured
+ */
+export async function fetchLocalModels(config?: LocalLLMConfig | null): Promise<AvailableModel[]> {
+  const settings = config === undefined ? await getLocalLLMConfig() : config;
+  if (!settings) return [];
+
+  const client = await createLocalClient(settings);
+
+  let listed: string[] = [];
+  try {
+    const response = await client.get('models').json<LocalModelsResponse>();
+    listed = (response.data ?? []).map(model => model.id);
+  } catch (error) {
+    // Some servers have no /models endpoint; fall back to the configured list
+    if (settings.models.length === 0) throw wrapConnectionError(error, settings.baseUrl);
+    console.warn('[Local LLM] Failed to list models, using configured list:', error);
+  }
+
+  return [...new Set([...listed, ...settings.models])].map(name => ({
+    id: `${LOCAL_MODEL_PREFIX}${name}`,
+    name: `${name} (Local, Free)`,
+    pricing: { prompt: '0', completion: '0' },
+    isLocal: true,
+    description: `Runs on your local server at ${settings.baseUrl}. Scans are not sent to a third party.`,
+  }));
+}
+
+/**
+ * Strip the routing prefix to get the model name the server expects
+ */
+function toServerRequest(request: OpenRouterChatRequest): OpenRouterChatRequest {
+  return {
+    model: request.model.slice(LOCAL_MODEL_PREFIX.length),
+    messages: request.messages,
+    temperature: request.temperature,
+    response_format: request.response_format,
+  };
+}
+
+/**
+ * Send chat completion request to the local server
+ *
+ * @param request - Chat completion request (model ID with LOCAL_MODEL_PREFIX)
+ * @param signal - Optional abort signal; cancels the queued or in-flight request
+ * @returns Chat completion response
+ */
+export async function localChatCompletion(
+  request: OpenRouterChatRequest,
+  signal?: AbortSignal
+): Promise<OpenRouterChatResponse> {
+  return localLlmLimiter.execute(async () => {
+    const config = await getLocalLLMConfig();
+    const client = await createLocalClient(config);
+    console.log(`[Local LLM] Chat completion request:`, { model: request.model });
+
+    try {
+      const response = await client
+        .post('chat/completions', { json: toServerRequest(request), signal })
+        .json<OpenRouterChatResponse>();
+      return { ...response, model: request.model };
+    } catch (error) {
+      throw wrapConnectionError(error, config?.baseUrl ?? '');
+    }
+  }, signal);
+}
+
+/**
+ * Send chat completion request to the local server with SSE streaming
+ *
+ * @param request - Chat completion request (model ID with LOCAL_MODEL_PREFIX)
+ * @param onDelta - Called with each content delta
+ * @param signal - Optional abort signal; cancels the queued request or the open stream
+ * @returns Chat completion response assembled from the stream
+ */
+export async function localChatCompletionStream(
+  request: OpenRouterChatRequest,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<OpenRouterChatResponse> {
+  return localLlmLimiter.execute(async () => {
+    const config = await getLocalLLMConfig();
+    const client = await createLocalClient(config);
+    console.log(`[Local LLM] Streaming chat completion request:`, { model: request.model });
+
+    try {
+      const response = await client.post('chat/completions', {
+        json: { ...toServerRequest(request), stream: true },
+        signal,
+      });
+
+      if (!response.body) {
+        throw new LocalLLMError('Local LLM server returned an empty stream');
+      }
+
+      const result = await readChatCompletionStream(
+        response.body,
+        request.model,
+        onDelta,
+        'Local LLM'
+      );
+      return { ...result, model: request.model };
+    } catch (error) {
+      throw wrapConnectionError(error, config?.baseUrl ?? '');
+    }
+  }, signal);
+}
@@ -0,0 +1,127 @@
+// Market Data Providers
+// Selects the pair data provider and falls back to a second one when it fails
+
+import type { DexPair } from '@/types/dexscreener';
+import {
+  DEFAULT_MARKET_DATA_SETTINGS,
+  MARKET_DATA_PROVIDER_IDS,
+  type MarketDataProvider,
+  type MarketDataProviderId,
+  type MarketDataSettings,
+} from '@/types/market-data';
+import { STORAGE_KEYS } from '@/types/storage';
+import { dexScreenerProvider } from './dexscreener';
+import { geckoTerminalProvider } from './geckoterminal';
+
+/**
+ * Registered providers by ID
+ */
+export const MARKET_DATA_PROVIDERS: Record<MarketDataProviderId, MarketDataProvider> = {
+  dexscreener: dexScreenerProvider,
+  geckoterminal: geckoTerminalProvider,
+};
+
+function isProviderId(value: unknown): value is MarketDataProviderId {
+  return MARKET_DATA_PROVIDER_IDS.includes(value as MarketDataProviderId);
+}
+
+/**
+ * Load the provider selection
+ * Unknown IDs fall back to the defaults; a fallback equal to the primary is dropped.
+ */
+export async function getMarketDataSettings(): Promise<MarketDataSettings> {
+  const storage = await chrome.storage.local.get(STORAGE_KEYS.MARKET_DATA);
+  const stored = storage[STORAGE_KEYS.MARKET_DATA] as Partial<MarketDataSettings> | undefined;
+  if (!stored) return DEFAULT_MARKET_DATA_SETTINGS;
+
+  const primary = isProviderId(stored.primary)
+    ? stored.primary
+    : DEFAULT_MARKET_DATA_SETTINGS.primary;
+  const fallback =
+    stored.fallback === null
+      ? null
+      : isProviderId(stored.fallback)
+        ? stored.fallback
+        : DEFAULT_MARKET_DATA_SETTINGS.fallback;
+
+  return { primary, fallback: fallback === primary ? null : fallback };
+}
+
+/**
+ * Save the provider selection
+ */
+export async function saveMarketDataSettings(settings: MarketDataSettings): Promise<void> {
+  await chrome.storage.local.set({
+    [STORAGE_KEYS.MARKET_DATA]: {
+      primary: settings.primary,
+      fallback: settings.fallback === settings.primary ? null : settings.fallback,
+    },
+  });
+}
+
+/**
+ * Wrap a provider so failed requests are retried on a fallback provider
+ * Cancelled requests are not retried. An empty answer or an unknown pair is a valid
+ * result and is returned as is.
+ *
+ * @param primary - Provider asked first
+ * @param fallback - Provider asked when the primary throws (null = none)
+ */
+export function createFallbackProvider(
+  primary: MarketDataProvider,
+  fallback: MarketDataProvider | null
+): MarketDataProvider {
+  if (!fallback || fallback.id === primary.id) return primary;
+
+  const withFallback = async <T>(
+    method: string,
+    signal: AbortSignal | undefined,
+    request: (provider: MarketDataProvider) => Promise<T>
+  ): Promise<T> => {
+    try {
+      return await request(primary);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(
+        `[Market Data] ${primary.id} ${method} failed, falling back to ${fallback.id}:`,
+        error
+      );
+      return request(fallback);
+    }
+  };
+
+  return {
+    id: primary.id,
+    listPairsByChain: (chain, signal) =>
+      withFallback<DexPair[]>('listPairsByChain', signal, provider =>
+        provider.listPairsByChain(chain, signal)
+      ),
+    searchPairs: (query, signal) =>
+      withFallback<DexPair[]>('searchPairs', signal, provider =>
+        provider.searchPairs(query, signal)
+      ),
+    getPair: (chainId, pairAddress, signal) =>
+      withFallback<DexPair | null>('getPair', signal, provider =>
+        provider.getPair(chainId, pairAddress, signal)
+      ),
+    getTokenPools: (chainId, tokenAddress, signal) =>
+      withFallback<DexPair[]>('getTokenPools', signal, provider =>
+        provider.getTokenPools(chainId, tokenAddress, signal)
+      ),
+    getPairsByTokens: (chainId, tokenAddresses, signal) =>
+      withFallback<DexPair[]>('getPairsByTokens', signal, provider =>
+        provider.getPairsByTokens(chainId, tokenAddresses, signal)
+      ),
+  };
+}
+
+/**
+ * Get the selected provider, with its fallback applied
+ */
+export async function getMarketDataProvider(): Promise<MarketDataProvider> {
+  const { primary, fallback } = await getMarketDataSettings();
+  return createFallbackProvider(
+    MARKET_DATA_PROVIDERS[primary],
+    fallback ? MARKET_DATA_PROVIDERS[fallback] : null
+  );
+}
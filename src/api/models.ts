@@ -1,10 +1,11 @@
 // Unified Model List API
-// Fetches available models from OpenRouter
+// Fetches available models from OpenRouter and the local server
 // Note: Gemini Nano is checked on UI side (ModelSelector) because Service Workers don't have window.ai access
 
 import { fetchModels as fetchOpenRouterModels } from './openrouter';
 import { STORAGE_KEYS } from '@/types/storage';
 import type { OpenRouterModel } from '@/types/openrouter';
+import { fetchLocalModels } from './local-llm';
 
 /**
  * Extended model type that includes Gemini Nano
@@ -18,13 +19,14 @@ export interface AvailableModel extends Partial<OpenRouterModel> {
     completion: string;
   };
   isBuiltIn?: boolean; // True for Gemini Nano
+  isLocal?: boolean; // True for models on the local OpenAI-compatible server
 }
 
 /**
- * Fetch available OpenRouter models
+ * Fetch available OpenRouter and local models
  * Note: Gemini Nano is handled on UI side (ModelSelector component)
  *
- * @returns Array of available models (OpenRouter only)
+ * @returns Array of available models (OpenRouter + local server)
  */
 export async function fetchAvailableModels(): Promise<AvailableModel[]> {
   const models: AvailableModel[] = [];
@@ -48,6 +50,25 @@ export async function fetchAvailableModels(): Promise<AvailableModel[]> {
     console.log('[Models API] OpenRouter API key not set, skipping OpenRouter models');
   }
 
+  // Fetch local models if a local server is configured
+  try {
+    const localModels = await fetchLocalModels();
+    models.push(...localModels);
+    if (localModels.length > 0) {
+      console.log(`[Models API] Fetched ${localModels.length} local models`);
+    }
+  } catch (error) {
+    console.error('[Models API] Failed to fetch local models:', error);
+  }
+
   console.log(`[Models API] Total available models: ${models.length}`);
   return models;
 }
+
+/**
+ * Check whether a model accepts a JSON Schema response_format
+ * @param model - Model information (undefined when the model list is unavailable)
+ */
+export function supportsStructuredOutputs(model: AvailableModel | undefined): boolean {
+  return model?.supported_parameters?.includes('structured_outputs') ?? false;
+}
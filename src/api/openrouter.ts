@@ -5,6 +5,7 @@ import ky from 'ky';
 import type {
   OpenRouterChatRequest,
   OpenRouterChatResponse,
+  OpenRouterErrorResponse,
   OpenRouterModel,
   OpenRouterModelsResponse,
 } from '@/types/openrouter';
@@ -12,6 +13,7 @@ import { llmLimiter } from '@/background/utils/rate-limiter';
 import { retryWithBackoff } from '@/background/utils/retry-helper';
 import { STORAGE_KEYS } from '@/types/storage';
 import { decryptString, isEncrypted } from '@/utils/crypto';
+import { readChatCompletionStream } from './chat-stream';
 
 const OPENROUTER_API_BASE = 'https://openrouter.ai/api/v1';
 
@@ -46,6 +48,22 @@ async function createOpenRouterClient() {
       'X-Title': 'DegenLens',
     },
     timeout: 300000, // 5 minutes (LLM analysis can take time with large token counts)
+    hooks: {
+      beforeError: [
+        async error => {
+          // Append OpenRouter's error message (e.g. context length exceeded) for classification
+          try {
+            const body = (await error.response.clone().json()) as OpenRouterErrorResponse;
+            if (body?.error?.message) {
+              error.message = `${error.message}: ${body.error.message}`;
+            }
+          } catch {
+            // Body is not JSON - keep ky's message
+          }
+          return error;
+        },
+      ],
+    },
   });
 }
 
@@ -175,10 +193,12 @@ export async function fetchModels(): Promise<OpenRouterModel[]> {
  * Uses rate limiting but NOT caching (each analysis should be fresh)
  *
  * @param request - Chat completion request
+ * @param signal - Optional abort signal; cancels the queued or in-flight request
  * @returns Chat completion response
  */
 export async function chatCompletion(
-  request: OpenRouterChatRequest
+  request: OpenRouterChatRequest,
+  signal?: AbortSignal
 ): Promise<OpenRouterChatResponse> {
   return llmLimiter.execute(async () => {
     console.log(`[OpenRouter API] Chat completion request:`, {
@@ -203,9 +223,10 @@ export async function chatCompletion(
           client
             .post('chat/completions', {
               json: requestWithUsage,
+              signal,
             })
             .json<OpenRouterChatResponse>(),
-        { maxAttempts: 3 }
+        { maxAttempts: 3, signal }
       );
 
       console.log(`[OpenRouter API] Success:`, {
@@ -215,8 +236,74 @@ export async function chatCompletion(
 
       return response;
     } catch (error) {
-      console.error(`[OpenRouter API] Failed for model "${request.model}":`, error);
+      if (!signal?.aborted) {
+        console.error(`[OpenRouter API] Failed for model "${request.model}":`, error);
+      }
       throw error;
     }
-  });
+  }, signal);
+}
+
+/**
+ * Send chat completion request with SSE streaming
+ * Content deltas are reported as they arrive; the assembled response is returned at the end.
+ *
+ * @param request - Chat completion request
+ * @param onDelta - Called with each content delta
+ * @param signal - Optional abort signal; cancels the queued request or the open stream
+ * @returns Chat completion response assembled from the stream
+ */
+export async function chatCompletionStream(
+  request: OpenRouterChatRequest,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<OpenRouterChatResponse> {
+  return llmLimiter.execute(async () => {
+    console.log(`[OpenRouter API] Streaming chat completion request:`, {
+      model: request.model,
+      messageCount: request.messages.length,
+      temperature: request.temperature,
+    });
+
+    const client = await createOpenRouterClient();
+
+    const requestWithUsage: OpenRouterChatRequest = {
+      ...request,
+      stream: true,
+      usage: {
+        include: true,
+      },
+    };
+
+    try {
+      // Only the connection is retried; a stream that fails midway is not replayed
+      const response = await retryWithBackoff(
+        () => client.post('chat/completions', { json: requestWithUsage, signal }),
+        { maxAttempts: 3, signal }
+      );
+
+      if (!response.body) {
+        throw new Error('OpenRouter returned an empty stream');
+      }
+
+      const result = await readChatCompletionStream(
+        response.body,
+        request.model,
+        onDelta,
+        'OpenRouter'
+      );
+
+      console.log(`[OpenRouter API] Stream complete:`, {
+        model: result.model,
+        tokens: result.usage?.total_tokens,
+      });
+
+      return result;
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error(`[OpenRouter API] Stream failed for model "${request.model}":`, error);
+      }
+      throw error;
+    }
+  }, signal);
 }
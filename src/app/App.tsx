@@ -2,18 +2,37 @@ import { useState, useEffect, useCallback } from 'react';
 import { useTranslation, type Language } from '@/i18n';
 import { STORAGE_KEYS } from '@/types/storage';
 import { TIMEFRAMES, type Timeframe } from '@/types/dexscreener';
+import { RANKING_STRATEGY_IDS, type RankingStrategyId } from '@/types/ranking';
+import { DISCOVERY_MODES, type DiscoveryMode } from '@/types/discovery';
+import { EMPTY_DEX_VENUE_FILTER } from '@/types/filters';
+import { FRESH_LAUNCH_MIN_TXNS_H1 } from '@/utils/ranking-strategies';
 import { useAppStore, initializeStore } from '@/stores/app.store';
 import { ModelSelector } from '@/components/ModelSelector';
 import { TopPickDisplay } from '@/components/TopPickDisplay';
+import { PairFilterInputs } from '@/components/PairFilterInputs';
+import { DexVenueSelector } from '@/components/DexVenueSelector';
+import { PairList } from '@/components/PairList';
+import { PreviousScanChanges } from '@/components/ScanChangesPanel';
+import { PerformanceLeaderboard } from '@/components/PerformanceLeaderboard';
+import { EnsembleSelector } from '@/components/EnsembleSelector';
+import { EnsemblePanel } from '@/components/EnsemblePanel';
 import { LoadingSkeleton } from '@/components/LoadingSkeleton';
 import { HistoryList } from '@/components/HistoryList';
 import { ExclusionListManager } from '@/components/ExclusionListManager';
+import { FallbackModelsManager } from '@/components/FallbackModelsManager';
+import { LocalLLMSettings } from '@/components/LocalLLMSettings';
+import { MarketDataSettings } from '@/components/MarketDataSettings';
+import { UsageView } from '@/components/UsageView';
+import { RiskProfileSettings } from '@/components/RiskProfileSettings';
+import { RiskRulesManager } from '@/components/RiskRulesManager';
+import { ScheduleManager } from '@/components/ScheduleManager';
+import { WatchlistView } from '@/components/WatchlistView';
 import { useAnalyze } from '@/hooks/useAnalyze';
 import { DEFAULT_ANALYSIS_PROMPT } from '@/background/utils/prompt-builder';
 import { encryptString } from '@/utils/crypto';
 import { getQuoteTokensForChain, getDefaultQuoteTokens } from '@/shared/quote-tokens';
 
-type Tab = 'analysis' | 'history' | 'settings';
+type Tab = 'analysis' | 'history' | 'watchlist' | 'schedules' | 'settings';
 
 function App() {
   const [tab, setTab] = useState<Tab>('analysis');
@@ -139,6 +158,30 @@ function App() {
                 >
                   <span>{t('history.title')}</span>
                 </button>
+                <button
+                  role="tab"
+                  aria-selected={tab === 'watchlist'}
+                  onClick={() => setTab('watchlist')}
+                  className={`neon-button px-6 py-2 rounded-lg font-medium transition-all ${
+                    tab === 'watchlist'
+                      ? 'bg-primary shadow-neon-purple text-white scale-105'
+                      : 'text-gray-400 hover:text-white bg-cyber-card hover:shadow-neon-purple/50'
+                  }`}
+                >
+                  <span>{t('tabs.watchlist')}</span>
+                </button>
+                <button
+                  role="tab"
+                  aria-selected={tab === 'schedules'}
+                  onClick={() => setTab('schedules')}
+                  className={`neon-button px-6 py-2 rounded-lg font-medium transition-all ${
+                    tab === 'schedules'
+                      ? 'bg-primary shadow-neon-purple text-white scale-105'
+                      : 'text-gray-400 hover:text-white bg-cyber-card hover:shadow-neon-purple/50'
+                  }`}
+                >
+                  <span>{t('tabs.schedules')}</span>
+                </button>
                 <button
                   role="tab"
                   aria-selected={tab === 'settings'}
@@ -178,7 +221,14 @@ function App() {
         {tab === 'analysis' ? (
           <AnalysisSection onNavigateToSettings={() => setTab('settings')} />
         ) : tab === 'history' ? (
-          <HistoryList />
+          <div className="space-y-6">
+            <PerformanceLeaderboard />
+            <HistoryList />
+          </div>
+        ) : tab === 'watchlist' ? (
+          <WatchlistView />
+        ) : tab === 'schedules' ? (
+          <ScheduleManager />
         ) : (
           <SettingsSection language={language} setLanguage={setLanguage} />
         )}
@@ -252,9 +302,15 @@ function AnalysisSection({ onNavigateToSettings }: AnalysisSectionProps) {
   const pairMaxAge = useAppStore(state => state.pairMaxAge);
   const quoteTokens = useAppStore(state => state.quoteTokens);
   const layoutMode = useAppStore(state => state.layoutMode);
+  const ensembleModels = useAppStore(state => state.ensembleModels);
+  const strategy = useAppStore(state => state.strategy);
+  const discovery = useAppStore(state => state.discovery);
+  const filters = useAppStore(state => state.filters);
+  const dexVenues = useAppStore(state => state.dexVenues);
   const analyzing = useAppStore(state => state.analyzing);
   const progress = useAppStore(state => state.progress);
   const results = useAppStore(state => state.results);
+  const partialResults = useAppStore(state => state.partialResults);
   const error = useAppStore(state => state.error);
   const errorSuggestions = useAppStore(state => state.errorSuggestions);
   const retryAfterMs = useAppStore(state => state.retryAfterMs);
@@ -265,6 +321,11 @@ function AnalysisSection({ onNavigateToSettings }: AnalysisSectionProps) {
   const setPairMaxAge = useAppStore(state => state.setPairMaxAge);
   const setQuoteTokensForChain = useAppStore(state => state.setQuoteTokensForChain);
   const setLayoutMode = useAppStore(state => state.setLayoutMode);
+  const setEnsembleModels = useAppStore(state => state.setEnsembleModels);
+  const setStrategy = useAppStore(state => state.setStrategy);
+  const setDiscovery = useAppStore(state => state.setDiscovery);
+  const setFilters = useAppStore(state => state.setFilters);
+  const setDexVenuesForChain = useAppStore(state => state.setDexVenuesForChain);
 
   // Local state for custom pair age input
   const [customPairAge, setCustomPairAge] = useState<string>('');
@@ -574,6 +635,75 @@ function AnalysisSection({ onNavigateToSettings }: AnalysisSectionProps) {
               </div>
             )}
 
+            {/* Discovery Mode */}
+            <section className="mb-6">
+              <label
+                htmlFor="discovery-select"
+                className="block text-sm font-medium mb-2 text-neon-cyan"
+              >
+                {t('form.discovery')}
+              </label>
+              <select
+                id="discovery-select"
+                value={discovery}
+                onChange={e => setDiscovery(e.target.value as DiscoveryMode)}
+                disabled={analyzing}
+                className="w-full px-4 py-3 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:shadow-neon-purple focus:outline-none disabled:opacity-50 transition-all font-mono text-base hover:border-purple-500/50"
+              >
+                {DISCOVERY_MODES.map(mode => (
+                  <option key={mode} value={mode}>
+                    {t(`discovery.${mode}.label`)}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-2 font-mono">
+                {t(`discovery.${discovery}.description`)}
+              </p>
+            </section>
+
+            {/* Ranking Strategy */}
+            <section className="mb-6">
+              <label
+                htmlFor="strategy-select"
+                className="block text-sm font-medium mb-2 text-neon-cyan"
+              >
+                {t('form.strategy')}
+              </label>
+              <p className="text-xs text-gray-400 mb-3">{t('form.strategyDesc')}</p>
+              <select
+                id="strategy-select"
+                value={strategy}
+                onChange={e => setStrategy(e.target.value as RankingStrategyId)}
+                disabled={analyzing}
+                className="w-full px-4 py-3 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:shadow-neon-purple focus:outline-none disabled:opacity-50 transition-all font-mono text-base hover:border-purple-500/50"
+              >
+                {RANKING_STRATEGY_IDS.map(id => (
+                  <option key={id} value={id}>
+                    {t(`strategies.${id}.label`)}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-2 font-mono">
+                {t(`strategies.${strategy}.description`, { minTxns: FRESH_LAUNCH_MIN_TXNS_H1 })}
+              </p>
+            </section>
+
+            {/* Numeric Pre-filters */}
+            <PairFilterInputs
+              filters={filters}
+              onChange={setFilters}
+              timeframe={timeframe}
+              disabled={analyzing}
+            />
+
+            {/* DEX Venue Filter */}
+            <DexVenueSelector
+              chain={chain}
+              venues={dexVenues[chain] || EMPTY_DEX_VENUE_FILTER}
+              onChange={venues => setDexVenuesForChain(chain, venues)}
+              disabled={analyzing}
+            />
+
             {/* Row 3: Quote Token Filter */}
             {availableQuoteTokens.length > 0 && (
               <div className="mb-6">
@@ -641,8 +771,17 @@ function AnalysisSection({ onNavigateToSettings }: AnalysisSectionProps) {
               disabled={analyzing}
               onNavigateToSettings={onNavigateToSettings}
               maxPairs={maxPairs}
+              ensembleModels={ensembleModels}
               layoutMode={layoutMode}
             />
+
+            {/* Row 5: Consensus mode (extra models) */}
+            <EnsembleSelector
+              model={model}
+              value={ensembleModels}
+              onChange={setEnsembleModels}
+              disabled={analyzing}
+            />
           </div>
 
           {/* Exclusion List Manager */}
@@ -685,7 +824,12 @@ function AnalysisSection({ onNavigateToSettings }: AnalysisSectionProps) {
                   <div className="space-y-3 mt-6">
                     <div className="flex justify-between text-sm font-mono">
                       <span className="text-neon-cyan font-semibold">
-                        {progress.step ? t(`progress.${progress.step}`) : t('form.analyzing')}
+                        {progress.step
+                          ? t(`progress.${progress.step}`, {
+                              batch: progress.batch ?? 0,
+                              batches: progress.batches ?? 0,
+                            })
+                          : t('form.analyzing')}
                       </span>
                       <span className="text-neon-green">{progress.progress}%</span>
                     </div>
@@ -752,9 +896,26 @@ function AnalysisSection({ onNavigateToSettings }: AnalysisSectionProps) {
                 'analyzing:',
                 analyzing
               );
-              if (results) {
+              if (analyzing && partialResults) {
+                console.log('[AnalysisSection] -> Showing streamed partial results');
+                return (
+                  <div className="space-y-6">
+                    <TopPickDisplay data={partialResults} />
+                    <PairList pairs={partialResults.pairs} streaming />
+                  </div>
+                );
+              } else if (results) {
                 console.log('[AnalysisSection] -> Showing TopPickDisplay');
-                return <TopPickDisplay data={results} />;
+                return (
+                  <div className="space-y-6">
+                    <PreviousScanChanges result={results} />
+                    <TopPickDisplay data={results} />
+                    {results.metadata?.ensemble && (
+                      <EnsemblePanel ensemble={results.metadata.ensemble} />
+                    )}
+                    <PairList pairs={results.pairs} />
+                  </div>
+                );
               } else if (analyzing) {
                 console.log('[AnalysisSection] -> Showing LoadingSkeleton');
                 return <LoadingSkeleton />;
@@ -1020,6 +1181,42 @@ function SettingsSection({ language, setLanguage }: SettingsSectionProps) {
         </div>
       </section>
 
+      {/* Market Data Section */}
+      <section className="cyber-card p-6 rounded-xl shadow-cyber-card">
+        <h2 className="text-xl font-bold mb-4 neon-text">{t('marketData.title')}</h2>
+        <MarketDataSettings />
+      </section>
+
+      {/* Fallback Models Section */}
+      <section className="cyber-card p-6 rounded-xl shadow-cyber-card">
+        <h2 className="text-xl font-bold mb-4 neon-text">{t('fallback.title')}</h2>
+        <FallbackModelsManager />
+      </section>
+
+      {/* Local LLM Section */}
+      <section className="cyber-card p-6 rounded-xl shadow-cyber-card">
+        <h2 className="text-xl font-bold mb-4 neon-text">{t('localLlm.title')}</h2>
+        <LocalLLMSettings />
+      </section>
+
+      {/* Usage & Budget Section */}
+      <section className="cyber-card p-6 rounded-xl shadow-cyber-card">
+        <h2 className="text-xl font-bold mb-4 neon-text">{t('usage.title')}</h2>
+        <UsageView />
+      </section>
+
+      {/* Risk Profile Section */}
+      <section className="cyber-card p-6 rounded-xl shadow-cyber-card">
+        <h2 className="text-xl font-bold mb-4 neon-text">{t('riskProfiles.title')}</h2>
+        <RiskProfileSettings />
+      </section>
+
+      {/* Risk Rules Section */}
+      <section className="cyber-card p-6 rounded-xl shadow-cyber-card">
+        <h2 className="text-xl font-bold mb-4 neon-text">{t('riskRules.title')}</h2>
+        <RiskRulesManager />
+      </section>
+
       {/* Custom Prompt Section - Hidden (set SHOW_CUSTOM_PROMPT to true to enable) */}
       {SHOW_CUSTOM_PROMPT && (
         <section className="cyber-card p-6 rounded-xl shadow-cyber-card">
@@ -0,0 +1,166 @@
+// Analyze Handler Tests
+// Model fallback as reported in the result metadata, with pairs and OpenRouter mocked
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { makePair } from '@/test/fixtures';
+import { handleAnalyzeRequest } from '../analyze';
+import { chatCompletionStream } from '@/api/openrouter';
+import { AnalyzeReqSchema } from '@/shared/schema';
+import { ERR } from '@/shared/errors';
+import { STORAGE_KEYS } from '@/types/storage';
+import type { OpenRouterChatRequest } from '@/types/openrouter';
+import type { AnalysisResult } from '@/types/analysis';
+
+vi.mock('@/api/candidates', () => ({
+  fetchPairsByChain: vi.fn(async () => ({
+    pairs: [makePair({ pairAddress: 'pepe-pool' })],
+    filterCounts: {},
+    seenDexIds: new Set(['raydium']),
+  })),
+}));
+
+vi.mock('@/api/openrouter', () => ({
+  chatCompletion: vi.fn(),
+  chatCompletionStream: vi.fn(),
+}));
+
+vi.mock('@/api/models', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/api/models')>()),
+  fetchAvailableModels: vi.fn(async () => []),
+}));
+
+vi.mock('@/utils/snapshot-store', () => ({
+  getPairHistories: vi.fn(async () => new Map()),
+  recordPairSnapshots: vi.fn(),
+}));
+
+// In-memory chrome storage
+let stored: Record<string, unknown> = {};
+global.chrome = {
+  storage: {
+    local: {
+      get: vi.fn(async (keys?: string | string[]) => {
+        if (keys === undefined) return { ...stored };
+        const wanted = Array.isArray(keys) ? keys : [keys];
+        return Object.fromEntries(
+          wanted.filter(key => key in stored).map(key => [key, stored[key]])
+        );
+      }),
+      set: vi.fn(async (items: Record<string, unknown>) => {
+        Object.assign(stored, items);
+      }),
+    },
+  },
+} as unknown as typeof chrome;
+
+/**
+ * ky-style HTTP error from the OpenRouter chat endpoint
+ */
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    response: {
+      status,
+      url: 'https://openrouter.ai/api/v1/chat/completions',
+      headers: { get: () => null },
+    },
+  });
+}
+
+/**
+ * Let each model fail with its error, or stream an empty analysis when it has none
+ */
+function answerBy(errors: Record<string, Error>) {
+  vi.mocked(chatCompletionStream).mockImplementation(
+    async (request: OpenRouterChatRequest, onDelta: (delta: string) => void) => {
+      const error = errors[request.model];
+      if (error) throw error;
+      onDelta('{"pairs":[]}');
+      return {
+        id: 'gen-1',
+        model: request.model,
+        created: 0,
+        object: 'chat.completion',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: '{"pairs":[]}' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+      };
+    }
+  );
+}
+
+/**
+ * Run the handler and return its final message
+ */
+async function analyze(model: string) {
+  const posted: Array<{ type: string; data?: AnalysisResult; code?: string }> = [];
+  const msg = AnalyzeReqSchema.parse({
+    type: 'analyze',
+    id: crypto.randomUUID(),
+    chain: 'solana',
+    model,
+  });
+
+  await handleAnalyzeRequest(
+    msg,
+    message => posted.push(message as (typeof posted)[number]),
+    new AbortController().signal
+  );
+
+  return posted.filter(message => message.type === 'result').pop();
+}
+
+describe('handleAnalyzeRequest model fallback', () => {
+  beforeEach(() => {
+    stored = { [STORAGE_KEYS.FALLBACK_MODELS]: ['backup/one', 'backup/two'] };
+    vi.mocked(chatCompletionStream).mockReset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should report the answering fallback model and every attempt', async () => {
+    answerBy({ 'primary/model': httpError(429), 'backup/one': httpError(502) });
+
+    const result = await analyze('primary/model');
+
+    expect(result?.data?.metadata).toMatchObject({
+      model: 'backup/two',
+      requestedModel: 'primary/model',
+      modelAttempts: [
+        { model: 'primary/model', errorCode: ERR.LLM_RATE_LIMIT },
+        { model: 'backup/one', errorCode: ERR.LLM_SERVER_ERROR },
+        { model: 'backup/two' },
+      ],
+    });
+  });
+
+  it('should report a single attempt when the requested model answers', async () => {
+    answerBy({});
+
+    const result = await analyze('primary/model');
+
+    expect(result?.data?.metadata).toMatchObject({
+      model: 'primary/model',
+      requestedModel: 'primary/model',
+      modelAttempts: [{ model: 'primary/model' }],
+    });
+  });
+
+  it('should fail with the last error when every model fails', async () => {
+    answerBy({
+      'primary/model': httpError(500),
+      'backup/one': httpError(503),
+      'backup/two': httpError(429),
+    });
+
+    const result = await analyze('primary/model');
+
+    expect(result?.data).toBeUndefined();
+    expect(result?.code).toBe(ERR.LLM_RATE_LIMIT);
+    expect(chatCompletionStream).toHaveBeenCalledTimes(3);
+  });
+});
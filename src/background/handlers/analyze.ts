@@ -1,31 +1,88 @@
 // Analyze Handler
 // Main handler for token pair analysis requests
 
-import type { AnalyzeReq } from '@/shared/schema';
-import { handleApiError } from '@/shared/errors';
-import { fetchPairsByChain } from '@/api/dexscreener';
-import { callLLM } from '@/api/llm-client';
+import {
+  LLM_ANALYSIS_JSON_SCHEMA,
+  PartialLLMAnalysisSchema,
+  LLM_SHORTLIST_JSON_SCHEMA,
+  type AnalyzeReq,
+  type AnalyzeProgress,
+  type LLMAnalysis,
+} from '@/shared/schema';
+import { handleApiError, ERR, LLMParseError, BudgetExceededError } from '@/shared/errors';
+import { translate } from '@/i18n/translate';
+import { fetchPairsByChain } from '@/api/candidates';
+import { callLLM, type LLMCallOptions, type LLMResponse } from '@/api/llm-client';
 import { fetchAvailableModels, type AvailableModel } from '@/api/models';
-import { buildAnalysisPrompt } from '../utils/prompt-builder';
+import { buildAnalysisPrompt, buildShortlistPrompt } from '../utils/prompt-builder';
+import { buildRepairMessages, parseLLMAnalysis, parseLLMShortlist } from '../utils/llm-response';
+import { parsePartialJson } from '../utils/partial-json';
+import { buildAnalysisResult } from '../utils/result-builder';
+import { buildConsensus } from '../utils/consensus';
+import { estimateTokens, getContextLength, planBatches } from '../utils/batch-planner';
+import { PairIndex } from '../utils/pair-matcher';
+import { estimateScanCost } from '@/utils/cost-estimate';
+import { getPairHistories, recordPairSnapshots } from '@/utils/snapshot-store';
+import { getActiveRiskProfile } from '@/utils/risk-profiles';
+import { getCompiledRiskRules, saveLastScanPairs } from '@/utils/risk-rules';
+import { recordSeenDexIds } from '@/utils/dex-venues';
+import {
+  appendUsageRecords,
+  checkBudget,
+  getUsageBudget,
+  getUsageLedger,
+} from '@/utils/usage-ledger';
 import { STORAGE_KEYS } from '@/types/storage';
-import type { AnalysisResult } from '@/types/analysis';
-import { calculateRiskLevel } from '@/utils/risk-assessment';
+import type { DexPair, Timeframe } from '@/types/dexscreener';
+import type {
+  AnalysisMetadata,
+  BatchingSummary,
+  EnsembleModelResult,
+  ModelAttempt,
+} from '@/types/analysis';
+import type { UsageRecord } from '@/types/usage';
+import { isLocalModel } from '@/types/local-llm';
 
 /**
  * Safe post function type
  */
 type SafePost = (msg: unknown) => void;
 
+/**
+ * Minimum interval between streamed partial results (ms)
+ */
+const PARTIAL_INTERVAL_MS = 300;
+
+/**
+ * Expected output tokens per pair: full analysis entry / shortlist entry
+ */
+const ANALYSIS_OUTPUT_TOKENS_PER_PAIR = 150;
+const SHORTLIST_OUTPUT_TOKENS_PER_PAIR = 40;
+
 /**
  * Handle analyze request
- * Fetches DEX pairs, analyzes with LLM, and returns results
+ * Fetches DEX pairs, analyzes with LLM, and returns results.
+ * Aborting `signal` cancels in-flight fetches and LLM calls.
  */
 export async function handleAnalyzeRequest(
   msg: AnalyzeReq,
   safePost: SafePost,
-  aborted: boolean
+  signal: AbortSignal
 ): Promise<void> {
-  const { id, chain, model, maxPairs, timeframe, pairMaxAge, quoteTokens } = msg;
+  const {
+    id,
+    chain,
+    model,
+    maxPairs,
+    timeframe,
+    pairMaxAge,
+    quoteTokens,
+    ensembleModels,
+    strategy,
+    filters,
+    dexVenues,
+    discovery,
+  } = msg;
 
   try {
     console.log(`[Analyze] Starting analysis for ${chain} with ${model}`);
@@ -38,9 +95,24 @@ export async function handleAnalyzeRequest(
       progress: 10,
     });
 
-    if (aborted) return;
-
-    const pairs = await fetchPairsByChain(chain, maxPairs, timeframe, pairMaxAge, quoteTokens);
+    signal.throwIfAborted();
+
+    const riskProfile = await getActiveRiskProfile();
+    const rules = await getCompiledRiskRules();
+    const { pairs, filterCounts, seenDexIds } = await fetchPairsByChain(chain, {
+      maxPairs,
+      timeframe,
+      pairMaxAge,
+      quoteTokens,
+      riskProfile,
+      rules,
+      strategy,
+      filters,
+      dexVenues,
+      discovery,
+      signal,
+    });
+    await recordSeenDexIds(chain, seenDexIds);
 
     if (pairs.length === 0) {
       safePost({
@@ -54,6 +126,11 @@ export async function handleAnalyzeRequest(
 
     console.log(`[Analyze] Fetched ${pairs.length} pairs`);
 
+    // Read earlier snapshots before recording this scan's, so the history is strictly older
+    const histories = await getPairHistories(pairs);
+    await recordPairSnapshots(pairs);
+    await saveLastScanPairs(chain, pairs);
+
     safePost({
       type: 'progress',
       id,
@@ -61,67 +138,201 @@ export async function handleAnalyzeRequest(
       progress: 40,
     });
 
-    if (aborted) return;
+    signal.throwIfAborted();
 
-    // Fetch model information for accurate cost calculation
-    let modelInfo: AvailableModel | undefined;
+    // Fetch model information for cost calculation, structured output support and context limits
+    let models: AvailableModel[] = [];
     try {
-      const models = await fetchAvailableModels();
-      modelInfo = models.find(m => m.id === model);
+      models = await fetchAvailableModels();
     } catch (error) {
       console.warn('[Analyze] Failed to fetch model info for cost calculation:', error);
       // Continue without model info - will use fallback pricing
     }
 
-    // Step 2: Analyze with LLM (40-80%)
-    safePost({
-      type: 'progress',
-      id,
-      step: 'analyzing_llm',
-      progress: 50,
-    });
+    const ensemble = [...new Set([model, ...ensembleModels])];
 
     // Get custom prompt and language from storage
     const storage = await chrome.storage.local.get([
       STORAGE_KEYS.CUSTOM_PROMPT,
       STORAGE_KEYS.LANGUAGE,
+      STORAGE_KEYS.FALLBACK_MODELS,
     ]);
     const customPrompt = storage[STORAGE_KEYS.CUSTOM_PROMPT] as string | undefined;
     const language = (storage[STORAGE_KEYS.LANGUAGE] as 'en' | 'ja' | undefined) || 'en';
+    const fallbackModels = (storage[STORAGE_KEYS.FALLBACK_MODELS] as string[] | undefined) || [];
+
+    // Chunked mode: if the pairs do not fit one prompt, they are shortlisted in batches first
+    const contextLength = Math.min(...ensemble.map(m => getContextLength(m, models)));
+    const capacity = planBatches(
+      pairs,
+      batch =>
+        estimateTokens(buildAnalysisPrompt(batch, chain, timeframe, customPrompt, language)) +
+        ANALYSIS_OUTPUT_TOKENS_PER_PAIR * batch.length,
+      contextLength
+    )[0].length;
+    const shortlistBatches =
+      capacity < pairs.length
+        ? planShortlistBatches(pairs, capacity, contextLength, chain, timeframe, language)
+        : [];
+
+    // Refuse the run if its estimated cost would exceed the remaining daily or monthly budget
+    const runEstimate = estimateScanCost(
+      {
+        ensemble,
+        fallbackModels,
+        pairCount: pairs.length,
+        analyzedCount: Math.min(capacity, pairs.length),
+        shortlistBatches: shortlistBatches.length,
+      },
+      models
+    );
+    const violation = checkBudget(runEstimate, await getUsageBudget(), await getUsageLedger());
+    if (violation) {
+      throw new BudgetExceededError(
+        violation.period,
+        violation.budget,
+        violation.spent,
+        violation.estimatedCost
+      );
+    }
 
-    const prompt = buildAnalysisPrompt(pairs, chain, timeframe, customPrompt, language);
+    // Step 2: Analyze with LLM (40-90%)
+    safePost({
+      type: 'progress',
+      id,
+      step: 'analyzing_llm',
+      progress: 50,
+    });
 
-    console.log(`[Analyze] Sending to LLM (${model}) in ${language}`);
+    const llmOptions: LLMCallOptions = {
+      temperature: 0.3,
+      signal,
+      responseSchema: { name: 'token_analysis', schema: LLM_ANALYSIS_JSON_SCHEMA },
+      models,
+      fallbackModels,
+    };
 
-    // Keep-alive mechanism: Send progress updates every 20 seconds during LLM call
-    // This prevents Service Worker from being terminated during long LLM requests
+    // Current progress, re-sent by the keep-alive
+    let currentProgress: Omit<AnalyzeProgress, 'type' | 'id'> = {
+      step: 'analyzing_llm',
+      progress: 50,
+    };
+    const postProgress = (update?: Omit<AnalyzeProgress, 'type' | 'id'>) => {
+      if (update) currentProgress = update;
+      safePost({ type: 'progress', id, ...currentProgress });
+    };
+
+    // Keep-alive: re-send current progress every 20 seconds so the Service Worker
+    // is not terminated while waiting for the first token (reasoning models can be silent for minutes)
     const keepAliveInterval = setInterval(() => {
-      if (!aborted) {
+      if (!signal.aborted) {
+        postProgress();
+        console.log('[Analyze] Keep-alive ping sent');
+      }
+    }, 20000);
+
+    // Every LLM call of this run goes to the usage ledger, even if the run fails later
+    const meter = createUsageMeter(chain, models);
+
+    try {
+      // Chunked mode: shortlist the pairs in batches (50-70%)
+      const shortlist =
+        shortlistBatches.length > 0
+          ? await shortlistPairs(
+              pairs,
+              shortlistBatches,
+              capacity,
+              contextLength,
+              { model, chain, timeframe, language, llmOptions, meter },
+              (batch, batches) =>
+                postProgress({
+                  step: 'shortlisting',
+                  progress: 50 + Math.round(((batch - 1) / batches) * 20),
+                  batch,
+                  batches,
+                })
+            )
+          : null;
+      const analyzedPairs = shortlist?.pairs ?? pairs;
+      signal.throwIfAborted();
+
+      const prompt = buildAnalysisPrompt(analyzedPairs, chain, timeframe, customPrompt, language);
+
+      console.log(`[Analyze] Sending to LLM (${model}) in ${language}`);
+
+      // Live progress while the LLM writes: from llmStart% at request up to 85%
+      const llmStart = shortlist ? 70 : 50;
+      let lastPartialAt = 0;
+      postProgress({ step: 'analyzing_llm', progress: llmStart });
+
+      const onContent = (content: string) => {
+        const now = Date.now();
+        if (now - lastPartialAt < PARTIAL_INTERVAL_MS || signal.aborted) return;
+        lastPartialAt = now;
+
+        const partial = PartialLLMAnalysisSchema.safeParse(parsePartialJson(content));
+        if (!partial.success) return;
+
+        const answered = partial.data.pairs?.length ?? 0;
         safePost({
-          type: 'progress',
+          type: 'partial',
           id,
+          data: buildAnalysisResult(
+            analyzedPairs,
+            partial.data,
+            timeframe,
+            { model, chain, timeframe },
+            true,
+            histories,
+            riskProfile,
+            rules
+          ),
+        });
+        postProgress({
           step: 'analyzing_llm',
-          progress: 60, // Keep at 60% during LLM analysis
+          progress: Math.min(
+            85,
+            llmStart + Math.round((answered / analyzedPairs.length) * (85 - llmStart))
+          ),
         });
-        console.log('[Analyze] Keep-alive ping sent');
-      }
-    }, 20000); // Every 20 seconds
+      };
 
-    try {
-      const llmResponse = await callLLM(model, prompt, 0.3);
+      const { analysis, metadata } =
+        ensemble.length > 1
+          ? await analyzeEnsemble(
+              ensemble,
+              analyzedPairs,
+              prompt,
+              llmOptions,
+              meter,
+              (done, partial) => {
+                safePost({
+                  type: 'partial',
+                  id,
+                  data: buildAnalysisResult(
+                    analyzedPairs,
+                    partial,
+                    timeframe,
+                    { chain, timeframe },
+                    true,
+                    histories,
+                    riskProfile,
+                    rules
+                  ),
+                });
+                postProgress({
+                  step: 'analyzing_llm',
+                  progress: llmStart + Math.round((done / ensemble.length) * (85 - llmStart)),
+                });
+              }
+            )
+          : await analyzeSingle(model, prompt, llmOptions, meter, onContent);
 
       clearInterval(keepAliveInterval);
 
-      if (aborted) return;
+      signal.throwIfAborted();
 
-      safePost({
-        type: 'progress',
-        id,
-        step: 'analyzing_llm',
-        progress: 80,
-      });
-
-      // Step 3: Format results (80-100%)
+      // Step 3: Format results (90-100%)
       safePost({
         type: 'progress',
         id,
@@ -129,108 +340,27 @@ export async function handleAnalyzeRequest(
         progress: 90,
       });
 
-      if (aborted) return;
-
-      // Extract LLM response
-      const llmContent = llmResponse.content || '';
-
-      console.log(`[Analyze] LLM response received (${llmContent.length} chars)`);
-
-      // Try to parse JSON response
-      interface LLMAnalysis {
-        topPick?: {
-          symbol?: string;
-          reason?: string;
-          momentum?: number;
-          catalyst?: string;
-          moonshotPotential?: string;
-          momentumPhase?: string;
-        };
-        pairs?: Array<{
-          symbol?: string;
-          momentum?: number;
-          catalyst?: string;
-          observations?: string;
-          moonshotPotential?: string;
-          risk?: string;
-          score?: number; // Backward compatibility
-        }>;
-        runnerUps?: Array<{
-          symbol?: string;
-          reason?: string;
-        }>;
-        marketPulse?: string;
-        summary?: string; // Backward compatibility
-      }
-      let llmAnalysis: LLMAnalysis | null = null;
-      try {
-        // Extract JSON from markdown code blocks if present
-        const jsonMatch =
-          llmContent.match(/```json\s*([\s\S]*?)\s*```/) ||
-          llmContent.match(/```\s*([\s\S]*?)\s*```/);
-        const jsonString = jsonMatch ? jsonMatch[1] : llmContent;
-        llmAnalysis = JSON.parse(jsonString);
-      } catch {
-        console.warn('[Analyze] Failed to parse LLM JSON, using raw response');
-      }
-
-      // Build result
-      const result: AnalysisResult = {
-        pairs: pairs.map((pair, index) => {
-          const llmPair = llmAnalysis?.pairs?.[index];
-          const riskAssessment = calculateRiskLevel(pair);
-
-          return {
-            symbol: `${pair.baseToken?.symbol || 'Unknown'}/${pair.quoteToken?.symbol || 'Unknown'}`,
-            priceUsd: pair.priceUsd || '0',
-            volume6h: pair.volume?.[timeframe] || 0,
-            liquidity: pair.liquidity?.usd || 0,
-            priceChange6h: pair.priceChange?.[timeframe] || 0,
-            risk: llmPair?.risk,
-            observations: llmPair?.observations,
-            score: llmPair?.score || llmPair?.momentum,
-            analysis: llmPair?.observations,
-            momentum: llmPair?.momentum,
-            catalyst: llmPair?.catalyst,
-            moonshotPotential: llmPair?.moonshotPotential,
-            riskLevel: riskAssessment.level,
-            riskFactors: riskAssessment.factors,
-          };
-        }),
-        analysis: llmAnalysis?.marketPulse || llmAnalysis?.summary || llmContent.substring(0, 500), // Fallback
-        topPick: llmAnalysis?.topPick
-          ? (() => {
-              const topPickSymbol = llmAnalysis.topPick.symbol?.split('/')[0]; // Get base token symbol
-              const matchedPair = pairs.find(pair => pair.baseToken?.symbol === topPickSymbol);
-              const riskAssessment = matchedPair ? calculateRiskLevel(matchedPair) : null;
-
-              return {
-                ...llmAnalysis.topPick,
-                contractAddress: matchedPair?.baseToken?.address,
-                chainId: matchedPair?.chainId,
-                pairAddress: matchedPair?.pairAddress,
-                riskLevel: riskAssessment?.level,
-                riskFactors: riskAssessment?.factors,
-                riskBreakdown: riskAssessment?.breakdown,
-                socials: matchedPair?.info?.socials,
-                websites: matchedPair?.info?.websites,
-              };
-            })()
-          : undefined,
-        runnerUps: llmAnalysis?.runnerUps,
-        metadata: {
-          tokensUsed: llmResponse.usage?.total_tokens,
-          estimatedCost: calculateActualCost(
-            llmResponse.usage?.prompt_tokens || 0,
-            llmResponse.usage?.completion_tokens || 0,
-            modelInfo
-          ),
+      const result = buildAnalysisResult(
+        analyzedPairs,
+        analysis,
+        timeframe,
+        {
+          ...metadata,
+          tokensUsed: (metadata.tokensUsed || 0) + (shortlist?.tokensUsed || 0) || undefined,
+          estimatedCost: (metadata.estimatedCost || 0) + (shortlist?.estimatedCost || 0),
           analyzedAt: new Date().toISOString(),
-          model,
           chain,
           timeframe,
+          strategy,
+          discovery,
+          filterCounts: Object.keys(filterCounts).length > 0 ? filterCounts : undefined,
+          batching: shortlist?.summary,
         },
-      };
+        false,
+        histories,
+        riskProfile,
+        rules
+      );
 
       // Send result
       safePost({
@@ -240,11 +370,22 @@ export async function handleAnalyzeRequest(
       });
 
       console.log('[Analyze] Analysis completed successfully');
-    } catch (llmError) {
+    } finally {
       clearInterval(keepAliveInterval);
-      throw llmError;
+      await appendUsageRecords(meter.records);
     }
   } catch (error) {
+    if (signal.aborted) {
+      console.log('[Analyze] Analysis cancelled');
+      safePost({
+        type: 'result',
+        id,
+        error: await translate('error.cancelled'),
+        code: ERR.USER_CANCELLED,
+      });
+      return;
+    }
+
     console.error('[Analyze] Analysis failed:', error);
     const errorInfo = await handleApiError(error);
     safePost({
@@ -258,6 +399,339 @@ export async function handleAnalyzeRequest(
   }
 }
 
+/**
+ * Validated analysis from one model, with what it cost
+ */
+interface ModelRun {
+  analysis: LLMAnalysis;
+  usage: LLMResponse['usage'];
+  estimatedCost: number;
+  model: string; // Model that answered (may be a fallback)
+  attempts: ModelAttempt[];
+}
+
+/**
+ * Analyze with one model: call it, validate the output and, if invalid,
+ * do one repair round-trip showing the model its own output and what was wrong with it
+ */
+async function runModel(
+  model: string,
+  prompt: string,
+  llmOptions: LLMCallOptions,
+  meter: UsageMeter,
+  onContent?: (content: string) => void
+): Promise<ModelRun> {
+  const llmResponse = await callLLM(model, prompt, { ...llmOptions, onContent });
+  const answeredModel = llmResponse.model || model;
+  const attempts = [...(llmResponse.attempts ?? [])];
+  let usage = llmResponse.usage;
+  let estimatedCost = meter.record(llmResponse, model);
+  let parsed = parseLLMAnalysis(llmResponse.content || '');
+
+  console.log(`[Analyze] ${answeredModel} response received (${llmResponse.content.length} chars)`);
+
+  if (!parsed.success) {
+    console.warn(
+      `[Analyze] ${answeredModel} response failed validation, requesting repair:`,
+      parsed.error
+    );
+    llmOptions.signal?.throwIfAborted();
+
+    // Ask the model that produced the output to fix it
+    const repairResponse = await callLLM(
+      answeredModel,
+      buildRepairMessages(prompt, llmResponse.content, parsed.error),
+      llmOptions
+    );
+    attempts.push(...(repairResponse.attempts ?? []));
+    usage = sumUsage(usage, repairResponse.usage);
+    estimatedCost += meter.record(repairResponse, answeredModel);
+    parsed = parseLLMAnalysis(repairResponse.content || '');
+
+    if (!parsed.success) {
+      throw new LLMParseError('LLM response failed validation after repair', parsed.error);
+    }
+  }
+
+  return { analysis: parsed.data, usage, estimatedCost, model: answeredModel, attempts };
+}
+
+/**
+ * Analyze with a single model (and its fallback chain), streaming its output
+ */
+async function analyzeSingle(
+  model: string,
+  prompt: string,
+  llmOptions: LLMCallOptions,
+  meter: UsageMeter,
+  onContent: (content: string) => void
+): Promise<{ analysis: LLMAnalysis; metadata: AnalysisMetadata }> {
+  const run = await runModel(model, prompt, llmOptions, meter, onContent);
+
+  return {
+    analysis: run.analysis,
+    metadata: {
+      tokensUsed: run.usage?.total_tokens,
+      estimatedCost: run.estimatedCost,
+      model: run.model,
+      requestedModel: model,
+      modelAttempts: run.attempts,
+    },
+  };
+}
+
+/**
+ * Analyze with several models and merge their answers into a consensus
+ * Models are requested together; OpenRouter calls still queue through llmLimiter.
+ * Fallback chains are not used, so each model's answer is its own. Models that fail
+ * are reported and left out of the consensus; the run fails only if every model fails.
+ *
+ * @param onModelDone - Called with the consensus so far each time a model answers
+ */
+async function analyzeEnsemble(
+  ensemble: string[],
+  pairs: DexPair[],
+  prompt: string,
+  llmOptions: LLMCallOptions,
+  meter: UsageMeter,
+  onModelDone: (done: number, partial: LLMAnalysis) => void
+): Promise<{ analysis: LLMAnalysis; metadata: AnalysisMetadata }> {
+  console.log(`[Analyze] Ensemble run with ${ensemble.join(', ')}`);
+
+  const runs: (ModelRun | undefined)[] = ensemble.map(() => undefined);
+  const failures: (unknown | undefined)[] = ensemble.map(() => undefined);
+  let done = 0;
+
+  const answered = () =>
+    runs.flatMap((run, index) => (run ? [{ model: ensemble[index], analysis: run.analysis }] : []));
+
+  await Promise.all(
+    ensemble.map(async (model, index) => {
+      try {
+        runs[index] = await runModel(model, prompt, { ...llmOptions, fallbackModels: [] }, meter);
+      } catch (error) {
+        if (llmOptions.signal?.aborted) throw error;
+        console.warn(`[Analyze] Ensemble model ${model} failed:`, error);
+        failures[index] = error;
+      }
+      done++;
+      const results = answered();
+      if (results.length > 0) onModelDone(done, buildConsensus(pairs, results).analysis);
+    })
+  );
+
+  const results = answered();
+  if (results.length === 0) throw failures[0];
+
+  const consensus = buildConsensus(pairs, results);
+  const modelResults = await Promise.all(
+    ensemble.map(async (model, index): Promise<EnsembleModelResult> => {
+      const run = runs[index];
+      if (!run) {
+        const errorInfo = await handleApiError(failures[index]);
+        return { model, errorCode: errorInfo.code, error: errorInfo.userMessage };
+      }
+      return {
+        model,
+        topPick: consensus.picks[results.findIndex(r => r.model === model)],
+        tokensUsed: run.usage?.total_tokens,
+        estimatedCost: run.estimatedCost,
+      };
+    })
+  );
+  const succeeded = runs.filter((run): run is ModelRun => run !== undefined);
+
+  return {
+    analysis: consensus.analysis,
+    metadata: {
+      tokensUsed: succeeded.reduce((sum, run) => sum + (run.usage?.total_tokens || 0), 0),
+      estimatedCost: succeeded.reduce((sum, run) => sum + run.estimatedCost, 0),
+      model: ensemble.join(' + '),
+      modelAttempts: succeeded.flatMap(run => run.attempts),
+      ensemble: {
+        models: modelResults,
+        votes: consensus.votes,
+        agreement: consensus.agreement,
+        disagreements: consensus.disagreements,
+      },
+    },
+  };
+}
+
+/**
+ * Settings shared by every shortlist batch
+ */
+interface ShortlistContext {
+  model: string;
+  chain: string;
+  timeframe: Timeframe;
+  language: 'en' | 'ja';
+  llmOptions: LLMCallOptions;
+  meter: UsageMeter;
+}
+
+/**
+ * Split candidate pairs into shortlist batches that each fit the context window
+ * @param capacity - Number of pairs that fit one full analysis prompt
+ */
+function planShortlistBatches(
+  pairs: DexPair[],
+  capacity: number,
+  contextLength: number,
+  chain: string,
+  timeframe: Timeframe,
+  language: 'en' | 'ja'
+): DexPair[][] {
+  return planBatches(
+    pairs,
+    batch =>
+      estimateTokens(buildShortlistPrompt(batch, chain, timeframe, capacity, language)) +
+      SHORTLIST_OUTPUT_TOKENS_PER_PAIR * Math.min(batch.length, capacity),
+    contextLength
+  );
+}
+
+/**
+ * Map step of chunked mode: shortlist the most promising pairs batch by batch
+ * Batches run one after another (the LLM limiter allows one request at a time anyway).
+ * Each batch keeps an equal share of `capacity` so the final prompt still fits. If a
+ * batch's reply cannot be parsed, its first pairs (DEXscreener order) are kept instead.
+ *
+ * @param pairs - All candidate pairs
+ * @param batches - Batches from planShortlistBatches
+ * @param capacity - Number of pairs that fit one full analysis prompt
+ * @param contextLength - Context window the batches were sized for
+ * @param context - Model, prompt settings and LLM options
+ * @param onBatch - Called before each batch with its 1-based number and the batch count
+ * @returns Shortlisted pairs (input order) with usage and a summary for metadata
+ */
+async function shortlistPairs(
+  pairs: DexPair[],
+  batches: DexPair[][],
+  capacity: number,
+  contextLength: number,
+  context: ShortlistContext,
+  onBatch: (batch: number, batches: number) => void
+): Promise<{
+  pairs: DexPair[];
+  tokensUsed: number;
+  estimatedCost: number;
+  summary: BatchingSummary;
+}> {
+  const { model, chain, timeframe, language, llmOptions, meter } = context;
+  const perBatch = Math.max(1, Math.floor(capacity / batches.length));
+  const shortlisted = new Set<string>();
+  let tokensUsed = 0;
+  let estimatedCost = 0;
+
+  console.log(
+    `[Analyze] Chunked mode: ${pairs.length} pairs in ${batches.length} batches, keeping ${perBatch} per batch`
+  );
+
+  for (const [index, batch] of batches.entries()) {
+    onBatch(index + 1, batches.length);
+    llmOptions.signal?.throwIfAborted();
+
+    const response = await callLLM(
+      model,
+      buildShortlistPrompt(batch, chain, timeframe, perBatch, language),
+      {
+        ...llmOptions,
+        responseSchema: { name: 'token_shortlist', schema: LLM_SHORTLIST_JSON_SCHEMA },
+      }
+    );
+    tokensUsed += response.usage?.total_tokens || 0;
+    estimatedCost += meter.record(response, model);
+
+    const parsed = parseLLMShortlist(response.content || '');
+    const batchIndex = new PairIndex(batch);
+    const picks = parsed.success
+      ? parsed.data.shortlist.flatMap(entry => batchIndex.resolve(entry) ?? [])
+      : batch;
+
+    if (!parsed.success) {
+      console.warn(
+        `[Analyze] Batch ${index + 1} shortlist was invalid, keeping top pairs:`,
+        parsed.error
+      );
+    }
+
+    [...new Set(picks)].slice(0, perBatch).forEach(pair => shortlisted.add(pair.pairAddress));
+  }
+
+  // Keep DEXscreener order; fall back to the first pairs if no batch kept anything
+  const finalists = pairs.filter(pair => shortlisted.has(pair.pairAddress));
+  const result = finalists.length > 0 ? finalists : pairs.slice(0, capacity);
+
+  return {
+    pairs: result,
+    tokensUsed,
+    estimatedCost,
+    summary: {
+      candidates: pairs.length,
+      batches: batches.length,
+      shortlisted: result.length,
+      contextLength,
+    },
+  };
+}
+
+/**
+ * Add token usage from two LLM calls
+ */
+function sumUsage(a: LLMResponse['usage'], b: LLMResponse['usage']): LLMResponse['usage'] {
+  return {
+    prompt_tokens: (a?.prompt_tokens || 0) + (b?.prompt_tokens || 0),
+    completion_tokens: (a?.completion_tokens || 0) + (b?.completion_tokens || 0),
+    total_tokens: (a?.total_tokens || 0) + (b?.total_tokens || 0),
+  };
+}
+
+/**
+ * Prices LLM responses and collects them for the usage ledger
+ */
+interface UsageMeter {
+  record: (response: LLMResponse, requestedModel: string) => number; // Returns the cost in USD
+  records: UsageRecord[];
+}
+
+/**
+ * Create a usage meter for one analysis run
+ */
+function createUsageMeter(chain: string, models: AvailableModel[]): UsageMeter {
+  const records: UsageRecord[] = [];
+
+  return {
+    records,
+    record: (response, requestedModel) => {
+      const cost = calculateResponseCost(response, models);
+      records.push({
+        timestamp: new Date().toISOString(),
+        model: response.model || requestedModel,
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        cost,
+        chain,
+      });
+      return cost;
+    },
+  };
+}
+
+/**
+ * Calculate the cost of one LLM response using the pricing of the model that answered
+ */
+function calculateResponseCost(response: LLMResponse, models: AvailableModel[]): number {
+  // Local models are free even when the local model list could not be fetched
+  if (isLocalModel(response.model)) return 0;
+
+  return calculateActualCost(
+    response.usage?.prompt_tokens || 0,
+    response.usage?.completion_tokens || 0,
+    models.find(m => m.id === response.model)
+  );
+}
+
 /**
  * Calculate actual cost based on token usage and model pricing
  * @param promptTokens - Number of prompt tokens used
@@ -276,8 +750,8 @@ function calculateActualCost(
     return (totalTokens / 1_000_000) * 3.0; // Default $3 per 1M tokens
   }
 
-  // Built-in models (Gemini Nano) are free
-  if (modelInfo.isBuiltIn) {
+  // Built-in (Gemini Nano) and local server models are free
+  if (modelInfo.isBuiltIn || modelInfo.isLocal) {
     return 0;
   }
 
@@ -0,0 +1,90 @@
+// Pick Performance Handler
+// Re-fetches past picks on chrome.alarms and records their price and liquidity at each checkpoint
+
+import { getMarketDataProvider } from '@/api/market-data';
+import type { DexPair } from '@/types/dexscreener';
+import {
+  applyPickOutcomes,
+  buildPickOutcome,
+  getDueCheckpoints,
+  getTrackedPicks,
+  type PickOutcomeUpdate,
+} from '@/utils/performance';
+
+/**
+ * Alarm name for performance checks
+ */
+export const PERFORMANCE_ALARM = 'pick-performance';
+
+/**
+ * Check interval (minutes); small against the shortest checkpoint's 30 minute grace
+ */
+const CHECK_INTERVAL_MINUTES = 10;
+
+/**
+ * Whether a check is in progress
+ */
+let checking = false;
+
+/**
+ * Create the check alarm if it does not exist yet (keeps its timer across restarts)
+ */
+export async function ensurePerformanceAlarm(): Promise<void> {
+  const alarm = await chrome.alarms.get(PERFORMANCE_ALARM);
+  if (!alarm) {
+    await chrome.alarms.create(PERFORMANCE_ALARM, { periodInMinutes: CHECK_INTERVAL_MINUTES });
+  }
+}
+
+/**
+ * Measure every pick with a checkpoint due
+ * Each pair is fetched once, even when several of its checkpoints are due (after a long sleep).
+ * A pair is recorded as gone only when the provider reports it unknown; if the request fails
+ * (rate limit, network, outage), the pick's checkpoints stay pending for the next check.
+ */
+export async function checkPickPerformance(): Promise<void> {
+  if (checking) {
+    console.log('[Performance] Previous check still in progress, skipping');
+    return;
+  }
+
+  checking = true;
+  try {
+    const now = Date.now();
+    const due = (await getTrackedPicks())
+      .map(pick => ({ pick, checkpoints: getDueCheckpoints(pick, now) }))
+      .filter(({ checkpoints }) => checkpoints.length > 0);
+    if (due.length === 0) return;
+
+    const provider = await getMarketDataProvider();
+    const updates: PickOutcomeUpdate[] = [];
+    let skipped = 0;
+    for (const { pick, checkpoints } of due) {
+      let pair: DexPair | null;
+      try {
+        pair = await provider.getPair(pick.chain, pick.pairAddress);
+      } catch (error) {
+        console.warn(
+          `[Performance] Failed to fetch pair ${pick.pairAddress}, retrying later:`,
+          error
+        );
+        skipped++;
+        continue;
+      }
+      for (const checkpoint of checkpoints) {
+        updates.push({
+          id: pick.id,
+          checkpoint,
+          outcome: buildPickOutcome(pick, checkpoint, pair, now),
+        });
+      }
+    }
+
+    await applyPickOutcomes(updates);
+    console.log(
+      `[Performance] Recorded ${updates.length} outcomes for ${due.length - skipped} picks (${skipped} skipped)`
+    );
+  } finally {
+    checking = false;
+  }
+}
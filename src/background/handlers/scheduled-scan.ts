@@ -0,0 +1,199 @@
+// Scheduled Scan Handler
+// Runs the analyze pipeline headlessly on chrome.alarms and notifies on interesting results
+
+import { AnalyzeReqSchema, type AnalyzeResult } from '@/shared/schema';
+import { translate } from '@/i18n/translate';
+import { saveToHistory } from '@/utils/history';
+import { evaluateScheduleAlert, getSchedules, updateSchedule } from '@/utils/schedules';
+import type { AnalysisResult } from '@/types/analysis';
+import type { ScanSchedule } from '@/types/schedule';
+import { handleAnalyzeRequest } from './analyze';
+
+/**
+ * Alarm name prefix; the schedule ID follows it
+ */
+export const SCHEDULE_ALARM_PREFIX = 'scheduled-scan:';
+
+/**
+ * Give up on a scheduled scan after this long (ms)
+ */
+const SCAN_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Schedules with a run in progress (a slow run is not started again by the next alarm)
+ */
+const runningSchedules = new Set<string>();
+
+/**
+ * Create, update or clear alarms so they match the stored schedules
+ * Alarms that already match are kept, so restarts do not reset their timers.
+ * Call on service worker start and whenever the schedules change.
+ */
+export async function syncScheduleAlarms(): Promise<void> {
+  const schedules = (await getSchedules()).filter(schedule => schedule.enabled);
+  const alarms = (await chrome.alarms.getAll()).filter(alarm =>
+    alarm.name.startsWith(SCHEDULE_ALARM_PREFIX)
+  );
+
+  for (const alarm of alarms) {
+    const schedule = schedules.find(s => `${SCHEDULE_ALARM_PREFIX}${s.id}` === alarm.name);
+    if (!schedule || alarm.periodInMinutes !== schedule.intervalMinutes) {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+
+  for (const schedule of schedules) {
+    const name = `${SCHEDULE_ALARM_PREFIX}${schedule.id}`;
+    const existing = alarms.find(alarm => alarm.name === name);
+    if (existing && existing.periodInMinutes === schedule.intervalMinutes) continue;
+
+    await chrome.alarms.create(name, {
+      delayInMinutes: schedule.intervalMinutes,
+      periodInMinutes: schedule.intervalMinutes,
+    });
+    console.log(`[Scheduler] Scheduled ${name} every ${schedule.intervalMinutes} min`);
+  }
+}
+
+/**
+ * Handle a fired schedule alarm
+ * @param alarmName - Alarm name (SCHEDULE_ALARM_PREFIX + schedule ID)
+ */
+export async function handleScheduleAlarm(alarmName: string): Promise<void> {
+  const id = alarmName.slice(SCHEDULE_ALARM_PREFIX.length);
+  const schedule = (await getSchedules()).find(s => s.id === id);
+
+  if (!schedule?.enabled) {
+    // Deleted or disabled while the alarm was pending
+    await chrome.alarms.clear(alarmName);
+    return;
+  }
+
+  if (runningSchedules.has(id)) {
+    console.log(`[Scheduler] Previous run of ${id} still in progress, skipping`);
+    return;
+  }
+
+  runningSchedules.add(id);
+  try {
+    await runScheduledScan(schedule);
+  } finally {
+    runningSchedules.delete(id);
+  }
+}
+
+/**
+ * Run one scheduled scan: analyze, save to history, notify, and record the outcome
+ */
+async function runScheduledScan(schedule: ScanSchedule): Promise<void> {
+  console.log(`[Scheduler] Running scheduled scan ${schedule.id} (${schedule.chain})`);
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), SCAN_TIMEOUT_MS);
+  let outcome: AnalyzeResult | undefined;
+
+  try {
+    const request = AnalyzeReqSchema.parse({
+      type: 'analyze',
+      id: crypto.randomUUID(),
+      chain: schedule.chain,
+      model: schedule.model,
+      maxPairs: schedule.maxPairs,
+      timeframe: schedule.timeframe,
+      pairMaxAge: schedule.pairMaxAge,
+      quoteTokens: schedule.quoteTokens,
+      strategy: schedule.strategy,
+      discovery: schedule.discovery,
+      filters: schedule.filters,
+      dexVenues: schedule.dexVenues,
+    });
+
+    // Headless: only the final result message matters
+    await handleAnalyzeRequest(
+      request,
+      msg => {
+        const message = msg as AnalyzeResult;
+        if (message.type === 'result') outcome = message;
+      },
+      controller.signal
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const runAt = new Date().toISOString();
+
+  if (!outcome?.data) {
+    const error = outcome?.error || 'No result';
+    console.warn(`[Scheduler] Scheduled scan ${schedule.id} failed:`, error);
+    await updateSchedule(schedule.id, { lastRunAt: runAt, lastError: error });
+    return;
+  }
+
+  const result = outcome.data as AnalysisResult;
+  await saveToHistory(
+    result,
+    schedule.chain,
+    schedule.model,
+    schedule.timeframe,
+    schedule.maxPairs,
+    schedule.pairMaxAge,
+    schedule.id
+  );
+
+  const alert = evaluateScheduleAlert(schedule, result);
+  if (alert) {
+    await notifyScanResult(schedule, result, alert.topPickChanged);
+  }
+
+  await updateSchedule(schedule.id, {
+    lastRunAt: runAt,
+    lastError: undefined,
+    lastTopPickAddress: result.topPick?.pairAddress,
+    lastTopPickSymbol: result.topPick?.symbol,
+  });
+}
+
+/**
+ * Show a desktop notification for a scheduled scan's top pick
+ */
+async function notifyScanResult(
+  schedule: ScanSchedule,
+  result: AnalysisResult,
+  topPickChanged: boolean
+): Promise<void> {
+  const topPick = result.topPick;
+  if (!topPick) return;
+
+  const details = [
+    topPickChanged && schedule.lastTopPickSymbol
+      ? await translate('schedules.notification.changed', {
+          previous: schedule.lastTopPickSymbol,
+        })
+      : undefined,
+    topPick.momentum !== undefined
+      ? await translate('schedules.notification.momentum', { momentum: topPick.momentum })
+      : undefined,
+    topPick.riskLevel
+      ? await translate('schedules.notification.risk', {
+          level: await translate(`results.riskLevel.${topPick.riskLevel}`),
+        })
+      : undefined,
+  ].filter(Boolean);
+
+  try {
+    await chrome.notifications.create(`${SCHEDULE_ALARM_PREFIX}${schedule.id}:${Date.now()}`, {
+      type: 'basic',
+      iconUrl: 'icons/128.png',
+      title: await translate('schedules.notification.title', {
+        symbol: topPick.symbol || '?',
+        chain: schedule.chain.toUpperCase(),
+        timeframe: schedule.timeframe.toUpperCase(),
+      }),
+      message: [topPick.reason, details.join(' · ')].filter(Boolean).join('\n'),
+      priority: 1,
+    });
+  } catch (error) {
+    console.error('[Scheduler] Failed to show notification:', error);
+  }
+}
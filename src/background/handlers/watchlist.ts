@@ -0,0 +1,159 @@
+// Watchlist Handler
+// Polls watched tokens on chrome.alarms and notifies when an alert threshold is crossed
+
+import { getMarketDataProvider } from '@/api/market-data';
+import { translate } from '@/i18n/translate';
+import { applyWatchlistUpdates, getWatchlist, type WatchPollUpdate } from '@/utils/watchlist';
+import { getPairHistories, recordPairSnapshots } from '@/utils/snapshot-store';
+import { getActiveRiskProfile } from '@/utils/risk-profiles';
+import { getCompiledRiskRules } from '@/utils/risk-rules';
+import type { WatchAlertHit, WatchlistItem, WatchSnapshot } from '@/types/watchlist';
+import { buildWatchSnapshot, evaluateWatchAlerts } from '../utils/watch-alerts';
+
+/**
+ * Alarm name for watchlist polling
+ */
+export const WATCHLIST_ALARM = 'watchlist-poll';
+
+/**
+ * Notification ID prefix for watchlist alerts
+ */
+export const WATCHLIST_NOTIFICATION_PREFIX = 'watchlist:';
+
+/**
+ * Polling interval (minutes)
+ */
+const POLL_INTERVAL_MINUTES = 2;
+
+/**
+ * Whether a poll is in progress (overlapping polls would race on the stored references)
+ */
+let polling = false;
+
+/**
+ * Create or clear the polling alarm so it runs only while tokens are watched
+ * Call on service worker start and whenever the watchlist changes.
+ */
+export async function syncWatchlistAlarm(): Promise<void> {
+  const watchlist = await getWatchlist();
+  const alarm = await chrome.alarms.get(WATCHLIST_ALARM);
+
+  if (watchlist.length === 0) {
+    if (alarm) {
+      await chrome.alarms.clear(WATCHLIST_ALARM);
+      console.log('[Watchlist] Polling stopped');
+    }
+    return;
+  }
+
+  if (!alarm) {
+    await chrome.alarms.create(WATCHLIST_ALARM, {
+      delayInMinutes: POLL_INTERVAL_MINUTES,
+      periodInMinutes: POLL_INTERVAL_MINUTES,
+    });
+    console.log(`[Watchlist] Polling every ${POLL_INTERVAL_MINUTES} min`);
+  }
+}
+
+/**
+ * Fetch current metrics for every watched token, raise alerts and store the snapshots
+ * Chains are polled independently; a failing chain does not block the others.
+ */
+export async function pollWatchlist(): Promise<void> {
+  if (polling) {
+    console.log('[Watchlist] Previous poll still in progress, skipping');
+    return;
+  }
+
+  polling = true;
+  try {
+    const watchlist = await getWatchlist();
+    const riskProfile = await getActiveRiskProfile();
+    const rules = await getCompiledRiskRules();
+    const byChain = new Map<string, WatchlistItem[]>();
+    for (const item of watchlist) {
+      byChain.set(item.chainId, [...(byChain.get(item.chainId) ?? []), item]);
+    }
+
+    const provider = await getMarketDataProvider();
+    const updates: WatchPollUpdate[] = [];
+
+    for (const [chainId, items] of byChain) {
+      try {
+        const pairs = await provider.getPairsByTokens(
+          chainId,
+          items.map(item => item.tokenAddress)
+        );
+        const histories = await getPairHistories(pairs);
+        await recordPairSnapshots(pairs);
+
+        for (const item of items) {
+          const address = item.tokenAddress.toLowerCase();
+          const snapshot = buildWatchSnapshot(
+            item.tokenAddress,
+            pairs.filter(
+              pair =>
+                pair.baseToken?.address?.toLowerCase() === address ||
+                pair.quoteToken?.address?.toLowerCase() === address
+            ),
+            histories,
+            riskProfile,
+            rules
+          );
+          if (!snapshot) continue;
+
+          const { hits, update } = evaluateWatchAlerts(item, snapshot);
+          if (hits.length > 0) {
+            await notifyWatchAlerts(item, snapshot, hits);
+          }
+          updates.push(update);
+        }
+      } catch (error) {
+        console.error(`[Watchlist] Failed to poll ${chainId}:`, error);
+      }
+    }
+
+    await applyWatchlistUpdates(updates);
+    console.log(`[Watchlist] Polled ${updates.length}/${watchlist.length} tokens`);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Show one desktop notification listing a token's alerts
+ */
+async function notifyWatchAlerts(
+  item: WatchlistItem,
+  snapshot: WatchSnapshot,
+  hits: WatchAlertHit[]
+): Promise<void> {
+  const lines = await Promise.all(
+    hits.map(async hit =>
+      hit.kind === 'riskLevel'
+        ? translate('watchlist.notification.riskLevel', {
+            from: await translate(`results.riskLevel.${hit.params.from}`),
+            to: await translate(`results.riskLevel.${hit.params.to}`),
+          })
+        : translate(`watchlist.notification.${hit.kind}`, hit.params)
+    )
+  );
+
+  try {
+    await chrome.notifications.create(
+      `${WATCHLIST_NOTIFICATION_PREFIX}${item.chainId}:${item.tokenAddress}:${Date.now()}`,
+      {
+        type: 'basic',
+        iconUrl: 'icons/128.png',
+        title: await translate('watchlist.notification.title', {
+          symbol: snapshot.symbol,
+          chain: item.chainId.toUpperCase(),
+        }),
+        message: lines.join('\n'),
+        priority: 1,
+      }
+    );
+  } catch (error) {
+    console.error('[Watchlist] Failed to show notification:', error);
+  }
+}
@@ -5,6 +5,23 @@ import { migrateStorage } from '@/shared/storage-migration';
 import { MessageSchema } from '@/shared/schema';
 import { handleApiError } from '@/shared/errors';
 import { handleAnalyzeRequest } from './handlers/analyze';
+import {
+  SCHEDULE_ALARM_PREFIX,
+  handleScheduleAlarm,
+  syncScheduleAlarms,
+} from './handlers/scheduled-scan';
+import {
+  WATCHLIST_ALARM,
+  WATCHLIST_NOTIFICATION_PREFIX,
+  pollWatchlist,
+  syncWatchlistAlarm,
+} from './handlers/watchlist';
+import {
+  PERFORMANCE_ALARM,
+  checkPickPerformance,
+  ensurePerformanceAlarm,
+} from './handlers/pick-performance';
+import { STORAGE_KEYS } from '@/types/storage';
 import { fetchAvailableModels } from '@/api/models';
 
 console.log('DegenLens background service worker loaded');
@@ -33,15 +50,64 @@ migrateStorage().catch(error => {
   console.error('Failed to migrate storage on startup:', error);
 });
 
+// Restore scheduled scan alarms on startup (alarms may be lost on browser restart)
+syncScheduleAlarms().catch(error => {
+  console.error('Failed to sync scheduled scan alarms:', error);
+});
+
+// Restore the watchlist polling alarm on startup
+syncWatchlistAlarm().catch(error => {
+  console.error('Failed to sync watchlist alarm:', error);
+});
+
+// Start the pick performance checks
+ensurePerformanceAlarm().catch(error => {
+  console.error('Failed to create pick performance alarm:', error);
+});
+
+// Keep alarms in sync when schedules or the watchlist are edited in the UI
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local') return;
+
+  if (changes[STORAGE_KEYS.SCHEDULED_SCANS]) {
+    syncScheduleAlarms().catch(error => {
+      console.error('Failed to sync scheduled scan alarms:', error);
+    });
+  }
+  if (changes[STORAGE_KEYS.WATCHLIST]) {
+    syncWatchlistAlarm().catch(error => {
+      console.error('Failed to sync watchlist alarm:', error);
+    });
+  }
+});
+
+// Open the dashboard when a scheduled scan or watchlist notification is clicked
+chrome.notifications.onClicked.addListener(notificationId => {
+  if (
+    notificationId.startsWith(SCHEDULE_ALARM_PREFIX) ||
+    notificationId.startsWith(WATCHLIST_NOTIFICATION_PREFIX)
+  ) {
+    chrome.tabs.create({ url: 'src/app/index.html' });
+    chrome.notifications.clear(notificationId);
+  }
+});
+
 // Port communication listener (for LLM long-running processes)
 chrome.runtime.onConnect.addListener(port => {
   console.log('Port connected:', port.name);
 
   let aborted = false;
 
+  // One controller per in-flight analyze request, aborted when the UI goes away
+  const controllers = new Set<AbortController>();
+
   // Monitor port disconnect
   port.onDisconnect.addListener(() => {
     aborted = true;
+    for (const controller of controllers) {
+      controller.abort();
+    }
+    controllers.clear();
     console.log('Port disconnected');
   });
 
@@ -77,9 +143,23 @@ chrome.runtime.onConnect.addListener(port => {
 
     // Route to appropriate handler based on message type
     if (msg.type === 'analyze') {
-      await handleAnalyzeRequest(msg, safePost, aborted);
+      const controller = new AbortController();
+      controllers.add(controller);
+      try {
+        await handleAnalyzeRequest(msg, safePost, controller.signal);
+      } finally {
+        controllers.delete(controller);
+      }
     } else if (msg.type === 'fetch-models') {
       await handleFetchModelsRequest(msg, safePost);
+    } else if (msg.type === 'poll-watchlist') {
+      try {
+        await pollWatchlist();
+        safePost({ type: 'watchlist-result', id: msg.id });
+      } catch (error) {
+        const errorInfo = await handleApiError(error);
+        safePost({ type: 'watchlist-result', id: msg.id, error: errorInfo.userMessage });
+      }
     } else {
       console.warn('[Background] Unknown message type:', msg.type);
       safePost({
@@ -131,6 +211,18 @@ chrome.alarms.onAlarm.addListener(alarm => {
   if (alarm.name === 'health-check') {
     console.log('[Health Check] Service Worker is alive');
     cleanupOldCache();
+  } else if (alarm.name.startsWith(SCHEDULE_ALARM_PREFIX)) {
+    handleScheduleAlarm(alarm.name).catch(error => {
+      console.error('[Scheduler] Scheduled scan failed:', error);
+    });
+  } else if (alarm.name === WATCHLIST_ALARM) {
+    pollWatchlist().catch(error => {
+      console.error('[Watchlist] Poll failed:', error);
+    });
+  } else if (alarm.name === PERFORMANCE_ALARM) {
+    checkPickPerformance().catch(error => {
+      console.error('[Performance] Check failed:', error);
+    });
   }
 });
 
@@ -0,0 +1,55 @@
+// Batch Planner Tests
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONTEXT_LENGTH,
+  estimateTokens,
+  getContextLength,
+  planBatches,
+} from '../batch-planner';
+import { GEMINI_NANO_CONTEXT_LENGTH, GEMINI_NANO_MODEL_ID } from '@/types/gemini-nano';
+
+describe('getContextLength', () => {
+  const models = [{ id: 'big/model', name: 'Big', context_length: 200_000 }];
+
+  it('should use the model catalogue', () => {
+    expect(getContextLength('big/model', models)).toBe(200_000);
+  });
+
+  it('should use the Gemini Nano quota', () => {
+    expect(getContextLength(GEMINI_NANO_MODEL_ID, models)).toBe(GEMINI_NANO_CONTEXT_LENGTH);
+  });
+
+  it('should fall back to a conservative default for unknown models', () => {
+    expect(getContextLength('unknown/model', [])).toBe(DEFAULT_CONTEXT_LENGTH);
+  });
+});
+
+describe('planBatches', () => {
+  // Each item costs 100 tokens; 1000-token context leaves an 800-token budget
+  const estimate = (batch: number[]) => batch.length * 100;
+
+  it('should keep everything in one batch when it fits', () => {
+    expect(planBatches([1, 2, 3], estimate, 1000)).toEqual([[1, 2, 3]]);
+  });
+
+  it('should split in order at the context budget', () => {
+    const batches = planBatches(
+      Array.from({ length: 20 }, (_, i) => i),
+      estimate,
+      1000
+    );
+
+    expect(batches.map(b => b.length)).toEqual([8, 8, 4]);
+    expect(batches.flat()).toEqual(Array.from({ length: 20 }, (_, i) => i));
+  });
+
+  it('should give an oversized item its own batch', () => {
+    const batches = planBatches(['a', 'huge', 'b'], b => (b.includes('huge') ? 5000 : 100), 1000);
+
+    expect(batches).toEqual([['a'], ['huge'], ['b']]);
+  });
+
+  it('should estimate tokens from text length', () => {
+    expect(estimateTokens('x'.repeat(300))).toBe(100);
+  });
+});
@@ -0,0 +1,85 @@
+// Ensemble Consensus Tests
+import { describe, it, expect } from 'vitest';
+import { makePair } from '@/test/fixtures';
+import { buildConsensus } from '../consensus';
+import { getPairId } from '../pair-matcher';
+import type { DexPair } from '@/types/dexscreener';
+import type { LLMAnalysis } from '@/shared/schema';
+
+function makeNamedPair(pairAddress: string, base: string): DexPair {
+  return makePair({
+    pairAddress,
+    baseToken: { address: `${pairAddress}-base`, name: base, symbol: base },
+    txns: { h24: { buys: 10, sells: 5 } },
+    volume: { h24: 1000 },
+    priceChange: { h24: 1 },
+  });
+}
+
+function makeAnalysis(topPick: string, momentum: Record<string, number>): LLMAnalysis {
+  return {
+    topPick: { id: getPairId(topPick), reason: `${topPick} looks strong` },
+    pairs: Object.entries(momentum).map(([address, value]) => ({
+      id: getPairId(address),
+      momentum: value,
+      observations: `${address} observations`,
+    })),
+  };
+}
+
+describe('buildConsensus', () => {
+  const pairs = [
+    makeNamedPair('pairA', 'PEPE'),
+    makeNamedPair('pairB', 'BONK'),
+    makeNamedPair('pairC', 'WIF'),
+  ];
+
+  it('should pick the pair with the most votes', () => {
+    const consensus = buildConsensus(pairs, [
+      { model: 'm1', analysis: makeAnalysis('pairA', { pairA: 7, pairB: 8, pairC: 2 }) },
+      { model: 'm2', analysis: makeAnalysis('pairA', { pairA: 9, pairB: 8, pairC: 3 }) },
+      { model: 'm3', analysis: makeAnalysis('pairB', { pairA: 5, pairB: 9, pairC: 2 }) },
+    ]);
+
+    expect(consensus.analysis.topPick?.id).toBe(getPairId('pairA'));
+    expect(consensus.analysis.topPick?.momentum).toBe(7);
+    expect(consensus.votes.map(v => [v.pairAddress, v.votes])).toEqual([
+      ['pairA', 2],
+      ['pairB', 1],
+    ]);
+    expect(consensus.agreement).toBeCloseTo(2 / 3);
+  });
+
+  it('should break vote ties by average momentum', () => {
+    const consensus = buildConsensus(pairs, [
+      { model: 'm1', analysis: makeAnalysis('pairA', { pairA: 6, pairB: 8 }) },
+      { model: 'm2', analysis: makeAnalysis('pairB', { pairA: 6, pairB: 9 }) },
+    ]);
+
+    expect(consensus.analysis.topPick?.id).toBe(getPairId('pairB'));
+    expect(consensus.analysis.runnerUps?.[0].id).toBe(getPairId('pairA'));
+  });
+
+  it('should average momentum per pair and report large spreads', () => {
+    const consensus = buildConsensus(pairs, [
+      { model: 'm1', analysis: makeAnalysis('pairA', { pairA: 8, pairB: 2 }) },
+      { model: 'm2', analysis: makeAnalysis('pairA', { pairA: 7, pairB: 9 }) },
+    ]);
+
+    const pairB = consensus.analysis.pairs.find(p => p.id === getPairId('pairB'));
+    expect(pairB?.momentum).toBe(5.5);
+    expect(consensus.disagreements).toEqual([
+      { pairAddress: 'pairB', symbol: 'BONK/SOL', spread: 7, momentumByModel: { m1: 2, m2: 9 } },
+    ]);
+  });
+
+  it('should report each model pick aligned with the input', () => {
+    const consensus = buildConsensus(pairs, [
+      { model: 'm1', analysis: makeAnalysis('pairC', { pairC: 6 }) },
+      { model: 'm2', analysis: { pairs: [] } },
+    ]);
+
+    expect(consensus.picks[0]).toMatchObject({ pairAddress: 'pairC', symbol: 'WIF/SOL' });
+    expect(consensus.picks[1]).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+// LLM Response Parser Tests
+import { describe, it, expect } from 'vitest';
+import {
+  buildRepairMessages,
+  extractJsonText,
+  parseLLMAnalysis,
+  parseLLMShortlist,
+} from '../llm-response';
+
+describe('extractJsonText', () => {
+  it('should unwrap markdown code fences', () => {
+    expect(extractJsonText('```json\n{"pairs": []}\n```')).toBe('{"pairs": []}');
+  });
+
+  it('should strip prose around a bare object', () => {
+    expect(extractJsonText('Here you go: {"pairs": []} Hope this helps')).toBe('{"pairs": []}');
+  });
+});
+
+describe('parseLLMAnalysis', () => {
+  it('should accept a valid response', () => {
+    const result = parseLLMAnalysis(
+      JSON.stringify({
+        topPick: { id: 'p0000001', reason: 'Strong volume' },
+        pairs: [{ id: 'p0000001', momentum: 8 }],
+        marketPulse: 'Bullish',
+      })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.success && result.data.pairs[0].momentum).toBe(8);
+  });
+
+  it('should report invalid JSON', () => {
+    const result = parseLLMAnalysis('{"pairs": [');
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('not valid JSON');
+  });
+
+  it('should report schema violations with paths', () => {
+    const result = parseLLMAnalysis(JSON.stringify({ pairs: [{ symbol: 'PEPE/SOL' }] }));
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('pairs.0.id');
+  });
+});
+
+describe('parseLLMShortlist', () => {
+  it('should accept a valid shortlist', () => {
+    const result = parseLLMShortlist('```json\n{"shortlist": [{"id": "p0000001"}]}\n```');
+
+    expect(result.success && result.data.shortlist).toEqual([{ id: 'p0000001' }]);
+  });
+
+  it('should reject a response without a shortlist', () => {
+    const result = parseLLMShortlist(JSON.stringify({ pairs: [] }));
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('shortlist');
+  });
+});
+
+describe('buildRepairMessages', () => {
+  it('should replay the conversation with the validation error', () => {
+    const messages = buildRepairMessages('prompt', 'bad output', '- pairs: Required');
+
+    expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[2].content).toContain('- pairs: Required');
+  });
+});
@@ -0,0 +1,64 @@
+// Pair Matcher Tests
+import { describe, it, expect } from 'vitest';
+import { makePair } from '@/test/fixtures';
+import { getPairId, PairIndex } from '../pair-matcher';
+import type { DexPair } from '@/types/dexscreener';
+
+function makeNamedPair(pairAddress: string, base: string, quote = 'SOL'): DexPair {
+  return makePair({
+    pairAddress,
+    baseToken: { address: `${pairAddress}-base`, name: base, symbol: base },
+    quoteToken: { address: 'quote', name: quote, symbol: quote },
+    txns: { h24: { buys: 10, sells: 5 } },
+    volume: { h24: 1000 },
+    priceChange: { h24: 1 },
+  });
+}
+
+describe('getPairId', () => {
+  it('should be stable and distinct per pair address', () => {
+    expect(getPairId('pairA')).toBe(getPairId('pairA'));
+    expect(getPairId('pairA')).not.toBe(getPairId('pairB'));
+    expect(getPairId('pairA')).toMatch(/^p[0-9a-z]{7}$/);
+  });
+});
+
+describe('PairIndex', () => {
+  const pairs = [
+    makeNamedPair('pairA', 'PEPE'),
+    makeNamedPair('pairB', 'PEPE'),
+    makeNamedPair('pairC', 'BONK'),
+  ];
+
+  it('should resolve by ID even when tickers collide', () => {
+    const index = new PairIndex(pairs);
+
+    expect(index.resolve({ id: getPairId('pairB'), symbol: 'PEPE/SOL' })?.pairAddress).toBe(
+      'pairB'
+    );
+  });
+
+  it('should not fall back to an ambiguous symbol', () => {
+    const index = new PairIndex(pairs);
+
+    expect(index.resolve({ symbol: 'PEPE/SOL' })).toBeNull();
+    expect(index.resolve({ symbol: 'BONK' })?.pairAddress).toBe('pairC');
+  });
+
+  it('should report invented and duplicate entries as unmatched', () => {
+    const index = new PairIndex(pairs);
+    const entries = [
+      { id: getPairId('pairC'), observations: 'reordered' },
+      { id: getPairId('pairA'), observations: 'first' },
+      { id: 'pzzzzzzz', observations: 'invented' },
+      { id: getPairId('pairA'), observations: 'duplicate' },
+    ];
+
+    const { matched, unmatched } = index.matchAll(entries);
+
+    expect(matched.get('pairA')?.observations).toBe('first');
+    expect(matched.get('pairC')?.observations).toBe('reordered');
+    expect(matched.has('pairB')).toBe(false);
+    expect(unmatched.map(entry => entry.observations)).toEqual(['invented', 'duplicate']);
+  });
+});
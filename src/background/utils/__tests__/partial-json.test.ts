@@ -0,0 +1,37 @@
+// Partial JSON Parser Tests
+import { describe, it, expect } from 'vitest';
+import { parsePartialJson } from '../partial-json';
+
+describe('parsePartialJson', () => {
+  it('should return undefined before an object starts', () => {
+    expect(parsePartialJson('```json\n')).toBeUndefined();
+  });
+
+  it('should parse a complete object inside a code fence', () => {
+    expect(parsePartialJson('```json\n{"pairs": []}\n```')).toEqual({ pairs: [] });
+  });
+
+  it('should close an unterminated string value', () => {
+    expect(parsePartialJson('{"topPick": {"id": "p1", "reason": "Strong vol')).toEqual({
+      topPick: { id: 'p1', reason: 'Strong vol' },
+    });
+  });
+
+  it('should drop a key that is still being written', () => {
+    expect(parsePartialJson('{"pairs": [{"id": "p1", "momentum": 7}, {"id": "p2", "obs')).toEqual({
+      pairs: [{ id: 'p1', momentum: 7 }, { id: 'p2' }],
+    });
+  });
+
+  it('should drop an incomplete literal', () => {
+    expect(parsePartialJson('{"a": 1, "b": tr')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": 1, "b": 2.')).toEqual({ a: 1 });
+  });
+
+  it('should not treat brackets inside strings as structure', () => {
+    expect(parsePartialJson('{"reason": "buys [x] {y}", "pairs": [')).toEqual({
+      reason: 'buys [x] {y}',
+      pairs: [],
+    });
+  });
+});
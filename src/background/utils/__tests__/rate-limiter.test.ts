@@ -138,4 +138,24 @@ describe('RateLimiter', () => {
     expect(maxActive1).toBe(1);
     expect(maxActive2).toBeLessThanOrEqual(2);
   });
+
+  it('should drop an aborted queued task and run the next one', async () => {
+    const limiter = new RateLimiter(1);
+    const controller = new AbortController();
+
+    let releaseFirst: () => void = () => {};
+    const first = limiter.execute(() => new Promise<void>(resolve => (releaseFirst = resolve)));
+    const cancelled = vi.fn(async () => 'cancelled');
+    const second = limiter.execute(cancelled, controller.signal);
+    const third = limiter.execute(async () => 'third');
+
+    controller.abort();
+    await expect(second).rejects.toThrow();
+
+    releaseFirst();
+    await first;
+
+    await expect(third).resolves.toBe('third');
+    expect(cancelled).not.toHaveBeenCalled();
+  });
 });
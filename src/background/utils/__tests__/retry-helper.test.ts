@@ -155,6 +155,40 @@ describe('retryWithBackoff', () => {
   });
 });
 
+describe('retryWithBackoff cancellation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it('should not call fn when signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = vi.fn().mockResolvedValue('success');
+
+    await expect(retryWithBackoff(fn, { signal: controller.signal })).rejects.toThrow();
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should stop retrying when aborted during backoff', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+    const promise = retryWithBackoff(fn, {
+      maxAttempts: 3,
+      initialDelay: 1000,
+      signal: controller.signal,
+    });
+    const assertion = expect(promise).rejects.toThrow();
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await assertion;
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe('retryAfterDelay', () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -0,0 +1,150 @@
+// Watch Alerts Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair, makeToken } from '@/test/fixtures';
+import { buildWatchSnapshot, evaluateWatchAlerts } from '../watch-alerts';
+import type { DexPair } from '@/types/dexscreener';
+import type { WatchlistItem, WatchSnapshot } from '@/types/watchlist';
+
+function makeWatchedPair(pairAddress: string, base: string, liquidity: number): DexPair {
+  return makePair({
+    pairAddress,
+    baseToken: makeToken(base),
+    priceUsd: '0.5',
+    txns: { h1: { buys: 10, sells: 5 }, h24: { buys: 100, sells: 80 } },
+    volume: { h24: 50_000 },
+    priceChange: { h1: 2, h24: 10 },
+    liquidity: makeLiquidity(liquidity),
+  });
+}
+
+function makeSnapshot(overrides: Partial<WatchSnapshot> = {}): WatchSnapshot {
+  return {
+    at: '2026-01-01T00:00:00.000Z',
+    pairAddress: 'pairA',
+    symbol: 'PEPE/SOL',
+    url: 'https://dexscreener.com/solana/pairA',
+    priceUsd: 1,
+    liquidityUsd: 100_000,
+    volumeH24: 50_000,
+    priceChangeH1: 0,
+    priceChangeH24: 0,
+    buysH1: 10,
+    sellsH1: 10,
+    riskLevel: 'caution',
+    riskScore: 40,
+    ...overrides,
+  };
+}
+
+function makeItem(overrides: Partial<WatchlistItem> = {}): WatchlistItem {
+  return {
+    chainId: 'solana',
+    tokenAddress: 'pepe',
+    symbol: 'PEPE',
+    addedAt: '2026-01-01T00:00:00.000Z',
+    alerts: { priceChangePct: 20, liquidityDropPct: 30, maxSellBuyRatio: 2, riskLevelChange: true },
+    ...overrides,
+  };
+}
+
+describe('buildWatchSnapshot', () => {
+  it('should use the most liquid pair with the token as base', () => {
+    const snapshot = buildWatchSnapshot('PEPE', [
+      makeWatchedPair('small', 'pepe', 10_000),
+      makeWatchedPair('other', 'bonk', 900_000),
+      makeWatchedPair('large', 'pepe', 200_000),
+    ]);
+
+    expect(snapshot?.pairAddress).toBe('large');
+    expect(snapshot?.symbol).toBe('PEPE/SOL');
+    expect(snapshot?.priceUsd).toBe(0.5);
+    expect(snapshot?.buysH1).toBe(10);
+    expect(snapshot?.sellsH1).toBe(5);
+  });
+
+  it('should return null without pairs', () => {
+    expect(buildWatchSnapshot('pepe', [])).toBeNull();
+  });
+});
+
+describe('evaluateWatchAlerts', () => {
+  it('should not alert on the first poll and set the references', () => {
+    const { hits, update } = evaluateWatchAlerts(makeItem(), makeSnapshot());
+
+    expect(hits).toEqual([]);
+    expect(update.referencePriceUsd).toBe(1);
+    expect(update.referenceLiquidityUsd).toBe(100_000);
+    expect(update.lastAlertAt).toBeUndefined();
+  });
+
+  it('should alert on a price move past the threshold and reset the reference', () => {
+    const item = makeItem({ latest: makeSnapshot(), referencePriceUsd: 1 });
+    const { hits, update } = evaluateWatchAlerts(item, makeSnapshot({ priceUsd: 0.75 }));
+
+    expect(hits).toEqual([{ kind: 'price', params: { change: '-25.0' } }]);
+    expect(update.referencePriceUsd).toBe(0.75);
+    expect(update.lastAlertAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should keep the price reference below the threshold', () => {
+    const item = makeItem({ latest: makeSnapshot(), referencePriceUsd: 1 });
+    const { hits, update } = evaluateWatchAlerts(item, makeSnapshot({ priceUsd: 1.1 }));
+
+    expect(hits).toEqual([]);
+    expect(update.referencePriceUsd).toBe(1);
+  });
+
+  it('should measure liquidity drops from the peak', () => {
+    const item = makeItem({ latest: makeSnapshot(), referenceLiquidityUsd: 100_000 });
+    const risen = evaluateWatchAlerts(item, makeSnapshot({ liquidityUsd: 150_000 }));
+    expect(risen.hits).toEqual([]);
+    expect(risen.update.referenceLiquidityUsd).toBe(150_000);
+
+    const dropped = evaluateWatchAlerts(
+      { ...item, ...risen.update },
+      makeSnapshot({ liquidityUsd: 90_000 })
+    );
+    expect(dropped.hits).toEqual([{ kind: 'liquidity', params: { drop: '40.0' } }]);
+    expect(dropped.update.referenceLiquidityUsd).toBe(90_000);
+  });
+
+  it('should alert on sell pressure only when the ratio crosses the threshold', () => {
+    const crossing = evaluateWatchAlerts(
+      makeItem({ latest: makeSnapshot() }),
+      makeSnapshot({ buysH1: 4, sellsH1: 12 })
+    );
+    expect(crossing.hits).toEqual([
+      { kind: 'sellPressure', params: { ratio: '3.0', sells: 12, buys: 4 } },
+    ]);
+
+    const sustained = evaluateWatchAlerts(
+      makeItem({ latest: makeSnapshot({ buysH1: 4, sellsH1: 12 }) }),
+      makeSnapshot({ buysH1: 3, sellsH1: 12 })
+    );
+    expect(sustained.hits).toEqual([]);
+  });
+
+  it('should alert on a risk level change', () => {
+    const { hits } = evaluateWatchAlerts(
+      makeItem({ latest: makeSnapshot({ riskLevel: 'caution' }) }),
+      makeSnapshot({ riskLevel: 'danger' })
+    );
+
+    expect(hits).toEqual([{ kind: 'riskLevel', params: { from: 'caution', to: 'danger' } }]);
+  });
+
+  it('should skip alerts that are turned off', () => {
+    const item = makeItem({
+      alerts: { riskLevelChange: false },
+      latest: makeSnapshot(),
+      referencePriceUsd: 1,
+      referenceLiquidityUsd: 100_000,
+    });
+    const { hits } = evaluateWatchAlerts(
+      item,
+      makeSnapshot({ priceUsd: 3, liquidityUsd: 1_000, sellsH1: 100, riskLevel: 'danger' })
+    );
+
+    expect(hits).toEqual([]);
+  });
+});
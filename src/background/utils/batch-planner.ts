@@ -0,0 +1,69 @@
+// Batch Planner
+// Sizes prompt batches so each request fits the model's context window
+
+import type { AvailableModel } from '@/api/models';
+import { GEMINI_NANO_CONTEXT_LENGTH, GEMINI_NANO_MODEL_ID } from '@/types/gemini-nano';
+
+/**
+ * Context length assumed when the model list has no entry for the model
+ */
+export const DEFAULT_CONTEXT_LENGTH = 8192;
+
+/**
+ * Characters per token used for estimates
+ * Deliberately low: numbers, JSON and Japanese text tokenize densely.
+ */
+const CHARS_PER_TOKEN = 3;
+
+/**
+ * Share of the context window a request may use (headroom for estimate error)
+ */
+const CONTEXT_SAFETY_RATIO = 0.8;
+
+/**
+ * Rough token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Get a model's context window in tokens
+ * @param modelId - Model ID
+ * @param models - Model catalogue (may be empty if it could not be fetched)
+ */
+export function getContextLength(modelId: string, models: AvailableModel[]): number {
+  if (modelId === GEMINI_NANO_MODEL_ID) return GEMINI_NANO_CONTEXT_LENGTH;
+  return models.find(m => m.id === modelId)?.context_length || DEFAULT_CONTEXT_LENGTH;
+}
+
+/**
+ * Split items into consecutive batches whose requests fit the context window
+ * Batches are filled greedily in order. An item that does not fit even on its own
+ * gets a batch to itself rather than being dropped.
+ *
+ * @param items - Items to split
+ * @param estimate - Estimated total tokens (prompt + expected output) for a batch
+ * @param contextLength - Model context window in tokens
+ * @returns Non-empty batches, in input order
+ */
+export function planBatches<T>(
+  items: T[],
+  estimate: (batch: T[]) => number,
+  contextLength: number
+): T[][] {
+  const budget = contextLength * CONTEXT_SAFETY_RATIO;
+  const batches: T[][] = [];
+  let current: T[] = [];
+
+  for (const item of items) {
+    if (current.length > 0 && estimate([...current, item]) > budget) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(item);
+  }
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+}
@@ -0,0 +1,161 @@
+// Ensemble Consensus
+// Merges analyses of the same pairs from several models into one consensus analysis
+
+import type { DexPair } from '@/types/dexscreener';
+import type { EnsembleDisagreement, EnsembleModelResult, EnsembleVote } from '@/types/analysis';
+import type { LLMAnalysis } from '@/shared/schema';
+import { getPairId, PairIndex } from './pair-matcher';
+import { formatSymbol } from './result-builder';
+
+/**
+ * Validated analysis from one model
+ */
+export interface ModelAnalysis {
+  model: string;
+  analysis: LLMAnalysis;
+}
+
+/**
+ * Consensus across models
+ */
+export interface Consensus {
+  analysis: LLMAnalysis; // Merged analysis, ready for buildAnalysisResult
+  picks: EnsembleModelResult['topPick'][]; // Each model's top pick, aligned with the input
+  votes: EnsembleVote[];
+  agreement: number;
+  disagreements: EnsembleDisagreement[];
+}
+
+/**
+ * Momentum spread (0-10 scale) at which models are considered to disagree on a pair
+ */
+export const DISAGREEMENT_SPREAD = 3;
+
+/**
+ * Number of runner-ups taken from the consensus ranking
+ */
+const MAX_RUNNER_UPS = 2;
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Build a consensus from several models' analyses of the same pairs
+ * Pairs are ranked by top pick votes, then by average momentum across models.
+ * Per-pair text (observations, catalyst, risk) comes from the first model that wrote it.
+ *
+ * @param pairs - Pairs that were sent to every model
+ * @param results - Analyses from the models that answered, in ensemble order
+ * @returns Merged analysis plus vote and disagreement details
+ */
+export function buildConsensus(pairs: DexPair[], results: ModelAnalysis[]): Consensus {
+  const pairIndex = new PairIndex(pairs);
+
+  const perModel = results.map(({ model, analysis }) => ({
+    model,
+    analysis,
+    entries: pairIndex.matchAll(analysis.pairs).matched,
+    topPickPair: pairIndex.resolve(analysis.topPick),
+  }));
+
+  const ranked = pairs
+    .map(pair => {
+      const entries = perModel.flatMap(({ model, entries }) => {
+        const entry = entries.get(pair.pairAddress);
+        return entry ? [{ model, entry }] : [];
+      });
+      const momentumByModel: Record<string, number> = {};
+      for (const { model, entry } of entries) {
+        if (entry.momentum !== undefined) momentumByModel[model] = entry.momentum;
+      }
+      const momenta = Object.values(momentumByModel);
+      const voters = perModel.filter(m => m.topPickPair?.pairAddress === pair.pairAddress);
+
+      return {
+        pair,
+        entries,
+        momentumByModel,
+        spread: momenta.length > 1 ? Math.max(...momenta) - Math.min(...momenta) : 0,
+        averageMomentum:
+          momenta.length > 0
+            ? round1(momenta.reduce((a, b) => a + b, 0) / momenta.length)
+            : undefined,
+        voters,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.voters.length - a.voters.length || (b.averageMomentum ?? -1) - (a.averageMomentum ?? -1)
+    );
+
+  const winner = ranked[0]?.voters.length ? ranked[0] : undefined;
+  const winnerTopPick = winner?.voters[0].analysis.topPick;
+
+  const analysis: LLMAnalysis = {
+    topPick:
+      winner && winnerTopPick
+        ? {
+            ...winnerTopPick,
+            id: getPairId(winner.pair.pairAddress),
+            momentum: winner.averageMomentum ?? winnerTopPick.momentum,
+          }
+        : undefined,
+    pairs: ranked
+      .filter(r => r.entries.length > 0)
+      .map(({ pair, entries, averageMomentum }) => ({
+        id: getPairId(pair.pairAddress),
+        symbol: formatSymbol(pair),
+        momentum: averageMomentum,
+        observations: entries.find(e => e.entry.observations)?.entry.observations,
+        catalyst: entries.find(e => e.entry.catalyst)?.entry.catalyst,
+        moonshotPotential: entries.find(e => e.entry.moonshotPotential)?.entry.moonshotPotential,
+        risk: entries.find(e => e.entry.risk)?.entry.risk,
+      })),
+    runnerUps: ranked
+      .filter(r => r !== winner && r.averageMomentum !== undefined)
+      .slice(0, MAX_RUNNER_UPS)
+      .map(({ pair, voters, entries }) => ({
+        id: getPairId(pair.pairAddress),
+        symbol: formatSymbol(pair),
+        reason: voters[0]?.analysis.topPick?.reason ?? entries[0]?.entry.observations,
+      })),
+    marketPulse: results.map(r => r.analysis.marketPulse || r.analysis.summary).find(Boolean),
+  };
+
+  return {
+    analysis,
+    picks: perModel.map(({ analysis, topPickPair }) =>
+      analysis.topPick
+        ? {
+            pairAddress: topPickPair?.pairAddress,
+            symbol: topPickPair ? formatSymbol(topPickPair) : analysis.topPick.symbol,
+            momentum: analysis.topPick.momentum,
+            reason: analysis.topPick.reason,
+          }
+        : undefined
+    ),
+    votes: ranked
+      .filter(r => r.voters.length > 0)
+      .map(({ pair, voters, averageMomentum }) => ({
+        pairAddress: pair.pairAddress,
+        symbol: formatSymbol(pair),
+        votes: voters.length,
+        models: voters.map(v => v.model),
+        averageMomentum,
+      })),
+    agreement: winner && results.length > 0 ? winner.voters.length / results.length : 0,
+    disagreements: ranked
+      .filter(r => r.spread >= DISAGREEMENT_SPREAD)
+      .sort((a, b) => b.spread - a.spread)
+      .map(({ pair, spread, momentumByModel }) => ({
+        pairAddress: pair.pairAddress,
+        symbol: formatSymbol(pair),
+        spread: round1(spread),
+        momentumByModel,
+      })),
+  };
+}
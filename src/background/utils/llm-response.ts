@@ -0,0 +1,97 @@
+// LLM Response Parser
+// Extracts and validates the analysis JSON returned by the LLM
+
+import type { z } from 'zod';
+import {
+  LLMAnalysisSchema,
+  LLMShortlistSchema,
+  type LLMAnalysis,
+  type LLMShortlist,
+} from '@/shared/schema';
+import type { LLMMessage } from '@/api/llm-client';
+
+/**
+ * Result of parsing an LLM response
+ */
+export type LLMParseResult<T = LLMAnalysis> =
+  { success: true; data: T } | { success: false; error: string };
+
+/**
+ * Maximum number of validation issues reported back to the model
+ */
+const MAX_REPORTED_ISSUES = 20;
+
+/**
+ * Extract the JSON payload from LLM output
+ * Handles markdown code fences and leading/trailing prose around a bare object.
+ */
+export function extractJsonText(content: string): string {
+  const fenced =
+    content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/```\s*([\s\S]*?)\s*```/);
+  if (fenced) return fenced[1];
+
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start !== -1 && end > start ? content.slice(start, end + 1) : content;
+}
+
+/**
+ * Parse and validate LLM analysis output
+ * @param content - Raw LLM response text
+ * @returns Validated analysis, or a human-readable description of what was wrong
+ */
+export function parseLLMAnalysis(content: string): LLMParseResult {
+  return parseWithSchema(content, LLMAnalysisSchema);
+}
+
+/**
+ * Parse and validate a batch shortlist (chunked mode)
+ * @param content - Raw LLM response text
+ * @returns Validated shortlist, or a human-readable description of what was wrong
+ */
+export function parseLLMShortlist(content: string): LLMParseResult<LLMShortlist> {
+  return parseWithSchema(content, LLMShortlistSchema);
+}
+
+/**
+ * Extract JSON from LLM output and validate it against a schema
+ */
+function parseWithSchema<T>(content: string, schema: z.ZodType<T>): LLMParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJsonText(content));
+  } catch (error) {
+    return {
+      success: false,
+      error: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  const issues = parsed.error.issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  return { success: false, error: `Response does not match the schema:\n${issues.join('\n')}` };
+}
+
+/**
+ * Build the follow-up conversation asking the model to fix its output
+ * @param prompt - Original analysis prompt
+ * @param content - Invalid response from the model
+ * @param error - Validation error from parseLLMAnalysis
+ * @returns Messages for a repair request
+ */
+export function buildRepairMessages(prompt: string, content: string, error: string): LLMMessage[] {
+  return [
+    { role: 'user', content: prompt },
+    { role: 'assistant', content },
+    {
+      role: 'user',
+      content: `Your previous response could not be used.\n${error}\n\nReturn ONLY the corrected JSON object in the format requested above, with no markdown or commentary. Every "pairs" entry must include the token's "id".`,
+    },
+  ];
+}
@@ -0,0 +1,95 @@
+// Pair Matcher
+// Joins LLM per-pair output back to the DexPairs it describes
+
+import type { DexPair } from '@/types/dexscreener';
+
+/**
+ * Reference to a pair as echoed back by the LLM
+ */
+export interface LLMPairRef {
+  id?: string;
+  symbol?: string;
+}
+
+/**
+ * Derive a stable short ID from a pair address
+ * Uses 32-bit FNV-1a so the same pair always gets the same ID across scans.
+ * @param pairAddress - DEXscreener pair address
+ * @returns Short ID (e.g. "p01x9k2m")
+ */
+export function getPairId(pairAddress: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < pairAddress.length; i++) {
+    hash ^= pairAddress.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `p${(hash >>> 0).toString(36).padStart(7, '0')}`;
+}
+
+/**
+ * Format pair symbol as "BASE/QUOTE"
+ */
+function formatSymbol(pair: DexPair): string {
+  return `${pair.baseToken?.symbol || 'Unknown'}/${pair.quoteToken?.symbol || 'Unknown'}`;
+}
+
+/**
+ * Index of pairs by stable ID, with symbol lookup as a fallback
+ * for responses that omit the ID (e.g. custom prompts written before IDs existed)
+ */
+export class PairIndex {
+  private byId = new Map<string, DexPair>();
+
+  constructor(private pairs: DexPair[]) {
+    for (const pair of pairs) {
+      this.byId.set(getPairId(pair.pairAddress), pair);
+    }
+  }
+
+  /**
+   * Resolve an LLM reference to a pair
+   * IDs are authoritative. A symbol is only used when the ID is absent and
+   * exactly one pair carries it, so shared tickers never resolve to the wrong token.
+   * @returns Matched pair, or null if the reference is unknown or ambiguous
+   */
+  resolve(ref: LLMPairRef | undefined): DexPair | null {
+    if (!ref) return null;
+
+    const id = ref.id?.trim().toLowerCase();
+    if (id) {
+      return this.byId.get(id) ?? null;
+    }
+
+    const symbol = ref.symbol?.trim().toUpperCase();
+    if (!symbol) return null;
+
+    const candidates = this.pairs.filter(pair =>
+      symbol.includes('/')
+        ? formatSymbol(pair).toUpperCase() === symbol
+        : pair.baseToken?.symbol?.toUpperCase() === symbol
+    );
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  /**
+   * Join LLM per-pair entries to pairs
+   * @param entries - Per-pair entries from the LLM response
+   * @returns Entries keyed by pair address, plus entries that matched no pair
+   */
+  matchAll<T extends LLMPairRef>(entries: T[]): { matched: Map<string, T>; unmatched: T[] } {
+    const matched = new Map<string, T>();
+    const unmatched: T[] = [];
+
+    for (const entry of entries) {
+      const pair = this.resolve(entry);
+      if (!pair || matched.has(pair.pairAddress)) {
+        // Unknown ID, ambiguous symbol, or a duplicate entry for an already-matched pair
+        unmatched.push(entry);
+        continue;
+      }
+      matched.set(pair.pairAddress, entry);
+    }
+
+    return { matched, unmatched };
+  }
+}
@@ -0,0 +1,84 @@
+// Partial JSON Parser
+// Parses the JSON object an LLM is still in the middle of writing
+
+/**
+ * Point where the text can be cut and closed into valid JSON
+ */
+interface CutPoint {
+  index: number; // Cut text at this index (exclusive)
+  closers: string; // Brackets needed to close the structure at that point
+}
+
+/**
+ * Parse an incomplete JSON object
+ * Unterminated strings are closed, open arrays/objects are closed, and a trailing
+ * key or value that is still being written (e.g. `"momentum": 7.`, `"risk":`) is dropped.
+ *
+ * @param text - Streamed text so far (may include a markdown fence or leading prose)
+ * @returns Parsed value, or undefined if no object has started yet
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+
+  const stack: string[] = [];
+  const cuts: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+  let end = text.length;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      cuts.push({ index: i + 1, closers: [...stack].reverse().join('') });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) {
+        // Complete top-level object; ignore anything after it (e.g. closing fence)
+        end = i + 1;
+        break;
+      }
+      cuts.push({ index: i + 1, closers: [...stack].reverse().join('') });
+    } else if (char === ',') {
+      cuts.push({ index: i, closers: [...stack].reverse().join('') });
+    }
+  }
+
+  const body = text.slice(start, end);
+  const closers = [...stack].reverse().join('');
+
+  // Optimistic attempt: close an open string (if any) and all open brackets
+  const full = tryParse(body.replace(/\\$/, '') + (inString ? '"' : '') + closers);
+  if (full !== undefined) return full;
+
+  // Back off to the most recent structural boundary that yields valid JSON
+  for (let i = cuts.length - 1; i >= 0; i--) {
+    const cut = cuts[i];
+    const value = tryParse(text.slice(start, cut.index) + cut.closers);
+    if (value !== undefined) return value;
+  }
+
+  return undefined;
+}
+
+/**
+ * JSON.parse that returns undefined instead of throwing
+ */
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
@@ -17,11 +17,14 @@ export class RateLimiter {
   /**
    * Execute a function with rate limiting
    * If max concurrent operations are running, queue the operation
+   * A queued operation is dropped from the queue when its signal is aborted
    */
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  async execute<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+
     // If at capacity, wait in queue
     if (this.running >= this.maxConcurrent) {
-      await new Promise<void>(resolve => this.queue.push(resolve));
+      await this.waitForSlot(signal);
     }
 
     this.running++;
@@ -35,6 +38,27 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Wait in queue until a slot is free
+   * Rejects with the abort reason (and leaves the queue) if cancelled while waiting
+   */
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(entry => entry !== next);
+        reject(signal!.reason);
+      };
+
+      const next = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.queue.push(next);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   /**
    * Get current status
    */
@@ -56,4 +80,6 @@ export class RateLimiter {
 
 // Global rate limiters for different APIs
 export const dexLimiter = new RateLimiter(2); // DEXscreener: 2 concurrent
+export const geckoLimiter = new RateLimiter(1); // GeckoTerminal: 1 concurrent (public API allows ~30 calls/min)
 export const llmLimiter = new RateLimiter(1); // OpenRouter: 1 concurrent (safer for LLM APIs)
+export const localLlmLimiter = new RateLimiter(1); // Local server: 1 concurrent (one GPU)
@@ -0,0 +1,140 @@
+// Result Builder
+// Combines fetched pairs with LLM analysis into an AnalysisResult
+
+import type { DexPair, Timeframe } from '@/types/dexscreener';
+import type { PairHistories } from '@/types/snapshot';
+import { BALANCED_RISK_PROFILE, type RiskProfile } from '@/types/risk-profile';
+import type { AnalysisMetadata, AnalysisResult } from '@/types/analysis';
+import type { PartialLLMAnalysis } from '@/shared/schema';
+import { calculateRiskLevel } from '@/utils/risk-assessment';
+import type { CompiledRule } from '@/utils/rule-language';
+import { calculateMomentumBreakdown, getPairFeatures } from '@/utils/pair-features';
+import { getPairId, PairIndex } from './pair-matcher';
+
+/**
+ * Format pair symbol as "BASE/QUOTE"
+ */
+export function formatSymbol(pair: DexPair): string {
+  return `${pair.baseToken?.symbol || 'Unknown'}/${pair.quoteToken?.symbol || 'Unknown'}`;
+}
+
+/**
+ * Build an analysis result from pairs and (possibly partial) LLM output
+ * LLM entries are joined to pairs by ID, never by array position or bare ticker.
+ *
+ * @param pairs - Pairs that were sent to the LLM
+ * @param llmAnalysis - Validated LLM output, or the part streamed so far
+ * @param timeframe - Timeframe used for volume/price change columns
+ * @param metadata - Metadata to attach (tokens, cost, model, ...)
+ * @param partial - True while the LLM is still streaming; suppresses dropped/invented flags
+ * @param histories - Earlier snapshots per pair address, for rug-pull risk factors
+ * @param riskProfile - Risk profile to score pairs with
+ * @param rules - User-written point rules to score pairs with
+ * @returns Analysis result
+ */
+export function buildAnalysisResult(
+  pairs: DexPair[],
+  llmAnalysis: PartialLLMAnalysis,
+  timeframe: Timeframe,
+  metadata: AnalysisMetadata,
+  partial = false,
+  histories: PairHistories = new Map(),
+  riskProfile: RiskProfile = BALANCED_RISK_PROFILE,
+  rules: CompiledRule[] = []
+): AnalysisResult {
+  const pairIndex = new PairIndex(pairs);
+  const { matched: llmPairs, unmatched: unmatchedPairs } = pairIndex.matchAll(
+    llmAnalysis.pairs ?? []
+  );
+  const llmTopPick = llmAnalysis.topPick;
+  const topPickPair = pairIndex.resolve(llmTopPick);
+  const unmatchedLLMEntries = partial
+    ? []
+    : [...unmatchedPairs, ...(llmTopPick && !topPickPair ? [llmTopPick] : [])].map(entry => ({
+        id: entry.id,
+        symbol: entry.symbol,
+      }));
+
+  if (unmatchedLLMEntries.length > 0) {
+    console.warn('[Analyze] LLM returned entries for unknown pairs:', unmatchedLLMEntries);
+  }
+
+  return {
+    pairs: pairs.map(pair => {
+      const llmPair = llmPairs.get(pair.pairAddress);
+      const features = getPairFeatures(pair, timeframe);
+      const riskAssessment = calculateRiskLevel(
+        pair,
+        histories.get(pair.pairAddress),
+        riskProfile,
+        rules
+      );
+
+      return {
+        pairId: getPairId(pair.pairAddress),
+        pairAddress: pair.pairAddress,
+        chainId: pair.chainId,
+        contractAddress: pair.baseToken?.address,
+        symbol: formatSymbol(pair),
+        dexId: pair.dexId,
+        priceUsd: pair.priceUsd || '0',
+        volume6h: pair.volume?.[timeframe] || 0,
+        liquidity: pair.liquidity?.usd || 0,
+        priceChange6h: pair.priceChange?.[timeframe] || 0,
+        risk: llmPair?.risk,
+        observations: llmPair?.observations,
+        score: llmPair?.score || llmPair?.momentum,
+        analysis: llmPair?.observations,
+        momentum: llmPair?.momentum,
+        catalyst: llmPair?.catalyst,
+        moonshotPotential: llmPair?.moonshotPotential,
+        riskLevel: riskAssessment.level,
+        riskFactors: riskAssessment.factors,
+        missingFromLLM: !partial && !llmPair,
+        features,
+        momentumBreakdown: calculateMomentumBreakdown(pair, features),
+        tokenPools: pair.tokenPools,
+        promotion: pair.promotion,
+      };
+    }),
+    analysis: llmAnalysis.marketPulse || llmAnalysis.summary || '',
+    topPick: llmTopPick
+      ? (() => {
+          const riskAssessment = topPickPair
+            ? calculateRiskLevel(
+                topPickPair,
+                histories.get(topPickPair.pairAddress),
+                riskProfile,
+                rules
+              )
+            : null;
+
+          return {
+            ...llmTopPick,
+            symbol: topPickPair ? formatSymbol(topPickPair) : llmTopPick.symbol,
+            contractAddress: topPickPair?.baseToken?.address,
+            chainId: topPickPair?.chainId,
+            pairAddress: topPickPair?.pairAddress,
+            dexId: topPickPair?.dexId,
+            riskLevel: riskAssessment?.level,
+            riskFactors: riskAssessment?.factors,
+            riskBreakdown: riskAssessment?.breakdown,
+            momentumBreakdown: topPickPair
+              ? calculateMomentumBreakdown(topPickPair, getPairFeatures(topPickPair, timeframe))
+              : undefined,
+            socials: topPickPair?.info?.socials,
+            websites: topPickPair?.info?.websites,
+            unmatched: !partial && !topPickPair,
+          };
+        })()
+      : undefined,
+    runnerUps: llmAnalysis.runnerUps?.map(runnerUp => ({
+      ...runnerUp,
+      pairAddress: pairIndex.resolve(runnerUp)?.pairAddress,
+    })),
+    metadata: {
+      ...metadata,
+      unmatchedLLMEntries: unmatchedLLMEntries.length > 0 ? unmatchedLLMEntries : undefined,
+    },
+  };
+}
@@ -10,6 +10,7 @@ export interface RetryOptions {
   maxDelay?: number; // Default: 10000ms
   backoffMultiplier?: number; // Default: 2
   shouldRetry?: (error: unknown) => boolean;
+  signal?: AbortSignal; // Cancels pending attempts and backoff waits
 }
 
 /**
@@ -36,6 +37,30 @@ function defaultShouldRetry(error: unknown): boolean {
   return false;
 }
 
+/**
+ * Wait for the given delay, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Retry with exponential backoff
  *
@@ -53,17 +78,26 @@ export async function retryWithBackoff<T>(
     maxDelay = 10000,
     backoffMultiplier = 2,
     shouldRetry = defaultShouldRetry,
+    signal,
   } = options;
 
   let lastError: unknown;
   let delay = initialDelay;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    // Stop immediately if the caller cancelled
+    signal?.throwIfAborted();
+
     try {
       return await fn();
     } catch (error) {
       lastError = error;
 
+      // Never retry cancelled requests
+      if (signal?.aborted) {
+        throw error;
+      }
+
       // Check if we should retry
       if (attempt === maxAttempts || !shouldRetry(error)) {
         throw error;
@@ -75,8 +109,8 @@ export async function retryWithBackoff<T>(
         error
       );
 
-      // Wait before retrying
-      await new Promise(resolve => setTimeout(resolve, delay));
+      // Wait before retrying (aborts early on cancellation)
+      await sleep(delay, signal);
 
       // Increase delay with exponential backoff
       delay = Math.min(delay * backoffMultiplier, maxDelay);
@@ -0,0 +1,136 @@
+// Watch Alerts
+// Turns polled pairs into watchlist snapshots and checks them against alert thresholds
+
+import type { DexPair } from '@/types/dexscreener';
+import type { PairHistories } from '@/types/snapshot';
+import { BALANCED_RISK_PROFILE, type RiskProfile } from '@/types/risk-profile';
+import type { WatchAlertHit, WatchlistItem, WatchSnapshot } from '@/types/watchlist';
+import type { WatchPollUpdate } from '@/utils/watchlist';
+import { calculateRiskLevel } from '@/utils/risk-assessment';
+import type { CompiledRule } from '@/utils/rule-language';
+import { formatSymbol } from './result-builder';
+
+/**
+ * Build a snapshot of a token from its pairs
+ * Uses the most liquid pair where the token is the base token (any pair if there is none).
+ *
+ * @param tokenAddress - Watched token address
+ * @param pairs - Pairs returned for the token
+ * @param histories - Earlier snapshots per pair address, for rug-pull risk factors
+ * @param riskProfile - Risk profile to score the pair with
+ * @param rules - User-written point rules to score the pair with
+ * @returns Snapshot, or null if the token has no pairs
+ */
+export function buildWatchSnapshot(
+  tokenAddress: string,
+  pairs: DexPair[],
+  histories: PairHistories = new Map(),
+  riskProfile: RiskProfile = BALANCED_RISK_PROFILE,
+  rules: CompiledRule[] = []
+): WatchSnapshot | null {
+  const address = tokenAddress.toLowerCase();
+  const asBase = pairs.filter(pair => pair.baseToken?.address?.toLowerCase() === address);
+  const candidates = asBase.length > 0 ? asBase : pairs;
+  if (candidates.length === 0) return null;
+
+  const pair = candidates.reduce((best, candidate) =>
+    (candidate.liquidity?.usd || 0) > (best.liquidity?.usd || 0) ? candidate : best
+  );
+  const risk = calculateRiskLevel(pair, histories.get(pair.pairAddress), riskProfile, rules);
+
+  return {
+    at: new Date().toISOString(),
+    pairAddress: pair.pairAddress,
+    symbol: formatSymbol(pair),
+    url: pair.url,
+    priceUsd: parseFloat(pair.priceUsd || '0') || 0,
+    liquidityUsd: pair.liquidity?.usd || 0,
+    volumeH24: pair.volume?.h24 || 0,
+    priceChangeH1: pair.priceChange?.h1 || 0,
+    priceChangeH24: pair.priceChange?.h24 || 0,
+    buysH1: pair.txns?.h1?.buys || 0,
+    sellsH1: pair.txns?.h1?.sells || 0,
+    riskLevel: risk.level,
+    riskScore: risk.score,
+  };
+}
+
+/**
+ * 1h sells per buy (sells alone if there were no buys)
+ */
+function getSellBuyRatio(snapshot: WatchSnapshot): number {
+  return snapshot.sellsH1 / Math.max(snapshot.buysH1, 1);
+}
+
+/**
+ * Check a new snapshot against the item's thresholds
+ * Price alerts compare with the reference price; liquidity alerts with the highest liquidity
+ * seen since the last liquidity alert. A reference is reset once its alert fires, so a
+ * move is reported once. Sell pressure alerts fire when the ratio crosses the threshold.
+ *
+ * @param item - Watched token with its previous snapshot and references
+ * @param snapshot - New snapshot
+ * @returns Alerts to raise and the fields to store for the next poll
+ */
+export function evaluateWatchAlerts(
+  item: WatchlistItem,
+  snapshot: WatchSnapshot
+): { hits: WatchAlertHit[]; update: WatchPollUpdate } {
+  const { alerts, latest } = item;
+  const hits: WatchAlertHit[] = [];
+
+  // Price move since the reference
+  let referencePriceUsd = item.referencePriceUsd ?? latest?.priceUsd ?? snapshot.priceUsd;
+  if (alerts.priceChangePct !== undefined && referencePriceUsd > 0) {
+    const change = ((snapshot.priceUsd - referencePriceUsd) / referencePriceUsd) * 100;
+    if (Math.abs(change) >= alerts.priceChangePct) {
+      hits.push({
+        kind: 'price',
+        params: { change: `${change > 0 ? '+' : ''}${change.toFixed(1)}` },
+      });
+      referencePriceUsd = snapshot.priceUsd;
+    }
+  }
+
+  // Liquidity drop from the peak
+  let referenceLiquidityUsd = Math.max(
+    item.referenceLiquidityUsd ?? latest?.liquidityUsd ?? 0,
+    snapshot.liquidityUsd
+  );
+  if (alerts.liquidityDropPct !== undefined && referenceLiquidityUsd > 0) {
+    const drop = ((referenceLiquidityUsd - snapshot.liquidityUsd) / referenceLiquidityUsd) * 100;
+    if (drop >= alerts.liquidityDropPct) {
+      hits.push({ kind: 'liquidity', params: { drop: drop.toFixed(1) } });
+      referenceLiquidityUsd = snapshot.liquidityUsd;
+    }
+  }
+
+  // Sell pressure crossing the threshold
+  if (alerts.maxSellBuyRatio !== undefined) {
+    const ratio = getSellBuyRatio(snapshot);
+    const previous = latest ? getSellBuyRatio(latest) : 0;
+    if (ratio > alerts.maxSellBuyRatio && previous <= alerts.maxSellBuyRatio) {
+      hits.push({
+        kind: 'sellPressure',
+        params: { ratio: ratio.toFixed(1), sells: snapshot.sellsH1, buys: snapshot.buysH1 },
+      });
+    }
+  }
+
+  // Risk level change
+  if (alerts.riskLevelChange && latest && latest.riskLevel !== snapshot.riskLevel) {
+    hits.push({ kind: 'riskLevel', params: { from: latest.riskLevel, to: snapshot.riskLevel } });
+  }
+
+  return {
+    hits,
+    update: {
+      chainId: item.chainId,
+      tokenAddress: item.tokenAddress,
+      latest: snapshot,
+      referencePriceUsd,
+      referenceLiquidityUsd,
+      lastAlertAt: hits.length > 0 ? snapshot.at : item.lastAlertAt,
+    },
+  };
+}
@@ -0,0 +1,125 @@
+// DEX Venue Selector Component
+// Per-chain allow/deny chips for the DEX venues seen in recent scans
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from '@/i18n';
+import { STORAGE_KEYS } from '@/types/storage';
+import type { DexVenueFilter } from '@/types/filters';
+import { getSeenDexIds, isDexVenueFilterActive } from '@/utils/dex-venues';
+
+interface DexVenueSelectorProps {
+  chain: string;
+  venues: DexVenueFilter;
+  onChange: (venues: DexVenueFilter) => void;
+  disabled?: boolean;
+}
+
+type VenueState = 'allow' | 'deny' | 'none';
+
+/**
+ * Chip click cycles: none → allow → deny → none
+ */
+const NEXT_STATE: Record<VenueState, VenueState> = {
+  none: 'allow',
+  allow: 'deny',
+  deny: 'none',
+};
+
+const STATE_CLASSES: Record<VenueState, string> = {
+  none: 'border-purple-500/30 text-gray-400 hover:border-purple-500/50',
+  allow: 'border-neon-green bg-neon-green/10 text-neon-green',
+  deny: 'border-neon-pink bg-neon-pink/10 text-neon-pink line-through',
+};
+
+export function DexVenueSelector({
+  chain,
+  venues,
+  onChange,
+  disabled = false,
+}: DexVenueSelectorProps) {
+  const { t } = useTranslation();
+  const [seenDexIds, setSeenDexIds] = useState<string[]>([]);
+
+  const loadSeenDexIds = useCallback(async () => {
+    setSeenDexIds(await getSeenDexIds(chain));
+  }, [chain]);
+
+  /**
+   * Load on mount / chain change and refresh when a scan records new venues
+   */
+  useEffect(() => {
+    loadSeenDexIds();
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes[STORAGE_KEYS.SEEN_DEX_IDS]) {
+        loadSeenDexIds();
+      }
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, [loadSeenDexIds]);
+
+  // Keep selected venues listed even after they age out of the seen list
+  const dexIds = [...new Set([...seenDexIds, ...venues.allow, ...venues.deny])].sort();
+
+  const getState = (dexId: string): VenueState =>
+    venues.allow.includes(dexId) ? 'allow' : venues.deny.includes(dexId) ? 'deny' : 'none';
+
+  const cycle = (dexId: string) => {
+    const next = NEXT_STATE[getState(dexId)];
+    const allow = venues.allow.filter(id => id !== dexId);
+    const deny = venues.deny.filter(id => id !== dexId);
+    if (next === 'allow') allow.push(dexId);
+    if (next === 'deny') deny.push(dexId);
+    onChange({ allow, deny });
+  };
+
+  return (
+    <section className="mb-6">
+      <label className="block text-sm font-medium mb-2 text-neon-cyan">
+        {t('dexVenues.title')}
+      </label>
+      <p className="text-xs text-gray-400 mb-3">{t('dexVenues.description')}</p>
+
+      {dexIds.length === 0 ? (
+        <p className="text-xs text-gray-500 font-mono">{t('dexVenues.noneSeen')}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {dexIds.map(dexId => {
+            const state = getState(dexId);
+            return (
+              <button
+                key={dexId}
+                type="button"
+                onClick={() => cycle(dexId)}
+                disabled={disabled}
+                title={t(`dexVenues.state.${state}`)}
+                className={`px-3 py-1 text-xs font-mono border-2 rounded-lg transition-all disabled:opacity-50 ${STATE_CLASSES[state]}`}
+              >
+                {dexId}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {isDexVenueFilterActive(venues) && (
+        <div className="mt-2 flex items-center gap-3 text-xs font-mono">
+          <span className="text-gray-400">
+            {venues.allow.length > 0
+              ? t('dexVenues.summaryAllow', { list: venues.allow.join(', ') })
+              : t('dexVenues.summaryDeny', { list: venues.deny.join(', ') })}
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange({ allow: [], deny: [] })}
+            disabled={disabled}
+            className="text-neon-pink hover:text-neon-purple transition-colors disabled:opacity-50"
+          >
+            {t('dexVenues.clear')}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
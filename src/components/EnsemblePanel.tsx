@@ -0,0 +1,122 @@
+// Ensemble Panel Component
+// Shows each model's pick next to the consensus, and where the models disagree
+
+import { useTranslation } from '@/i18n';
+import type { EnsembleSummary } from '@/types/analysis';
+
+interface EnsemblePanelProps {
+  ensemble: EnsembleSummary;
+}
+
+/**
+ * Strip the provider prefix from a model ID for compact display
+ * Example: "anthropic/claude-3.5-sonnet" → "claude-3.5-sonnet"
+ */
+function shortModelName(modelId: string): string {
+  return modelId.split('/').pop() || modelId;
+}
+
+export function EnsemblePanel({ ensemble }: EnsemblePanelProps) {
+  const { t } = useTranslation();
+  const answered = ensemble.models.filter(m => !m.errorCode).length;
+  const consensusPick = ensemble.votes[0];
+
+  return (
+    <div className="cyber-card p-5 rounded-xl border border-purple-500/30 animate-fade-in space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-neon-cyan uppercase tracking-wide">
+          {t('ensemble.consensus')}
+        </h3>
+        <span className="text-xs font-mono text-neon-green">
+          {t('ensemble.agreement', {
+            percent: Math.round(ensemble.agreement * 100),
+            answered,
+          })}
+        </span>
+      </div>
+
+      {/* Per-model picks */}
+      <ul className="space-y-2">
+        {ensemble.models.map(result => {
+          const agrees =
+            !!consensusPick && result.topPick?.pairAddress === consensusPick.pairAddress;
+
+          return (
+            <li
+              key={result.model}
+              className="p-3 bg-cyber-darker/50 border border-purple-500/20 rounded-lg text-xs font-mono"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-gray-400 truncate" title={result.model}>
+                  {shortModelName(result.model)}
+                </span>
+                {result.errorCode ? (
+                  <span className="text-neon-pink flex-shrink-0" title={result.error}>
+                    {t('ensemble.failed', { code: result.errorCode })}
+                  </span>
+                ) : result.topPick ? (
+                  <span
+                    className={`font-bold flex-shrink-0 ${agrees ? 'text-neon-green' : 'text-yellow-500'}`}
+                  >
+                    {agrees ? '✓ ' : '≠ '}
+                    {result.topPick.symbol}
+                    {result.topPick.momentum !== undefined && ` (${result.topPick.momentum}/10)`}
+                  </span>
+                ) : (
+                  <span className="text-gray-500 flex-shrink-0">{t('ensemble.noPick')}</span>
+                )}
+              </div>
+              {result.topPick?.reason && (
+                <p className="mt-1 text-gray-300 leading-relaxed">{result.topPick.reason}</p>
+              )}
+              {result.estimatedCost !== undefined && (
+                <p className="mt-1 text-gray-500">${result.estimatedCost.toFixed(4)}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Vote tally */}
+      {ensemble.votes.length > 1 && (
+        <div>
+          <h4 className="text-xs font-bold text-gray-400 uppercase mb-2">{t('ensemble.votes')}</h4>
+          <ul className="space-y-1 text-xs font-mono">
+            {ensemble.votes.map(vote => (
+              <li key={vote.pairAddress} className="flex justify-between gap-3">
+                <span className="text-gray-200 truncate">{vote.symbol}</span>
+                <span className="text-neon-cyan flex-shrink-0">
+                  {t('ensemble.voteCount', { votes: vote.votes, total: answered })}
+                  {vote.averageMomentum !== undefined && ` · ${vote.averageMomentum}/10`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Disagreements */}
+      {ensemble.disagreements.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-yellow-500 uppercase mb-2">
+            {t('ensemble.disagreements')}
+          </h4>
+          <ul className="space-y-1 text-xs font-mono">
+            {ensemble.disagreements.map(disagreement => (
+              <li key={disagreement.pairAddress} className="text-gray-300">
+                <span className="font-bold text-gray-200">{disagreement.symbol}</span>{' '}
+                <span className="text-gray-500">
+                  ({t('ensemble.spread', { spread: disagreement.spread })})
+                </span>
+                {': '}
+                {Object.entries(disagreement.momentumByModel)
+                  .map(([model, momentum]) => `${shortModelName(model)} ${momentum}`)
+                  .join(' · ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
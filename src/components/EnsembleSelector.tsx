@@ -0,0 +1,95 @@
+// Ensemble Selector Component
+// Picks extra favorite models to run alongside the selected model for a consensus analysis
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from '@/i18n';
+import { STORAGE_KEYS } from '@/types/storage';
+
+interface EnsembleSelectorProps {
+  model: string; // Selected (primary) model, always part of the ensemble
+  value: string[];
+  onChange: (models: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Maximum number of extra models (matches AnalyzeReqSchema)
+ */
+const MAX_ENSEMBLE_MODELS = 4;
+
+export function EnsembleSelector({ model, value, onChange, disabled }: EnsembleSelectorProps) {
+  const { t } = useTranslation();
+  const [favoriteModels, setFavoriteModels] = useState<string[]>([]);
+
+  /**
+   * Load favorite models (ensemble candidates)
+   */
+  useEffect(() => {
+    chrome.storage.local
+      .get(STORAGE_KEYS.FAVORITE_MODELS)
+      .then(data => {
+        setFavoriteModels((data[STORAGE_KEYS.FAVORITE_MODELS] as string[] | undefined) || []);
+      })
+      .catch(error => {
+        console.error('[EnsembleSelector] Failed to load favorite models:', error);
+      });
+  }, []);
+
+  const candidates = favoriteModels.filter(m => m !== model);
+  const selected = value.filter(m => m !== model);
+
+  const toggle = (candidate: string) => {
+    if (selected.includes(candidate)) {
+      onChange(selected.filter(m => m !== candidate));
+    } else if (selected.length < MAX_ENSEMBLE_MODELS) {
+      onChange([...selected, candidate]);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-cyber-darker/50 border border-purple-500/30 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-bold text-neon-cyan uppercase tracking-wide">
+          {t('ensemble.title')}
+        </span>
+        {selected.length > 0 && (
+          <span className="text-xs font-mono text-neon-green">
+            {t('ensemble.modelCount', { count: selected.length + 1 })}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 font-mono">{t('ensemble.description')}</p>
+
+      {candidates.length === 0 ? (
+        <p className="text-xs text-gray-500 font-mono">💡 {t('ensemble.noFavorites')}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {candidates.map(candidate => {
+            const active = selected.includes(candidate);
+            return (
+              <button
+                key={candidate}
+                onClick={() => toggle(candidate)}
+                disabled={disabled || (!active && selected.length >= MAX_ENSEMBLE_MODELS)}
+                className={`px-3 py-1.5 rounded-full text-xs font-mono border transition-colors disabled:opacity-40 ${
+                  active
+                    ? 'bg-neon-purple/20 border-neon-purple text-neon-purple'
+                    : 'bg-cyber-darker border-purple-500/30 text-gray-400 hover:border-purple-500/60'
+                }`}
+              >
+                {active ? '✓ ' : '+ '}
+                {candidate}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selected.length > 0 && (
+        <p className="text-xs text-yellow-500 font-mono">
+          ⚠️ {t('ensemble.costWarning', { count: selected.length + 1 })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+// Fallback Models Manager Component
+// Orders favorite models into the fallback chain used when the selected model fails
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from '@/i18n';
+import { STORAGE_KEYS } from '@/types/storage';
+
+export function FallbackModelsManager() {
+  const { t } = useTranslation();
+  const [favoriteModels, setFavoriteModels] = useState<string[]>([]);
+  const [fallbackModels, setFallbackModels] = useState<string[]>([]);
+
+  /**
+   * Load favorites and the saved fallback chain
+   */
+  useEffect(() => {
+    chrome.storage.local
+      .get([STORAGE_KEYS.FAVORITE_MODELS, STORAGE_KEYS.FALLBACK_MODELS])
+      .then(data => {
+        setFavoriteModels((data[STORAGE_KEYS.FAVORITE_MODELS] as string[] | undefined) || []);
+        setFallbackModels((data[STORAGE_KEYS.FALLBACK_MODELS] as string[] | undefined) || []);
+      })
+      .catch(error => {
+        console.error('[FallbackModelsManager] Failed to load models:', error);
+      });
+  }, []);
+
+  /**
+   * Persist the fallback chain
+   */
+  const save = async (models: string[]) => {
+    setFallbackModels(models);
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.FALLBACK_MODELS]: models });
+    } catch (error) {
+      console.error('[FallbackModelsManager] Failed to save fallback models:', error);
+    }
+  };
+
+  const move = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= fallbackModels.length) return;
+    const next = [...fallbackModels];
+    [next[index], next[target]] = [next[target], next[index]];
+    save(next);
+  };
+
+  const available = favoriteModels.filter(model => !fallbackModels.includes(model));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-400 font-mono">{t('fallback.description')}</p>
+
+      {fallbackModels.length === 0 ? (
+        <p className="text-xs text-gray-500 font-mono">{t('fallback.empty')}</p>
+      ) : (
+        <ol className="space-y-2">
+          {fallbackModels.map((model, index) => (
+            <li
+              key={model}
+              className="flex items-center gap-2 px-3 py-2 bg-cyber-darker border border-purple-500/30 rounded-lg text-xs font-mono"
+            >
+              <span className="text-neon-cyan font-bold w-5">{index + 1}.</span>
+              <span className="flex-1 truncate text-gray-200" title={model}>
+                {model}
+              </span>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="px-2 text-gray-400 hover:text-neon-cyan disabled:opacity-30"
+                title={t('fallback.moveUp')}
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === fallbackModels.length - 1}
+                className="px-2 text-gray-400 hover:text-neon-cyan disabled:opacity-30"
+                title={t('fallback.moveDown')}
+              >
+                ▼
+              </button>
+              <button
+                onClick={() => save(fallbackModels.filter(m => m !== model))}
+                className="px-2 text-gray-500 hover:text-neon-pink"
+                title={t('fallback.remove')}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {available.length > 0 ? (
+        <div className="flex flex-wrap gap-2 pt-2 border-t border-purple-500/20">
+          {available.map(model => (
+            <button
+              key={model}
+              onClick={() => save([...fallbackModels, model])}
+              className="px-3 py-1.5 bg-cyber-darker border border-neon-cyan/30 hover:border-neon-cyan/60 rounded-full text-xs font-mono text-neon-cyan transition-colors"
+              title={t('fallback.add')}
+            >
+              + {model}
+            </button>
+          ))}
+        </div>
+      ) : (
+        favoriteModels.length === 0 && (
+          <p className="text-xs text-gray-500 font-mono">💡 {t('fallback.noFavorites')}</p>
+        )
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,9 @@ import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from '@/i18n';
 import type { HistoryEntry } from '@/types/analysis';
 import { getHistory, deleteHistoryEntry, clearHistory, getHistoryStats } from '@/utils/history';
+import { findPreviousComparable } from '@/utils/scan-diff';
 import { TopPickDisplay } from './TopPickDisplay';
+import { ScanChangesPanel } from './ScanChangesPanel';
 
 export function HistoryList() {
   const { t } = useTranslation();
@@ -13,6 +15,8 @@ export function HistoryList() {
   const [filteredHistory, setFilteredHistory] = useState<HistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedEntry, setSelectedEntry] = useState<HistoryEntry | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
   const [filterChain, setFilterChain] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState('');
   const [stats, setStats] = useState<{
@@ -73,6 +77,7 @@ export function HistoryList() {
       if (selectedEntry?.id === id) {
         setSelectedEntry(null);
       }
+      setCompareIds(ids => ids.filter(compareId => compareId !== id));
     }
   };
 
@@ -81,15 +86,26 @@ export function HistoryList() {
       await clearHistory();
       await loadHistory();
       setSelectedEntry(null);
+      setCompareIds([]);
     }
   };
 
+  /**
+   * Tick an entry for comparison (keeps the two most recently ticked)
+   */
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids =>
+      ids.includes(id) ? ids.filter(compareId => compareId !== id) : [...ids, id].slice(-2)
+    );
+  };
+
   const handleEntryClick = (entry: HistoryEntry) => {
     setSelectedEntry(entry);
   };
 
   const handleBackToList = () => {
     setSelectedEntry(null);
+    setComparing(false);
   };
 
   // Get unique chains for filter
@@ -103,8 +119,49 @@ export function HistoryList() {
     );
   }
 
+  // Show comparison of two ticked entries (older one as the baseline)
+  const compareEntries = history
+    .filter(entry => compareIds.includes(entry.id))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  if (comparing && compareEntries.length === 2) {
+    const [older, newer] = compareEntries;
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <button
+          onClick={handleBackToList}
+          className="neon-button px-4 py-2 bg-cyber-card hover:bg-cyber-darker border border-purple-500/30 hover:border-neon-cyan/50 rounded-lg transition-all text-neon-cyan font-mono text-sm"
+        >
+          ← {t('history.backToList')}
+        </button>
+
+        <div className="cyber-card p-4 space-y-1 text-xs font-mono text-gray-400">
+          {[older, newer].map(entry => (
+            <div key={entry.id}>
+              {new Date(entry.timestamp).toLocaleString()} • {entry.chain.toUpperCase()} •{' '}
+              {entry.timeframe.toUpperCase()} •{' '}
+              <span className="text-neon-cyan">{entry.topPickSymbol || '-'}</span>
+            </div>
+          ))}
+          {(older.chain !== newer.chain || older.timeframe !== newer.timeframe) && (
+            <div className="text-yellow-500">⚠️ {t('history.compareMismatch')}</div>
+          )}
+        </div>
+
+        <ScanChangesPanel previous={older.result} current={newer.result} since={older.timestamp} />
+        <TopPickDisplay data={newer.result} />
+      </div>
+    );
+  }
+
   // Show selected entry detail
   if (selectedEntry) {
+    const previousEntry = findPreviousComparable(
+      history,
+      selectedEntry.chain,
+      selectedEntry.timeframe,
+      selectedEntry.timestamp
+    );
+
     return (
       <div className="space-y-4 animate-fade-in">
         {/* Back button */}
@@ -137,6 +194,15 @@ export function HistoryList() {
           </div>
         </div>
 
+        {/* Changes since the previous scan of the same chain and timeframe */}
+        {previousEntry && (
+          <ScanChangesPanel
+            previous={previousEntry.result}
+            current={selectedEntry.result}
+            since={previousEntry.timestamp}
+          />
+        )}
+
         {/* Analysis result */}
         <TopPickDisplay data={selectedEntry.result} />
       </div>
@@ -187,6 +253,22 @@ export function HistoryList() {
           />
         </div>
 
+        {/* Compare two ticked entries */}
+        {history.length > 1 && (
+          <div className="flex items-center justify-between gap-3 text-xs font-mono">
+            <span className="text-gray-400">
+              {t('history.compareHint', { count: compareIds.length })}
+            </span>
+            <button
+              onClick={() => setComparing(true)}
+              disabled={compareIds.length !== 2}
+              className="px-4 py-2 bg-cyber-darker border border-neon-cyan/30 hover:border-neon-cyan/50 text-neon-cyan rounded-lg font-bold transition-colors disabled:opacity-40"
+            >
+              ↔ {t('history.compare')}
+            </button>
+          </div>
+        )}
+
         {/* Clear all button */}
         {history.length > 0 && (
           <button
@@ -224,6 +306,9 @@ export function HistoryList() {
                     <div>
                       {entry.chain.toUpperCase()} • {entry.timeframe.toUpperCase()} •{' '}
                       {entry.maxPairs} pairs
+                      {entry.scheduleId && (
+                        <span className="ml-2 text-neon-purple">⏰ {t('history.scheduled')}</span>
+                      )}
                     </div>
                     <div className="truncate max-w-md" title={entry.model}>
                       {entry.model}
@@ -233,6 +318,14 @@ export function HistoryList() {
                 </div>
 
                 <div className="flex gap-2">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(entry.id)}
+                    onClick={e => e.stopPropagation()}
+                    onChange={() => toggleCompare(entry.id)}
+                    className="w-4 h-4 accent-neon-cyan cursor-pointer"
+                    title={t('history.selectToCompare')}
+                  />
                   {entry.result.metadata?.estimatedCost && (
                     <div className="text-xs font-mono text-neon-green">
                       ${entry.result.metadata.estimatedCost.toFixed(4)}
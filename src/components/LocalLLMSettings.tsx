@@ -0,0 +1,203 @@
+// Local LLM Settings Component
+// Configures an OpenAI-compatible server on this machine (Ollama, LM Studio, llama.cpp server)
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from '@/i18n';
+import { STORAGE_KEYS } from '@/types/storage';
+import type { LocalLLMConfig } from '@/types/local-llm';
+import { fetchLocalModels, getLocalOriginPattern, getNonLocalHost } from '@/api/local-llm';
+
+type Status = { kind: 'success' | 'error'; message: string } | null;
+
+/**
+ * Parse the comma-separated model list
+ */
+function parseModels(input: string): string[] {
+  return [
+    ...new Set(
+      input
+        .split(',')
+        .map(model => model.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+export function LocalLLMSettings() {
+  const { t } = useTranslation();
+  const [baseUrl, setBaseUrl] = useState('');
+  const [modelsInput, setModelsInput] = useState('');
+  const [saved, setSaved] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [status, setStatus] = useState<Status>(null);
+
+  /**
+   * Load saved settings
+   */
+  useEffect(() => {
+    chrome.storage.local
+      .get(STORAGE_KEYS.LOCAL_LLM)
+      .then(data => {
+        const config = data[STORAGE_KEYS.LOCAL_LLM] as LocalLLMConfig | undefined;
+        if (config) {
+          setBaseUrl(config.baseUrl);
+          setModelsInput(config.models.join(', '));
+          setSaved(true);
+        }
+      })
+      .catch(error => {
+        console.error('[LocalLLMSettings] Failed to load settings:', error);
+      });
+  }, []);
+
+  const getConfig = (): LocalLLMConfig => ({
+    baseUrl: baseUrl.trim(),
+    models: parseModels(modelsInput),
+  });
+
+  /**
+   * Save settings after the user grants access to the server's origin
+   * chrome.permissions.request must run directly in the click handler (user gesture).
+   */
+  const handleSave = async () => {
+    const config = getConfig();
+    const origin = getLocalOriginPattern(config.baseUrl);
+    if (!origin) {
+      const host = getNonLocalHost(config.baseUrl);
+      setStatus({
+        kind: 'error',
+        message: host ? t('localLlm.nonLocalHost', { host }) : t('localLlm.invalidUrl'),
+      });
+      return;
+    }
+
+    try {
+      const granted = await chrome.permissions.request({ origins: [origin] });
+      if (!granted) {
+        setStatus({ kind: 'error', message: t('localLlm.permissionDenied', { origin }) });
+        return;
+      }
+
+      await chrome.storage.local.set({ [STORAGE_KEYS.LOCAL_LLM]: config });
+      setSaved(true);
+      setStatus({ kind: 'success', message: t('localLlm.saved') });
+    } catch (error) {
+      console.error('[LocalLLMSettings] Failed to save settings:', error);
+      setStatus({ kind: 'error', message: String(error) });
+    }
+  };
+
+  /**
+   * List the server's models using the entered (not necessarily saved) settings
+   */
+  const handleTest = async () => {
+    setTesting(true);
+    setStatus(null);
+    try {
+      const models = await fetchLocalModels(getConfig());
+      setStatus({
+        kind: 'success',
+        message: t('localLlm.connected', { count: models.length }),
+      });
+    } catch (error) {
+      setStatus({
+        kind: 'error',
+        message: t('localLlm.connectionFailed', {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  /**
+   * Remove the local server
+   */
+  const handleRemove = async () => {
+    try {
+      await chrome.storage.local.remove(STORAGE_KEYS.LOCAL_LLM);
+      setBaseUrl('');
+      setModelsInput('');
+      setSaved(false);
+      setStatus(null);
+    } catch (error) {
+      console.error('[LocalLLMSettings] Failed to remove settings:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400 font-mono">{t('localLlm.description')}</p>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-neon-cyan">
+            {t('localLlm.baseUrl')}
+          </label>
+          {saved && (
+            <span className="text-xs text-neon-green font-bold">✓ {t('localLlm.configured')}</span>
+          )}
+        </div>
+        <input
+          type="url"
+          value={baseUrl}
+          onChange={e => setBaseUrl(e.target.value)}
+          placeholder="http://localhost:11434"
+          className="w-full px-4 py-3 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:shadow-neon-purple focus:outline-none transition-all font-mono text-sm hover:border-purple-500/50"
+        />
+        <p className="text-xs text-gray-400 mt-2 font-mono">{t('localLlm.baseUrlDesc')}</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-neon-cyan mb-2">
+          {t('localLlm.models')}
+        </label>
+        <input
+          type="text"
+          value={modelsInput}
+          onChange={e => setModelsInput(e.target.value)}
+          placeholder="llama3.1:8b, qwen2.5:14b"
+          className="w-full px-4 py-3 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:shadow-neon-purple focus:outline-none transition-all font-mono text-sm hover:border-purple-500/50"
+        />
+        <p className="text-xs text-gray-400 mt-2 font-mono">{t('localLlm.modelsDesc')}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!baseUrl.trim()}
+          className="px-4 py-2 bg-neon-purple/20 border border-neon-purple text-neon-purple rounded-lg font-bold text-xs transition-colors hover:bg-neon-purple/30 disabled:opacity-40"
+        >
+          {t('localLlm.save')}
+        </button>
+        <button
+          onClick={handleTest}
+          disabled={!baseUrl.trim() || testing}
+          className="px-4 py-2 bg-cyber-darker border border-neon-cyan/30 hover:border-neon-cyan/50 text-neon-cyan rounded-lg font-bold text-xs transition-colors disabled:opacity-40"
+        >
+          {testing ? t('localLlm.testing') : t('localLlm.test')}
+        </button>
+        {saved && (
+          <button
+            onClick={handleRemove}
+            className="px-4 py-2 bg-cyber-darker border border-neon-pink/30 hover:border-neon-pink/50 text-neon-pink rounded-lg font-bold text-xs transition-colors"
+          >
+            {t('localLlm.remove')}
+          </button>
+        )}
+      </div>
+
+      {status && (
+        <p
+          className={`text-xs font-mono ${
+            status.kind === 'success' ? 'text-neon-green' : 'text-neon-pink'
+          }`}
+        >
+          {status.kind === 'success' ? '✓ ' : '⚠️ '}
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
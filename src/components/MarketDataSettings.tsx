@@ -0,0 +1,126 @@
+// Market Data Settings Component
+// Chooses the pair data provider and the provider used when it fails
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from '@/i18n';
+import {
+  DEFAULT_MARKET_DATA_SETTINGS,
+  MARKET_DATA_PROVIDER_IDS,
+  type MarketDataProviderId,
+  type MarketDataSettings as Settings,
+} from '@/types/market-data';
+import { getMarketDataSettings, saveMarketDataSettings } from '@/api/market-data';
+
+/**
+ * Select value for "no fallback"
+ */
+const NO_FALLBACK = 'none';
+
+const SELECT_CLASS =
+  'w-full px-4 py-3 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:shadow-neon-purple focus:outline-none transition-all font-mono text-sm hover:border-purple-500/50';
+
+export function MarketDataSettings() {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<Settings>(DEFAULT_MARKET_DATA_SETTINGS);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load saved settings
+   */
+  useEffect(() => {
+    getMarketDataSettings()
+      .then(setSettings)
+      .catch(error => {
+        console.error('[MarketDataSettings] Failed to load settings:', error);
+      });
+  }, []);
+
+  /**
+   * Save on every change; a fallback equal to the new primary is cleared
+   */
+  const update = async (next: Settings) => {
+    const normalized = { ...next, fallback: next.fallback === next.primary ? null : next.fallback };
+    setSettings(normalized);
+    try {
+      await saveMarketDataSettings(normalized);
+      setError(null);
+    } catch (error) {
+      console.error('[MarketDataSettings] Failed to save settings:', error);
+      setError(String(error));
+    }
+  };
+
+  /**
+   * Switching to the fallback provider swaps the two, so a fallback is kept
+   */
+  const handlePrimaryChange = (primary: MarketDataProviderId) => {
+    update({
+      primary,
+      fallback: settings.fallback === primary ? settings.primary : settings.fallback,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400 font-mono">{t('marketData.description')}</p>
+
+      <div>
+        <label
+          htmlFor="market-data-primary"
+          className="block text-sm font-medium text-neon-cyan mb-2"
+        >
+          {t('marketData.primary')}
+        </label>
+        <select
+          id="market-data-primary"
+          value={settings.primary}
+          onChange={e => handlePrimaryChange(e.target.value as MarketDataProviderId)}
+          className={SELECT_CLASS}
+        >
+          {MARKET_DATA_PROVIDER_IDS.map(id => (
+            <option key={id} value={id}>
+              {t(`marketData.providers.${id}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label
+          htmlFor="market-data-fallback"
+          className="block text-sm font-medium text-neon-cyan mb-2"
+        >
+          {t('marketData.fallback')}
+        </label>
+        <select
+          id="market-data-fallback"
+          value={settings.fallback ?? NO_FALLBACK}
+          onChange={e =>
+            update({
+              ...settings,
+              fallback:
+                e.target.value === NO_FALLBACK ? null : (e.target.value as MarketDataProviderId),
+            })
+          }
+          className={SELECT_CLASS}
+        >
+          <option value={NO_FALLBACK}>{t('marketData.noFallback')}</option>
+          {MARKET_DATA_PROVIDER_IDS.filter(id => id !== settings.primary).map(id => (
+            <option key={id} value={id}>
+              {t(`marketData.providers.${id}`)}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-2 font-mono">{t('marketData.fallbackDesc')}</p>
+      </div>
+
+      <p className="text-xs text-gray-400 font-mono">{t('marketData.launchNote')}</p>
+
+      {error ? (
+        <p className="text-xs font-mono text-neon-pink">⚠️ {error}</p>
+      ) : (
+        <p className="text-xs text-neon-cyan font-mono">✓ {t('marketData.autoSaved')}</p>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import type { AvailableModel } from '@/api/models';
 import { getGeminiNanoCapabilities } from '@/api/gemini-nano';
 import type { GeminiNanoCapabilities } from '@/types/gemini-nano';
 import { GEMINI_NANO_MODEL_ID } from '@/types/gemini-nano';
+import { STORAGE_KEYS } from '@/types/storage';
+import { estimatePromptTokens, estimateScanCost, planUnchunkedScan } from '@/utils/cost-estimate';
 
 interface ModelSelectorProps {
   value: string;
@@ -14,6 +16,7 @@ interface ModelSelectorProps {
   disabled?: boolean;
   onNavigateToSettings: () => void;
   maxPairs?: number;
+  ensembleModels?: string[]; // Extra models for consensus mode, priced into the estimate
   layoutMode?: 'single-column' | 'two-column';
 }
 
@@ -42,11 +45,20 @@ function extractProvider(modelId: string): string {
   return providerMap[prefix] || 'Other';
 }
 
+/**
+ * Get the provider group a model is listed under
+ */
+function getModelProvider(model: AvailableModel): string {
+  if (model.isBuiltIn) return 'Built-in';
+  if (model.isLocal) return 'Local';
+  return extractProvider(model.id);
+}
+
 /**
  * Get unique providers from models list
  */
 function getUniqueProviders(models: AvailableModel[]): string[] {
-  const providers = new Set(models.map(m => (m.isBuiltIn ? 'Built-in' : extractProvider(m.id))));
+  const providers = new Set(models.map(getModelProvider));
   return Array.from(providers).sort();
 }
 
@@ -56,6 +68,7 @@ export function ModelSelector({
   disabled,
   onNavigateToSettings,
   maxPairs,
+  ensembleModels = [],
   layoutMode = 'single-column',
 }: ModelSelectorProps) {
   const { t } = useTranslation();
@@ -65,6 +78,7 @@ export function ModelSelector({
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedProviders, setSelectedProviders] = useState<string[]>([]);
   const [favoriteModels, setFavoriteModels] = useState<string[]>([]);
+  const [fallbackModels, setFallbackModels] = useState<string[]>([]);
   const [geminiNanoCapabilities, setGeminiNanoCapabilities] =
     useState<GeminiNanoCapabilities | null>(null);
 
@@ -168,6 +182,15 @@ export function ModelSelector({
     });
   }, []);
 
+  /**
+   * Load the fallback chain, which the estimate prices in
+   */
+  useEffect(() => {
+    chrome.storage.local.get([STORAGE_KEYS.FALLBACK_MODELS], result => {
+      setFallbackModels((result[STORAGE_KEYS.FALLBACK_MODELS] as string[] | undefined) || []);
+    });
+  }, []);
+
   /**
    * Check Gemini Nano capabilities when selected
    */
@@ -206,38 +229,19 @@ export function ModelSelector({
   };
 
   /**
-   * Calculate estimated prompt tokens based on pair count
-   * Conservative estimate with safety margin (~15% buffer over actual usage)
-   * Actual usage: ~280 prompt tokens per pair
-   * Estimated with buffer: 300 prompt tokens per pair
-   */
-  const calculateEstimatedPromptTokens = (pairCount: number): number => {
-    return 300 * pairCount;
-  };
-
-  /**
-   * Calculate estimated cost for analysis
-   * Conservative estimate with safety margin (~15% buffer over actual usage)
-   * Actual usage: ~280 prompt + ~500 completion tokens per pair
-   * Estimated with buffer: 300 prompt + 600 completion tokens per pair
+   * Format the estimated cost of a scan (the figure the budget check enforces)
    */
   const getEstimatedCost = (model: AvailableModel, pairCount: number = 20): string => {
-    // Gemini Nano is free
-    if (model.isBuiltIn) {
+    const totalCost = estimateScanCost(
+      planUnchunkedScan(model.id, ensembleModels, fallbackModels, pairCount),
+      models
+    );
+
+    // Gemini Nano and local server models are free
+    if (totalCost === 0) {
       return 'Free';
     }
 
-    // Conservative estimates with safety margin
-    // Prompt tokens include: system prompt + pair data formatting
-    const estimatedPromptTokens = calculateEstimatedPromptTokens(pairCount);
-    // Completion tokens include: LLM analysis output
-    const estimatedCompletionTokens = 600 * pairCount;
-
-    // Calculate cost separately for prompt and completion (different pricing)
-    const promptCost = parseFloat(model.pricing?.prompt || '0') * estimatedPromptTokens;
-    const completionCost = parseFloat(model.pricing?.completion || '0') * estimatedCompletionTokens;
-    const totalCost = promptCost + completionCost;
-
     return totalCost < 0.01 ? '< $0.01' : `~$${totalCost.toFixed(2)}`;
   };
 
@@ -279,15 +283,15 @@ export function ModelSelector({
 
     // Filter by selected providers
     if (selectedProviders.length > 0) {
-      filtered = filtered.filter(model =>
-        selectedProviders.includes(model.isBuiltIn ? 'Built-in' : extractProvider(model.id))
-      );
+      filtered = filtered.filter(model => selectedProviders.includes(getModelProvider(model)));
     }
 
     // Filter by max input tokens (based on pair count)
     if (maxPairs && maxPairs > 0) {
-      const requiredTokens = calculateEstimatedPromptTokens(maxPairs);
+      const requiredTokens = estimatePromptTokens(maxPairs);
       filtered = filtered.filter(model => {
+        // Local servers don't report context length; oversized scans are batched instead
+        if (model.isLocal) return true;
         const contextLength = model.context_length || 4096;
         const maxCompletionTokens = model.top_provider?.max_completion_tokens || 8192;
         const maxInputTokens = contextLength - maxCompletionTokens;
@@ -466,7 +470,9 @@ export function ModelSelector({
                   {model.name}
                   {model.isBuiltIn
                     ? ' - Free (Built-in)'
-                    : ` - In: ${formatPrice(model.pricing?.prompt || '0')}/1M | Out: ${formatPrice(model.pricing?.completion || '0')}/1M`}
+                    : model.isLocal
+                      ? ''
+                      : ` - In: ${formatPrice(model.pricing?.prompt || '0')}/1M | Out: ${formatPrice(model.pricing?.completion || '0')}/1M`}
                 </option>
               ))}
           </optgroup>
@@ -482,7 +488,9 @@ export function ModelSelector({
                   {model.name}
                   {model.isBuiltIn
                     ? ' - Free (Built-in)'
-                    : ` - In: ${formatPrice(model.pricing?.prompt || '0')}/1M | Out: ${formatPrice(model.pricing?.completion || '0')}/1M`}
+                    : model.isLocal
+                      ? ''
+                      : ` - In: ${formatPrice(model.pricing?.prompt || '0')}/1M | Out: ${formatPrice(model.pricing?.completion || '0')}/1M`}
                 </option>
               ))}
           </optgroup>
@@ -505,16 +513,18 @@ export function ModelSelector({
             <div className="text-neon-cyan font-bold break-words">{selectedModel.name}</div>
           </div>
 
-          <div className="flex justify-between items-center">
-            <span className="text-gray-400">{t('form.maxInputTokens')}:</span>
-            <span className="text-neon-cyan font-bold">
-              {(
-                (selectedModel.context_length || 4096) -
-                (selectedModel.top_provider?.max_completion_tokens || 8192)
-              ).toLocaleString()}{' '}
-              tokens
-            </span>
-          </div>
+          {!selectedModel.isLocal && (
+            <div className="flex justify-between items-center">
+              <span className="text-gray-400">{t('form.maxInputTokens')}:</span>
+              <span className="text-neon-cyan font-bold">
+                {(
+                  (selectedModel.context_length || 4096) -
+                  (selectedModel.top_provider?.max_completion_tokens || 8192)
+                ).toLocaleString()}{' '}
+                tokens
+              </span>
+            </div>
+          )}
 
           {/* Gemini Nano specific info */}
           {selectedModel.isBuiltIn && geminiNanoCapabilities && (
@@ -581,6 +591,7 @@ export function ModelSelector({
               {getEstimatedCost(selectedModel, maxPairs || 20)}
             </span>
           </div>
+          <p className="text-xs text-gray-500">{t('form.estimatedCostNote')}</p>
           <div className="pt-2 border-t border-purple-500/20">
             <button
               onClick={() => toggleFavorite(selectedModel.id)}
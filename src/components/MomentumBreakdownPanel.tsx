@@ -0,0 +1,94 @@
+// Momentum Breakdown Panel Component
+// Shows the parts of the momentum score that ranked a pair into the shortlist
+
+import { useTranslation } from '@/i18n';
+import type { MomentumBreakdown } from '@/types/pair-features';
+
+interface MomentumBreakdownPanelProps {
+  breakdown: MomentumBreakdown;
+  cutoff?: number; // Lowest total among the shortlisted pairs
+}
+
+/**
+ * Score parts in display order
+ */
+const PARTS = [
+  'priceScore',
+  'volumeScore',
+  'liquidityBonus',
+  'buyPressureBonus',
+  'accelerationBonus',
+  'liquidityHealthBonus',
+  'trendBonus',
+] as const;
+
+/**
+ * Format a score part with its sign
+ */
+function formatPart(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+export function MomentumBreakdownPanel({ breakdown, cutoff }: MomentumBreakdownPanelProps) {
+  const { t } = useTranslation();
+
+  // Bars are relative to the largest part; acceleration has no upper bound
+  const largest = Math.max(1, ...PARTS.map(part => Math.abs(breakdown[part])));
+
+  return (
+    <div className="p-4 bg-cyber-darker/80 rounded-xl border-2 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-neon-cyan uppercase tracking-wider">
+          📈 {t('results.momentumBreakdown.title')}
+        </h3>
+        <div className="text-right">
+          <div className="text-xs text-gray-400">{t('results.momentumBreakdown.total')}</div>
+          <div className="text-2xl font-bold text-neon-green">{breakdown.total.toFixed(1)}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {PARTS.map(part => {
+          const value = breakdown[part];
+          return (
+            <div key={part} className="space-y-1">
+              <div className="flex justify-between items-center text-xs">
+                <span className="text-gray-300 font-mono">
+                  {t(`results.momentumBreakdown.parts.${part}`)}
+                </span>
+                <span
+                  className={`font-bold font-mono ${value < 0 ? 'text-neon-pink' : 'text-neon-green'}`}
+                >
+                  {formatPart(value)}
+                </span>
+              </div>
+              <div className="w-full h-1.5 bg-cyber-darker rounded-full overflow-hidden border border-purple-500/20">
+                <div
+                  className={`h-full ${value < 0 ? 'bg-neon-pink' : 'bg-neon-green'} transition-all duration-500`}
+                  style={{ width: `${(Math.abs(value) / largest) * 100}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-purple-500/20 space-y-1 text-xs font-mono">
+        <div className="flex justify-between">
+          <span className="text-gray-300">{t('results.momentumBreakdown.riskMultiplier')}</span>
+          <span
+            className={`font-bold ${breakdown.riskMultiplier < 1 ? 'text-yellow-500' : 'text-neon-green'}`}
+          >
+            ×{breakdown.riskMultiplier.toFixed(2)}
+          </span>
+        </div>
+        {cutoff !== undefined && (
+          <div className="text-gray-400">
+            {t('results.momentumBreakdown.cutoff', { score: cutoff.toFixed(1) })}
+          </div>
+        )}
+        <div className="text-gray-500">💡 {t('results.momentumBreakdown.helpText')}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+// Pair Filter Inputs Component
+// Min/max inputs for the numeric pre-filters of the analysis form
+
+import { useState } from 'react';
+import { useTranslation } from '@/i18n';
+import { PAIR_FILTER_KEYS, type NumericRange, type PairFilters } from '@/types/filters';
+import { TIMEFRAMES, type Timeframe } from '@/types/dexscreener';
+import { getActivePairFilters } from '@/utils/pair-filters';
+
+interface PairFilterInputsProps {
+  filters: PairFilters;
+  onChange: (filters: PairFilters) => void;
+  timeframe: Timeframe;
+  disabled?: boolean;
+}
+
+type RangeKey = Exclude<keyof PairFilters, 'minTxns'>;
+
+/**
+ * Parse an input value (empty or negative = no bound)
+ */
+function parseBound(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export function PairFilterInputs({
+  filters,
+  onChange,
+  timeframe,
+  disabled = false,
+}: PairFilterInputsProps) {
+  const { t } = useTranslation();
+  const activeCount = getActivePairFilters(filters).length;
+  const [open, setOpen] = useState(activeCount > 0);
+
+  const updateRange = (key: RangeKey, bound: keyof NumericRange, value: string) => {
+    const range = { ...filters[key], [bound]: parseBound(value) };
+    onChange({
+      ...filters,
+      [key]: range.min === undefined && range.max === undefined ? undefined : range,
+    });
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:outline-none disabled:opacity-50 transition-all font-mono text-sm hover:border-purple-500/50';
+
+  /**
+   * Field label; volume and transactions follow the selected timeframe
+   */
+  const getLabel = (key: keyof PairFilters): string =>
+    t(`filters.fields.${key}`, { timeframe: t(TIMEFRAMES[timeframe].labelKey) });
+
+  return (
+    <section className="mb-6">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 text-sm font-medium text-neon-cyan"
+      >
+        <span>{open ? '▾' : '▸'}</span>
+        {t('filters.title')}
+        {activeCount > 0 && (
+          <span className="text-xs font-mono text-neon-green">
+            {t('filters.active', { count: activeCount })}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-gray-400">{t('filters.description')}</p>
+
+          {PAIR_FILTER_KEYS.filter((key): key is RangeKey => key !== 'minTxns').map(key => (
+            <div key={key} className="grid grid-cols-[1fr_auto_auto] gap-2 items-center">
+              <span className="text-xs text-gray-300 font-mono">{getLabel(key)}</span>
+              {(['min', 'max'] as const).map(bound => (
+                <input
+                  key={bound}
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={filters[key]?.[bound] ?? ''}
+                  onChange={e => updateRange(key, bound, e.target.value)}
+                  disabled={disabled}
+                  placeholder={t(`filters.${bound}`)}
+                  aria-label={`${getLabel(key)} ${t(`filters.${bound}`)}`}
+                  className={`${inputClass} w-28`}
+                />
+              ))}
+            </div>
+          ))}
+
+          <div className="grid grid-cols-[1fr_auto] gap-2 items-center">
+            <span className="text-xs text-gray-300 font-mono">{getLabel('minTxns')}</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={filters.minTxns ?? ''}
+              onChange={e => {
+                const value = parseBound(e.target.value);
+                onChange({
+                  ...filters,
+                  minTxns: value === undefined ? undefined : Math.floor(value),
+                });
+              }}
+              disabled={disabled}
+              placeholder={t('filters.min')}
+              aria-label={getLabel('minTxns')}
+              className={`${inputClass} w-28`}
+            />
+          </div>
+
+          {activeCount > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange({})}
+              disabled={disabled}
+              className="text-xs font-mono text-neon-pink hover:text-neon-purple transition-colors disabled:opacity-50"
+            >
+              {t('filters.clear')}
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,214 @@
+// Pair List Component
+// Lists every analyzed pair with the LLM's per-pair observations
+
+import { useState } from 'react';
+import { useTranslation } from '@/i18n';
+import type { AnalyzedPair } from '@/types/analysis';
+import { getRiskLevelInfo } from '@/utils/risk-assessment';
+import { getShortlistCutoff } from '@/utils/pair-features';
+import { MomentumBreakdownPanel } from './MomentumBreakdownPanel';
+import { WatchButton } from './WatchButton';
+
+interface PairListProps {
+  pairs: AnalyzedPair[];
+  streaming?: boolean; // LLM is still writing; pairs without analysis show a placeholder
+}
+
+/**
+ * Format USD amounts compactly (e.g. $1.2M)
+ */
+function formatUsd(value?: number): string {
+  if (value === undefined) return '-';
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `$${(value / 1_000).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+export function PairList({ pairs, streaming = false }: PairListProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (pairs.length === 0) return null;
+
+  const cutoff = getShortlistCutoff(pairs);
+
+  return (
+    <div className="cyber-card p-5 rounded-xl border border-purple-500/30 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-neon-cyan uppercase tracking-wide">
+          {t('results.pairList')}
+        </h3>
+        {streaming && (
+          <span className="text-xs font-mono text-neon-green animate-glow-pulse">
+            {t('results.streaming')}
+          </span>
+        )}
+      </div>
+
+      <ul className="space-y-3">
+        {pairs.map(pair => {
+          const riskInfo = pair.riskLevel ? getRiskLevelInfo(pair.riskLevel) : null;
+          const change = pair.priceChange6h ?? 0;
+          const injection = pair.riskFactors?.some(
+            factor => factor.key === 'results.risk.promptInjection'
+          );
+
+          return (
+            <li
+              key={pair.pairAddress || pair.symbol}
+              className="p-3 bg-cyber-darker/50 border border-purple-500/20 rounded-lg"
+            >
+              <div className="flex items-center justify-between gap-3 text-sm font-mono">
+                <span className="font-bold text-gray-100 truncate">
+                  {riskInfo && (
+                    <span className="mr-1" title={riskInfo.label}>
+                      {riskInfo.emoji}
+                    </span>
+                  )}
+                  {pair.symbol}
+                  {pair.dexId && (
+                    <span
+                      className="ml-2 text-xs font-normal text-gray-500"
+                      title={t('dexVenues.venue')}
+                    >
+                      {pair.dexId}
+                    </span>
+                  )}
+                  {pair.tokenPools && pair.tokenPools.poolCount > 1 && (
+                    <span
+                      className={`ml-2 text-xs font-normal ${pair.tokenPools.fragmented ? 'text-yellow-400' : 'text-gray-500'}`}
+                      title={[
+                        t('results.pools.total', {
+                          liquidity: formatUsd(pair.tokenPools.liquidityUsd),
+                          count: pair.tokenPools.poolCount,
+                        }),
+                        pair.tokenPools.fragmented
+                          ? t('results.pools.fragmented', {
+                              share: (pair.tokenPools.topPoolShare * 100).toFixed(0),
+                            })
+                          : '',
+                      ]
+                        .filter(Boolean)
+                        .join('\n')}
+                    >
+                      {pair.tokenPools.fragmented && '⚠ '}
+                      {t('results.pools.count', { count: pair.tokenPools.poolCount })}
+                    </span>
+                  )}
+                  {pair.promotion && (
+                    <span
+                      className="ml-2 text-xs font-normal text-yellow-400"
+                      title={t('results.promotion.title', {
+                        amount: pair.promotion.boostAmount,
+                        profile: pair.promotion.hasProfile
+                          ? t('results.promotion.withProfile')
+                          : t('results.promotion.withoutProfile'),
+                      })}
+                    >
+                      💰 {t('results.promotion.badge')}
+                    </span>
+                  )}
+                </span>
+                <span className="flex items-center gap-3 text-xs flex-shrink-0">
+                  <span className="text-gray-400" title={t('results.volume')}>
+                    {formatUsd(pair.volume6h)}
+                  </span>
+                  <span className="text-gray-400" title={t('results.liquidity')}>
+                    {formatUsd(pair.liquidity)}
+                  </span>
+                  <span className={change >= 0 ? 'text-neon-green' : 'text-neon-pink'}>
+                    {change > 0 ? '+' : ''}
+                    {change.toFixed(1)}%
+                  </span>
+                  {pair.momentum !== undefined && (
+                    <span className="text-neon-cyan font-bold">{pair.momentum}/10</span>
+                  )}
+                  {pair.chainId && pair.contractAddress && (
+                    <WatchButton
+                      chainId={pair.chainId}
+                      tokenAddress={pair.contractAddress}
+                      symbol={pair.symbol?.split('/')[0] || pair.contractAddress}
+                      compact
+                    />
+                  )}
+                </span>
+              </div>
+
+              {pair.features && (
+                <div
+                  className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs font-mono text-gray-400"
+                  title={t('results.features.tooltip')}
+                >
+                  {pair.features.buyRatio !== undefined && (
+                    <span
+                      className={
+                        pair.features.buyPressure >= 0 ? 'text-neon-green' : 'text-neon-pink'
+                      }
+                    >
+                      {t('results.features.buyPressure', {
+                        value: (pair.features.buyRatio * 100).toFixed(0),
+                      })}
+                    </span>
+                  )}
+                  <span>
+                    {t('results.features.trend', {
+                      value: (pair.features.trendConsistency * 100).toFixed(0),
+                    })}
+                  </span>
+                  <span>{t(`results.features.momentumShift.${pair.features.momentumShift}`)}</span>
+                  <span>{t(`results.features.volatility.${pair.features.volatilityPattern}`)}</span>
+                  <span>
+                    {t('results.features.volumeAcceleration', {
+                      value: `${pair.features.volumeAcceleration > 0 ? '+' : ''}${pair.features.volumeAcceleration.toFixed(2)}`,
+                    })}
+                  </span>
+                  <span>
+                    {t('results.features.liquidityHealth', {
+                      value: (pair.features.liquidityHealth * 100).toFixed(0),
+                    })}
+                  </span>
+                </div>
+              )}
+
+              {pair.momentumBreakdown && (
+                <div className="mt-2">
+                  <button
+                    onClick={() =>
+                      setExpanded(expanded === pair.pairAddress ? null : pair.pairAddress || null)
+                    }
+                    className="text-xs font-mono text-neon-cyan hover:text-neon-purple transition-colors"
+                  >
+                    {expanded === pair.pairAddress
+                      ? t('results.momentumBreakdown.hide')
+                      : `📈 ${t('results.momentumBreakdown.show')} (${pair.momentumBreakdown.total.toFixed(1)})`}
+                  </button>
+                  {expanded === pair.pairAddress && (
+                    <div className="mt-2">
+                      <MomentumBreakdownPanel breakdown={pair.momentumBreakdown} cutoff={cutoff} />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {injection && (
+                <p className="mt-2 text-xs text-neon-pink font-mono">
+                  ⛔ {t('results.promptInjectionBadge')}
+                </p>
+              )}
+
+              {pair.observations ? (
+                <p className="mt-2 text-xs text-gray-300 font-mono leading-relaxed">
+                  {pair.observations}
+                </p>
+              ) : streaming ? (
+                <div className="mt-2 h-3 w-2/3 bg-purple-500/10 rounded animate-pulse" />
+              ) : pair.missingFromLLM ? (
+                <p className="mt-2 text-xs text-yellow-500 font-mono">{t('results.pairMissing')}</p>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+// Performance Leaderboard Component
+// Hit rate and median return of past picks per model, chain or timeframe
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from '@/i18n';
+import { STORAGE_KEYS } from '@/types/storage';
+import {
+  PERFORMANCE_CHECKPOINTS,
+  type PerformanceCheckpoint,
+  type TrackedPick,
+} from '@/types/performance';
+import { clearTrackedPicks, getTrackedPicks, summarizePerformance } from '@/utils/performance';
+
+type GroupBy = 'model' | 'chain' | 'timeframe';
+
+const GROUP_BY_OPTIONS: GroupBy[] = ['model', 'chain', 'timeframe'];
+
+/**
+ * Strip the provider prefix from a model ID for compact display
+ */
+function shortModelName(modelId: string): string {
+  return modelId.split('/').pop() || modelId;
+}
+
+export function PerformanceLeaderboard() {
+  const { t } = useTranslation();
+  const [picks, setPicks] = useState<TrackedPick[]>([]);
+  const [groupBy, setGroupBy] = useState<GroupBy>('model');
+  const [checkpoint, setCheckpoint] = useState<PerformanceCheckpoint>(6);
+  const [includeRunnerUps, setIncludeRunnerUps] = useState(false);
+
+  /**
+   * Load tracked picks
+   */
+  const loadPicks = useCallback(async () => {
+    setPicks(await getTrackedPicks());
+  }, []);
+
+  /**
+   * Load on mount and refresh when the background records outcomes
+   */
+  useEffect(() => {
+    loadPicks();
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes[STORAGE_KEYS.PICK_PERFORMANCE]) {
+        loadPicks();
+      }
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, [loadPicks]);
+
+  const handleClear = async () => {
+    if (!confirm(t('performance.confirmClear'))) {
+      return;
+    }
+    await clearTrackedPicks();
+    await loadPicks();
+  };
+
+  const included = includeRunnerUps ? picks : picks.filter(pick => pick.role === 'topPick');
+  const rows = summarizePerformance(included, groupBy, checkpoint);
+  const pending = included.filter(pick => !pick.outcomes[checkpoint]).length;
+
+  const selectClass =
+    'bg-cyber-darker border border-purple-500/30 rounded-lg px-3 py-2 text-gray-200 font-mono text-xs focus:outline-none focus:border-neon-cyan/50';
+
+  return (
+    <div className="cyber-card p-5 rounded-xl border border-purple-500/30 animate-fade-in space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-bold text-neon-cyan uppercase tracking-wide">
+          📊 {t('performance.title')}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={groupBy}
+            onChange={e => setGroupBy(e.target.value as GroupBy)}
+            className={selectClass}
+          >
+            {GROUP_BY_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {t(`performance.by.${option}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={checkpoint}
+            onChange={e => setCheckpoint(Number(e.target.value) as PerformanceCheckpoint)}
+            className={selectClass}
+          >
+            {PERFORMANCE_CHECKPOINTS.map(hours => (
+              <option key={hours} value={hours}>
+                {t('performance.after', { hours })}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeRunnerUps}
+              onChange={e => setIncludeRunnerUps(e.target.checked)}
+              className="w-4 h-4 accent-neon-purple"
+            />
+            {t('performance.includeRunnerUps')}
+          </label>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400 font-mono">{t('performance.description')}</p>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500 font-mono">
+          {t('performance.empty', { hours: checkpoint })}
+        </p>
+      ) : (
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="py-1 font-normal">{t(`performance.by.${groupBy}`)}</th>
+              <th className="py-1 font-normal text-right">{t('performance.picks')}</th>
+              <th className="py-1 font-normal text-right">{t('performance.hitRate')}</th>
+              <th className="py-1 font-normal text-right">{t('performance.medianReturn')}</th>
+              <th className="py-1 font-normal text-right">{t('performance.rugged')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-t border-purple-500/10 text-gray-300">
+                <td className="py-1 truncate max-w-[14rem]" title={row.key}>
+                  {groupBy === 'model' ? shortModelName(row.key) : row.key.toUpperCase()}
+                </td>
+                <td className="py-1 text-right">{row.picks}</td>
+                <td className="py-1 text-right text-neon-cyan">{Math.round(row.hitRate * 100)}%</td>
+                <td
+                  className={`py-1 text-right ${row.medianReturnPct >= 0 ? 'text-neon-green' : 'text-neon-pink'}`}
+                >
+                  {row.medianReturnPct > 0 ? '+' : ''}
+                  {row.medianReturnPct.toFixed(1)}%
+                </td>
+                <td className="py-1 text-right text-neon-pink">{row.rugged || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center justify-between text-xs font-mono text-gray-500">
+        <span>{t('performance.pending', { count: pending })}</span>
+        {picks.length > 0 && (
+          <button onClick={handleClear} className="text-neon-pink/70 hover:text-neon-pink">
+            {t('performance.clear')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
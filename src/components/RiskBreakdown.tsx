@@ -3,6 +3,7 @@
 
 import { useTranslation } from '@/i18n';
 import type { ScoringBreakdown } from '@/utils/risk-assessment';
+import { RISK_PROFILE_PRESETS } from '@/types/risk-profile';
 
 interface RiskBreakdownProps {
   breakdown: ScoringBreakdown;
@@ -95,8 +96,52 @@ export function RiskBreakdown({ breakdown, totalScore }: RiskBreakdownProps) {
         ? t(breakdown.activityReasonKey, breakdown.activityReasonParams)
         : breakdown.activityReason,
     },
+    ...(breakdown.rugMax !== undefined
+      ? [
+          {
+            name: t('results.riskBreakdown.factors.rug'),
+            score: breakdown.rugScore ?? 0,
+            max: breakdown.rugMax,
+            reason: breakdown.rugReasonKey
+              ? t(breakdown.rugReasonKey, breakdown.rugReasonParams)
+              : (breakdown.rugReason ?? ''),
+          },
+        ]
+      : []),
+    ...(breakdown.promotionMax !== undefined
+      ? [
+          {
+            name: t('results.riskBreakdown.factors.promotion'),
+            score: breakdown.promotionScore ?? 0,
+            max: breakdown.promotionMax,
+            reason: breakdown.promotionReasonKey
+              ? t(breakdown.promotionReasonKey, breakdown.promotionReasonParams)
+              : (breakdown.promotionReason ?? ''),
+          },
+        ]
+      : []),
+    ...(breakdown.ruleMax !== undefined
+      ? [
+          {
+            name: t('results.riskBreakdown.factors.rules'),
+            score: breakdown.ruleScore ?? 0,
+            max: breakdown.ruleMax,
+            reason: breakdown.ruleReasonKey
+              ? t(breakdown.ruleReasonKey, breakdown.ruleReasonParams)
+              : (breakdown.ruleReason ?? ''),
+          },
+        ]
+      : []),
   ];
 
+  const maxScore = factors.reduce((sum, factor) => sum + factor.max, 0);
+
+  // Presets are shown by their translated name; results saved before profiles existed have none
+  const profileName =
+    breakdown.profileId && RISK_PROFILE_PRESETS.some(p => p.id === breakdown.profileId)
+      ? t(`riskProfiles.presets.${breakdown.profileId}`)
+      : breakdown.profileName;
+
   return (
     <div className="p-4 bg-cyber-darker/80 rounded-xl border-2 border-purple-500/30 backdrop-blur-sm">
       <div className="flex items-center justify-between mb-4">
@@ -105,7 +150,9 @@ export function RiskBreakdown({ breakdown, totalScore }: RiskBreakdownProps) {
         </h3>
         <div className="text-right">
           <div className="text-xs text-gray-400">{t('results.riskBreakdown.totalScore')}</div>
-          <div className="text-2xl font-bold text-neon-pink">{totalScore}/155</div>
+          <div className="text-2xl font-bold text-neon-pink">
+            {totalScore}/{maxScore}
+          </div>
         </div>
       </div>
 
@@ -142,6 +189,11 @@ export function RiskBreakdown({ breakdown, totalScore }: RiskBreakdownProps) {
         <div className="text-xs text-gray-500 font-mono">
           💡 {t('results.riskBreakdown.helpText')}
         </div>
+        {profileName && (
+          <div className="text-xs text-gray-500 font-mono mt-1">
+            {t('results.riskBreakdown.profile', { name: profileName })}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,341 @@
+// Risk Profile Settings Component
+// Selects the risk profile used for scoring and edits custom profiles
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from '@/i18n';
+import { RISK_PROFILE_PRESETS, type RiskProfile } from '@/types/risk-profile';
+import {
+  createCustomRiskProfile,
+  deleteCustomRiskProfile,
+  getActiveRiskProfileId,
+  getCustomRiskProfiles,
+  resolveRiskProfile,
+  saveCustomRiskProfile,
+  setActiveRiskProfileId,
+  validateRiskProfile,
+} from '@/utils/risk-profiles';
+
+/**
+ * Profile sections made only of numbers, in display order
+ */
+const NUMBER_SECTIONS = [
+  'age',
+  'liquidity',
+  'volume',
+  'volatility',
+  'activity',
+  'signals',
+  'levels',
+] as const;
+type NumberSection = (typeof NUMBER_SECTIONS)[number];
+
+/**
+ * Label lists, edited as comma-separated text
+ */
+const LABEL_LISTS = ['critical', 'warning', 'suspicious', 'positive'] as const;
+type LabelList = (typeof LABEL_LISTS)[number];
+
+/**
+ * Points awarded for label matches
+ */
+const LABEL_POINTS = ['warningPoints', 'suspiciousPoints', 'positivePoints'] as const;
+
+type Status = { kind: 'success' | 'error'; message: string } | null;
+
+/**
+ * Parse a comma-separated label list
+ */
+function parseLabels(input: string): string[] {
+  return [
+    ...new Set(
+      input
+        .split(',')
+        .map(label => label.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+export function RiskProfileSettings() {
+  const { t } = useTranslation();
+  const [activeId, setActiveId] = useState('');
+  const [customProfiles, setCustomProfiles] = useState<RiskProfile[]>([]);
+  const [draft, setDraft] = useState<RiskProfile | null>(null);
+  const [labelInputs, setLabelInputs] = useState<Record<LabelList, string>>({
+    critical: '',
+    warning: '',
+    suspicious: '',
+    positive: '',
+  });
+  const [status, setStatus] = useState<Status>(null);
+
+  /**
+   * Load the selected profile and custom profiles
+   */
+  const loadProfiles = useCallback(async () => {
+    try {
+      const [id, profiles] = await Promise.all([getActiveRiskProfileId(), getCustomRiskProfiles()]);
+      setActiveId(id);
+      setCustomProfiles(profiles);
+    } catch (error) {
+      console.error('[RiskProfileSettings] Failed to load profiles:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const activeProfile = resolveRiskProfile(activeId, customProfiles);
+
+  /**
+   * Display name (presets are translated)
+   */
+  const getProfileName = (profile: RiskProfile): string =>
+    profile.builtIn ? t(`riskProfiles.presets.${profile.id}`) : profile.name;
+
+  const handleSelect = async (id: string) => {
+    await setActiveRiskProfileId(id);
+    setActiveId(id);
+    setDraft(null);
+    setStatus(null);
+  };
+
+  /**
+   * Open the editor on a profile
+   */
+  const startEditing = (profile: RiskProfile) => {
+    setDraft(profile);
+    setLabelInputs({
+      critical: profile.labels.critical.join(', '),
+      warning: profile.labels.warning.join(', '),
+      suspicious: profile.labels.suspicious.join(', '),
+      positive: profile.labels.positive.join(', '),
+    });
+    setStatus(null);
+  };
+
+  const handleDuplicate = () => {
+    startEditing(
+      createCustomRiskProfile(
+        activeProfile,
+        t('riskProfiles.copyName', { name: getProfileName(activeProfile) })
+      )
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(t('riskProfiles.confirmDelete', { name: activeProfile.name }))) {
+      return;
+    }
+    await deleteCustomRiskProfile(activeProfile.id);
+    setDraft(null);
+    await loadProfiles();
+  };
+
+  const updateNumber = (section: NumberSection, key: string, value: number) => {
+    setDraft(current =>
+      current ? { ...current, [section]: { ...current[section], [key]: value } } : current
+    );
+  };
+
+  const updateLabelPoints = (key: (typeof LABEL_POINTS)[number], value: number) => {
+    setDraft(current =>
+      current ? { ...current, labels: { ...current.labels, [key]: value } } : current
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const profile: RiskProfile = {
+      ...draft,
+      name: draft.name.trim(),
+      labels: {
+        ...draft.labels,
+        critical: parseLabels(labelInputs.critical),
+        warning: parseLabels(labelInputs.warning),
+        suspicious: parseLabels(labelInputs.suspicious),
+        positive: parseLabels(labelInputs.positive),
+      },
+    };
+
+    const errors = validateRiskProfile(profile);
+    if (errors.length > 0) {
+      setStatus({ kind: 'error', message: errors.map(key => t(key)).join(' ') });
+      return;
+    }
+
+    try {
+      await saveCustomRiskProfile(profile);
+      await setActiveRiskProfileId(profile.id);
+      await loadProfiles();
+      setDraft(null);
+      setStatus({ kind: 'success', message: t('riskProfiles.saved') });
+    } catch (error) {
+      console.error('[RiskProfileSettings] Failed to save profile:', error);
+      setStatus({ kind: 'error', message: String(error) });
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:outline-none transition-all font-mono text-sm hover:border-purple-500/50';
+
+  /**
+   * Numeric input bound to a profile value
+   */
+  const renderNumber = (label: string, value: number, onChange: (value: number) => void) => (
+    <label key={label} className="block text-xs text-gray-400 font-mono">
+      {label}
+      <input
+        type="number"
+        min="0"
+        step="any"
+        value={Number.isNaN(value) ? '' : value}
+        onChange={e => onChange(parseFloat(e.target.value))}
+        className={`${inputClass} mt-1`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400 font-mono">{t('riskProfiles.description')}</p>
+
+      <div>
+        <label className="block text-sm font-medium text-neon-cyan mb-2">
+          {t('riskProfiles.active')}
+        </label>
+        <select
+          value={activeProfile.id}
+          onChange={e => handleSelect(e.target.value)}
+          className={inputClass}
+        >
+          {[...RISK_PROFILE_PRESETS, ...customProfiles].map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {getProfileName(profile)}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-2 font-mono">
+          {activeProfile.builtIn
+            ? t(`riskProfiles.presetDescriptions.${activeProfile.id}`)
+            : t('riskProfiles.customDescription')}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleDuplicate}
+          className="px-4 py-2 bg-neon-purple/20 border border-neon-purple text-neon-purple rounded-lg font-bold text-xs transition-colors hover:bg-neon-purple/30"
+        >
+          {t('riskProfiles.duplicate')}
+        </button>
+        {!activeProfile.builtIn && (
+          <>
+            <button
+              onClick={() => startEditing(activeProfile)}
+              className="px-4 py-2 bg-cyber-darker border border-neon-cyan/30 hover:border-neon-cyan/50 text-neon-cyan rounded-lg font-bold text-xs transition-colors"
+            >
+              {t('riskProfiles.edit')}
+            </button>
+            <button
+              onClick={handleDelete}
+              className="px-4 py-2 bg-cyber-darker border border-neon-pink/30 hover:border-neon-pink/50 text-neon-pink rounded-lg font-bold text-xs transition-colors"
+            >
+              {t('riskProfiles.delete')}
+            </button>
+          </>
+        )}
+      </div>
+
+      {draft && (
+        <div className="p-4 bg-cyber-darker/50 border border-purple-500/20 rounded-lg space-y-4">
+          <label className="block text-sm font-medium text-neon-cyan">
+            {t('riskProfiles.name')}
+            <input
+              type="text"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              className={`${inputClass} mt-2`}
+            />
+          </label>
+
+          {NUMBER_SECTIONS.map(section => (
+            <div key={section}>
+              <h3 className="text-xs font-bold text-gray-400 uppercase mb-2">
+                {t(`riskProfiles.sections.${section}`)}
+              </h3>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {Object.entries(draft[section]).map(([key, value]) =>
+                  renderNumber(t(`riskProfiles.fields.${section}.${key}`), value, next =>
+                    updateNumber(section, key, next)
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <h3 className="text-xs font-bold text-gray-400 uppercase mb-2">
+              {t('riskProfiles.sections.labels')}
+            </h3>
+            <div className="space-y-3">
+              {LABEL_LISTS.map(list => (
+                <label key={list} className="block text-xs text-gray-400 font-mono">
+                  {t(`riskProfiles.fields.labels.${list}`)}
+                  <input
+                    type="text"
+                    value={labelInputs[list]}
+                    onChange={e => setLabelInputs({ ...labelInputs, [list]: e.target.value })}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              ))}
+              <p className="text-xs text-gray-500 font-mono">{t('riskProfiles.labelsHint')}</p>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {LABEL_POINTS.map(key =>
+                  renderNumber(t(`riskProfiles.fields.labels.${key}`), draft.labels[key], next =>
+                    updateLabelPoints(key, next)
+                  )
+                )}
+                {renderNumber(t('riskProfiles.fields.filterScore'), draft.filterScore, next =>
+                  setDraft({ ...draft, filterScore: next })
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-neon-purple/20 border border-neon-purple text-neon-purple rounded-lg font-bold text-xs transition-colors hover:bg-neon-purple/30"
+            >
+              {t('riskProfiles.save')}
+            </button>
+            <button
+              onClick={() => {
+                setDraft(null);
+                setStatus(null);
+              }}
+              className="px-4 py-2 bg-cyber-darker border border-gray-500/30 hover:border-gray-500/50 text-gray-400 rounded-lg font-bold text-xs transition-colors"
+            >
+              {t('riskProfiles.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <p
+          className={`text-xs font-mono ${
+            status.kind === 'success' ? 'text-neon-green' : 'text-neon-pink'
+          }`}
+        >
+          {status.kind === 'success' ? '✓ ' : '⚠️ '}
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+// Risk Rules Manager Component
+// Writes, validates and tests user-defined risk and exclusion rules
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from '@/i18n';
+import { RuleSyntaxError } from '@/shared/errors';
+import type { LastScanPairs, RiskRule } from '@/types/rules';
+import {
+  addRiskRule,
+  deleteRiskRule,
+  getLastScanPairs,
+  getRiskRules,
+  updateRiskRule,
+} from '@/utils/risk-rules';
+import {
+  DERIVED_FIELDS,
+  PAIR_FIELDS,
+  compileRule,
+  matchesRule,
+  type CompiledRule,
+} from '@/utils/rule-language';
+
+/**
+ * Matched pairs listed per rule when testing
+ */
+const MAX_MATCHES_SHOWN = 5;
+
+/**
+ * Compile a rule for the editor
+ * @returns The rule, or the syntax error to show
+ */
+function tryCompile(source: string): { rule?: CompiledRule; error?: RuleSyntaxError } {
+  try {
+    return { rule: compileRule(source) };
+  } catch (error) {
+    if (error instanceof RuleSyntaxError) return { error };
+    throw error;
+  }
+}
+
+export function RiskRulesManager() {
+  const { t } = useTranslation();
+  const [rules, setRules] = useState<RiskRule[]>([]);
+  const [draft, setDraft] = useState('');
+  const [lastScan, setLastScan] = useState<LastScanPairs | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  /**
+   * Load rules and the latest scan's pairs
+   */
+  const loadRules = useCallback(async () => {
+    const [storedRules, scan] = await Promise.all([getRiskRules(), getLastScanPairs()]);
+    setRules(storedRules);
+    setLastScan(scan);
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const compiledDraft = draft.trim() ? tryCompile(draft) : {};
+
+  const handleAdd = async () => {
+    if (!compiledDraft.rule) return;
+    try {
+      await addRiskRule(draft);
+      setDraft('');
+      await loadRules();
+    } catch (error) {
+      console.error('[RiskRulesManager] Failed to add rule:', error);
+    }
+  };
+
+  const handleToggle = async (rule: RiskRule) => {
+    await updateRiskRule(rule.id, { enabled: !rule.enabled });
+    await loadRules();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('riskRules.confirmDelete'))) {
+      return;
+    }
+    await deleteRiskRule(id);
+    await loadRules();
+  };
+
+  /**
+   * Describe what a rule does
+   */
+  const describeAction = (rule: CompiledRule): string =>
+    rule.action.kind === 'exclude'
+      ? t('riskRules.actionExclude')
+      : t('riskRules.actionPoints', {
+          points: `${rule.action.points >= 0 ? '+' : ''}${rule.action.points}`,
+        });
+
+  /**
+   * Summarize which of the last scan's pairs a rule matches
+   */
+  const renderMatches = (rule: CompiledRule) => {
+    if (!lastScan) return null;
+    const now = Date.now();
+    const matched = lastScan.pairs.filter(pair => matchesRule(rule, pair, now));
+    const symbols = matched
+      .slice(0, MAX_MATCHES_SHOWN)
+      .map(pair => `${pair.baseToken?.symbol || '?'}/${pair.quoteToken?.symbol || '?'}`);
+
+    return (
+      <div className="text-xs font-mono text-neon-cyan">
+        🧪 {t('riskRules.matches', { matched: matched.length, total: lastScan.pairs.length })}
+        {symbols.length > 0 && (
+          <span className="text-gray-400">
+            {' '}
+            ({symbols.join(', ')}
+            {matched.length > symbols.length && ', …'})
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400 font-mono">{t('riskRules.description')}</p>
+
+      <div className="p-3 bg-cyber-darker/50 border border-purple-500/20 rounded-lg text-xs font-mono text-gray-400 space-y-1">
+        <div>
+          {t('riskRules.examples')}:
+          <div className="text-neon-cyan">
+            liquidity.usd &lt; 5000 and txns.h1.sells == 0 =&gt; +40 &quot;no sells in 1h&quot;
+          </div>
+          <div className="text-neon-cyan">
+            dexId == &quot;pumpswap&quot; and ageHours &lt; 2 =&gt; exclude
+          </div>
+        </div>
+        <div>
+          {t('riskRules.fields')}: {PAIR_FIELDS.join(', ')}
+        </div>
+        <div>
+          {t('riskRules.derivedFields')}: {DERIVED_FIELDS.join(', ')}
+        </div>
+        <div>{t('riskRules.syntaxHint')}</div>
+      </div>
+
+      {/* New rule */}
+      <div>
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={t('riskRules.placeholder')}
+          rows={2}
+          className="w-full px-4 py-3 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:outline-none font-mono text-sm hover:border-purple-500/50 transition-all resize-none"
+        />
+        {compiledDraft.error && (
+          <p className="text-xs font-mono text-neon-pink mt-1">
+            ⚠️{' '}
+            {t('riskRules.syntaxError', {
+              message: compiledDraft.error.message,
+              column: compiledDraft.error.position + 1,
+            })}
+          </p>
+        )}
+        {compiledDraft.rule && (
+          <div className="mt-1 space-y-1">
+            <p className="text-xs font-mono text-neon-green">
+              ✓ {describeAction(compiledDraft.rule)} — {compiledDraft.rule.action.message}
+            </p>
+            {testing && renderMatches(compiledDraft.rule)}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleAdd}
+          disabled={!compiledDraft.rule}
+          className="px-4 py-2 bg-neon-purple/20 border border-neon-purple text-neon-purple rounded-lg font-bold text-xs transition-colors hover:bg-neon-purple/30 disabled:opacity-40"
+        >
+          + {t('riskRules.add')}
+        </button>
+        <button
+          onClick={() => setTesting(!testing)}
+          disabled={!lastScan}
+          className="px-4 py-2 bg-cyber-darker border border-neon-cyan/30 hover:border-neon-cyan/50 text-neon-cyan rounded-lg font-bold text-xs transition-colors disabled:opacity-40"
+        >
+          {testing ? t('riskRules.stopTesting') : t('riskRules.test')}
+        </button>
+        <span className="text-xs text-gray-500 font-mono">
+          {lastScan
+            ? t('riskRules.lastScan', {
+                chain: lastScan.chain.toUpperCase(),
+                count: lastScan.pairs.length,
+                time: new Date(lastScan.scannedAt).toLocaleString(),
+              })
+            : t('riskRules.noLastScan')}
+        </span>
+      </div>
+
+      {/* Rule list */}
+      {rules.length === 0 ? (
+        <p className="text-xs text-gray-500 font-mono">{t('riskRules.empty')}</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => {
+            const { rule: compiled, error } = tryCompile(rule.source);
+            return (
+              <div
+                key={rule.id}
+                className={`p-3 bg-cyber-darker/50 border border-purple-500/20 rounded-lg space-y-1 ${
+                  rule.enabled ? '' : 'opacity-60'
+                }`}
+              >
+                <div className="flex justify-between items-start gap-3">
+                  <code className="flex-1 min-w-0 text-xs text-gray-300 break-all">
+                    {rule.source}
+                  </code>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleToggle(rule)}
+                      className={`px-3 py-1 rounded-lg text-xs font-bold border transition-colors ${
+                        rule.enabled
+                          ? 'border-neon-green/50 text-neon-green hover:bg-neon-green/10'
+                          : 'border-gray-500/50 text-gray-400 hover:bg-gray-500/10'
+                      }`}
+                    >
+                      {rule.enabled ? t('riskRules.enabled') : t('riskRules.disabled')}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule.id)}
+                      className="text-red-400 hover:text-red-300 transition-colors text-sm"
+                      title={t('riskRules.delete')}
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+                {compiled ? (
+                  <>
+                    <div className="text-xs font-mono text-gray-400">
+                      {describeAction(compiled)}
+                    </div>
+                    {testing && renderMatches(compiled)}
+                  </>
+                ) : (
+                  <div className="text-xs font-mono text-neon-pink">
+                    ⚠️{' '}
+                    {t('riskRules.syntaxError', {
+                      message: error?.message ?? '',
+                      column: (error?.position ?? 0) + 1,
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,19 +4,42 @@
 import { useTranslation } from '@/i18n';
 import { getRiskLevelInfo } from '@/utils/risk-assessment';
 import type { RiskLevel } from '@/types/analysis';
+import { BALANCED_RISK_PROFILE, type RiskLevelCutoffs } from '@/types/risk-profile';
 
 interface RiskScoreGaugeProps {
-  score: number; // 0-135 (sum of all risk factors)
+  score: number; // Sum of the breakdown factor scores
   level: RiskLevel;
+  maxScore?: number; // Sum of the breakdown factor maxima (default: Balanced profile)
+  cutoffs?: RiskLevelCutoffs; // Level cut-offs of the profile the score was calculated with
 }
 
-export function RiskScoreGauge({ score, level }: RiskScoreGaugeProps) {
+/**
+ * Point on the gauge arc at a fraction (0-1) of its length
+ */
+function arcPoint(fraction: number, radius: number): { x: number; y: number } {
+  const angle = Math.PI * (1 - fraction);
+  return { x: 100 + radius * Math.cos(angle), y: 100 - radius * Math.sin(angle) };
+}
+
+export function RiskScoreGauge({
+  score,
+  level,
+  maxScore = 135,
+  cutoffs = BALANCED_RISK_PROFILE.levels,
+}: RiskScoreGaugeProps) {
   const { t } = useTranslation();
   const riskInfo = getRiskLevelInfo(level);
 
-  // Calculate percentage (135 is max possible score)
-  const maxScore = 135;
-  const percentage = Math.min(100, (score / maxScore) * 100);
+  const percentage = maxScore > 0 ? Math.min(100, (score / maxScore) * 100) : 0;
+
+  // Tick marks at the profile's level cut-offs
+  const cutoffTicks = [cutoffs.caution, cutoffs.warning, cutoffs.danger, cutoffs.critical]
+    .filter(cutoff => cutoff > 0 && cutoff < maxScore)
+    .map(cutoff => ({
+      cutoff,
+      outer: arcPoint(cutoff / maxScore, 80),
+      inner: arcPoint(cutoff / maxScore, 70),
+    }));
 
   // Calculate gauge rotation (-90deg to 90deg, total 180deg)
   const rotation = -90 + (percentage / 100) * 180;
@@ -121,12 +144,20 @@ export function RiskScoreGauge({ score, level }: RiskScoreGaugeProps) {
             / {maxScore}
           </text>
 
-          {/* Tick marks */}
+          {/* Tick marks (ends and level cut-offs) */}
           <g className="text-gray-600">
             <line x1="20" y1="100" x2="20" y2="90" stroke="currentColor" strokeWidth="1" />
-            <line x1="60" y1="47" x2="65" y2="52" stroke="currentColor" strokeWidth="1" />
-            <line x1="100" y1="20" x2="100" y2="30" stroke="currentColor" strokeWidth="1" />
-            <line x1="140" y1="47" x2="135" y2="52" stroke="currentColor" strokeWidth="1" />
+            {cutoffTicks.map(({ cutoff, outer, inner }) => (
+              <line
+                key={cutoff}
+                x1={outer.x}
+                y1={outer.y}
+                x2={inner.x}
+                y2={inner.y}
+                stroke="currentColor"
+                strokeWidth="1"
+              />
+            ))}
             <line x1="180" y1="100" x2="180" y2="90" stroke="currentColor" strokeWidth="1" />
           </g>
         </svg>
@@ -164,11 +195,11 @@ export function RiskScoreGauge({ score, level }: RiskScoreGaugeProps) {
       {/* Score interpretation */}
       <div className="mt-4 p-3 bg-cyber-darker/50 rounded-lg border border-purple-500/20">
         <div className="text-xs text-gray-400 font-mono text-center">
-          {percentage < 20 && `✓ ${t('results.riskGauge.excellent')}`}
-          {percentage >= 20 && percentage < 40 && `⚠️ ${t('results.riskGauge.moderate')}`}
-          {percentage >= 40 && percentage < 60 && `⚠️ ${t('results.riskGauge.elevated')}`}
-          {percentage >= 60 && percentage < 80 && `🚨 ${t('results.riskGauge.high')}`}
-          {percentage >= 80 && `⛔ ${t('results.riskGauge.critical')}`}
+          {level === 'safe' && `✓ ${t('results.riskGauge.excellent')}`}
+          {level === 'caution' && `⚠️ ${t('results.riskGauge.moderate')}`}
+          {level === 'warning' && `⚠️ ${t('results.riskGauge.elevated')}`}
+          {level === 'danger' && `🚨 ${t('results.riskGauge.high')}`}
+          {level === 'critical' && `⛔ ${t('results.riskGauge.critical')}`}
         </div>
       </div>
     </div>
@@ -0,0 +1,128 @@
+// Scan Changes Panel Component
+// Compact "what changed" summary between two scans of the same chain and timeframe
+
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from '@/i18n';
+import type { AnalysisResult, HistoryEntry } from '@/types/analysis';
+import { getHistory } from '@/utils/history';
+import { getRiskLevelInfo } from '@/utils/risk-assessment';
+import { diffAnalysisResults, findPreviousComparable, hasScanChanges } from '@/utils/scan-diff';
+
+/**
+ * Rank moves shown before collapsing into "+N more"
+ */
+const MAX_RANK_MOVES = 5;
+
+interface ScanChangesPanelProps {
+  previous: AnalysisResult;
+  current: AnalysisResult;
+  since: string; // ISO 8601 time of the previous scan
+}
+
+export function ScanChangesPanel({ previous, current, since }: ScanChangesPanelProps) {
+  const { t } = useTranslation();
+  const diff = useMemo(() => diffAnalysisResults(previous, current), [previous, current]);
+
+  const listSymbols = (pairs: { symbol?: string; rank: number }[]) =>
+    pairs.map(pair => `${pair.symbol || '?'} #${pair.rank}`).join(', ');
+
+  return (
+    <div className="cyber-card p-4 rounded-xl border border-purple-500/30 animate-fade-in space-y-2 text-xs font-mono">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-bold text-neon-cyan uppercase tracking-wide">
+          {t('scanChanges.title')}
+        </h3>
+        <span className="text-gray-500">
+          {t('scanChanges.since', { time: new Date(since).toLocaleString() })}
+        </span>
+      </div>
+
+      {!hasScanChanges(diff) ? (
+        <p className="text-gray-400">{t('scanChanges.none')}</p>
+      ) : (
+        <ul className="space-y-1 text-gray-300">
+          {diff.topPickChanged && (
+            <li>
+              🏆 {t('scanChanges.topPick')}:{' '}
+              <span className="text-gray-500">{diff.previousTopPick?.symbol || '-'}</span> →{' '}
+              <span className="text-neon-green font-bold">
+                {diff.currentTopPick?.symbol || '-'}
+              </span>
+            </li>
+          )}
+          {diff.entered.length > 0 && (
+            <li>
+              <span className="text-neon-green">🆕 {t('scanChanges.entered')}:</span>{' '}
+              {listSymbols(diff.entered)}
+            </li>
+          )}
+          {diff.dropped.length > 0 && (
+            <li>
+              <span className="text-neon-pink">➖ {t('scanChanges.dropped')}:</span>{' '}
+              {listSymbols(diff.dropped)}
+            </li>
+          )}
+          {diff.rankMoves.length > 0 && (
+            <li>
+              ↕ {t('scanChanges.rankMoves')}:{' '}
+              {diff.rankMoves.slice(0, MAX_RANK_MOVES).map((move, index) => (
+                <span key={move.pairAddress}>
+                  {index > 0 && ', '}
+                  {move.symbol || '?'} #{move.from}→#{move.to}
+                  <span className={move.to < move.from ? 'text-neon-green' : 'text-neon-pink'}>
+                    {move.to < move.from ? ' ▲' : ' ▼'}
+                    {Math.abs(move.to - move.from)}
+                  </span>
+                </span>
+              ))}
+              {diff.rankMoves.length > MAX_RANK_MOVES &&
+                ` ${t('scanChanges.more', { count: diff.rankMoves.length - MAX_RANK_MOVES })}`}
+            </li>
+          )}
+          {diff.riskChanges.length > 0 && (
+            <li>
+              ⚠️ {t('scanChanges.riskChanges')}:{' '}
+              {diff.riskChanges
+                .map(
+                  change =>
+                    `${change.symbol || '?'} ${getRiskLevelInfo(change.from).emoji}→${getRiskLevelInfo(change.to).emoji}`
+                )
+                .join(', ')}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface PreviousScanChangesProps {
+  result: AnalysisResult;
+}
+
+/**
+ * Changes panel for a fresh result, compared with the previous history entry
+ * for the same chain and timeframe (renders nothing if there is none)
+ */
+export function PreviousScanChanges({ result }: PreviousScanChangesProps) {
+  const [previous, setPrevious] = useState<HistoryEntry | undefined>();
+  const chain = result.metadata?.chain;
+  const timeframe = result.metadata?.timeframe;
+  const analyzedAt = result.metadata?.analyzedAt;
+
+  useEffect(() => {
+    if (!chain || !timeframe || !analyzedAt) {
+      setPrevious(undefined);
+      return;
+    }
+    getHistory().then(history =>
+      setPrevious(findPreviousComparable(history, chain, timeframe, analyzedAt))
+    );
+  }, [chain, timeframe, analyzedAt]);
+
+  if (!previous) return null;
+
+  return (
+    <ScanChangesPanel previous={previous.result} current={result} since={previous.timestamp} />
+  );
+}
@@ -0,0 +1,291 @@
+// Schedule Manager Component
+// Creates and manages recurring background scans from the current analysis settings
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from '@/i18n';
+import { useAppStore } from '@/stores/app.store';
+import { STORAGE_KEYS } from '@/types/storage';
+import type { RiskLevel } from '@/types/analysis';
+import { SCHEDULE_INTERVALS, type ScanSchedule } from '@/types/schedule';
+import { DEFAULT_RANKING_STRATEGY } from '@/types/ranking';
+import { DEFAULT_DISCOVERY_MODE } from '@/types/discovery';
+import { addSchedule, deleteSchedule, getSchedules, updateSchedule } from '@/utils/schedules';
+
+/**
+ * Risk levels selectable as a notification threshold
+ */
+const RISK_THRESHOLDS: RiskLevel[] = ['safe', 'caution', 'warning', 'danger'];
+
+export function ScheduleManager() {
+  const { t } = useTranslation();
+  const chain = useAppStore(state => state.chain);
+  const model = useAppStore(state => state.model);
+  const timeframe = useAppStore(state => state.timeframe);
+  const maxPairs = useAppStore(state => state.maxPairs);
+  const pairMaxAge = useAppStore(state => state.pairMaxAge);
+  const quoteTokens = useAppStore(state => state.quoteTokens);
+  const strategy = useAppStore(state => state.strategy);
+  const discovery = useAppStore(state => state.discovery);
+  const filters = useAppStore(state => state.filters);
+  const dexVenues = useAppStore(state => state.dexVenues);
+
+  const [schedules, setSchedules] = useState<ScanSchedule[]>([]);
+  const [intervalMinutes, setIntervalMinutes] = useState<number>(15);
+  const [notifyOnTopPickChange, setNotifyOnTopPickChange] = useState(true);
+  const [maxRiskLevel, setMaxRiskLevel] = useState<RiskLevel | ''>('caution');
+  const [minMomentum, setMinMomentum] = useState('8');
+
+  /**
+   * Load schedules
+   */
+  const loadSchedules = useCallback(async () => {
+    setSchedules(await getSchedules());
+  }, []);
+
+  /**
+   * Load on mount and refresh when a background run updates a schedule
+   */
+  useEffect(() => {
+    loadSchedules();
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes[STORAGE_KEYS.SCHEDULED_SCANS]) {
+        loadSchedules();
+      }
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, [loadSchedules]);
+
+  const handleAdd = async () => {
+    const momentum = parseFloat(minMomentum);
+    try {
+      await addSchedule({
+        chain,
+        model,
+        timeframe,
+        maxPairs,
+        pairMaxAge,
+        quoteTokens: quoteTokens[chain] || [],
+        strategy,
+        discovery,
+        filters,
+        dexVenues: dexVenues[chain],
+        intervalMinutes,
+        enabled: true,
+        criteria: {
+          notifyOnTopPickChange,
+          maxRiskLevel: maxRiskLevel || undefined,
+          minMomentum: Number.isFinite(momentum) ? momentum : undefined,
+        },
+      });
+      await loadSchedules();
+    } catch (error) {
+      console.error('[ScheduleManager] Failed to add schedule:', error);
+    }
+  };
+
+  const handleToggle = async (schedule: ScanSchedule) => {
+    await updateSchedule(schedule.id, { enabled: !schedule.enabled });
+    await loadSchedules();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('schedules.confirmDelete'))) {
+      return;
+    }
+    await deleteSchedule(id);
+    await loadSchedules();
+  };
+
+  /**
+   * Format an interval for display
+   */
+  const formatInterval = (minutes: number): string =>
+    minutes >= 60
+      ? t('schedules.everyHours', { hours: minutes / 60 })
+      : t('schedules.everyMinutes', { minutes });
+
+  /**
+   * Describe a schedule's notification criteria
+   */
+  const describeCriteria = (schedule: ScanSchedule): string => {
+    const {
+      notifyOnTopPickChange: onChange,
+      maxRiskLevel: risk,
+      minMomentum: momentum,
+    } = schedule.criteria;
+    const parts = [
+      onChange ? t('schedules.criteriaChange') : undefined,
+      risk ? t('schedules.criteriaRisk', { level: t(`results.riskLevel.${risk}`) }) : undefined,
+      momentum !== undefined ? t('schedules.criteriaMomentum', { momentum }) : undefined,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : t('schedules.criteriaNone');
+  };
+
+  const selectClass =
+    'w-full px-3 py-2 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:outline-none transition-all font-mono text-sm hover:border-purple-500/50';
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* New schedule */}
+      <section className="cyber-card p-6 rounded-xl shadow-cyber-card space-y-4">
+        <h2 className="text-xl font-bold neon-text">{t('schedules.title')}</h2>
+        <p className="text-xs text-gray-400 font-mono">{t('schedules.description')}</p>
+
+        <div className="p-3 bg-cyber-darker/50 border border-purple-500/20 rounded-lg text-xs font-mono text-gray-300">
+          <span className="text-gray-400">{t('schedules.fromCurrentSettings')}: </span>
+          {chain.toUpperCase()} • {timeframe.toUpperCase()} • {maxPairs} pairs •{' '}
+          {t(`strategies.${strategy}.label`)}
+          {discovery !== DEFAULT_DISCOVERY_MODE && ` • ${t(`discovery.${discovery}.label`)}`}
+          {(quoteTokens[chain] || []).length > 0 && ` • ${quoteTokens[chain].join('/')}`}
+          <div className="truncate text-neon-cyan" title={model}>
+            {model || t('schedules.noModel')}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-neon-cyan mb-2">
+              {t('schedules.interval')}
+            </label>
+            <select
+              value={intervalMinutes}
+              onChange={e => setIntervalMinutes(Number(e.target.value))}
+              className={selectClass}
+            >
+              {SCHEDULE_INTERVALS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {formatInterval(minutes)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-neon-cyan mb-2">
+              {t('schedules.maxRisk')}
+            </label>
+            <select
+              value={maxRiskLevel}
+              onChange={e => setMaxRiskLevel(e.target.value as RiskLevel | '')}
+              className={selectClass}
+            >
+              <option value="">{t('schedules.any')}</option>
+              {RISK_THRESHOLDS.map(level => (
+                <option key={level} value={level}>
+                  ≤ {t(`results.riskLevel.${level}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-neon-cyan mb-2">
+              {t('schedules.minMomentum')}
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={minMomentum}
+              onChange={e => setMinMomentum(e.target.value)}
+              placeholder={t('schedules.any')}
+              className={selectClass}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={notifyOnTopPickChange}
+            onChange={e => setNotifyOnTopPickChange(e.target.checked)}
+            className="w-4 h-4 accent-neon-purple"
+          />
+          {t('schedules.notifyOnChange')}
+        </label>
+
+        <button
+          onClick={handleAdd}
+          disabled={!model}
+          className="px-4 py-2 bg-neon-purple/20 border border-neon-purple text-neon-purple rounded-lg font-bold text-xs transition-colors hover:bg-neon-purple/30 disabled:opacity-40"
+        >
+          + {t('schedules.add')}
+        </button>
+      </section>
+
+      {/* Schedule list */}
+      {schedules.length === 0 ? (
+        <div className="cyber-card p-12 text-center">
+          <p className="text-gray-400 font-mono">{t('schedules.empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {schedules.map(schedule => (
+            <div
+              key={schedule.id}
+              className={`cyber-card p-4 space-y-2 ${schedule.enabled ? '' : 'opacity-60'}`}
+            >
+              <div className="flex justify-between items-start gap-3">
+                <div className="flex-1 min-w-0 text-xs font-mono text-gray-400 space-y-1">
+                  <div className="text-neon-cyan font-bold text-sm">
+                    {schedule.chain.toUpperCase()} • {schedule.timeframe.toUpperCase()} •{' '}
+                    {formatInterval(schedule.intervalMinutes)}
+                  </div>
+                  <div className="truncate" title={schedule.model}>
+                    {schedule.model} • {schedule.maxPairs} pairs •{' '}
+                    {t(`strategies.${schedule.strategy ?? DEFAULT_RANKING_STRATEGY}.label`)}
+                    {schedule.discovery &&
+                      schedule.discovery !== DEFAULT_DISCOVERY_MODE &&
+                      ` • ${t(`discovery.${schedule.discovery}.label`)}`}
+                    {schedule.quoteTokens.length > 0 && ` • ${schedule.quoteTokens.join('/')}`}
+                  </div>
+                  <div>🔔 {describeCriteria(schedule)}</div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggle(schedule)}
+                    className={`px-3 py-1 rounded-lg text-xs font-bold border transition-colors ${
+                      schedule.enabled
+                        ? 'border-neon-green/50 text-neon-green hover:bg-neon-green/10'
+                        : 'border-gray-500/50 text-gray-400 hover:bg-gray-500/10'
+                    }`}
+                  >
+                    {schedule.enabled ? t('schedules.enabled') : t('schedules.paused')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule.id)}
+                    className="text-red-400 hover:text-red-300 transition-colors text-sm"
+                    title={t('schedules.delete')}
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </div>
+
+              <div className="pt-2 border-t border-purple-500/20 text-xs font-mono">
+                {schedule.lastRunAt ? (
+                  <>
+                    <span className="text-gray-500">
+                      {t('schedules.lastRun', {
+                        time: new Date(schedule.lastRunAt).toLocaleString(),
+                      })}
+                    </span>
+                    {schedule.lastError ? (
+                      <span className="text-neon-pink"> • ⚠️ {schedule.lastError}</span>
+                    ) : (
+                      schedule.lastTopPickSymbol && (
+                        <span className="text-neon-green"> • 🏆 {schedule.lastTopPickSymbol}</span>
+                      )
+                    )}
+                  </>
+                ) : (
+                  <span className="text-gray-500">{t('schedules.notRunYet')}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
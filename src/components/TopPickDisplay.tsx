@@ -4,9 +4,13 @@
 import { useState, type ReactElement } from 'react';
 import { useTranslation } from '@/i18n';
 import type { AnalysisResult } from '@/types/analysis';
+import { TIMEFRAMES } from '@/types/dexscreener';
 import { getRiskLevelInfo } from '@/utils/risk-assessment';
+import { getShortlistCutoff } from '@/utils/pair-features';
 import { RiskBreakdown } from './RiskBreakdown';
+import { MomentumBreakdownPanel } from './MomentumBreakdownPanel';
 import { RiskScoreGauge } from './RiskScoreGauge';
+import { WatchButton } from './WatchButton';
 import { addExcludedToken } from '@/utils/exclusion';
 import type { ExcludedToken } from '@/types/storage';
 import { FaXTwitter } from 'react-icons/fa6';
@@ -128,6 +132,12 @@ export function TopPickDisplay({ data }: TopPickDisplayProps) {
     return 'text-gray-400 text-lg';
   };
 
+  const missingPairCount = pairs.filter(pair => pair.missingFromLLM).length;
+  const unmatchedEntryCount = data.metadata?.unmatchedLLMEntries?.length ?? 0;
+  const timeframeLabel = data.metadata?.timeframe
+    ? t(TIMEFRAMES[data.metadata.timeframe].labelKey)
+    : '';
+
   return (
     <div className="space-y-6 animate-fade-in">
       {/* Metadata */}
@@ -150,6 +160,35 @@ export function TopPickDisplay({ data }: TopPickDisplayProps) {
               Model: {data.metadata.model}
             </div>
           )}
+          {data.metadata.requestedModel && data.metadata.requestedModel !== data.metadata.model && (
+            <div className="text-yellow-500 text-center space-y-0.5">
+              <div>
+                {t('fallback.answeredBy', {
+                  model: data.metadata.model ?? '',
+                  requested: data.metadata.requestedModel,
+                })}
+              </div>
+              {data.metadata.modelAttempts
+                ?.filter(attempt => attempt.errorCode)
+                .map((attempt, idx) => (
+                  <div key={idx} className="text-gray-500 truncate" title={attempt.error}>
+                    {t('fallback.attemptFailed', {
+                      model: attempt.model,
+                      code: attempt.errorCode ?? '',
+                    })}
+                  </div>
+                ))}
+            </div>
+          )}
+          {data.metadata.batching && (
+            <div className="text-gray-400 text-center">
+              {t('results.batching', {
+                shortlisted: data.metadata.batching.shortlisted,
+                candidates: data.metadata.batching.candidates,
+                batches: data.metadata.batching.batches,
+              })}
+            </div>
+          )}
           {(data.metadata.chain || data.metadata.timeframe) && (
             <div className="text-gray-400 text-center">
               {data.metadata.chain && <span className="uppercase">{data.metadata.chain}</span>}
@@ -157,6 +196,24 @@ export function TopPickDisplay({ data }: TopPickDisplayProps) {
               {data.metadata.timeframe && (
                 <span className="uppercase">{data.metadata.timeframe}</span>
               )}
+              {data.metadata.strategy && (
+                <span> • {t(`strategies.${data.metadata.strategy}.label`)}</span>
+              )}
+              {data.metadata.discovery && (
+                <span> • {t(`discovery.${data.metadata.discovery}.label`)}</span>
+              )}
+            </div>
+          )}
+          {data.metadata.filterCounts && (
+            <div className="text-gray-400 text-center">
+              {t('filters.removed', {
+                list: Object.entries(data.metadata.filterCounts)
+                  .map(
+                    ([key, count]) =>
+                      `${t(`filters.fields.${key}`, { timeframe: timeframeLabel })} ${count}`
+                  )
+                  .join(' • '),
+              })}
             </div>
           )}
           {data.metadata.analyzedAt && (
@@ -169,6 +226,17 @@ export function TopPickDisplay({ data }: TopPickDisplayProps) {
         </div>
       )}
 
+      {/* LLM output that could not be joined to the analyzed pairs */}
+      {(topPick?.unmatched || missingPairCount > 0 || unmatchedEntryCount > 0) && (
+        <div className="p-3 bg-cyber-darker/50 border border-yellow-500/30 rounded-lg space-y-1 text-xs font-mono text-yellow-500">
+          {topPick?.unmatched && <p>⚠️ {t('results.topPickUnmatched')}</p>}
+          {missingPairCount > 0 && <p>{t('results.pairsMissing', { count: missingPairCount })}</p>}
+          {unmatchedEntryCount > 0 && (
+            <p>{t('results.pairsUnmatched', { count: unmatchedEntryCount })}</p>
+          )}
+        </div>
+      )}
+
       {/* TOP PICK - THE ONE */}
       {topPick && (
         <div className="relative cyber-card p-8 bg-gradient-to-br from-primary/20 via-cyber-card to-neon-purple/10 border-2 border-primary rounded-2xl shadow-neon-purple animate-slide-in">
@@ -178,7 +246,17 @@ export function TopPickDisplay({ data }: TopPickDisplayProps) {
 
           {/* Symbol */}
           <div className="mb-6">
-            <h2 className="text-4xl font-bold neon-text mb-3 tracking-wide">{topPick.symbol}</h2>
+            <h2 className="text-4xl font-bold neon-text mb-3 tracking-wide">
+              {topPick.symbol}
+              {topPick.dexId && (
+                <span
+                  className="ml-3 text-sm font-mono font-normal text-gray-400 align-middle"
+                  title={t('dexVenues.venue')}
+                >
+                  {topPick.dexId}
+                </span>
+              )}
+            </h2>
 
             {/* Social Links */}
             {(topPick.socials && topPick.socials.length > 0) ||
@@ -316,8 +394,20 @@ export function TopPickDisplay({ data }: TopPickDisplayProps) {
                   topPick.riskBreakdown.liquidityScore +
                   topPick.riskBreakdown.labelScore +
                   topPick.riskBreakdown.volumeScore +
-                  topPick.riskBreakdown.volatilityScore
+                  topPick.riskBreakdown.volatilityScore +
+                  (topPick.riskBreakdown.rugScore ?? 0) +
+                  (topPick.riskBreakdown.ruleScore ?? 0)
+                }
+                maxScore={
+                  topPick.riskBreakdown.ageMax +
+                  topPick.riskBreakdown.liquidityMax +
+                  topPick.riskBreakdown.labelMax +
+                  topPick.riskBreakdown.volumeMax +
+                  topPick.riskBreakdown.volatilityMax +
+                  (topPick.riskBreakdown.rugMax ?? 0) +
+                  (topPick.riskBreakdown.ruleMax ?? 0)
                 }
+                cutoffs={topPick.riskBreakdown.levelCutoffs}
                 level={topPick.riskLevel}
               />
 
@@ -329,12 +419,24 @@ export function TopPickDisplay({ data }: TopPickDisplayProps) {
                   topPick.riskBreakdown.liquidityScore +
                   topPick.riskBreakdown.labelScore +
                   topPick.riskBreakdown.volumeScore +
-                  topPick.riskBreakdown.volatilityScore
+                  topPick.riskBreakdown.volatilityScore +
+                  (topPick.riskBreakdown.rugScore ?? 0) +
+                  (topPick.riskBreakdown.ruleScore ?? 0)
                 }
               />
             </div>
           )}
 
+          {/* Why the pair was shortlisted */}
+          {topPick.momentumBreakdown && (
+            <div className="mb-6">
+              <MomentumBreakdownPanel
+                breakdown={topPick.momentumBreakdown}
+                cutoff={getShortlistCutoff(pairs)}
+              />
+            </div>
+          )}
+
           {/* Contract Address */}
           {topPick.contractAddress && (
             <div className="p-5 bg-cyber-darker/80 rounded-xl border-2 border-neon-cyan/30 mb-6 hover:border-neon-cyan/50 transition-all">
@@ -360,6 +462,13 @@ export function TopPickDisplay({ data }: TopPickDisplayProps) {
                 >
                   {excluding ? t('exclusion.excluding') : '🚫 ' + t('exclusion.exclude')}
                 </button>
+                {topPick.chainId && (
+                  <WatchButton
+                    chainId={topPick.chainId}
+                    tokenAddress={topPick.contractAddress}
+                    symbol={topPick.symbol?.split('/')[0] || topPick.contractAddress}
+                  />
+                )}
               </div>
             </div>
           )}
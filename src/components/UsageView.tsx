@@ -0,0 +1,250 @@
+// Usage View Component
+// Spending caps and LLM usage from the ledger, broken down by day and by model
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from '@/i18n';
+import type { UsageBudget, UsageRecord } from '@/types/usage';
+import {
+  clearUsageLedger,
+  getPeriodStart,
+  getSpentSince,
+  getUsageBudget,
+  getUsageLedger,
+  setUsageBudget,
+  summarizeUsageByDay,
+  summarizeUsageByModel,
+} from '@/utils/usage-ledger';
+
+/**
+ * Number of days shown in the per-day breakdown
+ */
+const DAYS_SHOWN = 14;
+
+/**
+ * Format a USD amount (more decimals for small amounts)
+ */
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Parse a budget input; empty or invalid means no cap
+ */
+function parseBudget(input: string): number | undefined {
+  const value = parseFloat(input);
+  return input.trim() && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+export function UsageView() {
+  const { t } = useTranslation();
+  const [ledger, setLedger] = useState<UsageRecord[]>([]);
+  const [budget, setBudget] = useState<UsageBudget>({});
+  const [dailyInput, setDailyInput] = useState('');
+  const [monthlyInput, setMonthlyInput] = useState('');
+  const [savedMessage, setSavedMessage] = useState('');
+
+  /**
+   * Load ledger and budget
+   */
+  const loadUsage = useCallback(async () => {
+    try {
+      const [records, savedBudget] = await Promise.all([getUsageLedger(), getUsageBudget()]);
+      setLedger(records);
+      setBudget(savedBudget);
+      setDailyInput(savedBudget.daily?.toString() ?? '');
+      setMonthlyInput(savedBudget.monthly?.toString() ?? '');
+    } catch (error) {
+      console.error('[UsageView] Failed to load usage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handleSaveBudget = async () => {
+    const next: UsageBudget = {
+      daily: parseBudget(dailyInput),
+      monthly: parseBudget(monthlyInput),
+    };
+    try {
+      await setUsageBudget(next);
+      setBudget(next);
+      setSavedMessage(t('usage.budgetSaved'));
+      setTimeout(() => setSavedMessage(''), 3000);
+    } catch (error) {
+      console.error('[UsageView] Failed to save budget:', error);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(t('usage.confirmClear'))) {
+      return;
+    }
+    await clearUsageLedger();
+    await loadUsage();
+  };
+
+  const spentToday = getSpentSince(ledger, getPeriodStart('daily'));
+  const spentThisMonth = getSpentSince(ledger, getPeriodStart('monthly'));
+  const days = summarizeUsageByDay(ledger).slice(0, DAYS_SHOWN);
+  const monthStart = getPeriodStart('monthly').getTime();
+  const byModel = summarizeUsageByModel(
+    ledger.filter(record => new Date(record.timestamp).getTime() >= monthStart)
+  );
+
+  const periods = [
+    { label: t('usage.today'), spent: spentToday, cap: budget.daily },
+    { label: t('usage.thisMonth'), spent: spentThisMonth, cap: budget.monthly },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-gray-400 font-mono">{t('usage.description')}</p>
+
+      {/* Budgets */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-neon-cyan mb-2">
+            {t('usage.dailyBudget')}
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={dailyInput}
+            onChange={e => setDailyInput(e.target.value)}
+            placeholder={t('usage.noLimit')}
+            className="w-full px-4 py-3 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:shadow-neon-purple focus:outline-none transition-all font-mono text-sm hover:border-purple-500/50"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-neon-cyan mb-2">
+            {t('usage.monthlyBudget')}
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={monthlyInput}
+            onChange={e => setMonthlyInput(e.target.value)}
+            placeholder={t('usage.noLimit')}
+            className="w-full px-4 py-3 bg-cyber-darker border-2 border-purple-500/30 rounded-lg focus:border-neon-purple focus:shadow-neon-purple focus:outline-none transition-all font-mono text-sm hover:border-purple-500/50"
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSaveBudget}
+          className="px-4 py-2 bg-neon-purple/20 border border-neon-purple text-neon-purple rounded-lg font-bold text-xs transition-colors hover:bg-neon-purple/30"
+        >
+          {t('usage.saveBudget')}
+        </button>
+        {savedMessage && (
+          <span className="text-xs text-neon-green font-mono">✓ {savedMessage}</span>
+        )}
+      </div>
+
+      {/* Spent vs budget */}
+      <div className="space-y-3">
+        {periods.map(period => {
+          const ratio = period.cap ? Math.min(1, period.spent / period.cap) : 0;
+          return (
+            <div key={period.label}>
+              <div className="flex justify-between text-xs font-mono mb-1">
+                <span className="text-gray-400">{period.label}</span>
+                <span className="text-neon-cyan">
+                  {formatUsd(period.spent)}
+                  {period.cap !== undefined && ` / ${formatUsd(period.cap)}`}
+                </span>
+              </div>
+              {period.cap !== undefined && (
+                <div className="h-2 bg-cyber-darker border border-purple-500/30 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${ratio >= 1 ? 'bg-neon-pink' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-neon-green'}`}
+                    style={{ width: `${ratio * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {ledger.length === 0 ? (
+        <p className="text-xs text-gray-500 font-mono">{t('usage.empty')}</p>
+      ) : (
+        <>
+          {/* By day */}
+          <div>
+            <h3 className="text-xs font-bold text-gray-400 uppercase mb-2">{t('usage.byDay')}</h3>
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-gray-500 text-left">
+                  <th className="py-1 font-normal">{t('usage.day')}</th>
+                  <th className="py-1 font-normal text-right">{t('usage.calls')}</th>
+                  <th className="py-1 font-normal text-right">{t('usage.tokens')}</th>
+                  <th className="py-1 font-normal text-right">{t('usage.cost')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {days.map(({ day, totals }) => (
+                  <tr key={day} className="border-t border-purple-500/10 text-gray-300">
+                    <td className="py-1">{day}</td>
+                    <td className="py-1 text-right">{totals.calls}</td>
+                    <td className="py-1 text-right">
+                      {(totals.promptTokens + totals.completionTokens).toLocaleString()}
+                    </td>
+                    <td className="py-1 text-right text-neon-cyan">{formatUsd(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* By model (this month) */}
+          <div>
+            <h3 className="text-xs font-bold text-gray-400 uppercase mb-2">{t('usage.byModel')}</h3>
+            {byModel.length === 0 ? (
+              <p className="text-xs text-gray-500 font-mono">{t('usage.emptyMonth')}</p>
+            ) : (
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="py-1 font-normal">{t('usage.model')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.calls')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.tokens')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.cost')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {byModel.map(({ model, totals }) => (
+                    <tr key={model} className="border-t border-purple-500/10 text-gray-300">
+                      <td className="py-1 truncate max-w-[12rem]" title={model}>
+                        {model}
+                      </td>
+                      <td className="py-1 text-right">{totals.calls}</td>
+                      <td className="py-1 text-right">
+                        {(totals.promptTokens + totals.completionTokens).toLocaleString()}
+                      </td>
+                      <td className="py-1 text-right text-neon-cyan">{formatUsd(totals.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="pt-2 border-t border-purple-500/20">
+            <button
+              onClick={handleClear}
+              className="px-4 py-2 bg-cyber-darker border border-neon-pink/30 hover:border-neon-pink/50 text-neon-pink rounded-lg font-bold text-xs transition-colors"
+            >
+              {t('usage.clear')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+// Watch Button Component
+// Adds a token to (or removes it from) the watchlist
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from '@/i18n';
+import { addToWatchlist, isWatched, removeFromWatchlist } from '@/utils/watchlist';
+
+interface WatchButtonProps {
+  chainId: string;
+  tokenAddress: string;
+  symbol: string; // Base token symbol
+  compact?: boolean; // Icon only (pair list rows)
+}
+
+export function WatchButton({ chainId, tokenAddress, symbol, compact = false }: WatchButtonProps) {
+  const { t } = useTranslation();
+  const [watched, setWatched] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    isWatched(chainId, tokenAddress).then(setWatched);
+  }, [chainId, tokenAddress]);
+
+  const handleToggle = async () => {
+    try {
+      setBusy(true);
+      if (watched) {
+        await removeFromWatchlist(chainId, tokenAddress);
+      } else {
+        await addToWatchlist({ chainId, tokenAddress, symbol });
+      }
+      setWatched(!watched);
+    } catch (error) {
+      console.error('[WatchButton] Failed to update watchlist:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const title = watched ? t('watchlist.unwatchButton') : t('watchlist.watchButton', { symbol });
+
+  if (compact) {
+    return (
+      <button
+        onClick={handleToggle}
+        disabled={busy}
+        className={`transition-colors disabled:opacity-50 ${
+          watched ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-400'
+        }`}
+        title={title}
+        aria-pressed={watched}
+      >
+        {watched ? '★' : '☆'}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={busy}
+      className="neon-button px-4 py-2 bg-gradient-to-r from-yellow-500/20 to-neon-cyan/20 hover:from-yellow-500/30 hover:to-neon-cyan/30 border-2 border-yellow-500/30 hover:border-yellow-500/50 text-yellow-400 rounded-lg font-bold text-xs transition-all flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+      title={title}
+      aria-pressed={watched}
+    >
+      {watched ? `★ ${t('watchlist.watching')}` : `☆ ${t('watchlist.watch')}`}
+    </button>
+  );
+}
@@ -0,0 +1,318 @@
+// Watchlist View Component
+// Live metrics and alert thresholds for watched tokens
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from '@/i18n';
+import { STORAGE_KEYS } from '@/types/storage';
+import type { WatchAlerts, WatchlistItem } from '@/types/watchlist';
+import { getRiskLevelInfo } from '@/utils/risk-assessment';
+import { getWatchlist, removeFromWatchlist, updateWatchAlerts } from '@/utils/watchlist';
+
+/**
+ * Format USD amounts compactly (e.g. $1.2M)
+ */
+function formatUsd(value: number): string {
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `$${(value / 1_000).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+/**
+ * Format a token price (significant digits for small prices)
+ */
+function formatPrice(value: number): string {
+  return value >= 1 ? `$${value.toFixed(2)}` : `$${value.toPrecision(3)}`;
+}
+
+/**
+ * Parse a threshold input; empty or invalid turns the alert off
+ */
+function parseThreshold(input: string): number | undefined {
+  const value = parseFloat(input);
+  return input.trim() && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Alert threshold editor for one token
+ */
+function AlertEditor({ item, onSaved }: { item: WatchlistItem; onSaved: () => void }) {
+  const { t } = useTranslation();
+  const [priceChange, setPriceChange] = useState(item.alerts.priceChangePct?.toString() ?? '');
+  const [liquidityDrop, setLiquidityDrop] = useState(
+    item.alerts.liquidityDropPct?.toString() ?? ''
+  );
+  const [sellBuyRatio, setSellBuyRatio] = useState(item.alerts.maxSellBuyRatio?.toString() ?? '');
+  const [riskLevelChange, setRiskLevelChange] = useState(item.alerts.riskLevelChange);
+
+  const handleSave = async () => {
+    const alerts: WatchAlerts = {
+      priceChangePct: parseThreshold(priceChange),
+      liquidityDropPct: parseThreshold(liquidityDrop),
+      maxSellBuyRatio: parseThreshold(sellBuyRatio),
+      riskLevelChange,
+    };
+    try {
+      await updateWatchAlerts(item.chainId, item.tokenAddress, alerts);
+      onSaved();
+    } catch (error) {
+      console.error('[WatchlistView] Failed to save alerts:', error);
+    }
+  };
+
+  const inputClass =
+    'w-full px-2 py-1 bg-cyber-darker border border-purple-500/30 rounded focus:border-neon-purple focus:outline-none font-mono text-xs';
+
+  const fields = [
+    { label: t('watchlist.alertPrice'), value: priceChange, set: setPriceChange, step: '1' },
+    {
+      label: t('watchlist.alertLiquidity'),
+      value: liquidityDrop,
+      set: setLiquidityDrop,
+      step: '1',
+    },
+    { label: t('watchlist.alertSellBuy'), value: sellBuyRatio, set: setSellBuyRatio, step: '0.1' },
+  ];
+
+  return (
+    <div className="pt-3 border-t border-purple-500/20 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {fields.map(field => (
+          <label key={field.label} className="block text-xs text-gray-400 font-mono">
+            {field.label}
+            <input
+              type="number"
+              min="0"
+              step={field.step}
+              value={field.value}
+              onChange={e => field.set(e.target.value)}
+              placeholder={t('watchlist.off')}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={riskLevelChange}
+            onChange={e => setRiskLevelChange(e.target.checked)}
+            className="w-4 h-4 accent-neon-purple"
+          />
+          {t('watchlist.alertRiskLevel')}
+        </label>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 bg-neon-purple/20 border border-neon-purple text-neon-purple rounded-lg font-bold text-xs transition-colors hover:bg-neon-purple/30"
+        >
+          {t('watchlist.saveAlerts')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function WatchlistView() {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<WatchlistItem[]>([]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Load watchlist
+   */
+  const loadWatchlist = useCallback(async () => {
+    setItems(await getWatchlist());
+  }, []);
+
+  /**
+   * Load on mount and refresh whenever a background poll stores new snapshots
+   */
+  useEffect(() => {
+    loadWatchlist();
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes[STORAGE_KEYS.WATCHLIST]) {
+        loadWatchlist();
+      }
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, [loadWatchlist]);
+
+  /**
+   * Ask the background to poll now (results arrive through storage)
+   */
+  const handleRefresh = () => {
+    setRefreshing(true);
+    setError('');
+    try {
+      const port = chrome.runtime.connect({ name: 'poll-watchlist' });
+      const requestId = crypto.randomUUID();
+
+      port.onMessage.addListener((message: { id: string; type: string; error?: string }) => {
+        if (message.id !== requestId || message.type !== 'watchlist-result') return;
+        if (message.error) setError(message.error);
+        setRefreshing(false);
+        port.disconnect();
+      });
+
+      port.postMessage({ type: 'poll-watchlist', id: requestId });
+    } catch {
+      setError('Failed to connect to background service');
+      setRefreshing(false);
+    }
+  };
+
+  const handleRemove = async (item: WatchlistItem) => {
+    await removeFromWatchlist(item.chainId, item.tokenAddress);
+    await loadWatchlist();
+  };
+
+  const getKey = (item: WatchlistItem) => `${item.chainId}:${item.tokenAddress}`;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <section className="cyber-card p-6 rounded-xl shadow-cyber-card space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-xl font-bold neon-text">{t('watchlist.title')}</h2>
+          <button
+            onClick={handleRefresh}
+            disabled={refreshing || items.length === 0}
+            className="px-4 py-2 bg-cyber-darker border border-neon-cyan/30 hover:border-neon-cyan/50 text-neon-cyan rounded-lg font-bold text-xs transition-colors disabled:opacity-40"
+          >
+            {refreshing ? t('watchlist.refreshing') : `↻ ${t('watchlist.refresh')}`}
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 font-mono">{t('watchlist.description')}</p>
+        {error && <p className="text-xs text-neon-pink font-mono">⚠️ {error}</p>}
+      </section>
+
+      {items.length === 0 ? (
+        <div className="cyber-card p-12 text-center">
+          <p className="text-gray-400 font-mono">{t('watchlist.empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {items.map(item => {
+            const key = getKey(item);
+            const latest = item.latest;
+            const riskInfo = latest ? getRiskLevelInfo(latest.riskLevel) : null;
+            const change = latest?.priceChangeH1 ?? 0;
+
+            return (
+              <div key={key} className="cyber-card p-4 space-y-3">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="text-sm font-mono font-bold text-gray-100 truncate">
+                      {riskInfo && (
+                        <span className="mr-1" title={riskInfo.label}>
+                          {riskInfo.emoji}
+                        </span>
+                      )}
+                      {latest?.symbol || item.symbol}
+                      <span className="ml-2 text-xs text-gray-500 font-normal">
+                        {item.chainId.toUpperCase()}
+                      </span>
+                    </div>
+                    <div
+                      className="text-xs text-gray-500 font-mono truncate"
+                      title={item.tokenAddress}
+                    >
+                      {item.tokenAddress}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0 text-sm">
+                    {latest?.url && (
+                      <a
+                        href={latest.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-neon-cyan hover:text-white transition-colors"
+                        title={t('watchlist.openChart')}
+                      >
+                        📈
+                      </a>
+                    )}
+                    <button
+                      onClick={() => setEditing(editing === key ? null : key)}
+                      className="text-gray-400 hover:text-white transition-colors"
+                      title={t('watchlist.editAlerts')}
+                    >
+                      🔔
+                    </button>
+                    <button
+                      onClick={() => handleRemove(item)}
+                      className="text-red-400 hover:text-red-300 transition-colors"
+                      title={t('watchlist.remove')}
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+
+                {latest ? (
+                  <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-xs font-mono">
+                    <div>
+                      <div className="text-gray-500">{t('watchlist.price')}</div>
+                      <div className="text-gray-100">{formatPrice(latest.priceUsd)}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">{t('watchlist.change1h')}</div>
+                      <div className={change >= 0 ? 'text-neon-green' : 'text-neon-pink'}>
+                        {change > 0 ? '+' : ''}
+                        {change.toFixed(1)}%
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">{t('results.liquidity')}</div>
+                      <div className="text-gray-100">{formatUsd(latest.liquidityUsd)}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">{t('watchlist.volume24h')}</div>
+                      <div className="text-gray-100">{formatUsd(latest.volumeH24)}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">{t('watchlist.buysSells')}</div>
+                      <div className="text-gray-100">
+                        <span className="text-neon-green">{latest.buysH1}</span> /{' '}
+                        <span className="text-neon-pink">{latest.sellsH1}</span>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 font-mono">{t('watchlist.waiting')}</p>
+                )}
+
+                <div className="text-xs text-gray-500 font-mono">
+                  {latest &&
+                    t('watchlist.updated', { time: new Date(latest.at).toLocaleTimeString() })}
+                  {item.lastAlertAt && (
+                    <span className="text-yellow-500">
+                      {' '}
+                      • 🔔{' '}
+                      {t('watchlist.lastAlert', {
+                        time: new Date(item.lastAlertAt).toLocaleString(),
+                      })}
+                    </span>
+                  )}
+                </div>
+
+                {editing === key && (
+                  <AlertEditor
+                    item={item}
+                    onSaved={() => {
+                      setEditing(null);
+                      loadWatchlist();
+                    }}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
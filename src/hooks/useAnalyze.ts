@@ -4,8 +4,9 @@
 import { useCallback, useRef } from 'react';
 import { useAppStore } from '@/stores/app.store';
 import type { AnalysisResult } from '@/types/analysis';
-import type { AnalyzeReq, AnalyzeProgress, AnalyzeResult } from '@/shared/schema';
+import type { AnalyzeReq, AnalyzeProgress, AnalyzePartial, AnalyzeResult } from '@/shared/schema';
 import { saveToHistory } from '@/utils/history';
+import { EMPTY_DEX_VENUE_FILTER } from '@/types/filters';
 
 /**
  * Hook for managing analysis requests via Port communication
@@ -17,8 +18,13 @@ export function useAnalyze() {
   const model = useAppStore(state => state.model);
   const maxPairs = useAppStore(state => state.maxPairs);
   const timeframe = useAppStore(state => state.timeframe);
+  const strategy = useAppStore(state => state.strategy);
+  const discovery = useAppStore(state => state.discovery);
+  const filters = useAppStore(state => state.filters);
+  const dexVenues = useAppStore(state => state.dexVenues);
   const pairMaxAge = useAppStore(state => state.pairMaxAge);
   const quoteTokens = useAppStore(state => state.quoteTokens);
+  const ensembleModels = useAppStore(state => state.ensembleModels);
 
   // Store port reference for cancellation
   const portRef = useRef<chrome.runtime.Port | null>(null);
@@ -29,7 +35,7 @@ export function useAnalyze() {
    */
   const analyze = useCallback(async () => {
     // Get actions directly from store to avoid dependency issues
-    const { setAnalyzing, setProgress, setError } = useAppStore.getState();
+    const { setAnalyzing, setProgress, setPartialResults, setError } = useAppStore.getState();
 
     console.log('[useAnalyze] analyze() called - chain:', chain, 'model:', model);
 
@@ -55,6 +61,7 @@ export function useAnalyze() {
     console.log('[useAnalyze] Setting analyzing = true');
     setAnalyzing(true);
     setProgress({ step: '', progress: 0 });
+    setPartialResults(null);
     setError('');
 
     try {
@@ -65,7 +72,7 @@ export function useAnalyze() {
       // Message listener
       port.onMessage.addListener((message: unknown) => {
         // Get actions from store
-        const { setProgress, setError, setResults } = useAppStore.getState();
+        const { setProgress, setPartialResults, setError, setResults } = useAppStore.getState();
 
         // Validate message has correlation ID
         const msg = message as { id?: string; type?: string };
@@ -83,9 +90,17 @@ export function useAnalyze() {
           setProgress({
             step: progressMsg.step,
             progress: progressMsg.progress,
+            batch: progressMsg.batch,
+            batches: progressMsg.batches,
           });
         }
 
+        // Handle streamed partial result (LLM still responding)
+        else if (msg.type === 'partial') {
+          const partialMsg = msg as AnalyzePartial;
+          setPartialResults(partialMsg.data as AnalysisResult);
+        }
+
         // Handle result
         else if (msg.type === 'result') {
           const resultMsg = msg as AnalyzeResult;
@@ -137,6 +152,11 @@ export function useAnalyze() {
         timeframe,
         pairMaxAge,
         quoteTokens: quoteTokens[chain] || [],
+        ensembleModels,
+        strategy,
+        filters,
+        dexVenues: dexVenues[chain] || EMPTY_DEX_VENUE_FILTER,
+        discovery,
       };
 
       console.log('[useAnalyze] Sending analyze request:', request);
@@ -147,7 +167,19 @@ export function useAnalyze() {
       setError('Failed to start analysis. Please try again.');
       setAnalyzing(false);
     }
-  }, [chain, model, maxPairs, timeframe, pairMaxAge, quoteTokens]);
+  }, [
+    chain,
+    model,
+    maxPairs,
+    timeframe,
+    pairMaxAge,
+    quoteTokens,
+    ensembleModels,
+    strategy,
+    filters,
+    dexVenues,
+    discovery,
+  ]);
 
   /**
    * Cancel ongoing analysis
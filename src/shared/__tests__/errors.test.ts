@@ -1,6 +1,14 @@
 // Error Handler Tests
 import { describe, it, expect } from 'vitest';
-import { handleApiError, parseRetryAfter, ERR, isHTTPError } from '../errors';
+import {
+  handleApiError,
+  parseRetryAfter,
+  ERR,
+  isHTTPError,
+  LLMParseError,
+  BudgetExceededError,
+  shouldFallbackModel,
+} from '../errors';
 
 // HTTP Error type for testing
 interface HTTPError extends Error {
@@ -162,6 +170,63 @@ describe('handleApiError', () => {
       expect(result.code).toBe(ERR.DEX_NETWORK_ERROR);
       expect(result.userMessage).toContain('Server error');
     });
+
+    it('should handle 502 from OpenRouter as an LLM server error', async () => {
+      const error = new Error('Bad gateway') as HTTPError;
+      error.response = {
+        status: 502,
+        url: 'https://openrouter.ai/api/v1/chat/completions',
+        headers: { get: () => null },
+      };
+
+      const result = await handleApiError(error);
+
+      expect(result.code).toBe(ERR.LLM_SERVER_ERROR);
+      expect(shouldFallbackModel(result)).toBe(true);
+    });
+
+    it('should handle 404 from OpenRouter as an unavailable model', async () => {
+      const error = new Error('Not found') as HTTPError;
+      error.response = {
+        status: 404,
+        url: 'https://openrouter.ai/api/v1/chat/completions',
+        headers: { get: () => null },
+      };
+
+      const result = await handleApiError(error);
+
+      expect(result.code).toBe(ERR.LLM_MODEL_UNAVAILABLE);
+      expect(shouldFallbackModel(result)).toBe(true);
+    });
+
+    it('should detect context length errors from OpenRouter', async () => {
+      const error = new Error(
+        "Request failed: This endpoint's maximum context length is 8192 tokens"
+      ) as HTTPError;
+      error.response = {
+        status: 400,
+        url: 'https://openrouter.ai/api/v1/chat/completions',
+        headers: { get: () => null },
+      };
+
+      const result = await handleApiError(error);
+
+      expect(result.code).toBe(ERR.LLM_CONTEXT_LENGTH);
+      expect(shouldFallbackModel(result)).toBe(true);
+    });
+
+    it('should not fall back on unauthorized errors', async () => {
+      const error = new Error('Unauthorized') as HTTPError;
+      error.response = {
+        status: 401,
+        url: 'https://openrouter.ai/api/v1/chat/completions',
+        headers: { get: () => null },
+      };
+
+      const result = await handleApiError(error);
+
+      expect(shouldFallbackModel(result)).toBe(false);
+    });
   });
 
   describe('Timeout errors', () => {
@@ -211,6 +276,27 @@ describe('handleApiError', () => {
     });
   });
 
+  describe('LLM parse errors', () => {
+    it('should map LLMParseError to E_LLM_PARSE', async () => {
+      const error = new LLMParseError('failed after repair', '- pairs: Required');
+
+      const result = await handleApiError(error);
+
+      expect(result.code).toBe(ERR.LLM_PARSE);
+      expect(result.developerMessage).toContain('- pairs: Required');
+    });
+
+    it('should map BudgetExceededError to E_BUDGET_EXCEEDED without fallback', async () => {
+      const error = new BudgetExceededError('daily', 1, 0.9, 0.25);
+
+      const result = await handleApiError(error);
+
+      expect(result.code).toBe(ERR.BUDGET_EXCEEDED);
+      expect(result.developerMessage).toContain('daily budget');
+      expect(shouldFallbackModel(result)).toBe(false);
+    });
+  });
+
   describe('Unknown errors', () => {
     it('should handle generic errors', async () => {
       const error = new Error('Something went wrong');
@@ -19,17 +19,41 @@ export const ERR = {
   LLM_BAD_REQUEST: 'E_LLM_BAD_REQUEST',
   LLM_UNAUTHORIZED: 'E_LLM_UNAUTHORIZED',
   LLM_TIMEOUT: 'E_LLM_TIMEOUT',
+  LLM_PARSE: 'E_LLM_PARSE',
+  LLM_SERVER_ERROR: 'E_LLM_SERVER_ERROR',
+  LLM_CONTEXT_LENGTH: 'E_LLM_CONTEXT_LENGTH',
+  LLM_MODEL_UNAVAILABLE: 'E_LLM_MODEL_UNAVAILABLE',
+  LLM_LOCAL_UNAVAILABLE: 'E_LLM_LOCAL_UNAVAILABLE', // Local server not configured, not permitted or unreachable
 
   // System related
   INVALID_REQUEST: 'E_INVALID_REQUEST',
   STORAGE_ERROR: 'E_STORAGE_ERROR',
   NETWORK_ERROR: 'E_NETWORK_ERROR',
   USER_CANCELLED: 'E_USER_CANCELLED',
+  BUDGET_EXCEEDED: 'E_BUDGET_EXCEEDED', // Run refused: estimated cost exceeds the remaining spending cap
   UNKNOWN: 'E_UNKNOWN',
 } as const;
 
 export type ErrorCode = (typeof ERR)[keyof typeof ERR];
 
+/**
+ * LLM errors that are specific to the model rather than the request,
+ * so retrying the same prompt with another model may succeed
+ */
+const MODEL_FALLBACK_CODES: ReadonlySet<ErrorCode> = new Set([
+  ERR.LLM_RATE_LIMIT,
+  ERR.LLM_SERVER_ERROR,
+  ERR.LLM_CONTEXT_LENGTH,
+  ERR.LLM_MODEL_UNAVAILABLE,
+]);
+
+/**
+ * Check whether an error should move on to the next fallback model
+ */
+export function shouldFallbackModel(info: ErrorInfo): boolean {
+  return MODEL_FALLBACK_CODES.has(info.code);
+}
+
 /**
  * Error information
  */
@@ -54,6 +78,61 @@ export interface HTTPError extends Error {
   };
 }
 
+/**
+ * LLM output could not be parsed or validated, even after a repair attempt
+ */
+export class LLMParseError extends Error {
+  constructor(
+    message: string,
+    public readonly details: string
+  ) {
+    super(message);
+    this.name = 'LLMParseError';
+  }
+}
+
+/**
+ * Local LLM server is not configured, lacks host permission, or cannot be reached
+ * Deliberately not a fallback code: a local run must not silently move to a cloud model.
+ */
+export class LocalLLMError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocalLLMError';
+  }
+}
+
+/**
+ * A run was refused because its estimated cost exceeds the remaining daily or monthly budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly period: 'daily' | 'monthly',
+    public readonly budget: number,
+    public readonly spent: number,
+    public readonly estimatedCost: number
+  ) {
+    super(
+      `Estimated cost $${estimatedCost.toFixed(4)} exceeds the remaining ${period} budget ` +
+        `($${spent.toFixed(4)} of $${budget.toFixed(2)} spent)`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * A risk rule could not be parsed or refers to an unknown field
+ */
+export class RuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number // Offset in the rule source
+  ) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
 /**
  * Check if error is HTTPError
  */
@@ -75,7 +154,10 @@ export async function handleApiError(error: unknown): Promise<ErrorInfo> {
   // HTTPError case
   if (isHTTPError(error)) {
     const status = error.response.status;
-    const isLLM = error.response.url.includes('openrouter');
+    const isLLM =
+      error.response.url.includes('openrouter') ||
+      error.response.url.includes('/chat/completions') ||
+      error.response.url.includes('/v1/models');
 
     // 429: Rate limit
     if (status === 429) {
@@ -153,7 +235,7 @@ export async function handleApiError(error: unknown): Promise<ErrorInfo> {
     if (status === 404) {
       if (isLLM) {
         return {
-          code: ERR.LLM_BAD_REQUEST,
+          code: ERR.LLM_MODEL_UNAVAILABLE,
           userMessage: await translate('error.modelNotAvailable'),
           developerMessage: `${error.message} (URL: ${error.response.url})`,
           suggestions: [
@@ -174,6 +256,23 @@ export async function handleApiError(error: unknown): Promise<ErrorInfo> {
       };
     }
 
+    // 400/413: Prompt exceeds the model's context window
+    if (
+      isLLM &&
+      (status === 400 || status === 413) &&
+      /context (length|window)|too many tokens|maximum context/i.test(error.message)
+    ) {
+      return {
+        code: ERR.LLM_CONTEXT_LENGTH,
+        userMessage: await translate('error.contextLength'),
+        developerMessage: error.message,
+        suggestions: [
+          await translate('error.suggestion.tryFewerPairs'),
+          await translate('error.suggestion.tryDifferentModel'),
+        ],
+      };
+    }
+
     // 400-499: Other client errors
     if (status >= 400 && status < 500) {
       return {
@@ -189,7 +288,7 @@ export async function handleApiError(error: unknown): Promise<ErrorInfo> {
 
     // 500-599: Server errors
     return {
-      code: isLLM ? ERR.LLM_BAD_REQUEST : ERR.DEX_NETWORK_ERROR,
+      code: isLLM ? ERR.LLM_SERVER_ERROR : ERR.DEX_NETWORK_ERROR,
       userMessage: await translate('error.serverError'),
       developerMessage: error.message,
       suggestions: [
@@ -199,6 +298,53 @@ export async function handleApiError(error: unknown): Promise<ErrorInfo> {
     };
   }
 
+  // Local LLM server problems
+  if (error instanceof LocalLLMError) {
+    return {
+      code: ERR.LLM_LOCAL_UNAVAILABLE,
+      userMessage: await translate('error.localLLMUnavailable'),
+      developerMessage: error.message,
+      suggestions: [
+        await translate('error.suggestion.checkLocalServer'),
+        await translate('error.suggestion.grantLocalAccess'),
+      ],
+    };
+  }
+
+  // Spending cap reached
+  if (error instanceof BudgetExceededError) {
+    return {
+      code: ERR.BUDGET_EXCEEDED,
+      userMessage: await translate(
+        error.period === 'daily' ? 'error.budgetExceededDaily' : 'error.budgetExceededMonthly',
+        {
+          estimated: error.estimatedCost.toFixed(4),
+          remaining: Math.max(0, error.budget - error.spent).toFixed(4),
+          budget: error.budget.toFixed(2),
+        }
+      ),
+      developerMessage: error.message,
+      suggestions: [
+        await translate('error.suggestion.raiseBudget'),
+        await translate('error.suggestion.tryCheaperModel'),
+        await translate('error.suggestion.tryFewerPairs'),
+      ],
+    };
+  }
+
+  // Unusable LLM output
+  if (error instanceof LLMParseError) {
+    return {
+      code: ERR.LLM_PARSE,
+      userMessage: await translate('error.llmParse'),
+      developerMessage: `${error.message}\n${error.details}`,
+      suggestions: [
+        await translate('error.suggestion.tryDifferentModel'),
+        await translate('error.suggestion.tryFewerPairs'),
+      ],
+    };
+  }
+
   // TimeoutError (from ky or AbortError)
   if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
     // Try to determine if it's a DEX or LLM timeout based on error message/stack
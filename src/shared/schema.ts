@@ -3,11 +3,41 @@
 
 import { z } from 'zod';
 import { DEFAULT_TIMEFRAME } from '@/types/dexscreener';
+import { DEFAULT_RANKING_STRATEGY, RANKING_STRATEGY_IDS } from '@/types/ranking';
+import { DEFAULT_DISCOVERY_MODE, DISCOVERY_MODES } from '@/types/discovery';
 
 // ============================================
 // Analyze Request/Response
 // ============================================
 
+/**
+ * Inclusive numeric bounds for a pre-filter
+ */
+const NumericRangeSchema = z.object({
+  min: z.number().nonnegative().optional(),
+  max: z.number().nonnegative().optional(),
+});
+
+/**
+ * Numeric pre-filters applied before ranking
+ */
+export const PairFiltersSchema = z.object({
+  liquidityUsd: NumericRangeSchema.optional(),
+  volume: NumericRangeSchema.optional(),
+  marketCap: NumericRangeSchema.optional(),
+  fdv: NumericRangeSchema.optional(),
+  fdvToMcap: NumericRangeSchema.optional(),
+  minTxns: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * DEX venue allow/deny lists (dexIds) for the scanned chain
+ */
+export const DexVenueFilterSchema = z.object({
+  allow: z.array(z.string().min(1)).default([]),
+  deny: z.array(z.string().min(1)).default([]),
+});
+
 /**
  * Analysis request
  */
@@ -20,6 +50,11 @@ export const AnalyzeReqSchema = z.object({
   timeframe: z.enum(['m5', 'h1', 'h6', 'h24']).optional().default(DEFAULT_TIMEFRAME),
   pairMaxAge: z.number().nullable().optional().default(24), // Max pair age in hours (null = all pairs)
   quoteTokens: z.array(z.string()).optional().default([]), // Quote token filter (empty = all)
+  ensembleModels: z.array(z.string().min(1)).max(4).optional().default([]), // Extra models for consensus mode (empty = single model)
+  strategy: z.enum(RANKING_STRATEGY_IDS).optional().default(DEFAULT_RANKING_STRATEGY), // How candidates are ranked before the top N reach the LLM
+  filters: PairFiltersSchema.optional().default({}), // Numeric pre-filters (empty = none)
+  dexVenues: DexVenueFilterSchema.optional().default({ allow: [], deny: [] }), // DEX venue filter (empty lists = all venues)
+  discovery: z.enum(DISCOVERY_MODES).optional().default(DEFAULT_DISCOVERY_MODE), // Where candidates come from (chain pairs or launch feeds)
 });
 
 export type AnalyzeReq = z.infer<typeof AnalyzeReqSchema>;
@@ -30,12 +65,26 @@ export type AnalyzeReq = z.infer<typeof AnalyzeReqSchema>;
 export const AnalyzeProgressSchema = z.object({
   type: z.literal('progress'),
   id: z.string().uuid(),
-  step: z.enum(['fetching_pairs', 'analyzing_llm', 'formatting_results']),
+  step: z.enum(['fetching_pairs', 'shortlisting', 'analyzing_llm', 'formatting_results']),
   progress: z.number().min(0).max(100),
+  batch: z.number().int().min(1).optional(), // Current batch (shortlisting step only)
+  batches: z.number().int().min(1).optional(), // Total batches (shortlisting step only)
 });
 
 export type AnalyzeProgress = z.infer<typeof AnalyzeProgressSchema>;
 
+/**
+ * Partial analysis result streamed while the LLM is still responding
+ * `data` is an AnalysisResult built from the JSON received so far.
+ */
+export const AnalyzePartialSchema = z.object({
+  type: z.literal('partial'),
+  id: z.string().uuid(),
+  data: z.unknown(),
+});
+
+export type AnalyzePartial = z.infer<typeof AnalyzePartialSchema>;
+
 /**
  * Analysis result
  */
@@ -79,6 +128,190 @@ export const FetchModelsResultSchema = z.object({
 
 export type FetchModelsResult = z.infer<typeof FetchModelsResultSchema>;
 
+// ============================================
+// Watchlist Poll Request/Response
+// ============================================
+
+/**
+ * Poll the watchlist now (instead of waiting for the alarm)
+ */
+export const PollWatchlistReqSchema = z.object({
+  type: z.literal('poll-watchlist'),
+  id: z.string().uuid(),
+});
+
+export type PollWatchlistReq = z.infer<typeof PollWatchlistReqSchema>;
+
+/**
+ * Watchlist poll finished (snapshots are read from storage)
+ */
+export const PollWatchlistResultSchema = z.object({
+  type: z.literal('watchlist-result'),
+  id: z.string().uuid(),
+  error: z.string().optional(),
+});
+
+export type PollWatchlistResult = z.infer<typeof PollWatchlistResultSchema>;
+
+// ============================================
+// LLM Analysis Response
+// ============================================
+
+/**
+ * Momentum phases the LLM may report for the top pick
+ */
+export const MOMENTUM_PHASES = ['Strong', 'Moderate', 'Weak', 'Consolidating'] as const;
+
+/**
+ * Risk levels the LLM may report per pair
+ */
+export const LLM_RISK_LEVELS = ['Low', 'Medium', 'High', 'EXTREME'] as const;
+
+/**
+ * Per-pair analysis returned by the LLM
+ */
+export const LLMPairAnalysisSchema = z.object({
+  id: z.string().min(1), // Pair ID from the prompt (see pair-matcher)
+  symbol: z.string().optional(),
+  momentum: z.number().min(0).max(10).optional(),
+  catalyst: z.string().optional(),
+  observations: z.string().optional(),
+  moonshotPotential: z.string().optional(),
+  risk: z.enum(LLM_RISK_LEVELS).optional(),
+  score: z.number().optional(), // Backward compatibility
+});
+
+/**
+ * Top pick returned by the LLM
+ */
+export const LLMTopPickSchema = z.object({
+  id: z.string().min(1),
+  symbol: z.string().optional(),
+  reason: z.string().min(1),
+  momentum: z.number().min(0).max(10).optional(),
+  catalyst: z.string().optional(),
+  moonshotPotential: z.string().optional(),
+  momentumPhase: z.enum(MOMENTUM_PHASES).optional(),
+});
+
+/**
+ * Full analysis response expected from the LLM
+ */
+export const LLMAnalysisSchema = z.object({
+  topPick: LLMTopPickSchema.optional(),
+  pairs: z.array(LLMPairAnalysisSchema),
+  runnerUps: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        symbol: z.string().optional(),
+        reason: z.string().optional(),
+      })
+    )
+    .optional(),
+  marketPulse: z.string().optional(),
+  summary: z.string().optional(), // Backward compatibility
+});
+
+export type LLMAnalysis = z.infer<typeof LLMAnalysisSchema>;
+
+/**
+ * Shortlist returned by the LLM for one batch in chunked (map-reduce) mode
+ */
+export const LLMShortlistSchema = z.object({
+  shortlist: z.array(
+    z.object({
+      id: z.string().min(1),
+      symbol: z.string().optional(),
+      reason: z.string().optional(),
+    })
+  ),
+});
+
+export type LLMShortlist = z.infer<typeof LLMShortlistSchema>;
+
+/**
+ * Analysis response that is still being streamed (every field optional)
+ */
+export const PartialLLMAnalysisSchema = LLMAnalysisSchema.deepPartial();
+
+export type PartialLLMAnalysis = z.infer<typeof PartialLLMAnalysisSchema>;
+
+/**
+ * JSON Schema equivalent of LLMAnalysisSchema
+ * Sent as response_format to OpenRouter models that support structured outputs.
+ * Keep in sync with the Zod schema above.
+ */
+export const LLM_ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    topPick: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        symbol: { type: 'string' },
+        reason: { type: 'string' },
+        momentum: { type: 'number', minimum: 0, maximum: 10 },
+        catalyst: { type: 'string' },
+        moonshotPotential: { type: 'string' },
+        momentumPhase: { type: 'string', enum: [...MOMENTUM_PHASES] },
+      },
+      required: ['id', 'reason'],
+    },
+    pairs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          symbol: { type: 'string' },
+          momentum: { type: 'number', minimum: 0, maximum: 10 },
+          catalyst: { type: 'string' },
+          observations: { type: 'string' },
+          moonshotPotential: { type: 'string' },
+          risk: { type: 'string', enum: [...LLM_RISK_LEVELS] },
+        },
+        required: ['id'],
+      },
+    },
+    runnerUps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          symbol: { type: 'string' },
+          reason: { type: 'string' },
+        },
+      },
+    },
+    marketPulse: { type: 'string' },
+  },
+  required: ['pairs'],
+} as const;
+
+/**
+ * JSON Schema equivalent of LLMShortlistSchema (keep in sync)
+ */
+export const LLM_SHORTLIST_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    shortlist: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          symbol: { type: 'string' },
+          reason: { type: 'string' },
+        },
+        required: ['id'],
+      },
+    },
+  },
+  required: ['shortlist'],
+} as const;
+
 // ============================================
 // Generic message types
 // ============================================
@@ -86,9 +319,12 @@ export type FetchModelsResult = z.infer<typeof FetchModelsResultSchema>;
 export const MessageSchema = z.union([
   AnalyzeReqSchema,
   AnalyzeProgressSchema,
+  AnalyzePartialSchema,
   AnalyzeResultSchema,
   FetchModelsReqSchema,
   FetchModelsResultSchema,
+  PollWatchlistReqSchema,
+  PollWatchlistResultSchema,
 ]);
 
 export type Message = z.infer<typeof MessageSchema>;
@@ -4,7 +4,14 @@
 import { create } from 'zustand';
 import { STORAGE_KEYS } from '@/types/storage';
 import { DEFAULT_TIMEFRAME, type Timeframe } from '@/types/dexscreener';
+import {
+  DEFAULT_RANKING_STRATEGY,
+  RANKING_STRATEGY_IDS,
+  type RankingStrategyId,
+} from '@/types/ranking';
+import { DEFAULT_DISCOVERY_MODE, DISCOVERY_MODES, type DiscoveryMode } from '@/types/discovery';
 import type { AnalysisProgress, AnalysisResult } from '@/types/analysis';
+import type { DexVenueFilter, PairFilters } from '@/types/filters';
 
 // ============================================
 // Types
@@ -23,6 +30,11 @@ export interface PersistedPrefs {
   pairMaxAge: number | null; // Max pair age in hours (null = all pairs)
   quoteTokens: Record<string, string[]>; // Selected quote tokens per chain
   layoutMode: 'single-column' | 'two-column'; // Layout mode for analysis UI
+  ensembleModels: string[]; // Extra models for consensus mode (empty = single model)
+  strategy: RankingStrategyId; // How candidates are ranked before the top N reach the LLM
+  discovery: DiscoveryMode; // Where candidates come from (chain pairs or launch feeds)
+  filters: PairFilters; // Numeric pre-filters (empty = none)
+  dexVenues: Record<string, DexVenueFilter>; // DEX venue allow/deny lists per chain
 }
 
 /**
@@ -32,6 +44,7 @@ export interface TemporaryState {
   analyzing: boolean;
   progress: AnalysisProgress;
   results: AnalysisResult | null;
+  partialResults: AnalysisResult | null; // Streamed while the LLM is still responding
   error: string;
   errorCode: string;
   errorSuggestions: string[];
@@ -50,11 +63,17 @@ export interface AppState extends PersistedPrefs, TemporaryState {
   setPairMaxAge: (pairMaxAge: number | null) => void;
   setQuoteTokensForChain: (chain: string, tokens: string[]) => void;
   setLayoutMode: (layoutMode: 'single-column' | 'two-column') => void;
+  setEnsembleModels: (ensembleModels: string[]) => void;
+  setStrategy: (strategy: RankingStrategyId) => void;
+  setDiscovery: (discovery: DiscoveryMode) => void;
+  setFilters: (filters: PairFilters) => void;
+  setDexVenuesForChain: (chain: string, venues: DexVenueFilter) => void;
 
   // Actions for analysis state
   setAnalyzing: (analyzing: boolean) => void;
   setProgress: (progress: AnalysisProgress) => void;
   setResults: (results: AnalysisResult | null) => void;
+  setPartialResults: (partialResults: AnalysisResult | null) => void;
   setError: (
     error: string,
     errorCode?: string,
@@ -84,11 +103,17 @@ export const useAppStore = create<AppState>()((set, get) => ({
   pairMaxAge: 24, // Default: Show pairs created within 24 hours
   quoteTokens: {}, // Empty by default
   layoutMode: 'two-column', // Default: Two-column layout for PC
+  ensembleModels: [], // Default: Single model
+  strategy: DEFAULT_RANKING_STRATEGY,
+  discovery: DEFAULT_DISCOVERY_MODE,
+  filters: {},
+  dexVenues: {}, // Empty by default (all venues)
 
   // Default temporary state
   analyzing: false,
   progress: { step: '', progress: 0 },
   results: null,
+  partialResults: null,
   error: '',
   errorCode: '',
   errorSuggestions: [],
@@ -132,6 +157,33 @@ export const useAppStore = create<AppState>()((set, get) => ({
     get().savePreferences();
   },
 
+  setEnsembleModels: ensembleModels => {
+    set({ ensembleModels });
+    get().savePreferences();
+  },
+
+  setStrategy: strategy => {
+    set({ strategy });
+    get().savePreferences();
+  },
+
+  setDiscovery: discovery => {
+    set({ discovery });
+    get().savePreferences();
+  },
+
+  setFilters: filters => {
+    set({ filters });
+    get().savePreferences();
+  },
+
+  setDexVenuesForChain: (chain, venues) => {
+    const dexVenues = { ...get().dexVenues };
+    dexVenues[chain] = venues;
+    set({ dexVenues });
+    get().savePreferences();
+  },
+
   // Analysis state actions (memory only)
   setAnalyzing: analyzing => {
     console.log('[Store] setAnalyzing called with:', analyzing);
@@ -153,6 +205,7 @@ export const useAppStore = create<AppState>()((set, get) => ({
     console.log('[Store] setResults called, analyzing -> false');
     set({
       results,
+      partialResults: null,
       error: '',
       errorCode: '',
       errorSuggestions: [],
@@ -167,6 +220,10 @@ export const useAppStore = create<AppState>()((set, get) => ({
     );
   },
 
+  setPartialResults: partialResults => {
+    set({ partialResults });
+  },
+
   setError: (error, errorCode = '', suggestions = [], retryAfterMs = 0) => {
     // Only set analyzing: false if there's an actual error
     // If error is empty string, we're just clearing errors, don't change analyzing
@@ -177,6 +234,7 @@ export const useAppStore = create<AppState>()((set, get) => ({
         errorSuggestions: suggestions,
         retryAfterMs,
         results: null,
+        partialResults: null,
         analyzing: false,
       });
     } else {
@@ -193,6 +251,7 @@ export const useAppStore = create<AppState>()((set, get) => ({
   clearResults: () =>
     set({
       results: null,
+      partialResults: null,
       error: '',
       errorCode: '',
       errorSuggestions: [],
@@ -218,6 +277,15 @@ export const useAppStore = create<AppState>()((set, get) => ({
           pairMaxAge: prefs.pairMaxAge !== undefined ? prefs.pairMaxAge : 24,
           quoteTokens: prefs.quoteTokens || {},
           layoutMode: prefs.layoutMode || 'two-column',
+          ensembleModels: prefs.ensembleModels || [],
+          strategy: RANKING_STRATEGY_IDS.includes(prefs.strategy)
+            ? prefs.strategy
+            : DEFAULT_RANKING_STRATEGY,
+          discovery: DISCOVERY_MODES.includes(prefs.discovery)
+            ? prefs.discovery
+            : DEFAULT_DISCOVERY_MODE,
+          filters: prefs.filters || {},
+          dexVenues: prefs.dexVenues || {},
         });
       }
     } catch (error) {
@@ -230,7 +298,20 @@ export const useAppStore = create<AppState>()((set, get) => ({
    */
   savePreferences: async () => {
     try {
-      const { chain, model, maxPairs, timeframe, pairMaxAge, quoteTokens, layoutMode } = get();
+      const {
+        chain,
+        model,
+        maxPairs,
+        timeframe,
+        pairMaxAge,
+        quoteTokens,
+        layoutMode,
+        ensembleModels,
+        strategy,
+        discovery,
+        filters,
+        dexVenues,
+      } = get();
 
       await chrome.storage.local.set({
         [STORAGE_KEYS.PREFS]: {
@@ -241,6 +322,11 @@ export const useAppStore = create<AppState>()((set, get) => ({
           pairMaxAge,
           quoteTokens,
           layoutMode,
+          ensembleModels,
+          strategy,
+          discovery,
+          filters,
+          dexVenues,
         },
       });
     } catch (error) {
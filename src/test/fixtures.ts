@@ -0,0 +1,43 @@
+// Shared Test Fixtures
+// Builders for the DEXscreener pairs tests start from
+
+import type { DexPair } from '@/types/dexscreener';
+
+/**
+ * Build a DEXscreener pair
+ * Defaults to a PEPE/SOL pair on Raydium (Solana) without trading data; the URL follows
+ * `pairAddress` unless it is overridden.
+ *
+ * @param overrides - Fields to set on top of the defaults
+ */
+export function makePair(overrides: Partial<DexPair> = {}): DexPair {
+  const pairAddress = overrides.pairAddress ?? 'pair';
+  return {
+    chainId: 'solana',
+    dexId: 'raydium',
+    url: `https://dexscreener.com/solana/${pairAddress}`,
+    pairAddress,
+    baseToken: { address: 'base', name: 'Pepe', symbol: 'PEPE' },
+    quoteToken: { address: 'quote', name: 'Wrapped SOL', symbol: 'SOL' },
+    priceNative: '1',
+    priceUsd: '1',
+    txns: {},
+    volume: {},
+    priceChange: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Token named after its address, with the address upper-cased as symbol
+ */
+export function makeToken(address: string): DexPair['baseToken'] {
+  return { address, name: address, symbol: address.toUpperCase() };
+}
+
+/**
+ * Liquidity with only the USD total known
+ */
+export function makeLiquidity(usd: number): NonNullable<DexPair['liquidity']> {
+  return { usd, base: 0, quote: 0 };
+}
@@ -3,6 +3,11 @@
 
 import type { Timeframe, DexScreenerSocial, DexScreenerWebsite } from './dexscreener';
 import type { ScoringBreakdown } from '@/utils/risk-assessment';
+import type { MomentumBreakdown, PairFeatures } from './pair-features';
+import type { RankingStrategyId } from './ranking';
+import type { DiscoveryMode, PaidPromotion } from './discovery';
+import type { PairFilterCounts } from './filters';
+import type { TokenPools } from './token-pools';
 
 /**
  * Risk level classification
@@ -22,15 +27,22 @@ export interface RiskFactor {
  * Progress information during analysis
  */
 export interface AnalysisProgress {
-  step: 'fetching_pairs' | 'analyzing_llm' | 'formatting_results' | '';
+  step: 'fetching_pairs' | 'shortlisting' | 'analyzing_llm' | 'formatting_results' | '';
   progress: number; // 0-100
+  batch?: number; // Current batch while shortlisting
+  batches?: number; // Total batches while shortlisting
 }
 
 /**
  * Analyzed token pair data
  */
 export interface AnalyzedPair {
+  pairId?: string; // Stable short ID sent to the LLM (derived from pairAddress)
+  pairAddress?: string;
+  chainId?: string;
+  contractAddress?: string; // Base token address
   symbol?: string;
+  dexId?: string; // DEX venue (raydium, orca, pumpswap, ...)
   priceUsd?: string;
   volume6h?: number;
   liquidity?: number;
@@ -44,12 +56,18 @@ export interface AnalyzedPair {
   moonshotPotential?: string;
   riskLevel?: RiskLevel;
   riskFactors?: RiskFactor[];
+  missingFromLLM?: boolean; // LLM returned no entry for this pair
+  features?: PairFeatures; // Metrics the pair was ranked, risk-scored and prompted with
+  momentumBreakdown?: MomentumBreakdown; // Score that ranked the pair into the shortlist
+  tokenPools?: TokenPools; // All pools of the base token (this pair is the deepest)
+  promotion?: PaidPromotion; // Paid promotion marker (launch feeds only)
 }
 
 /**
  * Top pick token information
  */
 export interface TopPick {
+  id?: string; // Pair ID echoed back by the LLM
   symbol?: string;
   reason?: string;
   momentum?: number;
@@ -59,19 +77,99 @@ export interface TopPick {
   contractAddress?: string;
   chainId?: string;
   pairAddress?: string;
+  dexId?: string; // DEX venue of the pair
   riskLevel?: RiskLevel;
   riskFactors?: RiskFactor[];
   riskBreakdown?: ScoringBreakdown;
+  momentumBreakdown?: MomentumBreakdown;
   socials?: DexScreenerSocial[];
   websites?: DexScreenerWebsite[];
+  unmatched?: boolean; // LLM picked a token that is not among the analyzed pairs
 }
 
 /**
  * Runner-up token information
  */
 export interface RunnerUp {
+  id?: string;
   symbol?: string;
   reason?: string;
+  pairAddress?: string; // Set when the runner-up matched an analyzed pair
+}
+
+/**
+ * LLM entry that could not be joined to any analyzed pair
+ */
+export interface UnmatchedLLMEntry {
+  id?: string;
+  symbol?: string;
+}
+
+/**
+ * One model attempt within a fallback chain
+ */
+export interface ModelAttempt {
+  model: string;
+  errorCode?: string; // Absent for the attempt that answered
+  error?: string; // Developer message for the failure
+}
+
+/**
+ * One model's outcome in an ensemble run
+ */
+export interface EnsembleModelResult {
+  model: string;
+  topPick?: {
+    pairAddress?: string; // Unset when the pick did not match an analyzed pair
+    symbol?: string;
+    momentum?: number;
+    reason?: string;
+  };
+  tokensUsed?: number;
+  estimatedCost?: number;
+  errorCode?: string; // Set when the model failed; it is then excluded from the consensus
+  error?: string;
+}
+
+/**
+ * Top pick votes received by one pair
+ */
+export interface EnsembleVote {
+  pairAddress: string;
+  symbol: string;
+  votes: number;
+  models: string[]; // Models that picked this pair
+  averageMomentum?: number;
+}
+
+/**
+ * Pair whose momentum scores differ widely between models
+ */
+export interface EnsembleDisagreement {
+  pairAddress: string;
+  symbol: string;
+  spread: number; // Max minus min momentum
+  momentumByModel: Record<string, number>;
+}
+
+/**
+ * Consensus details for an ensemble run
+ */
+export interface EnsembleSummary {
+  models: EnsembleModelResult[];
+  votes: EnsembleVote[]; // Sorted by votes, then average momentum
+  agreement: number; // Share of answering models that voted for the consensus pick (0-1)
+  disagreements: EnsembleDisagreement[]; // Sorted by spread, largest first
+}
+
+/**
+ * Chunked (map-reduce) run details
+ */
+export interface BatchingSummary {
+  candidates: number; // Pairs fetched
+  batches: number; // Shortlist batches
+  shortlisted: number; // Pairs sent to the final round
+  contextLength: number; // Context window the batches were sized for (tokens)
 }
 
 /**
@@ -81,9 +179,17 @@ export interface AnalysisMetadata {
   tokensUsed?: number;
   estimatedCost?: number;
   analyzedAt?: string; // ISO 8601 timestamp
-  model?: string; // Model used for analysis
+  model?: string; // Model that actually answered
+  requestedModel?: string; // Model selected by the user (differs from model after a fallback)
+  modelAttempts?: ModelAttempt[]; // Every model tried, in order, with its error
   chain?: string; // Chain analyzed
   timeframe?: Timeframe; // Timeframe used
+  strategy?: RankingStrategyId; // Ranking strategy that selected the candidates
+  discovery?: DiscoveryMode; // Where the candidates came from
+  filterCounts?: PairFilterCounts; // Pairs removed by each candidate filter (only filters that removed some)
+  unmatchedLLMEntries?: UnmatchedLLMEntry[]; // Entries the LLM invented or duplicated
+  ensemble?: EnsembleSummary; // Set for multi-model consensus runs
+  batching?: BatchingSummary; // Set when pairs did not fit one prompt and were shortlisted in batches
 }
 
 /**
@@ -110,4 +216,5 @@ export interface HistoryEntry {
   pairMaxAge?: number | null; // Max pair age filter in hours (null = all pairs)
   result: AnalysisResult; // Full analysis result
   topPickSymbol?: string; // For quick search/display
+  scheduleId?: string; // Set when the scan was run by a schedule
 }
@@ -1,6 +1,9 @@
 // DEXscreener API Type Definitions
 // Based on official API documentation and community implementations
 
+import type { PaidPromotion } from './discovery';
+import type { TokenPools } from './token-pools';
+
 /**
  * Timeframe options for analysis
  */
@@ -85,6 +88,8 @@ export interface DexScreenerPair {
   pairCreatedAt?: number;
   info?: DexScreenerInfo;
   boosts?: DexScreenerBoosts;
+  tokenPools?: TokenPools; // Set by the extension, not the API: all pools of the base token
+  promotion?: PaidPromotion; // Set by the extension, not the API: paid promotion (launch feeds only)
 }
 
 export interface DexScreenerPairsResponse {
@@ -107,6 +112,28 @@ export interface DexScreenerTokenPairsResponse {
   pairs: DexScreenerPair[] | null;
 }
 
+// Token Profile (GET /token-profiles/latest/v1)
+export interface DexScreenerTokenProfile {
+  url: string;
+  chainId: string;
+  tokenAddress: string;
+  icon?: string;
+  header?: string;
+  description?: string;
+  links?: Array<{ type?: string; label?: string; url: string }>;
+}
+
+// Token Boost (GET /token-boosts/latest/v1, /token-boosts/top/v1)
+export interface DexScreenerTokenBoost {
+  url: string;
+  chainId: string;
+  tokenAddress: string;
+  amount?: number; // Boosts of this order (latest feed)
+  totalAmount?: number; // Active boosts of the token
+  icon?: string;
+  description?: string;
+}
+
 // Error Response (推測 - ドキュメントに明記なし)
 export interface DexScreenerErrorResponse {
   error?: string;
@@ -123,3 +150,6 @@ export interface DexScreenerErrorResponse {
 //   GET /latest/dex/search?q={query}
 //   GET /token-pairs/v1/{chainId}/{tokenAddress}
 //   GET /tokens/v1/{chainId}/{tokenAddresses}
+//   GET /token-profiles/latest/v1
+//   GET /token-boosts/latest/v1
+//   GET /token-boosts/top/v1
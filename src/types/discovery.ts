@@ -0,0 +1,28 @@
+// Discovery Mode Type Definitions
+// Where scan candidates come from before filtering and ranking
+
+/**
+ * Available discovery modes
+ * - chain: hot pairs on the chain (pairs endpoint, search fallback)
+ * - newLaunches: tokens from the token profile and boost feeds
+ */
+export const DISCOVERY_MODES = ['chain', 'newLaunches'] as const;
+
+export type DiscoveryMode = (typeof DISCOVERY_MODES)[number];
+
+export const DEFAULT_DISCOVERY_MODE: DiscoveryMode = 'chain';
+
+/**
+ * DEXscreener feeds a launch token can appear in
+ */
+export type LaunchFeed = 'profiles' | 'latestBoosts' | 'topBoosts';
+
+/**
+ * Paid promotion marker of a token found through the launch feeds
+ * Token profiles and boosts are both paid placements on DEXscreener.
+ */
+export interface PaidPromotion {
+  boostAmount: number; // Largest boost total seen across the boost feeds (0 = not boosted)
+  hasProfile: boolean; // Listed in the paid token profile feed
+  feeds: LaunchFeed[]; // Feeds the token was found in
+}
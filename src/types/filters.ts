@@ -0,0 +1,61 @@
+// Pair Filter Type Definitions
+// Pre-filters applied to candidates before ranking (see utils/pair-filters.ts, utils/dex-venues.ts)
+
+/**
+ * Inclusive bounds; an unset bound is not checked
+ */
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Numeric pre-filters
+ * Pairs missing a metric are removed when a bound for that metric is set.
+ */
+export interface PairFilters {
+  liquidityUsd?: NumericRange;
+  volume?: NumericRange; // Volume in the analysis timeframe (USD)
+  marketCap?: NumericRange;
+  fdv?: NumericRange;
+  fdvToMcap?: NumericRange; // FDV / market cap (1 = fully circulating)
+  minTxns?: number; // Minimum buys + sells in the analysis timeframe
+}
+
+export type PairFilterKey = keyof PairFilters;
+
+/**
+ * Filters in the order they are applied
+ */
+export const PAIR_FILTER_KEYS: PairFilterKey[] = [
+  'liquidityUsd',
+  'volume',
+  'marketCap',
+  'fdv',
+  'fdvToMcap',
+  'minTxns',
+];
+
+/**
+ * DEX venue selection for one chain, by DEXscreener dexId (raydium, orca, pumpswap, ...)
+ * A non-empty allow list keeps only those venues; deny always removes its venues.
+ */
+export interface DexVenueFilter {
+  allow: string[];
+  deny: string[];
+}
+
+export const EMPTY_DEX_VENUE_FILTER: DexVenueFilter = { allow: [], deny: [] };
+
+/**
+ * dexIds seen in recent scans, per chain: dexId → last seen (ISO 8601)
+ */
+export type SeenDexIds = Record<string, Record<string, string>>;
+
+/**
+ * Pairs removed by each candidate filter
+ * Each pair is counted once, under the first filter that removed it.
+ */
+export type PairFilterCounts = Partial<
+  Record<PairFilterKey | 'dex' | 'pairAge' | 'quoteToken', number>
+>;
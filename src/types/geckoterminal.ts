@@ -0,0 +1,86 @@
+// GeckoTerminal API Type Definitions
+// JSON:API responses of the public v2 API (https://api.geckoterminal.com/api/v2)
+//
+// Endpoints used:
+// - GET /networks/{network}/trending_pools?include=base_token,quote_token,dex
+// - GET /networks/{network}/pools?include=base_token,quote_token,dex (top pools)
+// - GET /search/pools?query={query}&include=base_token,quote_token,dex
+// - GET /networks/{network}/pools/{address}?include=base_token,quote_token,dex
+// - GET /networks/{network}/tokens/{address}/pools?include=base_token,quote_token,dex
+
+type GeckoTerminalTimeframes<T> = {
+  m5?: T;
+  m15?: T;
+  m30?: T;
+  h1?: T;
+  h6?: T;
+  h24?: T;
+};
+
+export interface GeckoTerminalTransactions {
+  buys: number;
+  sells: number;
+  buyers?: number;
+  sellers?: number;
+}
+
+/**
+ * Relationship reference (e.g., { id: 'solana_So111...', type: 'token' })
+ */
+export interface GeckoTerminalRef {
+  id: string;
+  type: string;
+}
+
+// Numbers are sent as decimal strings; missing values are null
+export interface GeckoTerminalPoolAttributes {
+  address: string;
+  name?: string;
+  base_token_price_usd?: string | null;
+  base_token_price_native_currency?: string | null;
+  quote_token_price_usd?: string | null;
+  pool_created_at?: string | null; // ISO 8601
+  fdv_usd?: string | null;
+  market_cap_usd?: string | null;
+  reserve_in_usd?: string | null;
+  price_change_percentage?: GeckoTerminalTimeframes<string | null>;
+  transactions?: GeckoTerminalTimeframes<GeckoTerminalTransactions>;
+  volume_usd?: GeckoTerminalTimeframes<string | null>;
+}
+
+export interface GeckoTerminalPool {
+  id: string; // '{network}_{address}'
+  type: 'pool';
+  attributes: GeckoTerminalPoolAttributes;
+  relationships?: {
+    base_token?: { data: GeckoTerminalRef | null };
+    quote_token?: { data: GeckoTerminalRef | null };
+    dex?: { data: GeckoTerminalRef | null };
+    network?: { data: GeckoTerminalRef | null };
+  };
+}
+
+export interface GeckoTerminalTokenAttributes {
+  address: string;
+  name: string;
+  symbol: string;
+  image_url?: string | null;
+}
+
+export interface GeckoTerminalIncluded {
+  id: string;
+  type: string; // 'token' | 'dex' | 'network'
+  attributes: Partial<GeckoTerminalTokenAttributes> & { name?: string };
+}
+
+// Pool list response (trending, top, search, token pools)
+export interface GeckoTerminalPoolsResponse {
+  data: GeckoTerminalPool[];
+  included?: GeckoTerminalIncluded[];
+}
+
+// Single pool response
+export interface GeckoTerminalPoolResponse {
+  data: GeckoTerminalPool | null;
+  included?: GeckoTerminalIncluded[];
+}
@@ -6,6 +6,11 @@
  */
 export const GEMINI_NANO_MODEL_ID = 'gemini-nano' as const;
 
+/**
+ * Gemini Nano input quota in tokens (per session)
+ */
+export const GEMINI_NANO_CONTEXT_LENGTH = 6144;
+
 /**
  * Gemini Nano availability status
  */
@@ -28,6 +33,14 @@ export interface GeminiNanoSessionOptions {
   topK?: number;
   temperature?: number;
   monitor?: (monitor: GeminiNanoMonitor) => void;
+  signal?: AbortSignal; // Aborts session creation (including model download)
+}
+
+/**
+ * Gemini Nano per-prompt options
+ */
+export interface GeminiNanoPromptOptions {
+  signal?: AbortSignal;
 }
 
 /**
@@ -44,8 +57,8 @@ export interface GeminiNanoMonitor {
  * Gemini Nano session interface
  */
 export interface GeminiNanoSession {
-  prompt(input: string): Promise<string>;
-  promptStreaming(input: string): AsyncIterable<string>;
+  prompt(input: string, options?: GeminiNanoPromptOptions): Promise<string>;
+  promptStreaming(input: string, options?: GeminiNanoPromptOptions): AsyncIterable<string>;
   destroy(): void;
 }
 
@@ -0,0 +1,31 @@
+// Local LLM Provider Type Definitions
+// OpenAI-compatible servers running on the user's machine (Ollama, LM Studio, llama.cpp server)
+
+/**
+ * Prefix that routes a model ID to the local provider
+ * Example: "local/llama3.1:8b" → model "llama3.1:8b" on the configured server
+ */
+export const LOCAL_MODEL_PREFIX = 'local/';
+
+/**
+ * Local provider settings (stored under STORAGE_KEYS.LOCAL_LLM)
+ */
+export interface LocalLLMConfig {
+  baseUrl: string; // Server origin, e.g. "http://localhost:11434" (a trailing /v1 is optional)
+  models: string[]; // Model names to offer in addition to those the server lists
+}
+
+/**
+ * OpenAI-format /v1/models response
+ */
+export interface LocalModelsResponse {
+  object?: string;
+  data: { id: string; object?: string; owned_by?: string }[];
+}
+
+/**
+ * Check whether a model ID belongs to the local provider
+ */
+export function isLocalModel(modelId: string | undefined): boolean {
+  return !!modelId && modelId.startsWith(LOCAL_MODEL_PREFIX);
+}
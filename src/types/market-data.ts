@@ -0,0 +1,49 @@
+// Market Data Provider Type Definitions
+// Sources of pair data; every provider returns pairs in the DexPair shape (see api/market-data.ts)
+
+import type { DexPair } from './dexscreener';
+
+/**
+ * Available market data providers
+ * - dexscreener: DEXscreener API (the only source of launch feeds and pair labels)
+ * - geckoterminal: GeckoTerminal public API, normalized to DexPair
+ */
+export const MARKET_DATA_PROVIDER_IDS = ['dexscreener', 'geckoterminal'] as const;
+
+export type MarketDataProviderId = (typeof MARKET_DATA_PROVIDER_IDS)[number];
+
+/**
+ * A source of pair data
+ * Methods throw when the provider cannot be reached, so a fallback can take over;
+ * an empty result means the provider answered with no pairs.
+ */
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  /** Hot pairs on a chain (chain name as used by the form, e.g. 'solana') */
+  listPairsByChain(chain: string, signal?: AbortSignal): Promise<DexPair[]>;
+  /** Pairs matching a token symbol, name or address (all chains) */
+  searchPairs(query: string, signal?: AbortSignal): Promise<DexPair[]>;
+  /** One pair by address (null = the provider does not know the pair) */
+  getPair(chainId: string, pairAddress: string, signal?: AbortSignal): Promise<DexPair | null>;
+  /** Every pool of a token on one chain */
+  getTokenPools(chainId: string, tokenAddress: string, signal?: AbortSignal): Promise<DexPair[]>;
+  /** Every pool of several tokens on one chain (as base or quote token) */
+  getPairsByTokens(
+    chainId: string,
+    tokenAddresses: string[],
+    signal?: AbortSignal
+  ): Promise<DexPair[]>;
+}
+
+/**
+ * Provider selection (stored under STORAGE_KEYS.MARKET_DATA)
+ */
+export interface MarketDataSettings {
+  primary: MarketDataProviderId;
+  fallback: MarketDataProviderId | null; // Tried when the primary fails (null = no fallback)
+}
+
+export const DEFAULT_MARKET_DATA_SETTINGS: MarketDataSettings = {
+  primary: 'dexscreener',
+  fallback: 'geckoterminal',
+};
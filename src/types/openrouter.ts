@@ -35,6 +35,7 @@ export interface OpenRouterModel {
     prompt_tokens?: number;
     completion_tokens?: number;
   };
+  supported_parameters?: string[]; // "response_format", "structured_outputs" など
 }
 
 export interface OpenRouterModelsResponse {
@@ -47,6 +48,18 @@ export interface OpenRouterMessage {
   content: string;
 }
 
+// Structured output (JSON mode / JSON Schema)
+export type OpenRouterResponseFormat =
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        strict?: boolean;
+        schema: Record<string, unknown>;
+      };
+    };
+
 export interface OpenRouterChatRequest {
   model: string;
   messages: OpenRouterMessage[];
@@ -57,6 +70,7 @@ export interface OpenRouterChatRequest {
   presence_penalty?: number; // -2 to 2
   stop?: string | string[];
   stream?: boolean;
+  response_format?: OpenRouterResponseFormat;
   // 使用量追跡を有効化（レスポンスボディに含める）
   usage?: {
     include: boolean;
@@ -85,6 +99,21 @@ export interface OpenRouterChatResponse {
   usage?: OpenRouterUsage;
 }
 
+// Streaming Response (SSE chunk, stream: true)
+export interface OpenRouterChatChunk {
+  id: string;
+  model: string;
+  created: number;
+  object: 'chat.completion.chunk';
+  choices: Array<{
+    index: number;
+    delta: Partial<OpenRouterMessage>;
+    finish_reason: 'stop' | 'length' | 'content_filter' | null;
+  }>;
+  usage?: OpenRouterUsage; // 最終チャンクのみ（usage.include 指定時）
+  error?: OpenRouterErrorResponse['error']; // ストリーム途中のエラー
+}
+
 // Error Response
 export interface OpenRouterErrorResponse {
   error: {
@@ -0,0 +1,49 @@
+// Pair Feature Type Definitions
+// Derived metrics shared by ranking, risk scoring and prompt building (see utils/pair-features.ts)
+
+import type { Timeframe } from './dexscreener';
+
+/**
+ * Direction of momentum across timeframes
+ */
+export type MomentumShift = 'accelerating' | 'decelerating' | 'reversing' | 'stable';
+
+/**
+ * Shape of price swings across timeframes
+ */
+export type VolatilityPattern = 'none' | 'low' | 'consistentHigh' | 'spike' | 'moderate';
+
+/**
+ * Metrics extracted once per pair
+ */
+export interface PairFeatures {
+  timeframe: Timeframe; // Timeframe the timeframe-specific metrics refer to
+  ageHours?: number; // Undefined when the pair has no creation time
+  buyRatio?: number; // Share of buys in the timeframe (0-1), undefined without trades
+  buyPressure: number; // -1 (all sells) to +1 (all buys)
+  volumeAcceleration: number; // > 0 = volume rising from 6h → 1h → 5m
+  volumeToLiquidity?: number; // 24h volume / liquidity
+  liquidityHealth: number; // 0-1, 1 when liquidity is 5-15% of market cap
+  trendConsistency: number; // 0-1, 1 when every timeframe moves the same way by similar amounts
+  momentumShift: MomentumShift;
+  volatilityPattern: VolatilityPattern;
+  priceSwing5m: number; // |5m price change| in %
+  priceSwing1h: number; // |1h price change| in %
+  ageRiskMultiplier: number; // 0.3-1, newer pairs rank lower
+}
+
+/**
+ * Parts of the momentum score pairs are ranked by before reaching the LLM
+ * total = (price + volume + liquidity bonus + weighted bonuses) × risk multiplier
+ */
+export interface MomentumBreakdown {
+  priceScore: number; // |price change| × 10
+  volumeScore: number; // log10(volume) × 2
+  liquidityBonus: number; // 5 above $10k liquidity
+  buyPressureBonus: number; // buy pressure × 15
+  accelerationBonus: number; // volume acceleration × 10
+  liquidityHealthBonus: number; // liquidity health × 5
+  trendBonus: number; // trend consistency × 8
+  riskMultiplier: number; // 0 for scams/honeypots, else age and label multiplier (max 1)
+  total: number;
+}
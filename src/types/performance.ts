@@ -0,0 +1,53 @@
+// Pick Performance Type Definitions
+// Realised outcomes of past top picks and runner-ups, for the per-model leaderboard
+
+import type { Timeframe } from './dexscreener';
+
+/**
+ * Hours after the pick at which the pair is re-fetched
+ */
+export const PERFORMANCE_CHECKPOINTS = [1, 6, 24] as const;
+
+export type PerformanceCheckpoint = (typeof PERFORMANCE_CHECKPOINTS)[number];
+
+/**
+ * Pair state at one checkpoint
+ */
+export interface PickOutcome {
+  checkedAt: string; // ISO 8601
+  priceUsd?: number; // Undefined if the pair could no longer be found
+  priceChangePct?: number; // vs. the entry price
+  liquidityUsd?: number;
+  liquidityChangePct?: number; // vs. the entry liquidity
+  missed?: boolean; // Checked too late to count (browser was closed); excluded from stats
+}
+
+/**
+ * Pick whose performance is being tracked
+ */
+export interface TrackedPick {
+  id: string; // historyId + ":" + pairAddress
+  historyId: string;
+  role: 'topPick' | 'runnerUp';
+  chain: string;
+  pairAddress: string;
+  symbol?: string;
+  model: string;
+  timeframe: Timeframe;
+  pickedAt: string; // ISO 8601
+  entryPriceUsd: number;
+  entryLiquidityUsd: number;
+  outcomes: Partial<Record<PerformanceCheckpoint, PickOutcome>>;
+}
+
+/**
+ * Leaderboard row
+ */
+export interface PerformanceStats {
+  key: string; // Model, chain or timeframe
+  picks: number; // Picks with an outcome at the checkpoint
+  hits: number; // Picks whose price rose
+  hitRate: number; // 0-1
+  medianReturnPct: number;
+  rugged: number; // Pair gone or liquidity down by half or more
+}
@@ -0,0 +1,18 @@
+// Ranking Strategy Type Definitions
+// How candidates are ordered before the top N reach the LLM (see utils/ranking-strategies.ts)
+
+/**
+ * Available ranking strategies
+ */
+export const RANKING_STRATEGY_IDS = [
+  'momentum',
+  'freshLaunches',
+  'topGainers',
+  'volumeSurge',
+  'buyPressure',
+  'safestMovers',
+] as const;
+
+export type RankingStrategyId = (typeof RANKING_STRATEGY_IDS)[number];
+
+export const DEFAULT_RANKING_STRATEGY: RankingStrategyId = 'momentum';
@@ -0,0 +1,329 @@
+// Risk Profile Type Definitions
+// Thresholds and points used by calculateRiskLevel
+
+/**
+ * Minimum total score for each risk level (scores below `caution` are safe)
+ */
+export interface RiskLevelCutoffs {
+  caution: number;
+  warning: number;
+  danger: number;
+  critical: number;
+}
+
+/**
+ * Risk scoring configuration
+ */
+export interface RiskProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean; // Presets cannot be edited or deleted
+  age: {
+    veryNewHours: number; // Younger than this scores veryNewPoints
+    veryNewPoints: number;
+    dayPoints: number; // Younger than 24h
+    weekDays: number;
+    weekPoints: number;
+    monthDays: number;
+    monthPoints: number;
+    unknownPoints: number; // No pairCreatedAt
+  };
+  liquidity: {
+    veryLowUsd: number;
+    veryLowPoints: number;
+    lowUsd: number;
+    lowPoints: number;
+    moderateUsd: number;
+    moderatePoints: number;
+    lowRatio: number; // Liquidity / market cap below this adds lowRatioPoints
+    lowRatioPoints: number;
+    highRatio: number; // Liquidity / market cap above this adds highRatioPoints
+    highRatioPoints: number;
+  };
+  labels: {
+    critical: string[]; // Any match sets the score to 100
+    warning: string[];
+    warningPoints: number;
+    suspicious: string[];
+    suspiciousPoints: number;
+    positive: string[]; // Any match subtracts positivePoints
+    positivePoints: number;
+  };
+  volume: {
+    veryLowUsd: number; // 24h volume
+    veryLowPoints: number;
+    lowUsd: number;
+    lowPoints: number;
+  };
+  volatility: {
+    extreme5m: number; // Absolute % change over 5m
+    extreme1h: number; // Absolute % change over 1h
+    extremePoints: number;
+    high5m: number;
+    high1h: number;
+    highPoints: number;
+  };
+  activity: {
+    low5mTxns: number; // This many 5m transactions or fewer adds low5mPoints
+    low5mPoints: number;
+    low24hTxns: number;
+    low24hPoints: number;
+  };
+  signals: {
+    honeypotPoints: number; // 5m buys but no sells
+    buyPressureShare: number; // 5m buy share above this adds buyPressurePoints
+    buyPressureMinBuys: number; // ...when there are more 5m buys than this
+    buyPressurePoints: number;
+    washVolumeRatio: number; // 24h volume / liquidity above this adds washPoints
+    washPoints: number;
+    socialMaxAgeHours: number; // Socials are scored for pairs younger than this
+    noSocialPoints: number;
+    socialCreditPoints: number; // Subtracted for a website or social links
+    pump5m: number; // 5m % change above this...
+    pump1h: number; // ...with a 1h % change below this adds pumpPoints
+    pumpPoints: number;
+    boostPoints: number; // Launch feed token with paid boosts
+    heavyBoostAmount: number; // Boost total from which heavyBoostPoints are added
+    heavyBoostPoints: number;
+    paidProfilePoints: number; // Launch feed token with a paid token profile
+    promptInjectionPoints: number; // Instruction-like text in token metadata
+    liquidityDropPoints: number; // Liquidity down 25% or more from its peak in the history
+    liquidityHeavyDropPoints: number; // ...down 50% or more
+    liquidityMcapCollapsePoints: number; // Liquidity / market cap under half its best
+    sellerExodusPoints: number; // 1h sells jumped and dwarf buys
+  };
+  levels: RiskLevelCutoffs;
+  filterScore: number; // Pairs scoring this or more are not sent to the LLM
+}
+
+/**
+ * Balanced preset (the original hard-coded thresholds)
+ */
+export const BALANCED_RISK_PROFILE: RiskProfile = {
+  id: 'balanced',
+  name: 'Balanced',
+  builtIn: true,
+  age: {
+    veryNewHours: 1,
+    veryNewPoints: 30,
+    dayPoints: 20,
+    weekDays: 7,
+    weekPoints: 20,
+    monthDays: 30,
+    monthPoints: 10,
+    unknownPoints: 15,
+  },
+  liquidity: {
+    veryLowUsd: 10_000,
+    veryLowPoints: 30,
+    lowUsd: 50_000,
+    lowPoints: 20,
+    moderateUsd: 100_000,
+    moderatePoints: 10,
+    lowRatio: 0.02,
+    lowRatioPoints: 15,
+    highRatio: 0.5,
+    highRatioPoints: 10,
+  },
+  labels: {
+    critical: ['scam', 'honeypot', 'rugpull', 'exploit'],
+    warning: ['frozen', 'blacklist', 'paused'],
+    warningPoints: 30,
+    suspicious: ['abandoned'],
+    suspiciousPoints: 20,
+    positive: ['top', 'verified'],
+    positivePoints: 15,
+  },
+  volume: {
+    veryLowUsd: 1_000,
+    veryLowPoints: 20,
+    lowUsd: 10_000,
+    lowPoints: 10,
+  },
+  volatility: {
+    extreme5m: 50,
+    extreme1h: 100,
+    extremePoints: 15,
+    high5m: 20,
+    high1h: 50,
+    highPoints: 10,
+  },
+  activity: {
+    low5mTxns: 5,
+    low5mPoints: 10,
+    low24hTxns: 10,
+    low24hPoints: 10,
+  },
+  signals: {
+    honeypotPoints: 25,
+    buyPressureShare: 0.95,
+    buyPressureMinBuys: 20,
+    buyPressurePoints: 20,
+    washVolumeRatio: 10,
+    washPoints: 20,
+    socialMaxAgeHours: 168,
+    noSocialPoints: 15,
+    socialCreditPoints: 10,
+    pump5m: 100,
+    pump1h: 10,
+    pumpPoints: 15,
+    boostPoints: 10,
+    heavyBoostAmount: 500,
+    heavyBoostPoints: 5,
+    paidProfilePoints: 5,
+    promptInjectionPoints: 40,
+    liquidityDropPoints: 15,
+    liquidityHeavyDropPoints: 25,
+    liquidityMcapCollapsePoints: 10,
+    sellerExodusPoints: 10,
+  },
+  levels: { caution: 20, warning: 40, danger: 60, critical: 80 },
+  filterScore: 100,
+};
+
+/**
+ * Conservative preset: stricter tiers, earlier level cut-offs
+ */
+export const CONSERVATIVE_RISK_PROFILE: RiskProfile = {
+  ...BALANCED_RISK_PROFILE,
+  id: 'conservative',
+  name: 'Conservative',
+  age: {
+    veryNewHours: 6,
+    veryNewPoints: 35,
+    dayPoints: 30,
+    weekDays: 14,
+    weekPoints: 25,
+    monthDays: 90,
+    monthPoints: 15,
+    unknownPoints: 25,
+  },
+  liquidity: {
+    ...BALANCED_RISK_PROFILE.liquidity,
+    veryLowUsd: 50_000,
+    veryLowPoints: 35,
+    lowUsd: 150_000,
+    lowPoints: 25,
+    moderateUsd: 500_000,
+    moderatePoints: 15,
+    lowRatioPoints: 20,
+  },
+  labels: {
+    ...BALANCED_RISK_PROFILE.labels,
+    warningPoints: 40,
+    suspiciousPoints: 30,
+    positivePoints: 10,
+  },
+  volume: {
+    veryLowUsd: 10_000,
+    veryLowPoints: 25,
+    lowUsd: 100_000,
+    lowPoints: 15,
+  },
+  volatility: {
+    extreme5m: 30,
+    extreme1h: 60,
+    extremePoints: 20,
+    high5m: 10,
+    high1h: 30,
+    highPoints: 10,
+  },
+  activity: {
+    low5mTxns: 10,
+    low5mPoints: 10,
+    low24hTxns: 100,
+    low24hPoints: 15,
+  },
+  signals: {
+    ...BALANCED_RISK_PROFILE.signals,
+    boostPoints: 15,
+    heavyBoostAmount: 200,
+    heavyBoostPoints: 10,
+    paidProfilePoints: 10,
+    promptInjectionPoints: 50,
+    liquidityDropPoints: 20,
+    liquidityHeavyDropPoints: 35,
+    liquidityMcapCollapsePoints: 15,
+    sellerExodusPoints: 15,
+  },
+  levels: { caution: 15, warning: 30, danger: 45, critical: 60 },
+  filterScore: 90,
+};
+
+/**
+ * Degen preset: tolerates fresh, thin and volatile pairs
+ */
+export const DEGEN_RISK_PROFILE: RiskProfile = {
+  ...BALANCED_RISK_PROFILE,
+  id: 'degen',
+  name: 'Degen',
+  age: {
+    veryNewHours: 0.25,
+    veryNewPoints: 15,
+    dayPoints: 5,
+    weekDays: 3,
+    weekPoints: 5,
+    monthDays: 7,
+    monthPoints: 0,
+    unknownPoints: 10,
+  },
+  liquidity: {
+    ...BALANCED_RISK_PROFILE.liquidity,
+    veryLowUsd: 3_000,
+    veryLowPoints: 25,
+    lowUsd: 10_000,
+    lowPoints: 10,
+    moderateUsd: 25_000,
+    moderatePoints: 5,
+    lowRatio: 0.01,
+    lowRatioPoints: 10,
+    highRatioPoints: 5,
+  },
+  volume: {
+    veryLowUsd: 500,
+    veryLowPoints: 15,
+    lowUsd: 3_000,
+    lowPoints: 5,
+  },
+  volatility: {
+    extreme5m: 100,
+    extreme1h: 300,
+    extremePoints: 10,
+    high5m: 50,
+    high1h: 150,
+    highPoints: 5,
+  },
+  activity: {
+    low5mTxns: 2,
+    low5mPoints: 10,
+    low24hTxns: 5,
+    low24hPoints: 10,
+  },
+  signals: {
+    ...BALANCED_RISK_PROFILE.signals,
+    boostPoints: 5,
+    heavyBoostAmount: 1_000,
+    heavyBoostPoints: 5,
+    paidProfilePoints: 0,
+    liquidityDropPoints: 10,
+    liquidityHeavyDropPoints: 20,
+    liquidityMcapCollapsePoints: 5,
+    sellerExodusPoints: 5,
+  },
+  levels: { caution: 30, warning: 55, danger: 80, critical: 100 },
+  filterScore: 100,
+};
+
+/**
+ * Built-in presets, in display order
+ */
+export const RISK_PROFILE_PRESETS: RiskProfile[] = [
+  CONSERVATIVE_RISK_PROFILE,
+  BALANCED_RISK_PROFILE,
+  DEGEN_RISK_PROFILE,
+];
+
+/**
+ * Profile used when none is selected or the selected one was deleted
+ */
+export const DEFAULT_RISK_PROFILE_ID = BALANCED_RISK_PROFILE.id;
@@ -0,0 +1,23 @@
+// Risk Rule Type Definitions
+// User-written rules evaluated against DEX pairs (see utils/rule-language.ts)
+
+import type { DexPair } from './dexscreener';
+
+/**
+ * Stored risk rule
+ */
+export interface RiskRule {
+  id: string;
+  source: string; // e.g. `liquidity.usd < 5000 and txns.h1.sells == 0 => +40 "no sells in 1h"`
+  enabled: boolean;
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * Pairs of the most recent scan, kept for testing rules in settings
+ */
+export interface LastScanPairs {
+  chain: string;
+  scannedAt: string; // ISO timestamp
+  pairs: DexPair[];
+}
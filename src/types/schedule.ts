@@ -0,0 +1,49 @@
+// Scheduled Scan Type Definitions
+// Recurring headless scans run by the service worker on chrome.alarms
+
+import type { RiskLevel } from './analysis';
+import type { Timeframe } from './dexscreener';
+import type { RankingStrategyId } from './ranking';
+import type { DiscoveryMode } from './discovery';
+import type { DexVenueFilter, PairFilters } from './filters';
+
+/**
+ * Scan intervals offered in the UI (minutes)
+ */
+export const SCHEDULE_INTERVALS = [5, 15, 30, 60, 240, 1440] as const;
+
+/**
+ * When a scheduled scan raises a desktop notification
+ */
+export interface ScheduleCriteria {
+  notifyOnTopPickChange: boolean; // Notify whenever the top pick differs from the previous run
+  maxRiskLevel?: RiskLevel; // Notify if the top pick's risk is at most this level...
+  minMomentum?: number; // ...and its momentum is at least this (both must hold when set)
+}
+
+/**
+ * A recurring scan
+ */
+export interface ScanSchedule {
+  id: string; // UUID
+  chain: string;
+  model: string;
+  timeframe: Timeframe;
+  maxPairs: number;
+  pairMaxAge: number | null;
+  quoteTokens: string[];
+  strategy?: RankingStrategyId; // Unset for schedules created before strategies existed (momentum)
+  discovery?: DiscoveryMode; // Unset = chain
+  filters?: PairFilters; // Numeric pre-filters (unset = none)
+  dexVenues?: DexVenueFilter; // DEX venue allow/deny lists (unset = all venues)
+  intervalMinutes: number;
+  enabled: boolean;
+  criteria: ScheduleCriteria;
+  createdAt: string; // ISO 8601
+
+  // State of the last run
+  lastRunAt?: string; // ISO 8601
+  lastTopPickAddress?: string;
+  lastTopPickSymbol?: string;
+  lastError?: string;
+}
@@ -0,0 +1,20 @@
+// Pair Snapshot Type Definitions
+// Point-in-time pair metrics kept in IndexedDB to see how liquidity and trading change over time
+
+/**
+ * Pair metrics at one scan or watchlist poll
+ */
+export interface PairSnapshot {
+  key: string; // "chainId:pairAddress" (see getPairKey)
+  at: number; // Unix timestamp (ms)
+  priceUsd: number;
+  liquidityUsd: number;
+  marketCap?: number;
+  buysH1: number;
+  sellsH1: number;
+}
+
+/**
+ * Earlier snapshots per pair address, oldest first
+ */
+export type PairHistories = Map<string, PairSnapshot[]>;
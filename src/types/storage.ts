@@ -1,6 +1,18 @@
 // Storage Type Definitions
 // Version-managed storage schema
 
+import type { LocalLLMConfig } from './local-llm';
+import type { UsageBudget, UsageRecord } from './usage';
+import type { ScanSchedule } from './schedule';
+import type { WatchlistItem } from './watchlist';
+import type { TrackedPick } from './performance';
+import type { RiskProfile } from './risk-profile';
+import type { LastScanPairs, RiskRule } from './rules';
+import type { RankingStrategyId } from './ranking';
+import type { DiscoveryMode } from './discovery';
+import type { DexVenueFilter, PairFilters, SeenDexIds } from './filters';
+import type { MarketDataSettings } from './market-data';
+
 /**
  * Storage Schema V1
  *
@@ -24,10 +36,28 @@ export interface AppStorageV1 {
     pairMaxAge: number | null; // Max pair age in hours (null = all pairs)
     quoteTokens: Record<string, string[]>; // Selected quote tokens per chain { solana: ['SOL', 'USDC'], ethereum: ['ETH'] }
     layoutMode: 'single-column' | 'two-column'; // Layout mode for analysis UI
+    ensembleModels?: string[]; // Extra models for consensus mode (empty = single model)
+    strategy?: RankingStrategyId; // Ranking strategy for candidate selection (default: momentum)
+    discovery?: DiscoveryMode; // Candidate source (default: chain)
+    filters?: PairFilters; // Numeric pre-filters (liquidity, volume, market cap, FDV, ...)
+    dexVenues?: Record<string, DexVenueFilter>; // DEX venue allow/deny lists per chain
   };
   custom_prompt?: string; // Custom analysis prompt (optional)
   telemetry_enabled?: boolean; // Local error logging enabled (default: false)
   favoriteModels?: string[]; // Favorite OpenRouter model IDs
+  fallback_models?: string[]; // Ordered fallback model IDs (chosen from favorites)
+  local_llm?: LocalLLMConfig; // Local OpenAI-compatible server (optional)
+  usage_ledger?: UsageRecord[]; // LLM calls (oldest first, trimmed to recent months)
+  usage_budget?: UsageBudget; // Daily / monthly spending caps in USD
+  scheduled_scans?: ScanSchedule[]; // Recurring background scans
+  watchlist?: WatchlistItem[]; // Tokens polled for threshold alerts
+  pick_performance?: TrackedPick[]; // Outcomes of past top picks and runner-ups
+  active_risk_profile?: string; // Selected risk profile ID (preset or custom)
+  custom_risk_profiles?: RiskProfile[]; // User-defined risk profiles
+  risk_rules?: RiskRule[]; // User-written risk and exclusion rules
+  last_scan_pairs?: LastScanPairs; // Raw pairs of the latest scan (for testing rules)
+  seen_dex_ids?: SeenDexIds; // DEX venues seen in recent scans, per chain (for the venue filter)
+  market_data?: MarketDataSettings; // Primary and fallback pair data providers
 }
 
 // Future versions go here
@@ -76,4 +106,17 @@ export const STORAGE_KEYS = {
   ANALYSIS_HISTORY: 'analysis_history',
   EXCLUDED_TOKENS: 'excluded_tokens',
   FAVORITE_MODELS: 'favoriteModels',
+  FALLBACK_MODELS: 'fallback_models',
+  LOCAL_LLM: 'local_llm',
+  USAGE_LEDGER: 'usage_ledger',
+  USAGE_BUDGET: 'usage_budget',
+  SCHEDULED_SCANS: 'scheduled_scans',
+  WATCHLIST: 'watchlist',
+  PICK_PERFORMANCE: 'pick_performance',
+  ACTIVE_RISK_PROFILE: 'active_risk_profile',
+  CUSTOM_RISK_PROFILES: 'custom_risk_profiles',
+  RISK_RULES: 'risk_rules',
+  LAST_SCAN_PAIRS: 'last_scan_pairs',
+  SEEN_DEX_IDS: 'seen_dex_ids',
+  MARKET_DATA: 'market_data',
 } as const;
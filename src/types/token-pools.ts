@@ -0,0 +1,37 @@
+// Token Pool Type Definitions
+// All pools of one base token, aggregated into a single candidate (see utils/token-pools.ts)
+
+import type { DexScreenerTxns } from './dexscreener';
+
+type TimeframeValues<T> = {
+  m5?: T;
+  h1?: T;
+  h6?: T;
+  h24?: T;
+};
+
+/**
+ * One pool of a token
+ */
+export interface PoolSummary {
+  pairAddress: string;
+  dexId: string;
+  quoteSymbol: string;
+  liquidityUsd: number;
+  volume: TimeframeValues<number>;
+  txns: TimeframeValues<DexScreenerTxns>;
+}
+
+/**
+ * Pools of a base token with totals across all of them
+ */
+export interface TokenPools {
+  tokenAddress: string;
+  poolCount: number; // All pools found (pools may list fewer)
+  pools: PoolSummary[]; // Deepest first, capped
+  liquidityUsd: number; // Sum across all pools
+  volume: TimeframeValues<number>; // Sum across all pools
+  txns: TimeframeValues<DexScreenerTxns>; // Sum across all pools
+  topPoolShare: number; // Deepest pool's share of total liquidity (0-1)
+  fragmented: boolean; // No single pool holds most of the liquidity
+}
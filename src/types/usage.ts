@@ -0,0 +1,37 @@
+// LLM Usage Type Definitions
+// Persistent ledger of LLM calls and the user's spending caps
+
+/**
+ * One LLM call in the usage ledger
+ */
+export interface UsageRecord {
+  timestamp: string; // ISO timestamp of the response
+  model: string; // Model that answered
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
+  chain: string; // Chain the scan was for
+}
+
+/**
+ * Spending caps in USD (undefined = no cap)
+ */
+export interface UsageBudget {
+  daily?: number;
+  monthly?: number;
+}
+
+/**
+ * Usage totals for one group of records (a day or a model)
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+/**
+ * Budget period a run would exceed
+ */
+export type BudgetPeriod = 'daily' | 'monthly';
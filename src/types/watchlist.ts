@@ -0,0 +1,66 @@
+// Watchlist Type Definitions
+// Tokens followed after a scan, polled in the background for threshold alerts
+
+import type { RiskLevel } from './analysis';
+
+/**
+ * Per-token alert thresholds (undefined = alert off)
+ */
+export interface WatchAlerts {
+  priceChangePct?: number; // Price moved this % (up or down) since the reference price
+  liquidityDropPct?: number; // Liquidity fell this % below the reference liquidity
+  maxSellBuyRatio?: number; // 1h sells/buys rose above this ratio
+  riskLevelChange: boolean; // Risk level from calculateRiskLevel changed since the last poll
+}
+
+/**
+ * Default thresholds for newly watched tokens
+ */
+export const DEFAULT_WATCH_ALERTS: WatchAlerts = {
+  priceChangePct: 20,
+  liquidityDropPct: 30,
+  maxSellBuyRatio: 2,
+  riskLevelChange: true,
+};
+
+/**
+ * Metrics of a token's main (most liquid) pair at one poll
+ */
+export interface WatchSnapshot {
+  at: string; // ISO 8601
+  pairAddress: string;
+  symbol: string; // "BASE/QUOTE" of the main pair
+  url: string; // DEXscreener page
+  priceUsd: number;
+  liquidityUsd: number;
+  volumeH24: number;
+  priceChangeH1: number;
+  priceChangeH24: number;
+  buysH1: number;
+  sellsH1: number;
+  riskLevel: RiskLevel;
+  riskScore: number;
+}
+
+/**
+ * Watched token
+ */
+export interface WatchlistItem {
+  chainId: string;
+  tokenAddress: string;
+  symbol: string; // Base token symbol
+  addedAt: string; // ISO 8601
+  alerts: WatchAlerts;
+  referencePriceUsd?: number; // Baseline for price alerts (reset when one fires)
+  referenceLiquidityUsd?: number; // Baseline for liquidity alerts (reset when one fires)
+  latest?: WatchSnapshot;
+  lastAlertAt?: string; // ISO 8601
+}
+
+/**
+ * Alert raised by a poll
+ */
+export interface WatchAlertHit {
+  kind: 'price' | 'liquidity' | 'sellPressure' | 'riskLevel';
+  params: Record<string, string | number>; // Values for the notification text
+}
@@ -0,0 +1,73 @@
+// DEX Venue Filter Tests
+import { describe, it, expect } from 'vitest';
+import { makePair, makeToken } from '@/test/fixtures';
+import { applyDexVenueFilter, mergeSeenDexIds, SEEN_DEX_ID_RETENTION_DAYS } from '../dex-venues';
+import type { DexPair } from '@/types/dexscreener';
+
+function makeVenuePair(pairAddress: string, dexId: string): DexPair {
+  return makePair({ pairAddress, dexId, baseToken: makeToken(pairAddress) });
+}
+
+const pairs = [
+  makeVenuePair('a', 'raydium'),
+  makeVenuePair('b', 'pumpswap'),
+  makeVenuePair('c', 'orca'),
+  makeVenuePair('d', 'Meteora'),
+];
+
+const addresses = (result: DexPair[]) => result.map(pair => pair.pairAddress);
+
+describe('applyDexVenueFilter', () => {
+  it('should keep every pair when no venue is selected', () => {
+    const result = applyDexVenueFilter(pairs, { allow: [], deny: [] });
+    expect(result.pairs).toBe(pairs);
+    expect(result.removed).toBe(0);
+  });
+
+  it('should keep only allowed venues', () => {
+    const result = applyDexVenueFilter(pairs, { allow: ['pumpswap', 'meteora'], deny: [] });
+    expect(addresses(result.pairs)).toEqual(['b', 'd']);
+    expect(result.removed).toBe(2);
+  });
+
+  it('should drop denied venues', () => {
+    const result = applyDexVenueFilter(pairs, { allow: [], deny: ['raydium'] });
+    expect(addresses(result.pairs)).toEqual(['b', 'c', 'd']);
+    expect(result.removed).toBe(1);
+  });
+
+  it('should let deny win over allow', () => {
+    const result = applyDexVenueFilter(pairs, { allow: ['orca', 'raydium'], deny: ['orca'] });
+    expect(addresses(result.pairs)).toEqual(['a']);
+  });
+});
+
+describe('mergeSeenDexIds', () => {
+  const now = Date.parse('2025-06-30T00:00:00.000Z');
+  const day = 24 * 60 * 60 * 1000;
+
+  it('should add new venues in lower case with the current time', () => {
+    expect(mergeSeenDexIds({}, ['Raydium', 'orca', ''], now)).toEqual({
+      raydium: '2025-06-30T00:00:00.000Z',
+      orca: '2025-06-30T00:00:00.000Z',
+    });
+  });
+
+  it('should drop venues not seen within the retention window', () => {
+    const seen = {
+      raydium: new Date(now - (SEEN_DEX_ID_RETENTION_DAYS + 1) * day).toISOString(),
+      orca: new Date(now - day).toISOString(),
+    };
+    expect(Object.keys(mergeSeenDexIds(seen, ['pumpswap'], now)).sort()).toEqual([
+      'orca',
+      'pumpswap',
+    ]);
+  });
+
+  it('should refresh venues seen again', () => {
+    const seen = { raydium: new Date(now - (SEEN_DEX_ID_RETENTION_DAYS + 1) * day).toISOString() };
+    expect(mergeSeenDexIds(seen, ['raydium'], now)).toEqual({
+      raydium: '2025-06-30T00:00:00.000Z',
+    });
+  });
+});
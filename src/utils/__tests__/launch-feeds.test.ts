@@ -0,0 +1,76 @@
+// Launch Feed Tests
+import { describe, it, expect } from 'vitest';
+import { makePair, makeToken } from '@/test/fixtures';
+import { attachPromotions, combineLaunchFeeds } from '../launch-feeds';
+import type { DexPair, DexScreenerTokenBoost, DexScreenerTokenProfile } from '@/types/dexscreener';
+
+function makeProfile(tokenAddress: string, chainId = 'solana'): DexScreenerTokenProfile {
+  return { url: `https://dexscreener.com/${chainId}/${tokenAddress}`, chainId, tokenAddress };
+}
+
+function makeBoost(
+  tokenAddress: string,
+  totalAmount: number,
+  chainId = 'solana'
+): DexScreenerTokenBoost {
+  return {
+    url: `https://dexscreener.com/${chainId}/${tokenAddress}`,
+    chainId,
+    tokenAddress,
+    amount: 10,
+    totalAmount,
+  };
+}
+
+function makeLaunchPair(pairAddress: string, tokenAddress: string): DexPair {
+  return makePair({ pairAddress, dexId: 'pumpswap', baseToken: makeToken(tokenAddress) });
+}
+
+describe('combineLaunchFeeds', () => {
+  it('should merge the feeds per token on the chain', () => {
+    const launches = combineLaunchFeeds(
+      'solana',
+      [makeProfile('TokenA'), makeProfile('TokenC', 'base')],
+      [makeBoost('tokena', 50), makeBoost('TokenB', 100)],
+      [makeBoost('TokenB', 700)]
+    );
+
+    expect([...launches.keys()]).toEqual(['tokena', 'tokenb']);
+    expect(launches.get('tokena')).toEqual({
+      tokenAddress: 'TokenA',
+      promotion: { boostAmount: 50, hasProfile: true, feeds: ['profiles', 'latestBoosts'] },
+    });
+    expect(launches.get('tokenb')?.promotion).toEqual({
+      boostAmount: 700,
+      hasProfile: false,
+      feeds: ['latestBoosts', 'topBoosts'],
+    });
+  });
+
+  it('should fall back to the order amount when the boost total is missing', () => {
+    const launches = combineLaunchFeeds(
+      'solana',
+      [],
+      [{ ...makeBoost('TokenA', 0), totalAmount: undefined, amount: 30 }],
+      []
+    );
+    expect(launches.get('tokena')?.promotion.boostAmount).toBe(30);
+  });
+});
+
+describe('attachPromotions', () => {
+  it('should keep launch token pairs and mark their promotion', () => {
+    const launches = combineLaunchFeeds('solana', [makeProfile('TokenA')], [], []);
+    const pairs = attachPromotions(
+      [makeLaunchPair('p1', 'TokenA'), makeLaunchPair('p2', 'Other')],
+      launches
+    );
+
+    expect(pairs.map(pair => pair.pairAddress)).toEqual(['p1']);
+    expect(pairs[0].promotion).toEqual({
+      boostAmount: 0,
+      hasProfile: true,
+      feeds: ['profiles'],
+    });
+  });
+});
@@ -0,0 +1,126 @@
+// Pair Feature Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair } from '@/test/fixtures';
+import { calculateMomentumBreakdown, extractPairFeatures, getPairFeatures } from '../pair-features';
+import { calculateRiskLevel } from '../risk-assessment';
+import { buildTokenPrompt } from '@/background/utils/prompt-builder';
+import type { DexPair } from '@/types/dexscreener';
+
+const NOW = Date.UTC(2025, 0, 1);
+const HOUR_MS = 60 * 60 * 1000;
+
+function makeActivePair(overrides: Partial<DexPair> = {}): DexPair {
+  return makePair({
+    txns: { m5: { buys: 30, sells: 10 }, h1: { buys: 100, sells: 100 } },
+    volume: { m5: 2_000, h1: 12_000, h6: 60_000, h24: 200_000 },
+    priceChange: { m5: 4, h1: 8, h6: 12, h24: 20 },
+    liquidity: makeLiquidity(50_000),
+    marketCap: 500_000,
+    pairCreatedAt: NOW - 48 * HOUR_MS,
+    ...overrides,
+  });
+}
+
+describe('extractPairFeatures', () => {
+  it('should derive pressure, acceleration and health from the pair', () => {
+    const features = extractPairFeatures(makeActivePair(), 'm5', NOW);
+
+    expect(features.ageHours).toBe(48);
+    expect(features.buyRatio).toBe(0.75);
+    expect(features.buyPressure).toBe(0.5);
+    expect(features.volumeAcceleration).toBeGreaterThan(0);
+    expect(features.volumeToLiquidity).toBe(4);
+    expect(features.liquidityHealth).toBe(1);
+    expect(features.ageRiskMultiplier).toBe(0.8);
+  });
+
+  it('should use the requested timeframe for buy pressure', () => {
+    const features = extractPairFeatures(makeActivePair(), 'h1', NOW);
+    expect(features.buyRatio).toBe(0.5);
+    expect(features.buyPressure).toBe(0);
+  });
+
+  it('should score aligned trends above mixed ones', () => {
+    const aligned = extractPairFeatures(makeActivePair(), 'm5', NOW);
+    const mixed = extractPairFeatures(
+      makeActivePair({ priceChange: { m5: 4, h1: -8, h6: 12, h24: -20 } }),
+      'm5',
+      NOW
+    );
+
+    expect(aligned.trendConsistency).toBeGreaterThan(mixed.trendConsistency);
+    expect(mixed.momentumShift).toBe('reversing');
+  });
+
+  it('should classify volatility patterns', () => {
+    const classify = (priceChange: DexPair['priceChange']) =>
+      extractPairFeatures(makeActivePair({ priceChange }), 'm5', NOW).volatilityPattern;
+
+    expect(classify({})).toBe('none');
+    expect(classify({ m5: 1, h1: 2, h24: 4 })).toBe('low');
+    expect(classify({ m5: 30, h1: 32 })).toBe('consistentHigh');
+    expect(classify({ m5: 2, h24: 40 })).toBe('spike');
+  });
+
+  it('should leave age unknown without a creation time', () => {
+    const features = extractPairFeatures(makeActivePair({ pairCreatedAt: undefined }), 'm5', NOW);
+    expect(features.ageHours).toBeUndefined();
+    expect(features.ageRiskMultiplier).toBe(1);
+  });
+
+  it('should lower the age multiplier for new pairs', () => {
+    const fresh = extractPairFeatures(
+      makeActivePair({ pairCreatedAt: NOW - HOUR_MS / 2 }),
+      'm5',
+      NOW
+    );
+    expect(fresh.ageRiskMultiplier).toBe(0.3);
+  });
+});
+
+describe('calculateMomentumBreakdown', () => {
+  const breakdownOf = (pair: DexPair) =>
+    calculateMomentumBreakdown(pair, extractPairFeatures(pair, 'm5', NOW));
+
+  it('should add up the parts and apply the risk multiplier', () => {
+    const breakdown = breakdownOf(makeActivePair());
+    const { total, riskMultiplier, ...parts } = breakdown;
+
+    expect(breakdown.priceScore).toBe(40);
+    expect(breakdown.liquidityBonus).toBe(5);
+    expect(breakdown.buyPressureBonus).toBe(7.5);
+    expect(riskMultiplier).toBe(0.8);
+    expect(total).toBeCloseTo(Object.values(parts).reduce((a, b) => a + b, 0) * 0.8);
+  });
+
+  it('should zero scams and let trusted labels offset the age penalty', () => {
+    expect(breakdownOf(makeActivePair({ labels: ['Scam'] })).total).toBe(0);
+    expect(breakdownOf(makeActivePair({ labels: ['verified'] })).riskMultiplier).toBeCloseTo(0.92);
+    expect(breakdownOf(makeActivePair({ labels: ['top', 'verified'] })).riskMultiplier).toBe(1);
+  });
+
+  it('should rank new pairs lower', () => {
+    const fresh = breakdownOf(makeActivePair({ pairCreatedAt: NOW - HOUR_MS / 2 }));
+    expect(fresh.total).toBeLessThan(breakdownOf(makeActivePair()).total);
+  });
+});
+
+describe('getPairFeatures', () => {
+  it('should extract once per pair and timeframe', () => {
+    const pair = makeActivePair();
+
+    expect(getPairFeatures(pair, 'm5')).toBe(getPairFeatures(pair, 'm5'));
+    expect(getPairFeatures(pair, 'h1')).not.toBe(getPairFeatures(pair, 'm5'));
+  });
+
+  it('should give the prompt and risk scoring the same numbers', () => {
+    const pair = makeActivePair({ priceChange: { m5: 30, h1: 5 } });
+    const features = getPairFeatures(pair, 'm5');
+    const { breakdown } = calculateRiskLevel(pair);
+    const prompt = buildTokenPrompt(pair, 'm5');
+
+    expect(breakdown.volatilityReasonParams.change5m).toBe(features.priceSwing5m.toFixed(1));
+    expect(prompt).toContain(`Trend Strength: ${(features.trendConsistency * 100).toFixed(0)}/100`);
+    expect(prompt).toContain('5-minute Buy Pressure: 75%');
+  });
+});
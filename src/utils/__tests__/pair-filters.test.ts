@@ -0,0 +1,84 @@
+// Pair Filter Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair, makeToken } from '@/test/fixtures';
+import { applyPairFilters, getActivePairFilters } from '../pair-filters';
+import type { DexPair } from '@/types/dexscreener';
+
+function makeFilterPair(pairAddress: string, overrides: Partial<DexPair> = {}): DexPair {
+  return makePair({
+    pairAddress,
+    baseToken: makeToken(pairAddress),
+    txns: { h1: { buys: 30, sells: 20 } },
+    volume: { h1: 20_000 },
+    liquidity: makeLiquidity(50_000),
+    marketCap: 400_000,
+    fdv: 500_000,
+    ...overrides,
+  });
+}
+
+const addresses = (pairs: DexPair[]) => pairs.map(pair => pair.pairAddress);
+
+describe('getActivePairFilters', () => {
+  it('should list only filters with a bound', () => {
+    expect(getActivePairFilters({})).toEqual([]);
+    expect(getActivePairFilters({ liquidityUsd: {}, fdv: { max: 1_000_000 }, minTxns: 0 })).toEqual(
+      ['fdv']
+    );
+    expect(getActivePairFilters({ minTxns: 10, marketCap: { min: 0 } })).toEqual([
+      'marketCap',
+      'minTxns',
+    ]);
+  });
+});
+
+describe('applyPairFilters', () => {
+  it('should return the pairs untouched without filters', () => {
+    const pairs = [makeFilterPair('a')];
+    expect(applyPairFilters(pairs, {}, 'h1')).toEqual({ pairs, removed: {} });
+  });
+
+  it('should apply inclusive bounds and count removals per filter', () => {
+    const pairs = [
+      makeFilterPair('ok'),
+      makeFilterPair('edge', { liquidity: { usd: 5_000, base: 0, quote: 0 } }),
+      makeFilterPair('thin', { liquidity: { usd: 800, base: 0, quote: 0 } }),
+      makeFilterPair('bigFdv', { fdv: 50_000_000 }),
+      makeFilterPair('diluted', { fdv: 2_000_000 }),
+      makeFilterPair('quiet', { txns: { h1: { buys: 2, sells: 1 } } }),
+    ];
+
+    const { pairs: kept, removed } = applyPairFilters(
+      pairs,
+      {
+        liquidityUsd: { min: 5_000 },
+        fdv: { max: 10_000_000 },
+        fdvToMcap: { max: 3 },
+        minTxns: 10,
+      },
+      'h1'
+    );
+
+    expect(addresses(kept)).toEqual(['ok', 'edge']);
+    expect(removed).toEqual({ liquidityUsd: 1, fdv: 1, fdvToMcap: 1, minTxns: 1 });
+  });
+
+  it('should use the timeframe for volume and transactions', () => {
+    const pairs = [makeFilterPair('a')];
+
+    expect(applyPairFilters(pairs, { volume: { min: 10_000 } }, 'h1').pairs).toHaveLength(1);
+    expect(applyPairFilters(pairs, { volume: { min: 10_000 } }, 'h24').pairs).toHaveLength(0);
+    expect(applyPairFilters(pairs, { minTxns: 1 }, 'm5').pairs).toHaveLength(0);
+  });
+
+  it('should drop pairs missing a filtered metric', () => {
+    const { pairs: kept, removed } = applyPairFilters(
+      [makeFilterPair('noCap', { marketCap: undefined }), makeFilterPair('a')],
+      { fdvToMcap: { min: 1 } },
+      'h1'
+    );
+
+    expect(addresses(kept)).toEqual(['a']);
+    expect(removed).toEqual({ fdvToMcap: 1 });
+  });
+});
@@ -0,0 +1,129 @@
+// Pick Performance Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair } from '@/test/fixtures';
+import {
+  buildPickOutcome,
+  buildTrackedPicks,
+  getDueCheckpoints,
+  summarizePerformance,
+} from '../performance';
+import type { HistoryEntry } from '@/types/analysis';
+import type { PickOutcome, TrackedPick } from '@/types/performance';
+
+const PICKED_AT = '2026-01-01T00:00:00.000Z';
+const HOUR = 60 * 60 * 1000;
+
+function makeEntry(): HistoryEntry {
+  return {
+    id: 'entry',
+    timestamp: PICKED_AT,
+    chain: 'solana',
+    model: 'openai/gpt-4o',
+    timeframe: 'h1',
+    maxPairs: 20,
+    result: {
+      analysis: '',
+      pairs: [
+        { pairAddress: 'a', symbol: 'A/SOL', priceUsd: '2', liquidity: 100_000 },
+        { pairAddress: 'b', symbol: 'B/SOL', priceUsd: '1', liquidity: 50_000 },
+        { pairAddress: 'c', symbol: 'C/SOL', priceUsd: '0', liquidity: 10_000 },
+      ],
+      topPick: { pairAddress: 'a', symbol: 'A/SOL' },
+      runnerUps: [{ pairAddress: 'b' }, { pairAddress: 'c' }, { symbol: 'UNMATCHED' }],
+      metadata: { model: 'anthropic/claude-3.5-sonnet' },
+    },
+  };
+}
+
+function makePick(outcomes: TrackedPick['outcomes'] = {}, model = 'm1'): TrackedPick {
+  return {
+    id: `entry:${model}`,
+    historyId: 'entry',
+    role: 'topPick',
+    chain: 'solana',
+    pairAddress: 'a',
+    model,
+    timeframe: 'h1',
+    pickedAt: PICKED_AT,
+    entryPriceUsd: 2,
+    entryLiquidityUsd: 100_000,
+    outcomes,
+  };
+}
+
+function outcome(priceChangePct?: number, liquidityChangePct = 0): PickOutcome {
+  return {
+    checkedAt: PICKED_AT,
+    priceUsd: priceChangePct === undefined ? undefined : 1,
+    priceChangePct,
+    liquidityChangePct,
+  };
+}
+
+describe('buildTrackedPicks', () => {
+  it('should track the top pick and matched runner-ups with an entry price', () => {
+    const picks = buildTrackedPicks(makeEntry());
+
+    expect(picks.map(pick => [pick.role, pick.pairAddress])).toEqual([
+      ['topPick', 'a'],
+      ['runnerUp', 'b'],
+    ]);
+    expect(picks[0]).toMatchObject({
+      id: 'entry:a',
+      model: 'anthropic/claude-3.5-sonnet',
+      entryPriceUsd: 2,
+      entryLiquidityUsd: 100_000,
+    });
+  });
+});
+
+describe('getDueCheckpoints', () => {
+  it('should return passed checkpoints without an outcome', () => {
+    const start = new Date(PICKED_AT).getTime();
+    expect(getDueCheckpoints(makePick(), start + 30 * 60 * 1000)).toEqual([]);
+    expect(getDueCheckpoints(makePick(), start + 7 * HOUR)).toEqual([1, 6]);
+    expect(getDueCheckpoints(makePick({ 1: outcome(5) }), start + 7 * HOUR)).toEqual([6]);
+  });
+});
+
+describe('buildPickOutcome', () => {
+  const start = new Date(PICKED_AT).getTime();
+  const pair = makePair({ priceUsd: '3', liquidity: makeLiquidity(40_000) });
+
+  it('should compute price and liquidity change from entry', () => {
+    expect(buildPickOutcome(makePick(), 1, pair, start + HOUR + 60_000)).toMatchObject({
+      priceUsd: 3,
+      priceChangePct: 50,
+      liquidityUsd: 40_000,
+      liquidityChangePct: -60,
+    });
+  });
+
+  it('should record a vanished pair without a price', () => {
+    const result = buildPickOutcome(makePick(), 6, null, start + 6 * HOUR);
+    expect(result.priceUsd).toBeUndefined();
+    expect(result.missed).toBeUndefined();
+  });
+
+  it('should mark checkpoints measured too late as missed', () => {
+    expect(buildPickOutcome(makePick(), 1, pair, start + 2 * HOUR).missed).toBe(true);
+  });
+});
+
+describe('summarizePerformance', () => {
+  it('should compute hit rate, median return and rugged count per group', () => {
+    const picks = [
+      makePick({ 6: outcome(20) }, 'm1'),
+      makePick({ 6: outcome(-10) }, 'm1'),
+      makePick({ 6: outcome(40, -70) }, 'm1'),
+      makePick({ 6: outcome(undefined) }, 'm2'),
+      makePick({ 6: { checkedAt: PICKED_AT, missed: true } }, 'm2'),
+      makePick({ 1: outcome(5) }, 'm3'),
+    ];
+
+    expect(summarizePerformance(picks, 'model', 6)).toEqual([
+      { key: 'm1', picks: 3, hits: 2, hitRate: 2 / 3, medianReturnPct: 20, rugged: 1 },
+      { key: 'm2', picks: 1, hits: 0, hitRate: 0, medianReturnPct: -100, rugged: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+// Ranking Strategy Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair, makeToken } from '@/test/fixtures';
+import { FRESH_LAUNCH_MIN_TXNS_H1, RANKING_STRATEGIES, rankPairs } from '../ranking-strategies';
+import { extractPairFeatures } from '../pair-features';
+import { BALANCED_RISK_PROFILE } from '@/types/risk-profile';
+import { RANKING_STRATEGY_IDS } from '@/types/ranking';
+import type { DexPair } from '@/types/dexscreener';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function makeRankedPair(pairAddress: string, overrides: Partial<DexPair> = {}): DexPair {
+  return makePair({
+    pairAddress,
+    baseToken: makeToken(pairAddress),
+    txns: {
+      m5: { buys: 10, sells: 10 },
+      h1: { buys: 50, sells: 50 },
+      h24: { buys: 900, sells: 900 },
+    },
+    volume: { m5: 1_000, h1: 12_000, h6: 72_000, h24: 300_000 },
+    priceChange: { m5: 1, h1: 2, h6: 3, h24: 4 },
+    liquidity: makeLiquidity(100_000),
+    marketCap: 1_000_000,
+    pairCreatedAt: Date.now() - 30 * 24 * HOUR_MS,
+    info: { socials: [{ platform: 'twitter', handle: pairAddress }] },
+    ...overrides,
+  });
+}
+
+const rankIds = (pairs: DexPair[], strategy: Parameters<typeof rankPairs>[1]) =>
+  rankPairs(pairs, strategy, { timeframe: 'm5' }).map(pair => pair.pairAddress);
+
+describe('RANKING_STRATEGIES', () => {
+  it('should define every strategy ID', () => {
+    expect(Object.keys(RANKING_STRATEGIES).sort()).toEqual([...RANKING_STRATEGY_IDS].sort());
+  });
+
+  it('should score the momentum strategy like the momentum breakdown', () => {
+    const pair = makeRankedPair('a');
+    const features = extractPairFeatures(pair, 'm5');
+    const score = RANKING_STRATEGIES.momentum(pair, features, {
+      timeframe: 'm5',
+      riskProfile: BALANCED_RISK_PROFILE,
+      rules: [],
+    });
+
+    expect(score).toBeGreaterThan(0);
+  });
+});
+
+describe('rankPairs', () => {
+  it('should order fresh launches newest first and drop inactive pairs', () => {
+    const pairs = [
+      makeRankedPair('old'),
+      makeRankedPair('new', { pairCreatedAt: Date.now() - HOUR_MS }),
+      makeRankedPair('newer', { pairCreatedAt: Date.now() - HOUR_MS / 4 }),
+      makeRankedPair('quiet', {
+        pairCreatedAt: Date.now() - HOUR_MS / 10,
+        txns: { h1: { buys: FRESH_LAUNCH_MIN_TXNS_H1 - 1, sells: 0 } },
+      }),
+      makeRankedPair('undated', { pairCreatedAt: undefined }),
+    ];
+
+    expect(rankIds(pairs, 'freshLaunches')).toEqual(['newer', 'new', 'old']);
+  });
+
+  it('should order top gainers by the timeframe change', () => {
+    const pairs = [
+      makeRankedPair('flat'),
+      makeRankedPair('pump', { priceChange: { m5: 40 } }),
+      makeRankedPair('dump', { priceChange: { m5: -30 } }),
+    ];
+
+    expect(rankIds(pairs, 'topGainers')).toEqual(['pump', 'flat', 'dump']);
+  });
+
+  it('should keep only pairs with accelerating volume for volume surge', () => {
+    const pairs = [
+      makeRankedPair('steady'),
+      makeRankedPair('surge', { volume: { m5: 5_000, h1: 20_000, h6: 72_000 } }),
+    ];
+
+    expect(rankIds(pairs, 'volumeSurge')).toEqual(['surge']);
+  });
+
+  it('should weight buy pressure by trade count', () => {
+    const pairs = [
+      makeRankedPair('single', { txns: { m5: { buys: 1, sells: 0 } } }),
+      makeRankedPair('crowd', { txns: { m5: { buys: 90, sells: 10 } } }),
+      makeRankedPair('sellers', { txns: { m5: { buys: 10, sells: 90 } } }),
+      makeRankedPair('idle', { txns: {} }),
+    ];
+
+    expect(rankIds(pairs, 'buyPressure')).toEqual(['crowd', 'single', 'sellers']);
+  });
+
+  it('should rank rising low-risk pairs first for safest movers', () => {
+    const pairs = [
+      makeRankedPair('risky', {
+        liquidity: { usd: 2_000, base: 0, quote: 0 },
+        priceChange: { m5: 3 },
+      }),
+      makeRankedPair('safe'),
+      makeRankedPair('falling', { priceChange: { m5: -3 } }),
+    ];
+
+    expect(rankIds(pairs, 'safestMovers')).toEqual(['safe', 'risky']);
+  });
+});
@@ -0,0 +1,207 @@
+// Risk Profile Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair } from '@/test/fixtures';
+import { calculateRiskLevel, getRiskLevelForScore } from '../risk-assessment';
+import { createCustomRiskProfile, resolveRiskProfile, validateRiskProfile } from '../risk-profiles';
+import {
+  BALANCED_RISK_PROFILE,
+  CONSERVATIVE_RISK_PROFILE,
+  DEGEN_RISK_PROFILE,
+  type RiskProfile,
+} from '@/types/risk-profile';
+import type { DexPair } from '@/types/dexscreener';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function makeNewPair(overrides: Partial<DexPair> = {}): DexPair {
+  return makePair({
+    txns: { m5: { buys: 10, sells: 8 }, h24: { buys: 500, sells: 400 } },
+    volume: { h24: 60_000 },
+    priceChange: { m5: 2, h1: 5 },
+    liquidity: makeLiquidity(20_000),
+    marketCap: 200_000,
+    pairCreatedAt: Date.now() - 3 * HOUR_MS,
+    info: { socials: [{ platform: 'twitter', handle: 'pepe' }] },
+    ...overrides,
+  });
+}
+
+describe('calculateRiskLevel with risk profiles', () => {
+  it('should use the Balanced profile by default', () => {
+    const pair = makeNewPair();
+    expect(calculateRiskLevel(pair)).toEqual(calculateRiskLevel(pair, [], BALANCED_RISK_PROFILE));
+  });
+
+  it('should keep the original Balanced thresholds', () => {
+    const { score, level, breakdown } = calculateRiskLevel(makeNewPair());
+
+    // 20 (< 1 day) + 20 (< $50k liquidity) - 10 (socials on a new pair)
+    expect(score).toBe(30);
+    expect(level).toBe('caution');
+    expect(breakdown.ageMax + breakdown.liquidityMax + breakdown.volumeMax).toBe(80);
+    expect(breakdown.profileId).toBe('balanced');
+    expect(breakdown.levelCutoffs).toEqual({ caution: 20, warning: 40, danger: 60, critical: 80 });
+  });
+
+  it('should score the same pair higher under Conservative and lower under Degen', () => {
+    const pair = makeNewPair();
+    const balanced = calculateRiskLevel(pair, [], BALANCED_RISK_PROFILE);
+    const conservative = calculateRiskLevel(pair, [], CONSERVATIVE_RISK_PROFILE);
+    const degen = calculateRiskLevel(pair, [], DEGEN_RISK_PROFILE);
+
+    expect(conservative.score).toBeGreaterThan(balanced.score);
+    expect(degen.score).toBeLessThan(balanced.score);
+    expect(degen.level).toBe('safe');
+    expect(conservative.level).not.toBe('safe');
+  });
+
+  it('should match custom label lists', () => {
+    const profile: RiskProfile = {
+      ...BALANCED_RISK_PROFILE,
+      labels: { ...BALANCED_RISK_PROFILE.labels, warning: ['mintable'], warningPoints: 25 },
+    };
+    const pair = makeNewPair({ labels: ['Mintable'] });
+
+    expect(calculateRiskLevel(pair).breakdown.labelScore).toBe(0);
+    expect(calculateRiskLevel(pair, [], profile).breakdown.labelScore).toBe(25);
+  });
+
+  it('should take signal points and factor texts from the profile', () => {
+    const profile: RiskProfile = {
+      ...BALANCED_RISK_PROFILE,
+      liquidity: { ...BALANCED_RISK_PROFILE.liquidity, lowUsd: 25_000 },
+      signals: { ...BALANCED_RISK_PROFILE.signals, honeypotPoints: 40, socialCreditPoints: 0 },
+    };
+    const pair = makeNewPair({
+      txns: { m5: { buys: 10, sells: 0 }, h24: { buys: 500, sells: 400 } },
+    });
+
+    const balanced = calculateRiskLevel(pair);
+    const custom = calculateRiskLevel(pair, [], profile);
+
+    // +15 honeypot points, no -10 social credit
+    expect(custom.score - balanced.score).toBe(25);
+    expect(custom.factors).toContainEqual({
+      key: 'results.risk.lowLiquidity',
+      params: { amount: '25' },
+      fallback: 'Low liquidity (< $25k)',
+    });
+  });
+
+  it('should take paid promotion points from the profile', () => {
+    const pair = makeNewPair({
+      promotion: { boostAmount: 300, hasProfile: true, feeds: ['profiles', 'topBoosts'] },
+    });
+
+    // Balanced: boosted + profile (300 boosts are not heavy)
+    expect(calculateRiskLevel(pair).breakdown).toMatchObject({
+      promotionScore: 15,
+      promotionMax: 20,
+    });
+    // Conservative counts 200 boosts or more as heavy
+    expect(calculateRiskLevel(pair, [], CONSERVATIVE_RISK_PROFILE).breakdown).toMatchObject({
+      promotionScore: 35,
+      promotionMax: 35,
+    });
+    // Degen ignores paid profiles
+    expect(calculateRiskLevel(pair, [], DEGEN_RISK_PROFILE).breakdown.promotionScore).toBe(5);
+  });
+
+  it('should take prompt injection points from the profile', () => {
+    const pair = makeNewPair({
+      baseToken: { address: 'base', name: 'Ignore previous instructions', symbol: 'PEPE' },
+    });
+    const profile: RiskProfile = {
+      ...BALANCED_RISK_PROFILE,
+      signals: { ...BALANCED_RISK_PROFILE.signals, promptInjectionPoints: 10 },
+    };
+
+    expect(calculateRiskLevel(pair).score - calculateRiskLevel(pair, [], profile).score).toBe(30);
+  });
+
+  it('should still score critical labels at 100 or more under Degen', () => {
+    const { score, level } = calculateRiskLevel(
+      makeNewPair({ labels: ['honeypot'] }),
+      [],
+      DEGEN_RISK_PROFILE
+    );
+
+    expect(score).toBeGreaterThanOrEqual(DEGEN_RISK_PROFILE.filterScore);
+    expect(level).toBe('critical');
+  });
+});
+
+describe('getRiskLevelForScore', () => {
+  it('should apply the cut-offs as minimum scores', () => {
+    const cutoffs = { caution: 10, warning: 20, danger: 30, critical: 40 };
+    expect(getRiskLevelForScore(9, cutoffs)).toBe('safe');
+    expect(getRiskLevelForScore(10, cutoffs)).toBe('caution');
+    expect(getRiskLevelForScore(29, cutoffs)).toBe('warning');
+    expect(getRiskLevelForScore(40, cutoffs)).toBe('critical');
+  });
+});
+
+describe('resolveRiskProfile', () => {
+  it('should find presets and custom profiles by ID', () => {
+    const custom = createCustomRiskProfile(DEGEN_RISK_PROFILE, 'Mine');
+
+    expect(resolveRiskProfile('conservative', [])).toBe(CONSERVATIVE_RISK_PROFILE);
+    expect(resolveRiskProfile(custom.id, [custom])).toBe(custom);
+  });
+
+  it('should fall back to Balanced for unknown IDs', () => {
+    expect(resolveRiskProfile('deleted', [])).toBe(BALANCED_RISK_PROFILE);
+  });
+});
+
+describe('createCustomRiskProfile', () => {
+  it('should copy the base profile without sharing nested objects', () => {
+    const custom = createCustomRiskProfile(BALANCED_RISK_PROFILE, 'Mine');
+    custom.labels.critical.push('mintable');
+
+    expect(custom.id).not.toBe('balanced');
+    expect(custom.builtIn).toBe(false);
+    expect(BALANCED_RISK_PROFILE.labels.critical).not.toContain('mintable');
+  });
+});
+
+describe('validateRiskProfile', () => {
+  it('should accept the presets', () => {
+    for (const preset of [CONSERVATIVE_RISK_PROFILE, BALANCED_RISK_PROFILE, DEGEN_RISK_PROFILE]) {
+      expect(validateRiskProfile(preset)).toEqual([]);
+    }
+  });
+
+  it('should reject unordered cut-offs, negative values and empty names', () => {
+    const profile: RiskProfile = {
+      ...BALANCED_RISK_PROFILE,
+      name: ' ',
+      levels: { caution: 50, warning: 40, danger: 60, critical: 80 },
+      volume: { ...BALANCED_RISK_PROFILE.volume, lowPoints: -5 },
+    };
+
+    expect(validateRiskProfile(profile)).toEqual([
+      'riskProfiles.errors.name',
+      'riskProfiles.errors.negative',
+      'riskProfiles.errors.levelOrder',
+    ]);
+  });
+
+  it('should reject negative paid promotion points', () => {
+    const profile: RiskProfile = {
+      ...BALANCED_RISK_PROFILE,
+      signals: { ...BALANCED_RISK_PROFILE.signals, paidProfilePoints: -5 },
+    };
+
+    expect(validateRiskProfile(profile)).toEqual(['riskProfiles.errors.negative']);
+  });
+
+  it('should reject empty number fields', () => {
+    const profile: RiskProfile = {
+      ...BALANCED_RISK_PROFILE,
+      age: { ...BALANCED_RISK_PROFILE.age, weekDays: NaN },
+    };
+
+    expect(validateRiskProfile(profile)).toEqual(['riskProfiles.errors.negative']);
+  });
+});
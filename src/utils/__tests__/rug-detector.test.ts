@@ -0,0 +1,128 @@
+// Rug-Pull Detector Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair } from '@/test/fixtures';
+import { detectRugSignals, getRugMaxScore } from '../rug-detector';
+import { calculateRiskLevel } from '../risk-assessment';
+import { BALANCED_RISK_PROFILE, CONSERVATIVE_RISK_PROFILE } from '@/types/risk-profile';
+import type { DexPair } from '@/types/dexscreener';
+import type { PairSnapshot } from '@/types/snapshot';
+
+function makeLiquidPair(liquidity: number, overrides: Partial<DexPair> = {}): DexPair {
+  return makePair({
+    txns: { h1: { buys: 20, sells: 15 }, h24: { buys: 200, sells: 150 } },
+    volume: { h24: 100_000 },
+    priceChange: { h24: 1 },
+    liquidity: makeLiquidity(liquidity),
+    marketCap: 1_000_000,
+    ...overrides,
+  });
+}
+
+function makeSnapshot(liquidityUsd: number, overrides: Partial<PairSnapshot> = {}): PairSnapshot {
+  return {
+    key: 'solana:pair',
+    at: Date.now() - 60 * 60 * 1000,
+    priceUsd: 1,
+    liquidityUsd,
+    marketCap: 1_000_000,
+    buysH1: 20,
+    sellsH1: 15,
+    ...overrides,
+  };
+}
+
+describe('detectRugSignals', () => {
+  it('should return nothing without history', () => {
+    expect(detectRugSignals(makeLiquidPair(10_000), [])).toEqual([]);
+  });
+
+  it('should return nothing for stable liquidity', () => {
+    expect(detectRugSignals(makeLiquidPair(95_000), [makeSnapshot(100_000)])).toEqual([]);
+  });
+
+  it('should flag liquidity pulled from the peak', () => {
+    const signals = detectRugSignals(makeLiquidPair(40_000), [
+      makeSnapshot(80_000),
+      makeSnapshot(100_000),
+      makeSnapshot(90_000),
+    ]);
+
+    expect(signals[0]).toEqual({
+      kind: 'liquidityDrop',
+      points: 25,
+      params: { drop: '60', peak: '100.0' },
+    });
+  });
+
+  it('should score smaller drops lower', () => {
+    const [signal] = detectRugSignals(makeLiquidPair(70_000), [makeSnapshot(100_000)]);
+    expect(signal.kind).toBe('liquidityDrop');
+    expect(signal.points).toBe(15);
+  });
+
+  it('should flag a liquidity/market cap collapse', () => {
+    // Market cap pumped while liquidity stayed flat: 10% -> 2.5%
+    const signals = detectRugSignals(makeLiquidPair(100_000, { marketCap: 4_000_000 }), [
+      makeSnapshot(100_000),
+    ]);
+
+    expect(signals).toEqual([
+      { kind: 'liquidityMcapCollapse', points: 10, params: { from: '10.0', to: '2.5' } },
+    ]);
+  });
+
+  it('should not flag a falling ratio when liquidity grew', () => {
+    const signals = detectRugSignals(makeLiquidPair(150_000, { marketCap: 4_000_000 }), [
+      makeSnapshot(100_000),
+    ]);
+    expect(signals).toEqual([]);
+  });
+
+  it('should flag an exodus of sellers', () => {
+    const signals = detectRugSignals(
+      makeLiquidPair(100_000, { txns: { h1: { buys: 10, sells: 60 } } }),
+      [makeSnapshot(100_000, { sellsH1: 12 }), makeSnapshot(100_000, { sellsH1: 18 })]
+    );
+
+    expect(signals).toEqual([
+      { kind: 'sellerExodus', points: 10, params: { sells: 60, buys: 10 } },
+    ]);
+  });
+
+  it('should take signal points from the profile', () => {
+    const signals = detectRugSignals(
+      makeLiquidPair(40_000, { txns: { h1: { buys: 10, sells: 60 } } }),
+      [makeSnapshot(100_000, { sellsH1: 12 })],
+      CONSERVATIVE_RISK_PROFILE.signals
+    );
+
+    expect(signals.map(signal => [signal.kind, signal.points])).toEqual([
+      ['liquidityDrop', CONSERVATIVE_RISK_PROFILE.signals.liquidityHeavyDropPoints],
+      ['liquidityMcapCollapse', CONSERVATIVE_RISK_PROFILE.signals.liquidityMcapCollapsePoints],
+      ['sellerExodus', CONSERVATIVE_RISK_PROFILE.signals.sellerExodusPoints],
+    ]);
+  });
+});
+
+describe('calculateRiskLevel with history', () => {
+  it('should leave the rug row out without history', () => {
+    const { breakdown } = calculateRiskLevel(makeLiquidPair(40_000));
+    expect(breakdown.rugMax).toBeUndefined();
+  });
+
+  it('should add the rug row and factors when history exists', () => {
+    const stable = calculateRiskLevel(makeLiquidPair(100_000), [makeSnapshot(100_000)]);
+    expect(stable.breakdown.rugMax).toBe(getRugMaxScore(BALANCED_RISK_PROFILE.signals));
+    expect(stable.breakdown.rugScore).toBe(0);
+    expect(stable.breakdown.rugReasonKey).toBe('risk.rug.stable');
+
+    // Market cap fell with liquidity, so only the drop is flagged
+    const pair = makeLiquidPair(40_000, { marketCap: 400_000 });
+    const pulled = calculateRiskLevel(pair, [makeSnapshot(100_000)]);
+    const baseline = calculateRiskLevel(pair);
+    expect(pulled.breakdown.rugScore).toBe(25);
+    expect(pulled.breakdown.rugReasonKey).toBe('risk.rug.liquidityDrop');
+    expect(pulled.score).toBe(baseline.score + 25);
+    expect(pulled.factors.map(f => f.key)).toContain('results.risk.liquidityPulled');
+  });
+});
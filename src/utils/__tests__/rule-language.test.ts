@@ -0,0 +1,166 @@
+// Rule Language Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair } from '@/test/fixtures';
+import { compileRiskRules, compileRule, findExcludingRule, matchesRule } from '../rule-language';
+import { calculateRiskLevel } from '../risk-assessment';
+import { RuleSyntaxError } from '@/shared/errors';
+import type { DexPair } from '@/types/dexscreener';
+
+const NOW = Date.UTC(2025, 0, 1);
+const HOUR_MS = 60 * 60 * 1000;
+
+function makeLaunchPair(overrides: Partial<DexPair> = {}): DexPair {
+  return makePair({
+    dexId: 'pumpswap',
+    labels: ['CLMM'],
+    priceUsd: '0.0005',
+    txns: { h1: { buys: 30, sells: 0 }, h24: { buys: 300, sells: 100 } },
+    volume: { h24: 40_000 },
+    priceChange: { h1: 12 },
+    liquidity: makeLiquidity(4_000),
+    marketCap: 100_000,
+    pairCreatedAt: NOW - HOUR_MS,
+    ...overrides,
+  });
+}
+
+function matches(source: string, pair = makeLaunchPair()): boolean {
+  return matchesRule(compileRule(source), pair, NOW);
+}
+
+describe('compileRule', () => {
+  it('should parse point rules with a message', () => {
+    const rule = compileRule('liquidity.usd < 5000 and txns.h1.sells == 0 => +40 "no sells in 1h"');
+    expect(rule.action).toEqual({ kind: 'points', points: 40, message: 'no sells in 1h' });
+  });
+
+  it('should parse negative points and default the message to the condition', () => {
+    const rule = compileRule('labels contains "verified" => -10');
+    expect(rule.action).toEqual({
+      kind: 'points',
+      points: -10,
+      message: 'labels contains "verified"',
+    });
+  });
+
+  it('should parse exclude rules', () => {
+    const rule = compileRule('dexId == "pumpswap" and ageHours < 2 => exclude');
+    expect(rule.action.kind).toBe('exclude');
+  });
+
+  it.each([
+    ['liquidity.usd < 5000', 'Expected "=>"'],
+    ['liquidity.usd < => +5', 'Expected a value or field'],
+    ['liquidity.usd < 5000 => 40', 'Expected "+points", "-points" or "exclude"'],
+    ['window.alert == 1 => exclude', 'Unknown field "window"'],
+    ['baseToken.__proto__ == 1 => exclude', 'Expected a field name after "."'],
+    ['dexId == "raydium => exclude', 'Unterminated string'],
+    ['liquidity.usd ; 5 => exclude', 'Unexpected character ";"'],
+    ['(liquidity.usd < 5 => exclude', 'Expected ")"'],
+  ])('should reject %s', (source, message) => {
+    expect(() => compileRule(source)).toThrow(new RuleSyntaxError(message, 0));
+  });
+
+  it('should report the error position', () => {
+    try {
+      compileRule('liquidity.usd < 5000 => 40');
+      expect.unreachable();
+    } catch (error) {
+      expect((error as RuleSyntaxError).position).toBe(24);
+    }
+  });
+});
+
+describe('matchesRule', () => {
+  it('should evaluate comparisons on nested fields', () => {
+    expect(matches('liquidity.usd < 5000 and txns.h1.sells == 0 => +40')).toBe(true);
+    expect(matches('liquidity.usd >= 5000 or txns.h1.sells > 0 => +40')).toBe(false);
+  });
+
+  it('should compare strings case-insensitively', () => {
+    expect(matches('dexId == "PumpSwap" => exclude')).toBe(true);
+    expect(matches('baseToken.name contains "pe" => exclude')).toBe(true);
+    expect(matches('labels contains "clmm" => exclude')).toBe(true);
+  });
+
+  it('should coerce numeric strings', () => {
+    expect(matches('priceUsd < 0.001 => +5')).toBe(true);
+  });
+
+  it('should support derived metrics and arithmetic', () => {
+    expect(matches('ageHours < 2 => exclude')).toBe(true);
+    expect(matches('volumeToLiquidity > 5 => +10')).toBe(true);
+    expect(matches('buyRatioH1 == 1 => +10')).toBe(true);
+    expect(matches('volume.h24 / liquidity.usd >= 10 => +10')).toBe(true);
+    expect(matches('-priceChange.h1 < -10 => +10')).toBe(true);
+  });
+
+  it('should respect precedence and parentheses', () => {
+    expect(matches('dexId == "raydium" and txns.h1.buys > 0 or liquidity.usd < 5000 => +1')).toBe(
+      true
+    );
+    expect(matches('dexId == "raydium" and (txns.h1.buys > 0 or liquidity.usd < 5000) => +1')).toBe(
+      false
+    );
+    expect(matches('not dexId == "raydium" => +1')).toBe(true);
+  });
+
+  it('should never match comparisons on missing fields', () => {
+    const pair = makeLaunchPair({ pairCreatedAt: undefined, fdv: undefined });
+    expect(matches('ageHours < 2 => exclude', pair)).toBe(false);
+    expect(matches('ageHours >= 2 => exclude', pair)).toBe(false);
+    expect(matches('fdv > 0 => exclude', pair)).toBe(false);
+  });
+});
+
+describe('compileRiskRules', () => {
+  it('should keep only enabled, valid rules', () => {
+    const compiled = compileRiskRules([
+      { id: 'a', source: 'fdv > 0 => +5', enabled: true, createdAt: '' },
+      { id: 'b', source: 'fdv > 0 => +5', enabled: false, createdAt: '' },
+      { id: 'c', source: 'fdv >', enabled: true, createdAt: '' },
+    ]);
+
+    expect(compiled.map(rule => rule.id)).toEqual(['a']);
+  });
+});
+
+describe('findExcludingRule', () => {
+  it('should return the first matching exclude rule only', () => {
+    const rules = [
+      compileRule('liquidity.usd < 5000 => +40', 'points'),
+      compileRule('dexId == "pumpswap" => exclude', 'venue'),
+    ];
+
+    expect(findExcludingRule(makeLaunchPair(), rules, NOW)?.id).toBe('venue');
+    expect(findExcludingRule(makeLaunchPair({ dexId: 'raydium' }), rules, NOW)).toBeUndefined();
+  });
+});
+
+describe('calculateRiskLevel with rules', () => {
+  it('should add matching point rules as risk factors', () => {
+    const pair = makeLaunchPair();
+    const rules = [
+      compileRule('txns.h1.sells == 0 => +40 "no sells in 1h"'),
+      compileRule('dexId == "raydium" => +10'),
+    ];
+    const base = calculateRiskLevel(pair);
+    const { score, factors, breakdown } = calculateRiskLevel(pair, [], undefined, rules);
+
+    expect(score).toBe(base.score + 40);
+    expect(breakdown.ruleScore).toBe(40);
+    expect(breakdown.ruleMax).toBe(50);
+    expect(factors).toContainEqual({
+      key: 'results.risk.customRule',
+      params: { message: 'no sells in 1h', points: '+40' },
+      fallback: 'no sells in 1h (+40)',
+    });
+  });
+
+  it('should leave the breakdown untouched without point rules', () => {
+    const { breakdown } = calculateRiskLevel(makeLaunchPair(), [], undefined, [
+      compileRule('fdv > 0 => exclude'),
+    ]);
+    expect(breakdown.ruleMax).toBeUndefined();
+  });
+});
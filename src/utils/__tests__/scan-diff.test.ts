@@ -0,0 +1,117 @@
+// Scan Diff Tests
+import { describe, it, expect } from 'vitest';
+import {
+  diffAnalysisResults,
+  findPreviousComparable,
+  hasScanChanges,
+  orderResultPairs,
+} from '../scan-diff';
+import type { AnalysisResult, AnalyzedPair, HistoryEntry } from '@/types/analysis';
+
+function makePair(
+  pairAddress: string,
+  momentum?: number,
+  overrides: Partial<AnalyzedPair> = {}
+): AnalyzedPair {
+  return {
+    pairAddress,
+    symbol: `${pairAddress.toUpperCase()}/SOL`,
+    momentum,
+    riskLevel: 'caution',
+    ...overrides,
+  };
+}
+
+function makeResult(pairs: AnalyzedPair[], topPick?: string): AnalysisResult {
+  return {
+    pairs,
+    analysis: '',
+    topPick: topPick ? { pairAddress: topPick, symbol: `${topPick.toUpperCase()}/SOL` } : undefined,
+  };
+}
+
+function makeEntry(
+  id: string,
+  timestamp: string,
+  chain = 'solana',
+  timeframe: 'h1' | 'h6' = 'h1'
+): HistoryEntry {
+  return { id, timestamp, chain, model: 'm', timeframe, maxPairs: 20, result: makeResult([]) };
+}
+
+describe('orderResultPairs', () => {
+  it('should put the top pick first, then sort by momentum', () => {
+    const ranked = orderResultPairs(
+      makeResult([makePair('a', 5), makePair('b'), makePair('c', 9), makePair('d', 7)], 'd')
+    );
+    expect(ranked.map(pair => pair.pairAddress)).toEqual(['d', 'c', 'a', 'b']);
+  });
+});
+
+describe('diffAnalysisResults', () => {
+  it('should report entrants, dropouts and rank moves by pair address', () => {
+    const previous = makeResult([makePair('a', 9), makePair('b', 8), makePair('c', 7)], 'a');
+    const current = makeResult([makePair('a', 6), makePair('c', 9), makePair('d', 8)], 'c');
+
+    const diff = diffAnalysisResults(previous, current);
+
+    expect(diff.entered).toEqual([{ pairAddress: 'd', symbol: 'D/SOL', rank: 2 }]);
+    expect(diff.dropped).toEqual([{ pairAddress: 'b', symbol: 'B/SOL', rank: 2 }]);
+    expect(diff.rankMoves).toEqual([
+      { pairAddress: 'c', symbol: 'C/SOL', from: 3, to: 1 },
+      { pairAddress: 'a', symbol: 'A/SOL', from: 1, to: 3 },
+    ]);
+    expect(diff.topPickChanged).toBe(true);
+    expect(diff.previousTopPick?.symbol).toBe('A/SOL');
+    expect(diff.currentTopPick?.symbol).toBe('C/SOL');
+  });
+
+  it('should not confuse pairs that share a symbol', () => {
+    const previous = makeResult([makePair('a', 9, { symbol: 'PEPE/SOL' })]);
+    const current = makeResult([makePair('b', 9, { symbol: 'PEPE/SOL' })]);
+
+    const diff = diffAnalysisResults(previous, current);
+
+    expect(diff.entered.map(pair => pair.pairAddress)).toEqual(['b']);
+    expect(diff.dropped.map(pair => pair.pairAddress)).toEqual(['a']);
+  });
+
+  it('should report risk level changes', () => {
+    const diff = diffAnalysisResults(
+      makeResult([makePair('a', 9)], 'a'),
+      makeResult([makePair('a', 9, { riskLevel: 'danger' })], 'a')
+    );
+
+    expect(diff.riskChanges).toEqual([
+      { pairAddress: 'a', symbol: 'A/SOL', from: 'caution', to: 'danger' },
+    ]);
+    expect(diff.topPickChanged).toBe(false);
+  });
+
+  it('should find no changes between identical scans', () => {
+    const result = makeResult([makePair('a', 9), makePair('b', 5)], 'a');
+    expect(hasScanChanges(diffAnalysisResults(result, result))).toBe(false);
+  });
+});
+
+describe('findPreviousComparable', () => {
+  const history = [
+    makeEntry('newest', '2026-01-01T03:00:00.000Z'),
+    makeEntry('other-timeframe', '2026-01-01T02:30:00.000Z', 'solana', 'h6'),
+    makeEntry('other-chain', '2026-01-01T02:15:00.000Z', 'base'),
+    makeEntry('previous', '2026-01-01T02:00:00.000Z'),
+    makeEntry('oldest', '2026-01-01T01:00:00.000Z'),
+  ];
+
+  it('should return the newest older entry for the same chain and timeframe', () => {
+    expect(findPreviousComparable(history, 'solana', 'h1', '2026-01-01T02:45:00.000Z')?.id).toBe(
+      'previous'
+    );
+  });
+
+  it('should return undefined when there is no older entry', () => {
+    expect(
+      findPreviousComparable(history, 'solana', 'h1', '2026-01-01T00:00:00.000Z')
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+// Scheduled Scan Alert Tests
+import { describe, it, expect } from 'vitest';
+import { evaluateScheduleAlert } from '../schedules';
+import type { AnalysisResult, TopPick } from '@/types/analysis';
+import type { ScanSchedule, ScheduleCriteria } from '@/types/schedule';
+
+function makeSchedule(criteria: ScheduleCriteria, lastTopPickAddress?: string): ScanSchedule {
+  return {
+    id: 'schedule-1',
+    chain: 'solana',
+    model: 'openai/gpt-4o',
+    timeframe: 'm5',
+    maxPairs: 20,
+    pairMaxAge: 24,
+    quoteTokens: ['SOL'],
+    intervalMinutes: 15,
+    enabled: true,
+    criteria,
+    createdAt: '2025-06-01T00:00:00.000Z',
+    lastTopPickAddress,
+  };
+}
+
+function makeResult(topPick?: TopPick): AnalysisResult {
+  return { pairs: [], analysis: '', topPick };
+}
+
+const pick: TopPick = {
+  symbol: 'PEPE/SOL',
+  pairAddress: 'pairA',
+  momentum: 8,
+  riskLevel: 'caution',
+};
+
+describe('evaluateScheduleAlert', () => {
+  it('should notify when the top pick changes', () => {
+    const schedule = makeSchedule({ notifyOnTopPickChange: true }, 'pairB');
+    expect(evaluateScheduleAlert(schedule, makeResult(pick))).toEqual({
+      topPickChanged: true,
+      criteriaMet: false,
+    });
+  });
+
+  it('should not notify when the top pick is unchanged and there are no criteria', () => {
+    const schedule = makeSchedule({ notifyOnTopPickChange: true }, 'pairA');
+    expect(evaluateScheduleAlert(schedule, makeResult(pick))).toBeNull();
+  });
+
+  it('should require both risk and momentum criteria when both are set', () => {
+    const criteria = {
+      notifyOnTopPickChange: false,
+      maxRiskLevel: 'caution',
+      minMomentum: 8,
+    } as const;
+    expect(evaluateScheduleAlert(makeSchedule(criteria), makeResult(pick))?.criteriaMet).toBe(true);
+    expect(
+      evaluateScheduleAlert(makeSchedule(criteria), makeResult({ ...pick, riskLevel: 'warning' }))
+    ).toBeNull();
+    expect(
+      evaluateScheduleAlert(makeSchedule(criteria), makeResult({ ...pick, momentum: 7 }))
+    ).toBeNull();
+  });
+
+  it('should not count criteria on unknown risk or momentum as met', () => {
+    const criteria = { notifyOnTopPickChange: false, maxRiskLevel: 'danger' } as const;
+    expect(
+      evaluateScheduleAlert(makeSchedule(criteria), makeResult({ ...pick, riskLevel: undefined }))
+    ).toBeNull();
+  });
+
+  it('should ignore results without a matched top pick', () => {
+    const schedule = makeSchedule({ notifyOnTopPickChange: true });
+    expect(evaluateScheduleAlert(schedule, makeResult())).toBeNull();
+    expect(evaluateScheduleAlert(schedule, makeResult({ ...pick, unmatched: true }))).toBeNull();
+  });
+});
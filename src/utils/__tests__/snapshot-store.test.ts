@@ -0,0 +1,120 @@
+// Snapshot Store Tests
+// Runs against an in-memory IndexedDB (fake-indexeddb), fresh for every test
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { makePair } from '@/test/fixtures';
+import type { DexPair } from '@/types/dexscreener';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const START = Date.UTC(2026, 0, 1);
+
+// The store keeps its open database per module instance, so each test imports a fresh one
+async function loadStore() {
+  return import('../snapshot-store');
+}
+
+/**
+ * Record the pairs as if it were the given time
+ */
+async function recordAt(at: number, pairs: DexPair[]) {
+  const { recordPairSnapshots } = await loadStore();
+  vi.spyOn(Date, 'now').mockReturnValue(at);
+  await recordPairSnapshots(pairs);
+  vi.mocked(Date.now).mockRestore();
+}
+
+describe('snapshot store', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    globalThis.indexedDB = new IDBFactory();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read back the snapshots of each pair key, oldest first', async () => {
+    await recordAt(START, [makePair({ pairAddress: 'pepe-pool', priceUsd: '1.5' })]);
+    await recordAt(START + HOUR, [
+      makePair({ pairAddress: 'pepe-pool', priceUsd: '2' }),
+      makePair({ pairAddress: 'wif-pool', priceUsd: '3' }),
+      makePair({ chainId: 'base', pairAddress: 'pepe-pool', priceUsd: '9' }),
+    ]);
+
+    const { getPairHistories } = await loadStore();
+    const histories = await getPairHistories([makePair({ pairAddress: 'pepe-pool' })], START);
+
+    expect([...histories.keys()]).toEqual(['pepe-pool']);
+    expect(histories.get('pepe-pool')).toEqual([
+      expect.objectContaining({ key: 'solana:pepe-pool', at: START, priceUsd: 1.5 }),
+      expect.objectContaining({ key: 'solana:pepe-pool', at: START + HOUR, priceUsd: 2 }),
+    ]);
+  });
+
+  it('should leave out snapshots older than the look-back and pairs without history', async () => {
+    await recordAt(START, [makePair({ pairAddress: 'pepe-pool' })]);
+    await recordAt(START + 2 * HOUR, [makePair({ pairAddress: 'pepe-pool' })]);
+
+    const { getPairHistories } = await loadStore();
+    const histories = await getPairHistories(
+      [makePair({ pairAddress: 'pepe-pool' }), makePair({ pairAddress: 'unknown-pool' })],
+      START + HOUR
+    );
+
+    expect(histories.get('pepe-pool')?.map(snapshot => snapshot.at)).toEqual([START + 2 * HOUR]);
+    expect(histories.has('unknown-pool')).toBe(false);
+  });
+
+  it('should prune snapshots older than 7 days on write', async () => {
+    await recordAt(START, [makePair({ pairAddress: 'old-pool' })]);
+    await recordAt(START + 6 * DAY, [makePair({ pairAddress: 'recent-pool' })]);
+    // Writing any pair prunes every expired snapshot
+    await recordAt(START + 7 * DAY + 1, [makePair({ pairAddress: 'new-pool' })]);
+
+    const { getPairHistories } = await loadStore();
+    const histories = await getPairHistories(
+      [
+        makePair({ pairAddress: 'old-pool' }),
+        makePair({ pairAddress: 'recent-pool' }),
+        makePair({ pairAddress: 'new-pool' }),
+      ],
+      0
+    );
+
+    expect([...histories.keys()].sort()).toEqual(['new-pool', 'recent-pool']);
+  });
+
+  it('should log and carry on when the database cannot be opened', async () => {
+    const openError = new Error('Database access denied');
+    const realIndexedDB = globalThis.indexedDB;
+    globalThis.indexedDB = {
+      open: vi.fn(() => {
+        const request: { error: Error; onerror?: () => void } = { error: openError };
+        setTimeout(() => request.onerror?.());
+        return request;
+      }),
+    } as unknown as IDBFactory;
+
+    const { recordPairSnapshots, getPairHistories } = await loadStore();
+    const pairs = [makePair({ pairAddress: 'pepe-pool' })];
+
+    await expect(recordPairSnapshots(pairs)).resolves.toBeUndefined();
+    await expect(getPairHistories(pairs)).resolves.toEqual(new Map());
+    expect(console.error).toHaveBeenCalledWith(
+      '[SnapshotStore] Failed to record snapshots:',
+      openError
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      '[SnapshotStore] Failed to read snapshots:',
+      openError
+    );
+
+    // A failed open is not cached: the next call opens the database again
+    globalThis.indexedDB = realIndexedDB;
+    await recordPairSnapshots(pairs);
+    expect((await getPairHistories(pairs)).get('pepe-pool')).toHaveLength(1);
+  });
+});
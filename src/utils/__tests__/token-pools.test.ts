@@ -0,0 +1,132 @@
+// Token Pool Aggregation Tests
+import { describe, it, expect } from 'vitest';
+import { makeLiquidity, makePair, makeToken } from '@/test/fixtures';
+import {
+  aggregateTokenPools,
+  dedupeByBaseToken,
+  MAX_POOL_SUMMARIES,
+  summarizeTokenPools,
+} from '../token-pools';
+import type { DexPair } from '@/types/dexscreener';
+
+function makePool(
+  pairAddress: string,
+  tokenAddress: string,
+  liquidityUsd: number,
+  overrides: Partial<DexPair> = {}
+): DexPair {
+  return makePair({
+    pairAddress,
+    baseToken: makeToken(tokenAddress),
+    txns: { h1: { buys: 10, sells: 5 } },
+    volume: { h1: 1_000 },
+    liquidity: makeLiquidity(liquidityUsd),
+    ...overrides,
+  });
+}
+
+describe('dedupeByBaseToken', () => {
+  it('should keep the first pair of each base token', () => {
+    const pairs = [
+      makePool('a1', 'tokenA', 100),
+      makePool('b1', 'tokenB', 100),
+      makePool('a2', 'TOKENA', 500),
+    ];
+    expect(dedupeByBaseToken(pairs).map(pair => pair.pairAddress)).toEqual(['a1', 'b1']);
+  });
+});
+
+describe('summarizeTokenPools', () => {
+  it('should total liquidity, volume and transactions across pools', () => {
+    const summary = summarizeTokenPools('tokenA', [
+      makePool('a1', 'tokenA', 30_000),
+      makePool('a2', 'tokenA', 70_000, {
+        dexId: 'orca',
+        quoteToken: { address: 'usdc', name: 'USD Coin', symbol: 'USDC' },
+        txns: { h1: { buys: 4, sells: 6 } },
+        volume: { h1: 2_500, h24: 9_000 },
+      }),
+    ]);
+
+    expect(summary.poolCount).toBe(2);
+    expect(summary.liquidityUsd).toBe(100_000);
+    expect(summary.volume).toEqual({ h1: 3_500, h24: 9_000 });
+    expect(summary.txns.h1).toEqual({ buys: 14, sells: 11 });
+    expect(summary.pools.map(pool => `${pool.dexId} ${pool.quoteSymbol}`)).toEqual([
+      'orca USDC',
+      'raydium SOL',
+    ]);
+    expect(summary.topPoolShare).toBeCloseTo(0.7);
+    expect(summary.fragmented).toBe(false);
+  });
+
+  it('should flag liquidity spread across pools with no dominant one', () => {
+    const summary = summarizeTokenPools('tokenA', [
+      makePool('a1', 'tokenA', 40_000),
+      makePool('a2', 'tokenA', 35_000),
+      makePool('a3', 'tokenA', 25_000),
+    ]);
+    expect(summary.fragmented).toBe(true);
+  });
+
+  it('should never flag a single pool', () => {
+    const summary = summarizeTokenPools('tokenA', [makePool('a1', 'tokenA', 0)]);
+    expect(summary.topPoolShare).toBe(1);
+    expect(summary.fragmented).toBe(false);
+  });
+
+  it('should list only the deepest pools but total all of them', () => {
+    const pools = Array.from({ length: MAX_POOL_SUMMARIES + 2 }, (_, i) =>
+      makePool(`a${i}`, 'tokenA', 1_000 * (i + 1))
+    );
+    const summary = summarizeTokenPools('tokenA', pools);
+    expect(summary.pools).toHaveLength(MAX_POOL_SUMMARIES);
+    expect(summary.poolCount).toBe(MAX_POOL_SUMMARIES + 2);
+    expect(summary.volume.h1).toBe(1_000 * (MAX_POOL_SUMMARIES + 2));
+  });
+});
+
+describe('aggregateTokenPools', () => {
+  it('should replace a candidate with its deepest pool', () => {
+    const candidate = makePool('a1', 'tokenA', 10_000);
+    const fetched = [
+      makePool('a1', 'tokenA', 12_000),
+      makePool('a2', 'tokenA', 90_000, { dexId: 'orca' }),
+      makePool('x1', 'tokenX', 500_000), // tokenA is not the base token here
+      makePool('a3', 'tokenA', 80_000, { chainId: 'base' }),
+    ];
+
+    const [result] = aggregateTokenPools([candidate], new Map([['tokena', fetched]]));
+
+    expect(result.pairAddress).toBe('a2');
+    expect(result.dexId).toBe('orca');
+    expect(result.tokenPools?.poolCount).toBe(2);
+    expect(result.tokenPools?.liquidityUsd).toBe(102_000);
+  });
+
+  it('should only replace a candidate with an eligible pool', () => {
+    const candidate = makePool('a1', 'tokenA', 10_000);
+    const fetched = [
+      makePool('a2', 'tokenA', 90_000, { dexId: 'pumpswap' }),
+      makePool('a3', 'tokenA', 30_000, { dexId: 'orca' }),
+    ];
+
+    const [result] = aggregateTokenPools(
+      [candidate],
+      new Map([['tokena', fetched]]),
+      pool => pool.dexId !== 'pumpswap'
+    );
+
+    expect(result.pairAddress).toBe('a3');
+    expect(result.tokenPools?.poolCount).toBe(3);
+    expect(result.tokenPools?.liquidityUsd).toBe(130_000);
+  });
+
+  it('should keep the candidate when no pools were fetched', () => {
+    const candidate = makePool('a1', 'tokenA', 10_000);
+    const [result] = aggregateTokenPools([candidate], new Map());
+
+    expect(result.pairAddress).toBe('a1');
+    expect(result.tokenPools?.poolCount).toBe(1);
+  });
+});
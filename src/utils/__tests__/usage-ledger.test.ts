@@ -0,0 +1,191 @@
+// Usage Ledger Tests
+import { describe, it, expect, vi } from 'vitest';
+import {
+  appendUsageRecords,
+  checkBudget,
+  getPeriodStart,
+  getSpentSince,
+  summarizeUsageByDay,
+  summarizeUsageByModel,
+} from '../usage-ledger';
+import { estimateAnalysisCost, estimateScanCost, planUnchunkedScan } from '../cost-estimate';
+import type { UsageRecord } from '@/types/usage';
+
+function makeRecord(timestamp: Date, model: string, cost: number): UsageRecord {
+  return {
+    timestamp: timestamp.toISOString(),
+    model,
+    promptTokens: 1000,
+    completionTokens: 500,
+    cost,
+    chain: 'solana',
+  };
+}
+
+describe('usage ledger', () => {
+  const now = new Date(2025, 5, 15, 12, 0); // 15 June, local time
+  const ledger = [
+    makeRecord(new Date(2025, 4, 31, 23, 0), 'openai/gpt-4o', 2), // last month
+    makeRecord(new Date(2025, 5, 1, 9, 0), 'openai/gpt-4o', 1),
+    makeRecord(new Date(2025, 5, 14, 18, 0), 'anthropic/claude-3.5-sonnet', 0.5),
+    makeRecord(new Date(2025, 5, 15, 8, 0), 'anthropic/claude-3.5-sonnet', 0.3),
+    makeRecord(new Date(2025, 5, 15, 11, 0), 'openai/gpt-4o', 0.2),
+  ];
+
+  it('should sum spending per local day and month', () => {
+    expect(getSpentSince(ledger, getPeriodStart('daily', now))).toBeCloseTo(0.5);
+    expect(getSpentSince(ledger, getPeriodStart('monthly', now))).toBeCloseTo(2);
+  });
+
+  it('should allow runs that fit every budget', () => {
+    expect(checkBudget(0.4, { daily: 1, monthly: 5 }, ledger, now)).toBeNull();
+    expect(checkBudget(10, {}, ledger, now)).toBeNull();
+  });
+
+  it('should report the daily budget before the monthly one', () => {
+    expect(checkBudget(0.6, { daily: 1, monthly: 2.5 }, ledger, now)).toEqual({
+      period: 'daily',
+      budget: 1,
+      spent: expect.closeTo(0.5),
+      estimatedCost: 0.6,
+    });
+    expect(checkBudget(0.6, { monthly: 2.5 }, ledger, now)?.period).toBe('monthly');
+  });
+
+  it('should always allow free runs', () => {
+    expect(checkBudget(0, { daily: 0 }, ledger, now)).toBeNull();
+  });
+
+  it('should break usage down by day (newest first) and by model (costliest first)', () => {
+    const days = summarizeUsageByDay(ledger);
+    expect(days.map(d => d.day)).toEqual(['2025-06-15', '2025-06-14', '2025-06-01', '2025-05-31']);
+    expect(days[0].totals).toEqual({
+      calls: 2,
+      promptTokens: 2000,
+      completionTokens: 1000,
+      cost: expect.closeTo(0.5),
+    });
+
+    const models = summarizeUsageByModel(ledger);
+    expect(models.map(m => [m.model, m.totals.calls])).toEqual([
+      ['openai/gpt-4o', 3],
+      ['anthropic/claude-3.5-sonnet', 2],
+    ]);
+  });
+});
+
+describe('estimateAnalysisCost', () => {
+  const models = [
+    {
+      id: 'openai/gpt-4o',
+      name: 'GPT-4o',
+      pricing: { prompt: '0.000001', completion: '0.000002' },
+    },
+  ];
+
+  it('should price 300 prompt + 600 completion tokens per pair', () => {
+    expect(estimateAnalysisCost('openai/gpt-4o', models, 10)).toBeCloseTo(
+      3000 * 0.000001 + 6000 * 0.000002
+    );
+  });
+
+  it('should treat built-in and local models as free', () => {
+    expect(estimateAnalysisCost('gemini-nano', models, 10)).toBe(0);
+    expect(estimateAnalysisCost('local/llama3.1:8b', [], 10)).toBe(0);
+  });
+
+  it('should assume $3 per 1M tokens for unknown models', () => {
+    expect(estimateAnalysisCost('unknown/model', [], 10)).toBeCloseTo((9000 / 1_000_000) * 3);
+  });
+});
+
+describe('estimateScanCost', () => {
+  const models = [
+    { id: 'cheap/model', name: 'Cheap', pricing: { prompt: '0.000001', completion: '0.000001' } },
+    { id: 'pricey/model', name: 'Pricey', pricing: { prompt: '0.00001', completion: '0.00001' } },
+  ];
+  const plan = {
+    ensemble: ['cheap/model'],
+    fallbackModels: [],
+    pairCount: 10,
+    analyzedCount: 10,
+    shortlistBatches: 0,
+  };
+
+  it('should include a repair round-trip', () => {
+    // (2 × 3000 prompt + 6000 reply) in, 2 × 6000 out
+    expect(estimateScanCost(plan, models)).toBeCloseTo(24000 * 0.000001);
+  });
+
+  it('should price a single-model run at its priciest fallback', () => {
+    expect(estimateScanCost({ ...plan, fallbackModels: ['pricey/model'] }, models)).toBeCloseTo(
+      24000 * 0.00001
+    );
+  });
+
+  it('should add the shortlist batches in chunked mode', () => {
+    const chunked = { ...plan, pairCount: 40, shortlistBatches: 2 };
+    // 2 × 500 call overhead + 40 × 300 pair tokens in, 10 × 50 shortlist tokens out
+    expect(estimateScanCost(chunked, models) - estimateScanCost(plan, models)).toBeCloseTo(
+      13500 * 0.000001
+    );
+  });
+
+  it('should allow a run whose shown estimate fits the remaining budget', () => {
+    const now = new Date(2025, 5, 15, 12, 0);
+    const ledger = [makeRecord(new Date(2025, 5, 15, 9, 0), 'cheap/model', 1)];
+
+    // Model selector: primary + one ensemble member, fallback chain, 20 pairs
+    const shown = estimateScanCost(
+      planUnchunkedScan('cheap/model', ['pricey/model'], ['pricey/model'], 20),
+      models
+    );
+    const budget = { daily: 1 + shown };
+
+    // Analyze handler: the same selection with up to 20 fetched pairs in one prompt
+    for (const pairCount of [20, 12]) {
+      const checked = estimateScanCost(
+        {
+          ensemble: ['cheap/model', 'pricey/model'],
+          fallbackModels: ['pricey/model'],
+          pairCount,
+          analyzedCount: pairCount,
+          shortlistBatches: 0,
+        },
+        models
+      );
+      expect(checkBudget(checked, budget, ledger, now)).toBeNull();
+    }
+  });
+});
+
+describe('appendUsageRecords', () => {
+  it('should not lose records of concurrent writes', async () => {
+    let stored: UsageRecord[] = [];
+    global.chrome = {
+      storage: {
+        local: {
+          get: vi.fn(async () => {
+            const snapshot = stored;
+            await new Promise(resolve => setTimeout(resolve, 5));
+            return { usage_ledger: snapshot };
+          }),
+          set: vi.fn(async (items: { usage_ledger: UsageRecord[] }) => {
+            stored = items.usage_ledger;
+          }),
+        },
+      },
+    } as unknown as typeof chrome;
+
+    const now = new Date();
+    await Promise.all([
+      appendUsageRecords([makeRecord(now, 'openai/gpt-4o', 1)]),
+      appendUsageRecords([makeRecord(now, 'anthropic/claude-3.5-sonnet', 2)]),
+    ]);
+
+    expect(stored.map(record => record.model)).toEqual([
+      'openai/gpt-4o',
+      'anthropic/claude-3.5-sonnet',
+    ]);
+  });
+});
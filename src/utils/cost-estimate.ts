@@ -0,0 +1,166 @@
+// Analysis Cost Estimate
+// Conservative pre-run estimate shared by the model selector and the budget check
+
+import type { AvailableModel } from '@/api/models';
+import { GEMINI_NANO_MODEL_ID } from '@/types/gemini-nano';
+import { isLocalModel } from '@/types/local-llm';
+
+/**
+ * Estimated tokens per pair, with a safety margin (~15% over actual usage)
+ * Actual usage: ~280 prompt + ~500 completion tokens per pair
+ */
+export const ESTIMATED_PROMPT_TOKENS_PER_PAIR = 300;
+export const ESTIMATED_COMPLETION_TOKENS_PER_PAIR = 600;
+
+/**
+ * Estimated tokens repeated in every call (system prompt and instructions) and
+ * per shortlisted pair in a shortlist batch reply
+ */
+export const ESTIMATED_PROMPT_TOKENS_PER_CALL = 500;
+export const ESTIMATED_SHORTLIST_COMPLETION_TOKENS_PER_PAIR = 50;
+
+/**
+ * Price per token assumed when the model's pricing is unknown ($3 per 1M tokens)
+ */
+const DEFAULT_PRICE_PER_TOKEN = 3 / 1_000_000;
+
+/**
+ * Estimated prompt tokens (system prompt + pair data formatting) for a scan
+ */
+export function estimatePromptTokens(pairCount: number): number {
+  return ESTIMATED_PROMPT_TOKENS_PER_PAIR * pairCount;
+}
+
+/**
+ * Per-token prices of a model
+ * @returns Prompt and completion price in USD (0 for built-in and local models)
+ */
+function getTokenPrices(
+  modelId: string,
+  models: AvailableModel[]
+): { prompt: number; completion: number } {
+  if (modelId === GEMINI_NANO_MODEL_ID || isLocalModel(modelId)) {
+    return { prompt: 0, completion: 0 };
+  }
+
+  const model = models.find(m => m.id === modelId);
+  if (model?.isBuiltIn || model?.isLocal) return { prompt: 0, completion: 0 };
+
+  return {
+    prompt: model?.pricing ? parseFloat(model.pricing.prompt) : DEFAULT_PRICE_PER_TOKEN,
+    completion: model?.pricing ? parseFloat(model.pricing.completion) : DEFAULT_PRICE_PER_TOKEN,
+  };
+}
+
+/**
+ * Highest prompt and completion prices among models that may answer a call
+ * (a model and its fallback chain)
+ */
+function getMaxTokenPrices(
+  modelIds: string[],
+  models: AvailableModel[]
+): { prompt: number; completion: number } {
+  return modelIds
+    .map(modelId => getTokenPrices(modelId, models))
+    .reduce(
+      (max, prices) => ({
+        prompt: Math.max(max.prompt, prices.prompt),
+        completion: Math.max(max.completion, prices.completion),
+      }),
+      { prompt: 0, completion: 0 }
+    );
+}
+
+/**
+ * Estimate the cost of analyzing pairs with one model
+ * @param modelId - Model ID
+ * @param models - Model catalogue with pricing (may be empty if it could not be fetched)
+ * @param pairCount - Number of pairs in the prompt
+ * @returns Estimated cost in USD (0 for built-in and local models)
+ */
+export function estimateAnalysisCost(
+  modelId: string,
+  models: AvailableModel[],
+  pairCount: number
+): number {
+  const prices = getTokenPrices(modelId, models);
+  return (
+    prices.prompt * estimatePromptTokens(pairCount) +
+    prices.completion * ESTIMATED_COMPLETION_TOKENS_PER_PAIR * pairCount
+  );
+}
+
+/**
+ * LLM calls a scan will make
+ */
+export interface ScanCostPlan {
+  ensemble: string[]; // Models analyzing the pairs (one = single-model run)
+  fallbackModels: string[]; // Fallback chain for shortlisting and single-model runs
+  pairCount: number; // Candidate pairs
+  analyzedCount: number; // Pairs in the analysis prompt (fewer than pairCount in chunked mode)
+  shortlistBatches: number; // Shortlist calls before the analysis (0 = not chunked)
+}
+
+/**
+ * Plan of a scan that analyzes every pair in one prompt
+ * This is the estimate the model selector shows; the budget check prices the same plan
+ * unless the pairs do not fit one prompt and are shortlisted first.
+ *
+ * @param model - Primary model
+ * @param ensembleModels - Extra models for consensus mode (empty = single model)
+ * @param fallbackModels - Fallback chain of the primary model
+ * @param pairCount - Number of pairs
+ */
+export function planUnchunkedScan(
+  model: string,
+  ensembleModels: string[],
+  fallbackModels: string[],
+  pairCount: number
+): ScanCostPlan {
+  return {
+    ensemble: [...new Set([model, ...ensembleModels])],
+    fallbackModels,
+    pairCount,
+    analyzedCount: pairCount,
+    shortlistBatches: 0,
+  };
+}
+
+/**
+ * Estimate the worst-case cost of a whole scan, shown by the model selector and checked
+ * against the budget
+ * Covers the shortlist batches, one repair round-trip per analyzing model (the repair prompt
+ * carries the first reply) and the priciest model of each fallback chain.
+ * Ensemble members run without fallbacks, as in the analyze handler.
+ *
+ * @param plan - Calls the scan will make
+ * @param models - Model catalogue with pricing (may be empty if it could not be fetched)
+ * @returns Estimated cost in USD
+ */
+export function estimateScanCost(plan: ScanCostPlan, models: AvailableModel[]): number {
+  const { ensemble, fallbackModels, pairCount, analyzedCount, shortlistBatches } = plan;
+  const isSingle = ensemble.length === 1;
+
+  let cost = 0;
+
+  if (shortlistBatches > 0) {
+    const prices = getMaxTokenPrices([ensemble[0], ...fallbackModels], models);
+    cost +=
+      prices.prompt *
+        (ESTIMATED_PROMPT_TOKENS_PER_CALL * shortlistBatches +
+          ESTIMATED_PROMPT_TOKENS_PER_PAIR * pairCount) +
+      prices.completion * ESTIMATED_SHORTLIST_COMPLETION_TOKENS_PER_PAIR * analyzedCount;
+  }
+
+  const promptTokens = estimatePromptTokens(analyzedCount);
+  const completionTokens = ESTIMATED_COMPLETION_TOKENS_PER_PAIR * analyzedCount;
+  for (const modelId of ensemble) {
+    const prices = getMaxTokenPrices(isSingle ? [modelId, ...fallbackModels] : [modelId], models);
+    // First call, then the repair call (original prompt + first reply in, a full reply out)
+    cost +=
+      prices.prompt * (2 * promptTokens + completionTokens) +
+      prices.completion * 2 * completionTokens;
+  }
+
+  return cost;
+}
@@ -0,0 +1,101 @@
+// DEX Venues
+// Allow/deny candidates by DEX venue (dexId) and remember which venues recent scans saw
+
+import type { DexPair } from '@/types/dexscreener';
+import type { DexVenueFilter, SeenDexIds } from '@/types/filters';
+import { STORAGE_KEYS } from '@/types/storage';
+
+/**
+ * Venues not seen for this long drop out of the form's choices
+ */
+export const SEEN_DEX_ID_RETENTION_DAYS = 30;
+
+/**
+ * Whether a venue filter restricts anything
+ */
+export function isDexVenueFilterActive(venues: DexVenueFilter): boolean {
+  return venues.allow.length > 0 || venues.deny.length > 0;
+}
+
+/**
+ * Apply a venue filter
+ * Deny wins over allow; pairs without a dexId only pass when no allow list is set.
+ * @param pairs - Candidate pairs
+ * @param venues - Allowed and denied dexIds
+ * @returns Remaining pairs and how many were removed
+ */
+export function applyDexVenueFilter(
+  pairs: DexPair[],
+  venues: DexVenueFilter
+): { pairs: DexPair[]; removed: number } {
+  if (!isDexVenueFilterActive(venues)) return { pairs, removed: 0 };
+
+  const allow = new Set(venues.allow.map(id => id.toLowerCase()));
+  const deny = new Set(venues.deny.map(id => id.toLowerCase()));
+
+  const kept = pairs.filter(pair => {
+    const dexId = pair.dexId?.toLowerCase();
+    if (dexId && deny.has(dexId)) return false;
+    if (allow.size > 0) return dexId !== undefined && allow.has(dexId);
+    return true;
+  });
+
+  console.log(`[Venues] DEX venue filter: ${pairs.length} → ${kept.length}`);
+
+  return { pairs: kept, removed: pairs.length - kept.length };
+}
+
+/**
+ * Add newly seen dexIds to a chain's entry and drop venues older than the retention window
+ * @param seen - Last seen time per dexId for one chain
+ * @param dexIds - dexIds seen in this scan
+ * @param now - Current time (ms)
+ */
+export function mergeSeenDexIds(
+  seen: Record<string, string>,
+  dexIds: Iterable<string>,
+  now: number = Date.now()
+): Record<string, string> {
+  const cutoff = now - SEEN_DEX_ID_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const merged: Record<string, string> = {};
+
+  for (const [dexId, seenAt] of Object.entries(seen)) {
+    if (new Date(seenAt).getTime() >= cutoff) merged[dexId] = seenAt;
+  }
+
+  const seenAt = new Date(now).toISOString();
+  for (const dexId of dexIds) {
+    if (dexId) merged[dexId.toLowerCase()] = seenAt;
+  }
+
+  return merged;
+}
+
+/**
+ * Record the dexIds a scan saw on a chain
+ */
+export async function recordSeenDexIds(chain: string, dexIds: Iterable<string>): Promise<void> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.SEEN_DEX_IDS);
+    const all = (storage[STORAGE_KEYS.SEEN_DEX_IDS] as SeenDexIds | undefined) ?? {};
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.SEEN_DEX_IDS]: { ...all, [chain]: mergeSeenDexIds(all[chain] ?? {}, dexIds) },
+    });
+  } catch (error) {
+    console.error('[Venues] Failed to record seen DEX venues:', error);
+  }
+}
+
+/**
+ * Get the dexIds seen on a chain within the retention window, sorted by name
+ */
+export async function getSeenDexIds(chain: string): Promise<string[]> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.SEEN_DEX_IDS);
+    const all = (storage[STORAGE_KEYS.SEEN_DEX_IDS] as SeenDexIds | undefined) ?? {};
+    return Object.keys(mergeSeenDexIds(all[chain] ?? {}, [])).sort();
+  } catch (error) {
+    console.error('[Venues] Failed to get seen DEX venues:', error);
+    return [];
+  }
+}
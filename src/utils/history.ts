@@ -4,6 +4,7 @@
 import { STORAGE_KEYS } from '@/types/storage';
 import type { AnalysisResult, HistoryEntry } from '@/types/analysis';
 import type { Timeframe } from '@/types/dexscreener';
+import { trackPicks } from './performance';
 
 const MAX_HISTORY_ENTRIES = 50;
 
@@ -17,6 +18,7 @@ const MAX_HISTORY_ENTRIES = 50;
  * @param timeframe - Timeframe used
  * @param maxPairs - Number of pairs analyzed
  * @param pairMaxAge - Max pair age filter in hours
+ * @param scheduleId - Schedule that ran the scan (scheduled scans only)
  */
 export async function saveToHistory(
   result: AnalysisResult,
@@ -24,7 +26,8 @@ export async function saveToHistory(
   model: string,
   timeframe: Timeframe,
   maxPairs: number,
-  pairMaxAge?: number | null
+  pairMaxAge?: number | null,
+  scheduleId?: string
 ): Promise<void> {
   try {
     // Create history entry
@@ -38,6 +41,7 @@ export async function saveToHistory(
       pairMaxAge,
       result,
       topPickSymbol: result.topPick?.symbol,
+      scheduleId,
     };
 
     // Get existing history
@@ -55,6 +59,9 @@ export async function saveToHistory(
     });
 
     console.log('[History] Saved analysis to history:', entry.id);
+
+    // Follow the picks so their outcome can be measured later
+    await trackPicks(entry);
   } catch (error) {
     console.error('[History] Failed to save to history:', error);
   }
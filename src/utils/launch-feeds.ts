@@ -0,0 +1,66 @@
+// Launch Feeds
+// Combine DEXscreener token profile and boost feeds into launch tokens with a paid-promotion marker
+
+import type { DexPair, DexScreenerTokenBoost, DexScreenerTokenProfile } from '@/types/dexscreener';
+import type { LaunchFeed, PaidPromotion } from '@/types/discovery';
+
+/**
+ * A token found in the launch feeds
+ */
+export interface LaunchToken {
+  tokenAddress: string; // As listed by the feed (addresses may be case-sensitive)
+  promotion: PaidPromotion;
+}
+
+/**
+ * Merge the feeds into one entry per token on a chain
+ * @param chainId - DEXscreener chain ID; entries of other chains are skipped
+ * @param profiles - token-profiles/latest/v1
+ * @param latestBoosts - token-boosts/latest/v1
+ * @param topBoosts - token-boosts/top/v1
+ * @returns Launch tokens by lower-cased address, in feed order (profiles, latest, top)
+ */
+export function combineLaunchFeeds(
+  chainId: string,
+  profiles: DexScreenerTokenProfile[],
+  latestBoosts: DexScreenerTokenBoost[],
+  topBoosts: DexScreenerTokenBoost[]
+): Map<string, LaunchToken> {
+  const tokens = new Map<string, LaunchToken>();
+
+  const add = (
+    entry: DexScreenerTokenProfile | DexScreenerTokenBoost,
+    feed: LaunchFeed,
+    boostAmount = 0
+  ) => {
+    if (!entry.tokenAddress || entry.chainId?.toLowerCase() !== chainId.toLowerCase()) return;
+
+    const key = entry.tokenAddress.toLowerCase();
+    const token: LaunchToken = tokens.get(key) ?? {
+      tokenAddress: entry.tokenAddress,
+      promotion: { boostAmount: 0, hasProfile: false, feeds: [] },
+    };
+    token.promotion.boostAmount = Math.max(token.promotion.boostAmount, boostAmount);
+    if (feed === 'profiles') token.promotion.hasProfile = true;
+    if (!token.promotion.feeds.includes(feed)) token.promotion.feeds.push(feed);
+    tokens.set(key, token);
+  };
+
+  profiles.forEach(profile => add(profile, 'profiles'));
+  latestBoosts.forEach(boost => add(boost, 'latestBoosts', boost.totalAmount ?? boost.amount));
+  topBoosts.forEach(boost => add(boost, 'topBoosts', boost.totalAmount ?? boost.amount));
+
+  return tokens;
+}
+
+/**
+ * Keep the pairs whose base token is a launch token and mark their paid promotion
+ * @param pairs - Pairs resolved from the launch token addresses
+ * @param launches - Launch tokens by lower-cased address
+ */
+export function attachPromotions(pairs: DexPair[], launches: Map<string, LaunchToken>): DexPair[] {
+  return pairs.flatMap(pair => {
+    const launch = launches.get(pair.baseToken?.address?.toLowerCase() || '');
+    return launch ? [{ ...pair, promotion: launch.promotion }] : [];
+  });
+}
@@ -0,0 +1,253 @@
+// Pair Feature Extraction
+// Computes each derived pair metric once, for ranking, risk scoring and the LLM prompt
+
+import type { DexPair, Timeframe } from '@/types/dexscreener';
+import type { AnalyzedPair } from '@/types/analysis';
+import { DEFAULT_TIMEFRAME } from '@/types/dexscreener';
+import type {
+  MomentumBreakdown,
+  MomentumShift,
+  PairFeatures,
+  VolatilityPattern,
+} from '@/types/pair-features';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Price changes from shortest to longest timeframe (missing = 0)
+ */
+function getPriceChanges(pair: DexPair): [number, number, number, number] {
+  return [
+    pair.priceChange?.m5 || 0,
+    pair.priceChange?.h1 || 0,
+    pair.priceChange?.h6 || 0,
+    pair.priceChange?.h24 || 0,
+  ];
+}
+
+/**
+ * Share of buys among the timeframe's transactions
+ */
+function calculateBuyRatio(pair: DexPair, timeframe: Timeframe): number | undefined {
+  const txns = pair.txns?.[timeframe];
+  if (!txns || txns.buys + txns.sells === 0) return undefined;
+  return txns.buys / (txns.buys + txns.sells);
+}
+
+/**
+ * Calculate volume acceleration across timeframes
+ * Positive = volume per hour is rising from 6h → 1h → 5m
+ */
+function calculateVolumeAcceleration(pair: DexPair): number {
+  const m5Vol = pair.volume?.m5 || 0;
+  const h1Vol = pair.volume?.h1 || 0;
+  const h6Vol = pair.volume?.h6 || 0;
+
+  if (m5Vol === 0 || h1Vol === 0 || h6Vol === 0) return 0;
+
+  const shortTerm = (m5Vol * 12 - h1Vol) / (h1Vol + 1); // m5 to h1 velocity
+  const midTerm = (h1Vol * 6 - h6Vol) / (h6Vol + 1); // h1 to h6 velocity
+
+  return (shortTerm + midTerm) / 2;
+}
+
+/**
+ * Calculate liquidity health ratio
+ * Healthy tokens have liquidity at 5-15% of market cap
+ */
+function calculateLiquidityHealth(pair: DexPair): number {
+  const liquidity = pair.liquidity?.usd || 0;
+  const marketCap = pair.marketCap || 0;
+
+  if (marketCap === 0) return 0;
+
+  const ratio = liquidity / marketCap;
+
+  if (ratio < 0.05) return ratio / 0.05;
+  if (ratio <= 0.15) return 1;
+  return Math.max(0, 1 - (ratio - 0.15) * 2);
+}
+
+/**
+ * Calculate trend consistency across timeframes
+ * 70% direction agreement, 30% similarity of move sizes
+ */
+function calculateTrendConsistency(changes: number[]): number {
+  const positiveCount = changes.filter(c => c > 0).length;
+  const negativeCount = changes.filter(c => c < 0).length;
+  const directionScore = Math.max(positiveCount, negativeCount) / changes.length;
+
+  const magnitudes = changes.map(Math.abs).filter(c => c > 0);
+  if (magnitudes.length === 0) return 0;
+
+  const mean = magnitudes.reduce((a, b) => a + b, 0) / magnitudes.length;
+  const variance =
+    magnitudes.reduce((acc, c) => acc + Math.pow(c - mean, 2), 0) / magnitudes.length;
+  const magnitudeScore = 1 / (1 + variance / 100);
+
+  return directionScore * 0.7 + magnitudeScore * 0.3;
+}
+
+/**
+ * Detect whether momentum is accelerating, decelerating or reversing
+ */
+function detectMomentumShift([m5, h1, h6, h24]: number[]): MomentumShift {
+  // A recent move against the 24h direction is a reversal
+  const recentDirection = Math.sign(m5);
+  const historicalDirection = Math.sign(h24);
+  if (
+    recentDirection !== 0 &&
+    historicalDirection !== 0 &&
+    recentDirection !== historicalDirection
+  ) {
+    return 'reversing';
+  }
+
+  const shortTermVelocity = Math.abs(m5) - Math.abs(h1);
+  const midTermVelocity = Math.abs(h1) - Math.abs(h6);
+  const longTermVelocity = Math.abs(h6) - Math.abs(h24);
+  const avgVelocity = (shortTermVelocity + midTermVelocity + longTermVelocity) / 3;
+
+  if (avgVelocity > 2) return 'accelerating';
+  if (avgVelocity < -2) return 'decelerating';
+  return 'stable';
+}
+
+/**
+ * Classify price swings across timeframes
+ */
+function classifyVolatility(changes: number[]): VolatilityPattern {
+  const magnitudes = changes.map(Math.abs).filter(c => c > 0);
+  if (magnitudes.length === 0) return 'none';
+
+  const maxChange = Math.max(...magnitudes);
+  const range = maxChange - Math.min(...magnitudes);
+
+  if (maxChange < 5) return 'low';
+  if (range < 5) return 'consistentHigh';
+  if (maxChange > 20 && range > 15) return 'spike';
+  return 'moderate';
+}
+
+/**
+ * Ranking multiplier for pair age (newer = riskier)
+ */
+function getAgeRiskMultiplier(ageHours?: number): number {
+  if (ageHours === undefined) return 1;
+  if (ageHours < 1) return 0.3;
+  if (ageHours < 24) return 0.6;
+  if (ageHours < 168) return 0.8;
+  return 1;
+}
+
+/**
+ * Extract every derived metric of a pair
+ * @param pair - Pair to describe
+ * @param timeframe - Timeframe for buy pressure
+ * @param now - Reference time for the pair's age
+ * @returns Pair features
+ */
+export function extractPairFeatures(
+  pair: DexPair,
+  timeframe: Timeframe = DEFAULT_TIMEFRAME,
+  now = Date.now()
+): PairFeatures {
+  const changes = getPriceChanges(pair);
+  const liquidity = pair.liquidity?.usd || 0;
+  const ageHours = pair.pairCreatedAt ? (now - pair.pairCreatedAt) / HOUR_MS : undefined;
+  const buyRatio = calculateBuyRatio(pair, timeframe);
+
+  return {
+    timeframe,
+    ageHours,
+    buyRatio,
+    buyPressure: buyRatio === undefined ? 0 : (buyRatio - 0.5) * 2,
+    volumeAcceleration: calculateVolumeAcceleration(pair),
+    volumeToLiquidity: liquidity > 0 ? (pair.volume?.h24 || 0) / liquidity : undefined,
+    liquidityHealth: calculateLiquidityHealth(pair),
+    trendConsistency: calculateTrendConsistency(changes),
+    momentumShift: detectMomentumShift(changes),
+    volatilityPattern: classifyVolatility(changes),
+    priceSwing5m: Math.abs(changes[0]),
+    priceSwing1h: Math.abs(changes[1]),
+    ageRiskMultiplier: getAgeRiskMultiplier(ageHours),
+  };
+}
+
+/**
+ * Features already extracted per pair object and timeframe
+ */
+const featureCache = new WeakMap<DexPair, Map<Timeframe, PairFeatures>>();
+
+/**
+ * Get a pair's features, extracting them only on first use
+ * Pairs are treated as immutable snapshots, so the features of one scan's pair
+ * object are shared by ranking, risk scoring, the prompt and the result.
+ */
+export function getPairFeatures(
+  pair: DexPair,
+  timeframe: Timeframe = DEFAULT_TIMEFRAME
+): PairFeatures {
+  let byTimeframe = featureCache.get(pair);
+  if (!byTimeframe) {
+    byTimeframe = new Map();
+    featureCache.set(pair, byTimeframe);
+  }
+
+  let features = byTimeframe.get(timeframe);
+  if (!features) {
+    features = extractPairFeatures(pair, timeframe);
+    byTimeframe.set(timeframe, features);
+  }
+  return features;
+}
+
+/**
+ * Calculate the momentum score a pair is ranked by, with its parts
+ * @param pair - Pair to score
+ * @param features - The pair's features (see getPairFeatures)
+ * @returns Momentum breakdown
+ */
+export function calculateMomentumBreakdown(
+  pair: DexPair,
+  features: PairFeatures
+): MomentumBreakdown {
+  const { timeframe } = features;
+  const volume = pair.volume?.[timeframe] || 0;
+  const liquidity = pair.liquidity?.usd || 0;
+
+  // Labels: scams/honeypots are never ranked, trusted labels offset the age penalty
+  const labels = (pair.labels || []).map(label => label.toLowerCase());
+  let riskMultiplier = features.ageRiskMultiplier;
+  if (labels.some(l => l.includes('scam') || l.includes('honeypot'))) {
+    riskMultiplier = 0;
+  } else {
+    if (labels.some(l => l.includes('top'))) riskMultiplier *= 1.2;
+    if (labels.some(l => l.includes('verified'))) riskMultiplier *= 1.15;
+    riskMultiplier = Math.min(riskMultiplier, 1);
+  }
+
+  const parts = {
+    priceScore: Math.abs(pair.priceChange?.[timeframe] || 0) * 10,
+    volumeScore: Math.log10(volume + 1) * 2,
+    liquidityBonus: liquidity > 10000 ? 5 : 0,
+    buyPressureBonus: features.buyPressure * 15,
+    accelerationBonus: features.volumeAcceleration * 10,
+    liquidityHealthBonus: features.liquidityHealth * 5,
+    trendBonus: features.trendConsistency * 8,
+  };
+  const sum = Object.values(parts).reduce((a, b) => a + b, 0);
+
+  return { ...parts, riskMultiplier, total: sum * riskMultiplier };
+}
+
+/**
+ * Lowest momentum score among the analyzed pairs
+ * Pairs ranked below it did not make the shortlist.
+ */
+export function getShortlistCutoff(pairs: AnalyzedPair[]): number | undefined {
+  const totals = pairs.flatMap(pair =>
+    pair.momentumBreakdown ? [pair.momentumBreakdown.total] : []
+  );
+  return totals.length > 0 ? Math.min(...totals) : undefined;
+}
@@ -0,0 +1,102 @@
+// Pair Filters
+// Numeric pre-filters that keep unwanted pairs away from ranking and the LLM
+
+import type { DexPair, Timeframe } from '@/types/dexscreener';
+import {
+  PAIR_FILTER_KEYS,
+  type NumericRange,
+  type PairFilterCounts,
+  type PairFilterKey,
+  type PairFilters,
+} from '@/types/filters';
+
+/**
+ * Whether a range has at least one bound
+ */
+function isRangeSet(range?: NumericRange): range is NumericRange {
+  return range?.min !== undefined || range?.max !== undefined;
+}
+
+/**
+ * Whether a value lies within a range (missing values never do)
+ */
+function inRange(value: number | undefined, range: NumericRange): boolean {
+  if (value === undefined || !Number.isFinite(value)) return false;
+  if (range.min !== undefined && value < range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+}
+
+/**
+ * The metric a range filter checks
+ */
+function getFilterValue(
+  pair: DexPair,
+  key: Exclude<PairFilterKey, 'minTxns'>,
+  timeframe: Timeframe
+): number | undefined {
+  switch (key) {
+    case 'liquidityUsd':
+      return pair.liquidity?.usd;
+    case 'volume':
+      return pair.volume?.[timeframe];
+    case 'marketCap':
+      return pair.marketCap;
+    case 'fdv':
+      return pair.fdv;
+    case 'fdvToMcap':
+      return pair.fdv !== undefined && pair.marketCap ? pair.fdv / pair.marketCap : undefined;
+  }
+}
+
+/**
+ * Whether a pair passes one filter
+ */
+function passesFilter(
+  pair: DexPair,
+  key: PairFilterKey,
+  filters: PairFilters,
+  timeframe: Timeframe
+): boolean {
+  if (key === 'minTxns') {
+    const txns = pair.txns?.[timeframe];
+    return (txns ? txns.buys + txns.sells : 0) >= (filters.minTxns ?? 0);
+  }
+  return inRange(getFilterValue(pair, key, timeframe), filters[key] as NumericRange);
+}
+
+/**
+ * Filters that have a bound set, in application order
+ */
+export function getActivePairFilters(filters: PairFilters): PairFilterKey[] {
+  return PAIR_FILTER_KEYS.filter(key =>
+    key === 'minTxns' ? (filters.minTxns ?? 0) > 0 : isRangeSet(filters[key])
+  );
+}
+
+/**
+ * Apply numeric pre-filters
+ * @param pairs - Candidate pairs
+ * @param filters - Bounds to apply
+ * @param timeframe - Timeframe for volume and transaction counts
+ * @returns Remaining pairs and how many pairs each filter removed
+ */
+export function applyPairFilters(
+  pairs: DexPair[],
+  filters: PairFilters,
+  timeframe: Timeframe
+): { pairs: DexPair[]; removed: PairFilterCounts } {
+  const active = getActivePairFilters(filters);
+  const removed: PairFilterCounts = {};
+  if (active.length === 0) return { pairs, removed };
+
+  const kept = pairs.filter(pair => {
+    const failed = active.find(key => !passesFilter(pair, key, filters, timeframe));
+    if (failed) removed[failed] = (removed[failed] ?? 0) + 1;
+    return !failed;
+  });
+
+  console.log(`[Filters] Numeric filters: ${pairs.length} → ${kept.length}`, removed);
+
+  return { pairs: kept, removed };
+}
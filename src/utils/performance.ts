@@ -0,0 +1,241 @@
+// Pick Performance Tracking
+// Records how past top picks and runner-ups did after 1h/6h/24h, and summarizes it per model, chain and timeframe
+
+import { STORAGE_KEYS } from '@/types/storage';
+import type { HistoryEntry } from '@/types/analysis';
+import type { DexPair } from '@/types/dexscreener';
+import {
+  PERFORMANCE_CHECKPOINTS,
+  type PerformanceCheckpoint,
+  type PerformanceStats,
+  type PickOutcome,
+  type TrackedPick,
+} from '@/types/performance';
+
+const MAX_TRACKED_PICKS = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A liquidity fall of this much (%) or a vanished pair counts as rugged
+ */
+const RUG_LIQUIDITY_DROP_PCT = 50;
+
+/**
+ * Outcome update written by the background check
+ */
+export interface PickOutcomeUpdate {
+  id: string;
+  checkpoint: PerformanceCheckpoint;
+  outcome: PickOutcome;
+}
+
+/**
+ * Get all tracked picks (oldest first)
+ */
+export async function getTrackedPicks(): Promise<TrackedPick[]> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.PICK_PERFORMANCE);
+    const picks = storage[STORAGE_KEYS.PICK_PERFORMANCE] as TrackedPick[] | undefined;
+
+    return Array.isArray(picks) ? picks : [];
+  } catch (error) {
+    console.error('[Performance] Failed to get tracked picks:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist tracked picks, keeping the newest MAX_TRACKED_PICKS
+ */
+async function saveTrackedPicks(picks: TrackedPick[]): Promise<void> {
+  await chrome.storage.local.set({
+    [STORAGE_KEYS.PICK_PERFORMANCE]: picks.slice(-MAX_TRACKED_PICKS),
+  });
+}
+
+/**
+ * Build the picks to track from a history entry
+ * The entry price and liquidity come from the analyzed pair; picks without a price are skipped.
+ */
+export function buildTrackedPicks(entry: HistoryEntry): TrackedPick[] {
+  const { result } = entry;
+  const candidates = [
+    { role: 'topPick' as const, pairAddress: result.topPick?.pairAddress },
+    ...(result.runnerUps ?? []).map(runnerUp => ({
+      role: 'runnerUp' as const,
+      pairAddress: runnerUp.pairAddress,
+    })),
+  ];
+
+  const picks: TrackedPick[] = [];
+  for (const { role, pairAddress } of candidates) {
+    const pair = pairAddress && result.pairs.find(p => p.pairAddress === pairAddress);
+    const entryPriceUsd = parseFloat(pair ? pair.priceUsd || '0' : '0');
+    if (!pair || !pairAddress || !(entryPriceUsd > 0)) continue;
+    if (picks.some(pick => pick.pairAddress === pairAddress)) continue;
+
+    picks.push({
+      id: `${entry.id}:${pairAddress}`,
+      historyId: entry.id,
+      role,
+      chain: entry.chain,
+      pairAddress,
+      symbol: pair.symbol,
+      model: result.metadata?.model || entry.model,
+      timeframe: entry.timeframe,
+      pickedAt: entry.timestamp,
+      entryPriceUsd,
+      entryLiquidityUsd: pair.liquidity || 0,
+      outcomes: {},
+    });
+  }
+  return picks;
+}
+
+/**
+ * Start tracking the picks of a newly saved history entry
+ */
+export async function trackPicks(entry: HistoryEntry): Promise<void> {
+  const newPicks = buildTrackedPicks(entry);
+  if (newPicks.length === 0) return;
+
+  const picks = await getTrackedPicks();
+  const known = new Set(picks.map(pick => pick.id));
+  await saveTrackedPicks([...picks, ...newPicks.filter(pick => !known.has(pick.id))]);
+}
+
+/**
+ * How late a checkpoint may be measured and still count (ms)
+ * Half the checkpoint, at least 30 minutes.
+ */
+function getCheckpointGrace(checkpoint: PerformanceCheckpoint): number {
+  return Math.max(0.5 * HOUR_MS, (checkpoint * HOUR_MS) / 2);
+}
+
+/**
+ * Checkpoints that have passed but have no outcome yet
+ */
+export function getDueCheckpoints(pick: TrackedPick, now = Date.now()): PerformanceCheckpoint[] {
+  const pickedAt = new Date(pick.pickedAt).getTime();
+  return PERFORMANCE_CHECKPOINTS.filter(
+    checkpoint => !pick.outcomes[checkpoint] && now >= pickedAt + checkpoint * HOUR_MS
+  );
+}
+
+/**
+ * Build a checkpoint outcome from the re-fetched pair
+ *
+ * @param pick - Tracked pick
+ * @param checkpoint - Checkpoint being measured
+ * @param pair - Current pair data, or null if the pair no longer exists
+ * @param now - Measurement time (ms)
+ */
+export function buildPickOutcome(
+  pick: TrackedPick,
+  checkpoint: PerformanceCheckpoint,
+  pair: DexPair | null,
+  now = Date.now()
+): PickOutcome {
+  const checkedAt = new Date(now).toISOString();
+  const due = new Date(pick.pickedAt).getTime() + checkpoint * HOUR_MS;
+
+  if (now > due + getCheckpointGrace(checkpoint)) {
+    return { checkedAt, missed: true };
+  }
+  if (!pair) {
+    return { checkedAt };
+  }
+
+  const priceUsd = parseFloat(pair.priceUsd || '0') || 0;
+  const liquidityUsd = pair.liquidity?.usd || 0;
+  return {
+    checkedAt,
+    priceUsd,
+    priceChangePct: ((priceUsd - pick.entryPriceUsd) / pick.entryPriceUsd) * 100,
+    liquidityUsd,
+    liquidityChangePct:
+      pick.entryLiquidityUsd > 0
+        ? ((liquidityUsd - pick.entryLiquidityUsd) / pick.entryLiquidityUsd) * 100
+        : undefined,
+  };
+}
+
+/**
+ * Write checkpoint outcomes back
+ * Re-reads the list so picks tracked during the check are kept.
+ */
+export async function applyPickOutcomes(updates: PickOutcomeUpdate[]): Promise<void> {
+  if (updates.length === 0) return;
+
+  const picks = await getTrackedPicks();
+  await saveTrackedPicks(
+    picks.map(pick => {
+      const own = updates.filter(update => update.id === pick.id);
+      if (own.length === 0) return pick;
+
+      const outcomes = { ...pick.outcomes };
+      for (const { checkpoint, outcome } of own) {
+        outcomes[checkpoint] = outcome;
+      }
+      return { ...pick, outcomes };
+    })
+  );
+}
+
+/**
+ * Clear all tracked picks
+ */
+export async function clearTrackedPicks(): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.PICK_PERFORMANCE]: [] });
+}
+
+/**
+ * Median of a non-empty list
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Summarize pick outcomes at one checkpoint
+ * A vanished pair counts as a -100% return. Missed checkpoints are left out.
+ *
+ * @param picks - Tracked picks
+ * @param groupBy - Field to group by
+ * @param checkpoint - Checkpoint to evaluate
+ * @returns One row per group, best hit rate first
+ */
+export function summarizePerformance(
+  picks: TrackedPick[],
+  groupBy: 'model' | 'chain' | 'timeframe',
+  checkpoint: PerformanceCheckpoint
+): PerformanceStats[] {
+  const groups = new Map<string, PickOutcome[]>();
+  for (const pick of picks) {
+    const outcome = pick.outcomes[checkpoint];
+    if (!outcome || outcome.missed) continue;
+    groups.set(pick[groupBy], [...(groups.get(pick[groupBy]) ?? []), outcome]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, outcomes]) => {
+      const returns = outcomes.map(outcome => outcome.priceChangePct ?? -100);
+      const hits = returns.filter(value => value > 0).length;
+      return {
+        key,
+        picks: outcomes.length,
+        hits,
+        hitRate: hits / outcomes.length,
+        medianReturnPct: median(returns),
+        rugged: outcomes.filter(
+          outcome =>
+            outcome.priceUsd === undefined ||
+            (outcome.liquidityChangePct ?? 0) <= -RUG_LIQUIDITY_DROP_PCT
+        ).length,
+      };
+    })
+    .sort((a, b) => b.hitRate - a.hitRate || b.medianReturnPct - a.medianReturnPct);
+}
@@ -0,0 +1,80 @@
+// Prompt Injection Detection
+// Finds instruction-like text in untrusted token metadata (names, symbols, labels, links)
+
+import type { DexPair } from '@/types/dexscreener';
+
+/**
+ * Untrusted metadata field of a pair
+ */
+export interface UntrustedField {
+  field: string; // e.g. "baseToken.name", "socials.twitter"
+  value: string;
+}
+
+/**
+ * Patterns typical of text addressed to an LLM rather than to humans
+ * Matched against lowercased text with punctuation collapsed to spaces.
+ */
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\b.{0,30}\b(previous|prior|above|earlier|all|system|your)\b.{0,20}\b(instructions?|prompts?|rules?|context|messages?)\b/,
+  /\b(pick|select|choose|rate|rank|recommend|mark)\b.{0,25}\b(me|this token|this coin|this one|us)\b/,
+  /\b(top ?pick|momentum ?(score)?\s*(of|=|:)?\s*10)\b/,
+  /\b(you are|act as|pretend to be|roleplay as)\b.{0,30}\b(assistant|ai|model|analyst|gpt|llm)\b/,
+  /\b(system|assistant|user)\s*(prompt|message|role)\b/,
+  /\b(new|updated|real) instructions?\b/,
+  /\b(respond|reply|answer|output)\b.{0,20}\b(only|with|in json)\b/,
+  /<\/?(system|assistant|user|instructions?)>|\[\/?inst\]|<\|im_(start|end)\|>/,
+];
+
+/**
+ * Collect every untrusted free-text field of a pair
+ */
+export function getUntrustedFields(pair: DexPair): UntrustedField[] {
+  const fields: UntrustedField[] = [
+    { field: 'baseToken.name', value: pair.baseToken?.name },
+    { field: 'baseToken.symbol', value: pair.baseToken?.symbol },
+    { field: 'quoteToken.name', value: pair.quoteToken?.name },
+    { field: 'quoteToken.symbol', value: pair.quoteToken?.symbol },
+    ...(pair.labels ?? []).map(label => ({ field: 'labels', value: label })),
+    ...(pair.info?.socials ?? []).map(social => ({
+      field: `socials.${social.platform}`,
+      value: social.handle,
+    })),
+    ...(pair.info?.websites ?? []).map(website => ({ field: 'websites', value: website.url })),
+  ].filter((entry): entry is UntrustedField => typeof entry.value === 'string' && !!entry.value);
+
+  return fields;
+}
+
+/**
+ * Check whether a text contains instruction-like wording
+ */
+export function looksLikeInjection(text: string): boolean {
+  const normalized = decodeURIComponentSafe(text)
+    .toLowerCase()
+    .replace(/[_\-+./\\|*~`'"]+/g, ' ')
+    .replace(/\s+/g, ' ');
+  return INJECTION_PATTERNS.some(pattern => pattern.test(normalized));
+}
+
+/**
+ * Find the pair's metadata fields that contain instruction-like text
+ * @returns Names of the offending fields (deduplicated), empty if none
+ */
+export function detectPromptInjection(pair: DexPair): string[] {
+  const flagged = getUntrustedFields(pair)
+    .filter(({ value }) => looksLikeInjection(value))
+    .map(({ field }) => field);
+  return [...new Set(flagged)];
+}
+
+/**
+ * Decode percent-encoding (URLs and handles), leaving malformed input as is
+ */
+function decodeURIComponentSafe(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
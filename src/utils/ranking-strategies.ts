@@ -0,0 +1,131 @@
+// Ranking Strategies
+// Order candidate pairs before the top N are sent to the LLM
+
+import { DEFAULT_TIMEFRAME, type DexPair, type Timeframe } from '@/types/dexscreener';
+import type { PairFeatures } from '@/types/pair-features';
+import { BALANCED_RISK_PROFILE, type RiskProfile } from '@/types/risk-profile';
+import type { RankingStrategyId } from '@/types/ranking';
+import { calculateMomentumBreakdown, getPairFeatures } from './pair-features';
+import { calculateRiskLevel } from './risk-assessment';
+import type { CompiledRule } from './rule-language';
+
+/**
+ * Scan settings a strategy may score with
+ */
+export interface RankingContext {
+  timeframe: Timeframe;
+  riskProfile: RiskProfile;
+  rules: CompiledRule[];
+}
+
+/**
+ * Scores a candidate; higher ranks first, null drops the candidate
+ */
+export type RankingStrategy = (
+  pair: DexPair,
+  features: PairFeatures,
+  context: RankingContext
+) => number | null;
+
+/**
+ * Fresh launches must have at least this many trades in the last hour
+ */
+export const FRESH_LAUNCH_MIN_TXNS_H1 = 20;
+
+/**
+ * Transactions in a timeframe
+ */
+function countTxns(pair: DexPair, timeframe: Timeframe): number {
+  const txns = pair.txns?.[timeframe];
+  return txns ? txns.buys + txns.sells : 0;
+}
+
+/**
+ * Momentum: the combined momentum score (price, volume, liquidity, pressure, trend, risk)
+ */
+const momentum: RankingStrategy = (pair, features) =>
+  calculateMomentumBreakdown(pair, features).total;
+
+/**
+ * Fresh launches: newest pairs first, among those with real trading
+ */
+const freshLaunches: RankingStrategy = (pair, features) => {
+  if (features.ageHours === undefined) return null;
+  if (countTxns(pair, 'h1') < FRESH_LAUNCH_MIN_TXNS_H1) return null;
+  return -features.ageHours;
+};
+
+/**
+ * Top gainers: largest price change in the timeframe
+ */
+const topGainers: RankingStrategy = (pair, _features, { timeframe }) => {
+  const change = pair.priceChange?.[timeframe];
+  return change === undefined ? null : change;
+};
+
+/**
+ * Volume surge: volume per hour rising fastest across 6h → 1h → 5m
+ */
+const volumeSurge: RankingStrategy = (_pair, features) =>
+  features.volumeAcceleration > 0 ? features.volumeAcceleration : null;
+
+/**
+ * Buy pressure: most one-sided buying, weighted by trade count so a single buy does not win
+ */
+const buyPressure: RankingStrategy = (pair, features, { timeframe }) => {
+  if (features.buyRatio === undefined) return null;
+  return features.buyPressure * Math.log10(countTxns(pair, timeframe) + 1);
+};
+
+/**
+ * Safest movers: lowest risk score among rising pairs, trend consistency breaking ties
+ */
+const safestMovers: RankingStrategy = (pair, features, { timeframe, riskProfile, rules }) => {
+  if ((pair.priceChange?.[timeframe] ?? 0) <= 0) return null;
+  const { score } = calculateRiskLevel(pair, [], riskProfile, rules);
+  return -score + features.trendConsistency * 10;
+};
+
+/**
+ * Strategies by ID
+ */
+export const RANKING_STRATEGIES: Record<RankingStrategyId, RankingStrategy> = {
+  momentum,
+  freshLaunches,
+  topGainers,
+  volumeSurge,
+  buyPressure,
+  safestMovers,
+};
+
+/**
+ * Rank pairs with a strategy
+ * @param pairs - Candidate pairs
+ * @param strategyId - Strategy to rank by
+ * @param context - Scan settings (timeframe, risk profile, rules)
+ * @returns Pairs the strategy kept, best first
+ */
+export function rankPairs(
+  pairs: DexPair[],
+  strategyId: RankingStrategyId,
+  context: Partial<RankingContext> = {}
+): DexPair[] {
+  const fullContext: RankingContext = {
+    timeframe: context.timeframe ?? DEFAULT_TIMEFRAME,
+    riskProfile: context.riskProfile ?? BALANCED_RISK_PROFILE,
+    rules: context.rules ?? [],
+  };
+  const strategy = RANKING_STRATEGIES[strategyId] ?? momentum;
+
+  const scored = pairs.flatMap(pair => {
+    const score = strategy(pair, getPairFeatures(pair, fullContext.timeframe), fullContext);
+    return score === null ? [] : [{ pair, score }];
+  });
+
+  const droppedCount = pairs.length - scored.length;
+  if (droppedCount > 0) {
+    console.log(`[Ranking] ${strategyId} strategy skipped ${droppedCount} pairs`);
+  }
+
+  return scored.sort((a, b) => b.score - a.score).map(item => item.pair);
+}
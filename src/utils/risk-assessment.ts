@@ -3,6 +3,16 @@
 
 import type { DexPair } from '@/types/dexscreener';
 import type { RiskLevel, RiskFactor } from '@/types/analysis';
+import type { PairSnapshot } from '@/types/snapshot';
+import {
+  BALANCED_RISK_PROFILE,
+  type RiskLevelCutoffs,
+  type RiskProfile,
+} from '@/types/risk-profile';
+import { detectPromptInjection } from './prompt-injection';
+import { detectRugSignals, getRugMaxScore, type RugSignal } from './rug-detector';
+import { matchesRule, type CompiledRule } from './rule-language';
+import { getPairFeatures } from './pair-features';
 
 /**
  * Scoring breakdown for transparency
@@ -38,6 +48,66 @@ export interface ScoringBreakdown {
   activityReason: string;
   activityReasonKey: string;
   activityReasonParams: Record<string, string | number>;
+  // Only set when snapshot history exists for the pair
+  rugScore?: number;
+  rugMax?: number;
+  rugReason?: string;
+  rugReasonKey?: string;
+  rugReasonParams?: Record<string, string | number>;
+  // Only set for tokens found through the launch feeds
+  promotionScore?: number;
+  promotionMax?: number;
+  promotionReason?: string;
+  promotionReasonKey?: string;
+  promotionReasonParams?: Record<string, string | number>;
+  // Only set when point rules are defined
+  ruleScore?: number;
+  ruleMax?: number;
+  ruleReason?: string;
+  ruleReasonKey?: string;
+  ruleReasonParams?: Record<string, string | number>;
+  // Profile the scores were calculated with (absent in results saved before profiles existed)
+  profileId?: string;
+  profileName?: string;
+  levelCutoffs?: RiskLevelCutoffs;
+}
+
+/**
+ * Risk factor and breakdown text for each rug-pull signal
+ */
+const RUG_SIGNAL_TEXT: Record<
+  RugSignal['kind'],
+  { factorKey: string; reasonKey: string; fallback: (params: RugSignal['params']) => string }
+> = {
+  liquidityDrop: {
+    factorKey: 'results.risk.liquidityPulled',
+    reasonKey: 'risk.rug.liquidityDrop',
+    fallback: ({ drop, peak }) => `⛔ Liquidity down ${drop}% from $${peak}k`,
+  },
+  liquidityMcapCollapse: {
+    factorKey: 'results.risk.liquidityMcapCollapse',
+    reasonKey: 'risk.rug.liquidityMcapCollapse',
+    fallback: ({ from, to }) => `Liquidity/mcap ratio collapsed (${from}% → ${to}%)`,
+  },
+  sellerExodus: {
+    factorKey: 'results.risk.sellerExodus',
+    reasonKey: 'risk.rug.sellerExodus',
+    fallback: ({ sells, buys }) => `Seller exodus (${sells} sells vs ${buys} buys in 1h)`,
+  },
+};
+
+/**
+ * Format a USD threshold in thousands for factor texts (10000 → "10", 500 → "0.5")
+ */
+function formatThousands(usd: number): string {
+  return String(Number((usd / 1000).toFixed(1)));
+}
+
+/**
+ * Format a ratio threshold as a percentage for factor texts (0.02 → "2")
+ */
+function formatPercent(ratio: number): string {
+  return String(Number((ratio * 100).toFixed(1)));
 }
 
 /**
@@ -45,9 +115,17 @@ export interface ScoringBreakdown {
  * Considers multiple factors: age, liquidity, labels, concentration
  *
  * @param pair - DEX pair data
+ * @param history - Earlier snapshots of the pair (oldest first); enables rug-pull detection
+ * @param profile - Thresholds and points to score with
+ * @param rules - User-written rules; matching point rules add their points
  * @returns Risk level and contributing factors with detailed breakdown
  */
-export function calculateRiskLevel(pair: DexPair): {
+export function calculateRiskLevel(
+  pair: DexPair,
+  history: PairSnapshot[] = [],
+  profile: RiskProfile = BALANCED_RISK_PROFILE,
+  rules: CompiledRule[] = []
+): {
   level: RiskLevel;
   factors: RiskFactor[];
   score: number; // 0-100 (0 = safest, 100 = most risky)
@@ -55,95 +133,117 @@ export function calculateRiskLevel(pair: DexPair): {
 } {
   const factors: RiskFactor[] = [];
   let riskScore = 0;
+  const {
+    age,
+    liquidity: liquidityTiers,
+    labels: labelLists,
+    volume,
+    volatility,
+    activity,
+    signals,
+  } = profile;
 
   // Initialize breakdown
   const breakdown: ScoringBreakdown = {
     ageScore: 0,
-    ageMax: 30,
+    ageMax: Math.max(
+      age.veryNewPoints,
+      age.dayPoints,
+      age.weekPoints,
+      age.monthPoints,
+      age.unknownPoints
+    ),
     ageReason: '',
     ageReasonKey: '',
     ageReasonParams: {},
     liquidityScore: 0,
-    liquidityMax: 30,
+    liquidityMax: Math.max(
+      liquidityTiers.veryLowPoints,
+      liquidityTiers.lowPoints,
+      liquidityTiers.moderatePoints
+    ),
     liquidityReason: '',
     liquidityReasonKey: '',
     liquidityReasonParams: {},
     labelScore: 0,
-    labelMax: 40,
+    labelMax: labelLists.warningPoints + labelLists.suspiciousPoints,
     labelReason: '',
     labelReasonKey: '',
     labelReasonParams: {},
     volumeScore: 0,
-    volumeMax: 20,
+    volumeMax: Math.max(volume.veryLowPoints, volume.lowPoints),
     volumeReason: '',
     volumeReasonKey: '',
     volumeReasonParams: {},
     volatilityScore: 0,
-    volatilityMax: 15,
+    volatilityMax: Math.max(volatility.extremePoints, volatility.highPoints),
     volatilityReason: '',
     volatilityReasonKey: '',
     volatilityReasonParams: {},
     activityScore: 0,
-    activityMax: 20,
+    activityMax: activity.low5mPoints + activity.low24hPoints,
     activityReason: '',
     activityReasonKey: '',
     activityReasonParams: {},
+    profileId: profile.id,
+    profileName: profile.name,
+    levelCutoffs: profile.levels,
   };
 
-  // Factor 1: Contract Age (0-30 points)
+  // Buy/sell features over 5 minutes, the window the imbalance checks are calibrated for
+  const features = getPairFeatures(pair, 'm5');
+
+  // Factor 1: Contract Age
   let ageHours = 0;
   let ageDays = 0;
 
-  if (pair.pairCreatedAt) {
-    const ageMs = Date.now() - pair.pairCreatedAt;
-    ageHours = ageMs / (1000 * 60 * 60);
+  if (features.ageHours !== undefined) {
+    ageHours = features.ageHours;
     ageDays = ageHours / 24;
 
-    if (ageHours < 1) {
-      // < 1 hour: maximum penalty (unchanged)
-      breakdown.ageScore = 30;
+    if (ageHours < age.veryNewHours) {
+      breakdown.ageScore = age.veryNewPoints;
       breakdown.ageReason = `Very new (${ageHours.toFixed(1)}h old)`;
       breakdown.ageReasonKey = 'risk.age.veryNew';
       breakdown.ageReasonParams = { hours: ageHours.toFixed(1) };
-      riskScore += 30;
+      riskScore += age.veryNewPoints;
       factors.push({
         key: 'results.risk.veryNewContract',
-        params: {},
-        fallback: 'Very new contract (< 1 hour)',
+        params: { hours: age.veryNewHours },
+        fallback: `Very new contract (< ${age.veryNewHours}h)`,
       });
     } else if (ageDays < 1) {
-      // < 24 hours: reduced penalty (30 -> 20)
-      breakdown.ageScore = 20;
+      breakdown.ageScore = age.dayPoints;
       breakdown.ageReason = `Very new (${ageHours.toFixed(1)}h old)`;
       breakdown.ageReasonKey = 'risk.age.veryNew';
       breakdown.ageReasonParams = { hours: ageHours.toFixed(1) };
-      riskScore += 20;
+      riskScore += age.dayPoints;
       factors.push({
         key: 'results.risk.veryNewContract',
-        params: {},
-        fallback: 'Very new contract (< 1 day)',
+        params: { hours: 24 },
+        fallback: 'Very new contract (< 24h)',
       });
-    } else if (ageDays < 7) {
-      breakdown.ageScore = 20;
+    } else if (ageDays < age.weekDays) {
+      breakdown.ageScore = age.weekPoints;
       breakdown.ageReason = `New (${ageDays.toFixed(1)} days old)`;
       breakdown.ageReasonKey = 'risk.age.new';
       breakdown.ageReasonParams = { days: ageDays.toFixed(1) };
-      riskScore += 20;
+      riskScore += age.weekPoints;
       factors.push({
         key: 'results.risk.newContract',
-        params: {},
-        fallback: 'New contract (< 1 week)',
+        params: { days: age.weekDays },
+        fallback: `New contract (< ${age.weekDays} days)`,
       });
-    } else if (ageDays < 30) {
-      breakdown.ageScore = 10;
+    } else if (ageDays < age.monthDays) {
+      breakdown.ageScore = age.monthPoints;
       breakdown.ageReason = `Relatively new (${ageDays.toFixed(0)} days old)`;
       breakdown.ageReasonKey = 'risk.age.relativelyNew';
       breakdown.ageReasonParams = { days: ageDays.toFixed(0) };
-      riskScore += 10;
+      riskScore += age.monthPoints;
       factors.push({
         key: 'results.risk.relativelyNewContract',
-        params: {},
-        fallback: 'Relatively new contract (< 1 month)',
+        params: { days: age.monthDays },
+        fallback: `Relatively new contract (< ${age.monthDays} days)`,
       });
     } else {
       breakdown.ageReason = `Established (${ageDays.toFixed(0)} days old)`;
@@ -151,11 +251,11 @@ export function calculateRiskLevel(pair: DexPair): {
       breakdown.ageReasonParams = { days: ageDays.toFixed(0) };
     }
   } else {
-    breakdown.ageScore = 15;
+    breakdown.ageScore = age.unknownPoints;
     breakdown.ageReason = 'Age unknown';
     breakdown.ageReasonKey = 'risk.age.unknown';
     breakdown.ageReasonParams = {};
-    riskScore += 15;
+    riskScore += age.unknownPoints;
     factors.push({
       key: 'results.risk.ageUnknown',
       params: {},
@@ -163,42 +263,42 @@ export function calculateRiskLevel(pair: DexPair): {
     });
   }
 
-  // Factor 2: Liquidity (0-30 points)
+  // Factor 2: Liquidity
   const liquidity = pair.liquidity?.usd || 0;
   const marketCap = pair.marketCap || 0;
 
-  if (liquidity < 10000) {
-    breakdown.liquidityScore += 30;
+  if (liquidity < liquidityTiers.veryLowUsd) {
+    breakdown.liquidityScore += liquidityTiers.veryLowPoints;
     breakdown.liquidityReason = `Very low liquidity ($${(liquidity / 1000).toFixed(1)}k)`;
     breakdown.liquidityReasonKey = 'risk.liquidity.veryLow';
     breakdown.liquidityReasonParams = { amount: (liquidity / 1000).toFixed(1) };
-    riskScore += 30;
+    riskScore += liquidityTiers.veryLowPoints;
     factors.push({
       key: 'results.risk.veryLowLiquidity',
-      params: {},
-      fallback: 'Very low liquidity (< $10k)',
+      params: { amount: formatThousands(liquidityTiers.veryLowUsd) },
+      fallback: `Very low liquidity (< $${formatThousands(liquidityTiers.veryLowUsd)}k)`,
     });
-  } else if (liquidity < 50000) {
-    breakdown.liquidityScore += 20;
+  } else if (liquidity < liquidityTiers.lowUsd) {
+    breakdown.liquidityScore += liquidityTiers.lowPoints;
     breakdown.liquidityReason = `Low liquidity ($${(liquidity / 1000).toFixed(1)}k)`;
     breakdown.liquidityReasonKey = 'risk.liquidity.low';
     breakdown.liquidityReasonParams = { amount: (liquidity / 1000).toFixed(1) };
-    riskScore += 20;
+    riskScore += liquidityTiers.lowPoints;
     factors.push({
       key: 'results.risk.lowLiquidity',
-      params: {},
-      fallback: 'Low liquidity (< $50k)',
+      params: { amount: formatThousands(liquidityTiers.lowUsd) },
+      fallback: `Low liquidity (< $${formatThousands(liquidityTiers.lowUsd)}k)`,
     });
-  } else if (liquidity < 100000) {
-    breakdown.liquidityScore += 10;
+  } else if (liquidity < liquidityTiers.moderateUsd) {
+    breakdown.liquidityScore += liquidityTiers.moderatePoints;
     breakdown.liquidityReason = `Moderate liquidity ($${(liquidity / 1000).toFixed(1)}k)`;
     breakdown.liquidityReasonKey = 'risk.liquidity.moderate';
     breakdown.liquidityReasonParams = { amount: (liquidity / 1000).toFixed(1) };
-    riskScore += 10;
+    riskScore += liquidityTiers.moderatePoints;
     factors.push({
       key: 'results.risk.moderateLiquidity',
-      params: {},
-      fallback: 'Moderate liquidity (< $100k)',
+      params: { amount: formatThousands(liquidityTiers.moderateUsd) },
+      fallback: `Moderate liquidity (< $${formatThousands(liquidityTiers.moderateUsd)}k)`,
     });
   } else {
     breakdown.liquidityReason = `Good liquidity ($${(liquidity / 1000).toFixed(0)}k)`;
@@ -209,33 +309,33 @@ export function calculateRiskLevel(pair: DexPair): {
   // Liquidity to market cap ratio
   if (marketCap > 0) {
     const ratio = liquidity / marketCap;
-    if (ratio < 0.02) {
-      breakdown.liquidityScore += 15;
+    if (ratio < liquidityTiers.lowRatio) {
+      breakdown.liquidityScore += liquidityTiers.lowRatioPoints;
       breakdown.liquidityReason += ` | Low L/MC ratio (${(ratio * 100).toFixed(1)}%)`;
       breakdown.liquidityReasonKey = 'risk.liquidity.withLowRatio';
       breakdown.liquidityReasonParams = {
         amount: breakdown.liquidityReasonParams.amount,
         ratio: (ratio * 100).toFixed(1),
       };
-      riskScore += 15;
+      riskScore += liquidityTiers.lowRatioPoints;
       factors.push({
         key: 'results.risk.lowLiquidityRatio',
-        params: {},
-        fallback: 'Low liquidity/mcap ratio (< 2%)',
+        params: { ratio: formatPercent(liquidityTiers.lowRatio) },
+        fallback: `Low liquidity/mcap ratio (< ${formatPercent(liquidityTiers.lowRatio)}%)`,
       });
-    } else if (ratio > 0.5) {
-      breakdown.liquidityScore += 10;
+    } else if (ratio > liquidityTiers.highRatio) {
+      breakdown.liquidityScore += liquidityTiers.highRatioPoints;
       breakdown.liquidityReason += ` | High L/MC ratio (${(ratio * 100).toFixed(0)}%)`;
       breakdown.liquidityReasonKey = 'risk.liquidity.withHighRatio';
       breakdown.liquidityReasonParams = {
         amount: breakdown.liquidityReasonParams.amount,
         ratio: (ratio * 100).toFixed(0),
       };
-      riskScore += 10;
+      riskScore += liquidityTiers.highRatioPoints;
       factors.push({
         key: 'results.risk.highLiquidityRatio',
-        params: {},
-        fallback: 'Unusually high liquidity/mcap ratio (> 50%)',
+        params: { ratio: formatPercent(liquidityTiers.highRatio) },
+        fallback: `Unusually high liquidity/mcap ratio (> ${formatPercent(liquidityTiers.highRatio)}%)`,
       });
     }
   }
@@ -244,8 +344,12 @@ export function calculateRiskLevel(pair: DexPair): {
   const labels = (pair.labels || []).map(l => l.toLowerCase());
 
   // CRITICAL labels - instant 100 score (scam, honeypot, rugpull, exploit)
-  const criticalLabels = ['scam', 'honeypot', 'rugpull', 'exploit'];
-  if (labels.some(l => criticalLabels.some(bad => l.includes(bad)))) {
+  const matchesAny = (list: string[]) =>
+    labels.some(l => list.some(entry => entry && l.includes(entry.toLowerCase())));
+
+  const hasCriticalLabel = matchesAny(labelLists.critical);
+
+  if (hasCriticalLabel) {
     breakdown.labelScore = 100; // Override everything
     breakdown.labelReason = '⛔ SCAM/HONEYPOT/RUGPULL detected';
     breakdown.labelReasonKey = 'risk.labels.scam';
@@ -258,13 +362,12 @@ export function calculateRiskLevel(pair: DexPair): {
     });
   } else {
     // WARNING labels - high risk (frozen, blacklist, paused)
-    const warningLabels = ['frozen', 'blacklist', 'paused'];
-    if (labels.some(l => warningLabels.some(warn => l.includes(warn)))) {
-      breakdown.labelScore = 30;
+    if (matchesAny(labelLists.warning)) {
+      breakdown.labelScore = labelLists.warningPoints;
       breakdown.labelReason = '⚠️ Warning label detected (frozen/blacklist/paused)';
       breakdown.labelReasonKey = 'risk.labels.warning';
       breakdown.labelReasonParams = {};
-      riskScore += 30;
+      riskScore += labelLists.warningPoints;
       factors.push({
         key: 'results.risk.warningLabel',
         params: {},
@@ -273,13 +376,12 @@ export function calculateRiskLevel(pair: DexPair): {
     }
 
     // SUSPICIOUS labels - moderate risk (abandoned)
-    const suspiciousLabels = ['abandoned'];
-    if (labels.some(l => suspiciousLabels.some(sus => l.includes(sus)))) {
-      breakdown.labelScore += 20;
+    if (matchesAny(labelLists.suspicious)) {
+      breakdown.labelScore += labelLists.suspiciousPoints;
       breakdown.labelReason = '⚠️ Suspicious label detected (abandoned)';
       breakdown.labelReasonKey = 'risk.labels.suspicious';
       breakdown.labelReasonParams = {};
-      riskScore += 20;
+      riskScore += labelLists.suspiciousPoints;
       factors.push({
         key: 'results.risk.suspiciousLabel',
         params: {},
@@ -288,12 +390,15 @@ export function calculateRiskLevel(pair: DexPair): {
     }
 
     // Positive labels reduce risk
-    if (labels.some(l => l.includes('top') || l.includes('verified'))) {
-      breakdown.labelScore = Math.max(-15, breakdown.labelScore - 15);
+    if (matchesAny(labelLists.positive)) {
+      breakdown.labelScore = Math.max(
+        -labelLists.positivePoints,
+        breakdown.labelScore - labelLists.positivePoints
+      );
       breakdown.labelReason = breakdown.labelReason || '✓ Verified or top token';
       breakdown.labelReasonKey = 'risk.labels.verified';
       breakdown.labelReasonParams = {};
-      riskScore = Math.max(0, riskScore - 15);
+      riskScore = Math.max(0, riskScore - labelLists.positivePoints);
       factors.push({
         key: 'results.risk.verified',
         params: {},
@@ -308,30 +413,30 @@ export function calculateRiskLevel(pair: DexPair): {
     }
   }
 
-  // Factor 4: Volume and Activity (0-20 points)
+  // Factor 4: Volume and Activity
   const volume24h = pair.volume?.h24 || 0;
 
-  if (volume24h < 1000) {
-    breakdown.volumeScore = 20;
+  if (volume24h < volume.veryLowUsd) {
+    breakdown.volumeScore = volume.veryLowPoints;
     breakdown.volumeReason = `Very low volume ($${volume24h.toFixed(0)}/24h)`;
     breakdown.volumeReasonKey = 'risk.volume.veryLow';
     breakdown.volumeReasonParams = { amount: volume24h.toFixed(0) };
-    riskScore += 20;
+    riskScore += volume.veryLowPoints;
     factors.push({
       key: 'results.risk.veryLowVolume',
-      params: {},
-      fallback: 'Very low 24h volume (< $1k)',
+      params: { amount: formatThousands(volume.veryLowUsd) },
+      fallback: `Very low 24h volume (< $${formatThousands(volume.veryLowUsd)}k)`,
     });
-  } else if (volume24h < 10000) {
-    breakdown.volumeScore = 10;
+  } else if (volume24h < volume.lowUsd) {
+    breakdown.volumeScore = volume.lowPoints;
     breakdown.volumeReason = `Low volume ($${(volume24h / 1000).toFixed(1)}k/24h)`;
     breakdown.volumeReasonKey = 'risk.volume.low';
     breakdown.volumeReasonParams = { amount: (volume24h / 1000).toFixed(1) };
-    riskScore += 10;
+    riskScore += volume.lowPoints;
     factors.push({
       key: 'results.risk.lowVolume',
-      params: {},
-      fallback: 'Low 24h volume (< $10k)',
+      params: { amount: formatThousands(volume.lowUsd) },
+      fallback: `Low 24h volume (< $${formatThousands(volume.lowUsd)}k)`,
     });
   } else {
     breakdown.volumeReason = `Good volume ($${(volume24h / 1000).toFixed(0)}k/24h)`;
@@ -339,62 +444,59 @@ export function calculateRiskLevel(pair: DexPair): {
     breakdown.volumeReasonParams = { amount: (volume24h / 1000).toFixed(0) };
   }
 
-  // Factor 5: Buy/Sell Imbalance Detection (0-25 points - honeypot indicator)
-  const txns = pair.txns?.m5;
-  if (txns && txns.buys > 0) {
-    if (txns.sells === 0) {
+  // Factor 5: Buy/Sell Imbalance Detection (honeypot indicator)
+  const { buyRatio } = features;
+  if (buyRatio !== undefined && buyRatio > 0) {
+    if (buyRatio === 1) {
       // Can buy but no one selling = possible honeypot
-      riskScore += 25;
+      riskScore += signals.honeypotPoints;
       factors.push({
         key: 'results.risk.noSellActivity',
         params: {},
         fallback: 'No sell activity detected (possible honeypot)',
       });
     } else {
-      const totalTxns = txns.buys + txns.sells;
-      const sellRatio = txns.sells / totalTxns;
-      if (sellRatio < 0.05 && txns.buys > 20) {
-        // >95% buys with significant volume = pump indicator
-        riskScore += 20;
+      const buys = pair.txns?.m5?.buys ?? 0;
+      if (buyRatio > signals.buyPressureShare && buys > signals.buyPressureMinBuys) {
+        // Almost only buys with significant volume = pump indicator
+        const share = formatPercent(signals.buyPressureShare);
+        riskScore += signals.buyPressurePoints;
         factors.push({
           key: 'results.risk.suspiciousBuyPressure',
-          params: {},
-          fallback: 'Suspicious buy pressure (>95% buys)',
+          params: { share },
+          fallback: `Suspicious buy pressure (>${share}% buys)`,
         });
       }
     }
   }
 
-  // Factor 6: Volume/Liquidity Ratio (0-20 points - wash trading indicator)
-  if (liquidity > 0 && volume24h > 0) {
-    const volumeToLiquidityRatio = volume24h / liquidity;
-    if (volumeToLiquidityRatio > 10) {
-      // Example: $100k volume on $10k liquidity = wash trading risk
-      riskScore += 20;
-      factors.push({
-        key: 'results.risk.suspiciousVolumeRatio',
-        params: {},
-        fallback: 'Suspicious volume/liquidity ratio (wash trading)',
-      });
-    }
+  // Factor 6: Volume/Liquidity Ratio (wash trading indicator)
+  if ((features.volumeToLiquidity ?? 0) > signals.washVolumeRatio) {
+    // Example: $100k volume on $10k liquidity = wash trading risk
+    riskScore += signals.washPoints;
+    factors.push({
+      key: 'results.risk.suspiciousVolumeRatio',
+      params: {},
+      fallback: 'Suspicious volume/liquidity ratio (wash trading)',
+    });
   }
 
-  // Factor 7: Social Presence Validation (-10 to +15 points)
+  // Factor 7: Social Presence Validation (new tokens only)
   const hasNoSocials = !pair.info?.socials || pair.info.socials.length === 0;
   const hasNoWebsite = !pair.info?.websites || pair.info.websites.length === 0;
   const hasSocialPresence = !hasNoSocials || !hasNoWebsite;
 
-  if (hasNoSocials && hasNoWebsite && ageHours < 168) {
-    // New token (< 7 days) with no social presence = high risk
-    riskScore += 15;
+  if (hasNoSocials && hasNoWebsite && ageHours < signals.socialMaxAgeHours) {
+    // New token with no social presence = high risk
+    riskScore += signals.noSocialPoints;
     factors.push({
       key: 'results.risk.noSocialPresence',
       params: {},
       fallback: 'No social presence (new token)',
     });
-  } else if (hasSocialPresence && ageHours < 168) {
-    // New token (< 7 days) with social presence = risk reduction
-    riskScore = Math.max(0, riskScore - 10);
+  } else if (hasSocialPresence && ageHours < signals.socialMaxAgeHours) {
+    // New token with social presence = risk reduction
+    riskScore = Math.max(0, riskScore - signals.socialCreditPoints);
     factors.push({
       key: 'results.risk.hasSocialPresence',
       params: {},
@@ -402,33 +504,32 @@ export function calculateRiskLevel(pair: DexPair): {
     });
   }
 
-  // Factor 8: Price Volatility (0-15 points)
-  const priceChange5m = Math.abs(pair.priceChange?.m5 || 0);
-  const priceChange1h = Math.abs(pair.priceChange?.h1 || 0);
+  // Factor 8: Price Volatility
+  const { priceSwing5m: priceChange5m, priceSwing1h: priceChange1h } = features;
 
-  if (priceChange5m > 50 || priceChange1h > 100) {
-    breakdown.volatilityScore = 15;
+  if (priceChange5m > volatility.extreme5m || priceChange1h > volatility.extreme1h) {
+    breakdown.volatilityScore = volatility.extremePoints;
     breakdown.volatilityReason = `Extreme volatility (5m: ${priceChange5m.toFixed(1)}%, 1h: ${priceChange1h.toFixed(1)}%)`;
     breakdown.volatilityReasonKey = 'risk.volatility.extreme';
     breakdown.volatilityReasonParams = {
       change5m: priceChange5m.toFixed(1),
       change1h: priceChange1h.toFixed(1),
     };
-    riskScore += 15;
+    riskScore += volatility.extremePoints;
     factors.push({
       key: 'results.risk.extremeVolatility',
       params: {},
       fallback: 'Extreme price volatility',
     });
-  } else if (priceChange5m > 20 || priceChange1h > 50) {
-    breakdown.volatilityScore = 10;
+  } else if (priceChange5m > volatility.high5m || priceChange1h > volatility.high1h) {
+    breakdown.volatilityScore = volatility.highPoints;
     breakdown.volatilityReason = `High volatility (5m: ${priceChange5m.toFixed(1)}%, 1h: ${priceChange1h.toFixed(1)}%)`;
     breakdown.volatilityReasonKey = 'risk.volatility.high';
     breakdown.volatilityReasonParams = {
       change5m: priceChange5m.toFixed(1),
       change1h: priceChange1h.toFixed(1),
     };
-    riskScore += 10;
+    riskScore += volatility.highPoints;
     factors.push({
       key: 'results.risk.highVolatility',
       params: {},
@@ -443,10 +544,10 @@ export function calculateRiskLevel(pair: DexPair): {
     };
   }
 
-  // Factor 9: Pump-and-Dump Pattern Detection (0-15 points)
-  if (priceChange5m > 100 && priceChange1h < 10) {
+  // Factor 9: Pump-and-Dump Pattern Detection
+  if (priceChange5m > signals.pump5m && priceChange1h < signals.pump1h) {
     // Massive 5m spike but low 1h change = possible dump incoming
-    riskScore += 15;
+    riskScore += signals.pumpPoints;
     factors.push({
       key: 'results.risk.pumpPattern',
       params: {},
@@ -454,7 +555,7 @@ export function calculateRiskLevel(pair: DexPair): {
     });
   }
 
-  // Factor 10: Trading Activity (0-20 points)
+  // Factor 10: Trading Activity
   const txns5m = pair.txns?.m5;
   const txns24h = pair.txns?.h24;
 
@@ -462,23 +563,23 @@ export function calculateRiskLevel(pair: DexPair): {
   const totalTxns5m = txns5m ? (txns5m.buys || 0) + (txns5m.sells || 0) : 0;
   const totalTxns24h = txns24h ? (txns24h.buys || 0) + (txns24h.sells || 0) : 0;
 
-  // Check 5-minute activity (5 transactions or less = warning)
-  if (totalTxns5m <= 5 && totalTxns5m >= 0) {
-    breakdown.activityScore += 10;
+  // Check 5-minute activity (too few transactions = warning)
+  if (totalTxns5m <= activity.low5mTxns && totalTxns5m >= 0) {
+    breakdown.activityScore += activity.low5mPoints;
     breakdown.activityReason = `Low 5min activity (${totalTxns5m} txns)`;
     breakdown.activityReasonKey = 'risk.activity.low5m';
     breakdown.activityReasonParams = { count: totalTxns5m };
-    riskScore += 10;
+    riskScore += activity.low5mPoints;
     factors.push({
       key: 'results.risk.lowActivity5m',
-      params: {},
-      fallback: '⚠️ Very low recent activity (< 5 txns/5min)',
+      params: { count: activity.low5mTxns },
+      fallback: `⚠️ Very low recent activity (≤ ${activity.low5mTxns} txns/5min)`,
     });
   }
 
-  // Check 24-hour activity (10 transactions or less = warning)
-  if (totalTxns24h <= 10 && totalTxns24h >= 0) {
-    breakdown.activityScore += 10;
+  // Check 24-hour activity (too few transactions = warning)
+  if (totalTxns24h <= activity.low24hTxns && totalTxns24h >= 0) {
+    breakdown.activityScore += activity.low24hPoints;
     if (breakdown.activityReason) {
       breakdown.activityReason += ` | Low 24h activity (${totalTxns24h} txns)`;
     } else {
@@ -489,11 +590,11 @@ export function calculateRiskLevel(pair: DexPair): {
       ...breakdown.activityReasonParams,
       count24h: totalTxns24h,
     };
-    riskScore += 10;
+    riskScore += activity.low24hPoints;
     factors.push({
       key: 'results.risk.lowActivity24h',
-      params: {},
-      fallback: '⚠️ Very low 24h activity (< 10 txns/day)',
+      params: { count: activity.low24hTxns },
+      fallback: `⚠️ Very low 24h activity (≤ ${activity.low24hTxns} txns/day)`,
     });
   }
 
@@ -504,29 +605,153 @@ export function calculateRiskLevel(pair: DexPair): {
     breakdown.activityReasonParams = { count5m: totalTxns5m, count24h: totalTxns24h };
   }
 
-  // Determine risk level based on total score
-  let level: RiskLevel;
-
-  if (riskScore >= 80) {
-    level = 'critical';
-  } else if (riskScore >= 60) {
-    level = 'danger';
-  } else if (riskScore >= 40) {
-    level = 'warning';
-  } else if (riskScore >= 20) {
-    level = 'caution';
-  } else {
-    level = 'safe';
+  // Factor 11: Prompt Injection in Metadata
+  // Token metadata addressed to an LLM is a deliberate manipulation attempt
+  const injectionFields = detectPromptInjection(pair);
+  if (injectionFields.length > 0) {
+    riskScore += signals.promptInjectionPoints;
+    factors.push({
+      key: 'results.risk.promptInjection',
+      params: { fields: injectionFields.join(', ') },
+      fallback: `⛔ Instruction-like text in token metadata (${injectionFields.join(', ')})`,
+    });
+  }
+
+  // Factor 12: Paid Promotion (launch feeds only)
+  // Boosts and token profiles are bought; promoted launches draw short-lived attention
+  if (pair.promotion) {
+    const { boostAmount, hasProfile } = pair.promotion;
+    const boosted = boostAmount > 0;
+    breakdown.promotionMax =
+      signals.boostPoints + signals.heavyBoostPoints + signals.paidProfilePoints;
+    breakdown.promotionScore =
+      (boosted ? signals.boostPoints : 0) +
+      (boosted && boostAmount >= signals.heavyBoostAmount ? signals.heavyBoostPoints : 0) +
+      (hasProfile ? signals.paidProfilePoints : 0);
+    riskScore += breakdown.promotionScore;
+
+    if (boosted) {
+      factors.push({
+        key: 'results.risk.paidBoost',
+        params: { amount: boostAmount },
+        fallback: `💰 Paid promotion (${boostAmount} boosts)`,
+      });
+    }
+    if (hasProfile) {
+      factors.push({
+        key: 'results.risk.paidProfile',
+        params: {},
+        fallback: '💰 Paid token profile',
+      });
+    }
+
+    breakdown.promotionReasonKey = boosted
+      ? hasProfile
+        ? 'risk.promotion.boostedWithProfile'
+        : 'risk.promotion.boosted'
+      : hasProfile
+        ? 'risk.promotion.profile'
+        : 'risk.promotion.none';
+    breakdown.promotionReasonParams = { amount: boostAmount };
+    breakdown.promotionReason = boosted
+      ? `${boostAmount} boosts${hasProfile ? ' and a paid token profile' : ''}`
+      : hasProfile
+        ? 'Paid token profile'
+        : 'No paid promotion';
+  }
+
+  // Factor 13: Rug-Pull Signals over Time (needs snapshot history)
+  if (history.length > 0) {
+    const rugSignals = detectRugSignals(pair, history, signals);
+    breakdown.rugMax = getRugMaxScore(signals);
+    breakdown.rugScore = rugSignals.reduce((sum, signal) => sum + signal.points, 0);
+
+    if (rugSignals.length > 0) {
+      const strongest = RUG_SIGNAL_TEXT[rugSignals[0].kind];
+      breakdown.rugReason = rugSignals
+        .map(signal => RUG_SIGNAL_TEXT[signal.kind].fallback(signal.params))
+        .join(' | ');
+      breakdown.rugReasonKey = strongest.reasonKey;
+      breakdown.rugReasonParams = rugSignals[0].params;
+      riskScore += breakdown.rugScore;
+
+      for (const signal of rugSignals) {
+        const text = RUG_SIGNAL_TEXT[signal.kind];
+        factors.push({
+          key: text.factorKey,
+          params: signal.params,
+          fallback: text.fallback(signal.params),
+        });
+      }
+    } else {
+      breakdown.rugReason = `Stable over ${history.length} snapshots`;
+      breakdown.rugReasonKey = 'risk.rug.stable';
+      breakdown.rugReasonParams = { count: history.length };
+    }
+  }
+
+  // Factor 14: User-Written Point Rules
+  const pointRules = rules.filter(rule => rule.action.kind === 'points');
+  if (pointRules.length > 0) {
+    const now = Date.now();
+    const matched = pointRules.filter(rule => matchesRule(rule, pair, now));
+    breakdown.ruleMax = pointRules.reduce(
+      (sum, rule) => sum + Math.max(0, rule.action.kind === 'points' ? rule.action.points : 0),
+      0
+    );
+    breakdown.ruleScore = 0;
+
+    for (const rule of matched) {
+      if (rule.action.kind !== 'points') continue;
+      const { points, message } = rule.action;
+      const signed = `${points >= 0 ? '+' : ''}${points}`;
+      breakdown.ruleScore += points;
+      factors.push({
+        key: 'results.risk.customRule',
+        params: { message, points: signed },
+        fallback: `${message} (${signed})`,
+      });
+    }
+    riskScore = Math.max(0, riskScore + breakdown.ruleScore);
+
+    breakdown.ruleReason =
+      matched.length > 0
+        ? matched.map(rule => rule.action.message).join(' | ')
+        : `No rule matched (${pointRules.length} rules)`;
+    breakdown.ruleReasonKey = matched.length > 0 ? 'risk.rules.matched' : 'risk.rules.none';
+    breakdown.ruleReasonParams = {
+      rules: breakdown.ruleReason,
+      count: pointRules.length,
+    };
+  }
+
+  // Risk reductions must not bring a critical label below the instant-critical score
+  if (hasCriticalLabel) {
+    riskScore = Math.max(100, riskScore);
   }
 
   return {
-    level,
+    level: getRiskLevelForScore(riskScore, profile.levels),
     factors,
     score: riskScore,
     breakdown,
   };
 }
 
+/**
+ * Map a total risk score to a level using a profile's cut-offs
+ * @param score - Total risk score
+ * @param cutoffs - Minimum score for each level
+ * @returns Risk level
+ */
+export function getRiskLevelForScore(score: number, cutoffs: RiskLevelCutoffs): RiskLevel {
+  if (score >= cutoffs.critical) return 'critical';
+  if (score >= cutoffs.danger) return 'danger';
+  if (score >= cutoffs.warning) return 'warning';
+  if (score >= cutoffs.caution) return 'caution';
+  return 'safe';
+}
+
 /**
  * Get risk level display information
  * @param level - Risk level
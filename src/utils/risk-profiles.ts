@@ -0,0 +1,175 @@
+// Risk Profile Manager
+// Stores custom risk profiles and the selected profile in chrome.storage.local
+
+import { STORAGE_KEYS } from '@/types/storage';
+import {
+  BALANCED_RISK_PROFILE,
+  DEFAULT_RISK_PROFILE_ID,
+  RISK_PROFILE_PRESETS,
+  type RiskProfile,
+} from '@/types/risk-profile';
+
+/**
+ * Get the user's custom profiles
+ */
+export async function getCustomRiskProfiles(): Promise<RiskProfile[]> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.CUSTOM_RISK_PROFILES);
+    const profiles = storage[STORAGE_KEYS.CUSTOM_RISK_PROFILES] as RiskProfile[] | undefined;
+
+    // Profiles saved before a section existed get the Balanced values for it
+    return Array.isArray(profiles)
+      ? profiles.map(profile => ({
+          ...profile,
+          signals: { ...BALANCED_RISK_PROFILE.signals, ...profile.signals },
+        }))
+      : [];
+  } catch (error) {
+    console.error('[RiskProfiles] Failed to get custom profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the custom profile list
+ */
+async function saveCustomRiskProfiles(profiles: RiskProfile[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.CUSTOM_RISK_PROFILES]: profiles });
+}
+
+/**
+ * Add or replace a custom profile (matched by ID)
+ */
+export async function saveCustomRiskProfile(profile: RiskProfile): Promise<void> {
+  const entry: RiskProfile = { ...profile, builtIn: false };
+  const profiles = await getCustomRiskProfiles();
+  const exists = profiles.some(p => p.id === entry.id);
+
+  await saveCustomRiskProfiles(
+    exists ? profiles.map(p => (p.id === entry.id ? entry : p)) : [...profiles, entry]
+  );
+  console.log('[RiskProfiles] Saved custom profile:', entry.id);
+}
+
+/**
+ * Delete a custom profile; falls back to the default profile if it was selected
+ */
+export async function deleteCustomRiskProfile(id: string): Promise<void> {
+  const profiles = await getCustomRiskProfiles();
+  await saveCustomRiskProfiles(profiles.filter(p => p.id !== id));
+
+  if ((await getActiveRiskProfileId()) === id) {
+    await setActiveRiskProfileId(DEFAULT_RISK_PROFILE_ID);
+  }
+  console.log('[RiskProfiles] Deleted custom profile:', id);
+}
+
+/**
+ * Get the selected profile ID
+ */
+export async function getActiveRiskProfileId(): Promise<string> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.ACTIVE_RISK_PROFILE);
+    const id = storage[STORAGE_KEYS.ACTIVE_RISK_PROFILE] as string | undefined;
+    return id || DEFAULT_RISK_PROFILE_ID;
+  } catch (error) {
+    console.error('[RiskProfiles] Failed to get active profile:', error);
+    return DEFAULT_RISK_PROFILE_ID;
+  }
+}
+
+/**
+ * Select a profile by ID
+ */
+export async function setActiveRiskProfileId(id: string): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.ACTIVE_RISK_PROFILE]: id });
+}
+
+/**
+ * Find a profile among the presets and custom profiles
+ *
+ * @param id - Profile ID
+ * @param customProfiles - User-defined profiles
+ * @returns The profile, or Balanced if the ID is unknown
+ */
+export function resolveRiskProfile(id: string, customProfiles: RiskProfile[]): RiskProfile {
+  return (
+    [...RISK_PROFILE_PRESETS, ...customProfiles].find(profile => profile.id === id) ??
+    BALANCED_RISK_PROFILE
+  );
+}
+
+/**
+ * Get the selected profile
+ */
+export async function getActiveRiskProfile(): Promise<RiskProfile> {
+  const [id, customProfiles] = await Promise.all([
+    getActiveRiskProfileId(),
+    getCustomRiskProfiles(),
+  ]);
+  return resolveRiskProfile(id, customProfiles);
+}
+
+/**
+ * Copy a profile into a new, editable custom profile
+ *
+ * @param base - Profile to start from (preset or custom)
+ * @param name - Name of the new profile
+ */
+export function createCustomRiskProfile(base: RiskProfile, name: string): RiskProfile {
+  return {
+    ...(JSON.parse(JSON.stringify(base)) as RiskProfile),
+    id: `custom-${crypto.randomUUID()}`,
+    name,
+    builtIn: false,
+  };
+}
+
+/**
+ * Check a profile before saving
+ * @returns i18n keys of the problems found, empty if the profile is usable
+ */
+export function validateRiskProfile(profile: RiskProfile): string[] {
+  const errors: string[] = [];
+  const sections = [
+    profile.age,
+    profile.liquidity,
+    profile.volume,
+    profile.volatility,
+    profile.activity,
+    profile.signals,
+    profile.levels,
+    {
+      warningPoints: profile.labels.warningPoints,
+      suspiciousPoints: profile.labels.suspiciousPoints,
+      positivePoints: profile.labels.positivePoints,
+      filterScore: profile.filterScore,
+    },
+  ];
+
+  if (!profile.name.trim()) {
+    errors.push('riskProfiles.errors.name');
+  }
+
+  const numbers = sections.flatMap(section =>
+    Object.values(section).filter(value => typeof value === 'number')
+  );
+  if (numbers.some(value => !Number.isFinite(value) || value < 0)) {
+    errors.push('riskProfiles.errors.negative');
+  }
+
+  const { caution, warning, danger, critical } = profile.levels;
+  if (!(caution < warning && warning < danger && danger < critical)) {
+    errors.push('riskProfiles.errors.levelOrder');
+  }
+
+  const { veryLowUsd, lowUsd, moderateUsd } = profile.liquidity;
+  if (
+    !(veryLowUsd <= lowUsd && lowUsd <= moderateUsd) ||
+    profile.volume.veryLowUsd > profile.volume.lowUsd
+  ) {
+    errors.push('riskProfiles.errors.tierOrder');
+  }
+
+  return errors;
+}
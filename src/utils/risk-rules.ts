@@ -0,0 +1,102 @@
+// Risk Rule Manager
+// Stores user-written risk rules and the latest scan's pairs in chrome.storage.local
+
+import { STORAGE_KEYS } from '@/types/storage';
+import type { DexPair } from '@/types/dexscreener';
+import type { LastScanPairs, RiskRule } from '@/types/rules';
+import { compileRiskRules, compileRule, type CompiledRule } from './rule-language';
+
+/**
+ * Get all rules
+ */
+export async function getRiskRules(): Promise<RiskRule[]> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.RISK_RULES);
+    const rules = storage[STORAGE_KEYS.RISK_RULES] as RiskRule[] | undefined;
+
+    return Array.isArray(rules) ? rules : [];
+  } catch (error) {
+    console.error('[Rules] Failed to get rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the rule list
+ */
+async function saveRiskRules(rules: RiskRule[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.RISK_RULES]: rules });
+}
+
+/**
+ * Add a rule
+ *
+ * @param source - Rule text
+ * @returns The stored rule
+ * @throws RuleSyntaxError if the rule does not parse
+ */
+export async function addRiskRule(source: string): Promise<RiskRule> {
+  compileRule(source);
+
+  const rule: RiskRule = {
+    id: crypto.randomUUID(),
+    source: source.trim(),
+    enabled: true,
+    createdAt: new Date().toISOString(),
+  };
+
+  const rules = await getRiskRules();
+  await saveRiskRules([...rules, rule]);
+
+  console.log('[Rules] Added rule:', rule.id);
+  return rule;
+}
+
+/**
+ * Update fields of a rule (no-op if it was deleted meanwhile)
+ */
+export async function updateRiskRule(id: string, changes: Partial<RiskRule>): Promise<void> {
+  const rules = await getRiskRules();
+  await saveRiskRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes, id } : rule)));
+}
+
+/**
+ * Delete a rule
+ */
+export async function deleteRiskRule(id: string): Promise<void> {
+  const rules = await getRiskRules();
+  await saveRiskRules(rules.filter(rule => rule.id !== id));
+  console.log('[Rules] Deleted rule:', id);
+}
+
+/**
+ * Get the enabled rules, compiled (invalid ones are skipped)
+ */
+export async function getCompiledRiskRules(): Promise<CompiledRule[]> {
+  return compileRiskRules(await getRiskRules());
+}
+
+/**
+ * Keep the latest scan's pairs for testing rules in settings
+ */
+export async function saveLastScanPairs(chain: string, pairs: DexPair[]): Promise<void> {
+  try {
+    const entry: LastScanPairs = { chain, scannedAt: new Date().toISOString(), pairs };
+    await chrome.storage.local.set({ [STORAGE_KEYS.LAST_SCAN_PAIRS]: entry });
+  } catch (error) {
+    console.error('[Rules] Failed to save last scan pairs:', error);
+  }
+}
+
+/**
+ * Get the latest scan's pairs, if any
+ */
+export async function getLastScanPairs(): Promise<LastScanPairs | null> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.LAST_SCAN_PAIRS);
+    return (storage[STORAGE_KEYS.LAST_SCAN_PAIRS] as LastScanPairs | undefined) ?? null;
+  } catch (error) {
+    console.error('[Rules] Failed to get last scan pairs:', error);
+    return null;
+  }
+}
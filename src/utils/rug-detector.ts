@@ -0,0 +1,99 @@
+// Rug-Pull Detector
+// Compares a pair's current metrics with its stored snapshots to catch liquidity being pulled
+
+import type { DexPair } from '@/types/dexscreener';
+import type { PairSnapshot } from '@/types/snapshot';
+import { BALANCED_RISK_PROFILE, type RiskProfile } from '@/types/risk-profile';
+
+/**
+ * Rug-pull warning sign
+ */
+export interface RugSignal {
+  kind: 'liquidityDrop' | 'liquidityMcapCollapse' | 'sellerExodus';
+  points: number; // Added to the risk score
+  params: Record<string, string | number>;
+}
+
+/**
+ * Maximum points the detector can add under a profile (strongest drop, collapse and exodus)
+ */
+export function getRugMaxScore(signals: RiskProfile['signals']): number {
+  return (
+    Math.max(signals.liquidityDropPoints, signals.liquidityHeavyDropPoints) +
+    signals.liquidityMcapCollapsePoints +
+    signals.sellerExodusPoints
+  );
+}
+
+/**
+ * Flag warning signs visible only over time
+ * - liquidityDrop: liquidity fell from its peak in the history
+ * - liquidityMcapCollapse: liquidity/market cap ratio fell to under half its best, without liquidity growing
+ * - sellerExodus: 1h sells jumped to several times their usual level and dwarf buys
+ *
+ * @param pair - Current pair data
+ * @param history - Earlier snapshots of the pair, oldest first
+ * @param signalPoints - Points per signal (default: Balanced profile)
+ * @returns Signals, strongest first (empty if none or no history)
+ */
+export function detectRugSignals(
+  pair: DexPair,
+  history: PairSnapshot[],
+  signalPoints: RiskProfile['signals'] = BALANCED_RISK_PROFILE.signals
+): RugSignal[] {
+  if (history.length === 0) return [];
+
+  const signals: RugSignal[] = [];
+  const liquidity = pair.liquidity?.usd || 0;
+
+  // Liquidity pulled from the peak
+  const peakLiquidity = Math.max(...history.map(snapshot => snapshot.liquidityUsd));
+  if (peakLiquidity > 0) {
+    const drop = (peakLiquidity - liquidity) / peakLiquidity;
+    if (drop >= 0.25) {
+      signals.push({
+        kind: 'liquidityDrop',
+        points:
+          drop >= 0.5 ? signalPoints.liquidityHeavyDropPoints : signalPoints.liquidityDropPoints,
+        params: {
+          drop: (drop * 100).toFixed(0),
+          peak: (peakLiquidity / 1000).toFixed(1),
+        },
+      });
+    }
+  }
+
+  // Liquidity/market cap collapse
+  const marketCap = pair.marketCap || 0;
+  const ratios = history
+    .filter(snapshot => snapshot.marketCap && snapshot.marketCap > 0)
+    .map(snapshot => snapshot.liquidityUsd / snapshot.marketCap!);
+  if (marketCap > 0 && ratios.length > 0 && liquidity <= peakLiquidity) {
+    const bestRatio = Math.max(...ratios);
+    const ratio = liquidity / marketCap;
+    if (bestRatio > 0 && ratio < bestRatio * 0.5) {
+      signals.push({
+        kind: 'liquidityMcapCollapse',
+        points: signalPoints.liquidityMcapCollapsePoints,
+        params: {
+          from: (bestRatio * 100).toFixed(1),
+          to: (ratio * 100).toFixed(1),
+        },
+      });
+    }
+  }
+
+  // Seller exodus
+  const sells = pair.txns?.h1?.sells || 0;
+  const buys = pair.txns?.h1?.buys || 0;
+  const usualSells = history.reduce((sum, snapshot) => sum + snapshot.sellsH1, 0) / history.length;
+  if (sells >= 10 && sells >= Math.max(usualSells, 1) * 2 && sells >= buys * 2) {
+    signals.push({
+      kind: 'sellerExodus',
+      points: signalPoints.sellerExodusPoints,
+      params: { sells, buys },
+    });
+  }
+
+  return signals.sort((a, b) => b.points - a.points);
+}
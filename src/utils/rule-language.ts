@@ -0,0 +1,550 @@
+// Rule Language
+// Parses and evaluates user-written risk rules without eval (not allowed under the MV3 CSP)
+//
+// Grammar:
+//   rule    := expr '=>' action
+//   action  := ('+' | '-') number [string] | 'exclude' [string]
+//   expr    := and ('or' and)*
+//   and     := not ('and' not)*
+//   not     := 'not' not | compare
+//   compare := sum [('==' | '!=' | '<' | '<=' | '>' | '>=' | 'contains') sum]
+//   sum     := product (('+' | '-') product)*
+//   product := unary (('*' | '/') unary)*
+//   unary   := '-' unary | primary
+//   primary := number | string | 'true' | 'false' | field | '(' expr ')'
+//   field   := name ('.' name)*
+//
+// Example: liquidity.usd < 5000 and txns.h1.sells == 0 => +40 "no sells in 1h"
+
+import type { DexPair } from '@/types/dexscreener';
+import type { RiskRule } from '@/types/rules';
+import { RuleSyntaxError } from '@/shared/errors';
+import { extractPairFeatures } from './pair-features';
+
+type BinaryOp =
+  'or' | 'and' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'contains' | '+' | '-' | '*' | '/';
+
+/**
+ * Parsed rule condition
+ */
+export type RuleExpr =
+  | { kind: 'literal'; value: number | string | boolean }
+  | { kind: 'field'; path: string[] }
+  | { kind: 'not'; operand: RuleExpr }
+  | { kind: 'negate'; operand: RuleExpr }
+  | { kind: 'binary'; op: BinaryOp; left: RuleExpr; right: RuleExpr };
+
+/**
+ * What a matching rule does
+ */
+export type RuleAction =
+  | { kind: 'points'; points: number; message: string } // Add (or subtract) risk points
+  | { kind: 'exclude'; message: string }; // Drop the pair before the LLM stage
+
+/**
+ * Action as written (the message defaults to the condition text)
+ */
+type ParsedAction =
+  { kind: 'points'; points: number; message?: string } | { kind: 'exclude'; message?: string };
+
+/**
+ * Rule ready for evaluation
+ */
+export interface CompiledRule {
+  id: string;
+  source: string;
+  condition: RuleExpr;
+  action: RuleAction;
+}
+
+/**
+ * Metrics computed from the pair, usable in rules next to the DexPair fields
+ */
+export const DERIVED_FIELDS = [
+  'ageHours', // Hours since pairCreatedAt
+  'volumeToLiquidity', // 24h volume / liquidity
+  'liquidityToMcap', // Liquidity / market cap
+  'fdvToMcap', // FDV / market cap
+  'buyRatioH1', // Share of buys among 1h transactions (0-1)
+  'txnsH1', // Buys + sells in 1h
+  'txnsH24', // Buys + sells in 24h
+] as const;
+
+/**
+ * DexPair fields a rule may start from
+ */
+export const PAIR_FIELDS = [
+  'chainId',
+  'dexId',
+  'pairAddress',
+  'labels',
+  'baseToken',
+  'quoteToken',
+  'priceNative',
+  'priceUsd',
+  'txns',
+  'volume',
+  'priceChange',
+  'liquidity',
+  'fdv',
+  'marketCap',
+  'pairCreatedAt',
+  'info',
+  'boosts',
+] as const;
+
+const ROOT_FIELDS = new Set<string>([...PAIR_FIELDS, ...DERIVED_FIELDS]);
+const KEYWORDS = new Set(['and', 'or', 'not', 'contains', 'true', 'false', 'exclude']);
+const FORBIDDEN_NAMES = new Set(['__proto__', 'prototype', 'constructor']);
+const OPERATORS = ['=>', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '(', ')', '.'];
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'name'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+/**
+ * Split a rule into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const rest = source.slice(i);
+
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+
+    const number = /^\d[\d_]*(\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0].replace(/_/g, '')), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_]\w*/.exec(rest);
+    if (name) {
+      tokens.push({ kind: 'name', value: name[0], pos: i });
+      i += name[0].length;
+      continue;
+    }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      const quote = rest[0];
+      let value = '';
+      let j = 1;
+      while (j < rest.length && rest[j] !== quote) {
+        if (rest[j] === '\\' && j + 1 < rest.length) j++;
+        value += rest[j];
+        j++;
+      }
+      if (j >= rest.length) {
+        throw new RuleSyntaxError('Unterminated string', i);
+      }
+      tokens.push({ kind: 'string', value, pos: i });
+      i += j + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => rest.startsWith(candidate));
+    if (!op) {
+      throw new RuleSyntaxError(`Unexpected character "${rest[0]}"`, i);
+    }
+    tokens.push({ kind: 'op', value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ kind: 'end', pos: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token list
+ */
+class RuleParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  /**
+   * Consume an operator token already checked with isOp()
+   */
+  private nextOp(): BinaryOp {
+    return (this.next() as { value: string }).value as BinaryOp;
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'name' && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.isOp(value)) {
+      throw new RuleSyntaxError(`Expected "${value}"`, this.peek().pos);
+    }
+    this.next();
+  }
+
+  /**
+   * rule := expr '=>' action
+   */
+  parseRule(): { condition: RuleExpr; action: ParsedAction } {
+    const condition = this.parseOr();
+    this.expectOp('=>');
+    const action = this.parseAction();
+
+    const end = this.peek();
+    if (end.kind !== 'end') {
+      throw new RuleSyntaxError('Unexpected input after the action', end.pos);
+    }
+    return { condition, action };
+  }
+
+  private parseAction(): ParsedAction {
+    if (this.isKeyword('exclude')) {
+      this.next();
+      return { kind: 'exclude', message: this.parseMessage() };
+    }
+
+    const sign = this.peek();
+    if (sign.kind === 'op' && (sign.value === '+' || sign.value === '-')) {
+      this.next();
+      const amount = this.next();
+      if (amount.kind !== 'number') {
+        throw new RuleSyntaxError('Expected a number of points', amount.pos);
+      }
+      return {
+        kind: 'points',
+        points: sign.value === '-' ? -amount.value : amount.value,
+        message: this.parseMessage(),
+      };
+    }
+
+    throw new RuleSyntaxError('Expected "+points", "-points" or "exclude"', sign.pos);
+  }
+
+  private parseMessage(): string | undefined {
+    const token = this.peek();
+    if (token.kind !== 'string') return undefined;
+    this.next();
+    return token.value;
+  }
+
+  private parseOr(): RuleExpr {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.next();
+      left = { kind: 'binary', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleExpr {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      this.next();
+      left = { kind: 'binary', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): RuleExpr {
+    if (this.isKeyword('not')) {
+      this.next();
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseCompare();
+  }
+
+  private parseCompare(): RuleExpr {
+    const left = this.parseSum();
+    const token = this.peek();
+
+    if (token.kind === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      const op = this.nextOp();
+      return { kind: 'binary', op, left, right: this.parseSum() };
+    }
+    if (this.isKeyword('contains')) {
+      this.next();
+      return { kind: 'binary', op: 'contains', left, right: this.parseSum() };
+    }
+    return left;
+  }
+
+  private parseSum(): RuleExpr {
+    let left = this.parseProduct();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.nextOp();
+      left = { kind: 'binary', op, left, right: this.parseProduct() };
+    }
+    return left;
+  }
+
+  private parseProduct(): RuleExpr {
+    let left = this.parseUnary();
+    while (this.isOp('*') || this.isOp('/')) {
+      const op = this.nextOp();
+      left = { kind: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): RuleExpr {
+    if (this.isOp('-')) {
+      this.next();
+      return { kind: 'negate', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleExpr {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectOp(')');
+          return inner;
+        }
+        break;
+      case 'name':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (!KEYWORDS.has(token.value)) {
+          return this.parseField(token.value, token.pos);
+        }
+        break;
+    }
+
+    throw new RuleSyntaxError(
+      token.kind === 'end' ? 'Unexpected end of rule' : 'Expected a value or field',
+      token.pos
+    );
+  }
+
+  private parseField(root: string, pos: number): RuleExpr {
+    if (!ROOT_FIELDS.has(root)) {
+      throw new RuleSyntaxError(`Unknown field "${root}"`, pos);
+    }
+
+    const path = [root];
+    while (this.isOp('.')) {
+      this.next();
+      const name = this.next();
+      if (name.kind !== 'name' || FORBIDDEN_NAMES.has(name.value)) {
+        throw new RuleSyntaxError('Expected a field name after "."', name.pos);
+      }
+      path.push(name.value);
+    }
+    return { kind: 'field', path };
+  }
+}
+
+/**
+ * Parse a rule
+ *
+ * @param source - Rule text
+ * @param id - Rule ID (stored rules)
+ * @returns Compiled rule
+ * @throws RuleSyntaxError if the rule is malformed or uses an unknown field
+ */
+export function compileRule(source: string, id = ''): CompiledRule {
+  const { condition, action } = new RuleParser(tokenize(source)).parseRule();
+  const message = action.message || source.slice(0, source.indexOf('=>')).trim();
+
+  return {
+    id,
+    source,
+    condition,
+    action: action.kind === 'points' ? { ...action, message } : { kind: 'exclude', message },
+  };
+}
+
+/**
+ * Compile the enabled stored rules, skipping (and logging) invalid ones
+ */
+export function compileRiskRules(rules: RiskRule[]): CompiledRule[] {
+  return rules
+    .filter(rule => rule.enabled)
+    .flatMap(rule => {
+      try {
+        return [compileRule(rule.source, rule.id)];
+      } catch (error) {
+        console.warn(`[Rules] Skipping invalid rule "${rule.source}":`, error);
+        return [];
+      }
+    });
+}
+
+/**
+ * Build the object rules are evaluated against: the pair's fields plus derived metrics
+ */
+export function buildRuleContext(pair: DexPair, now = Date.now()): Record<string, unknown> {
+  const liquidity = pair.liquidity?.usd || 0;
+  const marketCap = pair.marketCap || 0;
+  const features = extractPairFeatures(pair, 'h1', now);
+
+  return {
+    ...pair,
+    ageHours: features.ageHours,
+    volumeToLiquidity: features.volumeToLiquidity,
+    liquidityToMcap: marketCap > 0 ? liquidity / marketCap : undefined,
+    fdvToMcap: marketCap > 0 && pair.fdv ? pair.fdv / marketCap : undefined,
+    buyRatioH1: features.buyRatio,
+    txnsH1: (pair.txns?.h1?.buys || 0) + (pair.txns?.h1?.sells || 0),
+    txnsH24: (pair.txns?.h24?.buys || 0) + (pair.txns?.h24?.sells || 0),
+  };
+}
+
+/**
+ * Numeric value of a field or literal (numeric strings such as priceUsd included)
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+/**
+ * Equality: numeric if either side is a number, case-insensitive for strings
+ */
+function looseEquals(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' || typeof b === 'number') {
+    const x = toNumber(a);
+    return !Number.isNaN(x) && x === toNumber(b);
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return a === b;
+}
+
+/**
+ * `contains`: substring for strings (case-insensitive), any element for arrays
+ */
+function contains(container: unknown, item: unknown): boolean {
+  if (typeof container === 'string') {
+    return container.toLowerCase().includes(String(item).toLowerCase());
+  }
+  if (Array.isArray(container)) {
+    return container.some(element => contains(element, item) || looseEquals(element, item));
+  }
+  return false;
+}
+
+function lookupField(context: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = context;
+  for (const name of path) {
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(value, name)
+    ) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[name];
+  }
+  return value;
+}
+
+/**
+ * Evaluate an expression; missing fields are undefined and make comparisons false
+ */
+function evaluate(expr: RuleExpr, context: Record<string, unknown>): unknown {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'field':
+      return lookupField(context, expr.path);
+    case 'not':
+      return !isTruthy(evaluate(expr.operand, context));
+    case 'negate':
+      return -toNumber(evaluate(expr.operand, context));
+    case 'binary': {
+      if (expr.op === 'and') {
+        return isTruthy(evaluate(expr.left, context)) && isTruthy(evaluate(expr.right, context));
+      }
+      if (expr.op === 'or') {
+        return isTruthy(evaluate(expr.left, context)) || isTruthy(evaluate(expr.right, context));
+      }
+
+      const left = evaluate(expr.left, context);
+      const right = evaluate(expr.right, context);
+      switch (expr.op) {
+        case '==':
+          return looseEquals(left, right);
+        case '!=':
+          return !looseEquals(left, right);
+        case 'contains':
+          return contains(left, right);
+        case '<':
+          return toNumber(left) < toNumber(right);
+        case '<=':
+          return toNumber(left) <= toNumber(right);
+        case '>':
+          return toNumber(left) > toNumber(right);
+        case '>=':
+          return toNumber(left) >= toNumber(right);
+        case '+':
+          return toNumber(left) + toNumber(right);
+        case '-':
+          return toNumber(left) - toNumber(right);
+        case '*':
+          return toNumber(left) * toNumber(right);
+        case '/':
+          return toNumber(left) / toNumber(right);
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a rule's condition holds for a pair
+ */
+export function matchesRule(rule: CompiledRule, pair: DexPair, now = Date.now()): boolean {
+  return isTruthy(evaluate(rule.condition, buildRuleContext(pair, now)));
+}
+
+/**
+ * Find the first exclude rule matching a pair
+ * @returns The rule, or undefined if the pair is kept
+ */
+export function findExcludingRule(
+  pair: DexPair,
+  rules: CompiledRule[],
+  now = Date.now()
+): CompiledRule | undefined {
+  return rules.find(rule => rule.action.kind === 'exclude' && matchesRule(rule, pair, now));
+}
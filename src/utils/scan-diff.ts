@@ -0,0 +1,183 @@
+// Scan Diff
+// Compares two analysis results: who entered, who dropped out, rank moves, top pick and risk changes
+
+import type { AnalysisResult, AnalyzedPair, HistoryEntry, RiskLevel } from '@/types/analysis';
+import type { Timeframe } from '@/types/dexscreener';
+
+/**
+ * Pair as shown in a diff
+ */
+export interface DiffPair {
+  pairAddress: string;
+  symbol?: string;
+  rank: number; // 1-based rank in the scan the pair is reported from
+}
+
+/**
+ * Pair whose rank changed between scans
+ */
+export interface RankMove {
+  pairAddress: string;
+  symbol?: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Pair whose risk level changed between scans
+ */
+export interface RiskChange {
+  pairAddress: string;
+  symbol?: string;
+  from: RiskLevel;
+  to: RiskLevel;
+}
+
+/**
+ * Changes from one scan to the next
+ */
+export interface ScanDiff {
+  entered: DiffPair[]; // In the current scan only (current rank)
+  dropped: DiffPair[]; // In the previous scan only (previous rank)
+  rankMoves: RankMove[]; // Largest moves first
+  topPickChanged: boolean;
+  previousTopPick?: { pairAddress?: string; symbol?: string };
+  currentTopPick?: { pairAddress?: string; symbol?: string };
+  riskChanges: RiskChange[];
+}
+
+/**
+ * Order a result's pairs: the top pick first, then by momentum (highest first)
+ * Pairs without momentum keep their original order after the rated ones.
+ * Pairs without a pair address cannot be matched across scans and are left out.
+ */
+export function orderResultPairs(result: AnalysisResult): AnalyzedPair[] {
+  const topPickAddress = result.topPick?.pairAddress;
+
+  return result.pairs
+    .filter(pair => !!pair.pairAddress)
+    .map((pair, index) => ({ pair, index }))
+    .sort((a, b) => {
+      if (a.pair.pairAddress === topPickAddress) return -1;
+      if (b.pair.pairAddress === topPickAddress) return 1;
+      const momentumA = a.pair.momentum ?? -1;
+      const momentumB = b.pair.momentum ?? -1;
+      return momentumB - momentumA || a.index - b.index;
+    })
+    .map(({ pair }) => pair);
+}
+
+/**
+ * Compare two results, matching pairs by pair address (symbols are not unique)
+ *
+ * @param previous - Earlier result
+ * @param current - Later result
+ * @returns Changes from previous to current
+ */
+export function diffAnalysisResults(previous: AnalysisResult, current: AnalysisResult): ScanDiff {
+  const previousRanked = orderResultPairs(previous);
+  const currentRanked = orderResultPairs(current);
+  const previousByAddress = new Map(
+    previousRanked.map((pair, index) => [pair.pairAddress!, { pair, rank: index + 1 }])
+  );
+  const currentAddresses = new Set(currentRanked.map(pair => pair.pairAddress!));
+
+  const entered: DiffPair[] = [];
+  const rankMoves: RankMove[] = [];
+  const riskChanges: RiskChange[] = [];
+
+  currentRanked.forEach((pair, index) => {
+    const pairAddress = pair.pairAddress!;
+    const rank = index + 1;
+    const before = previousByAddress.get(pairAddress);
+
+    if (!before) {
+      entered.push({ pairAddress, symbol: pair.symbol, rank });
+      return;
+    }
+
+    if (before.rank !== rank) {
+      rankMoves.push({ pairAddress, symbol: pair.symbol, from: before.rank, to: rank });
+    }
+    if (before.pair.riskLevel && pair.riskLevel && before.pair.riskLevel !== pair.riskLevel) {
+      riskChanges.push({
+        pairAddress,
+        symbol: pair.symbol,
+        from: before.pair.riskLevel,
+        to: pair.riskLevel,
+      });
+    }
+  });
+
+  const dropped: DiffPair[] = previousRanked
+    .map((pair, index) => ({
+      pairAddress: pair.pairAddress!,
+      symbol: pair.symbol,
+      rank: index + 1,
+    }))
+    .filter(pair => !currentAddresses.has(pair.pairAddress));
+
+  rankMoves.sort((a, b) => Math.abs(b.to - b.from) - Math.abs(a.to - a.from) || a.to - b.to);
+
+  const previousTopPick = previous.topPick && {
+    pairAddress: previous.topPick.pairAddress,
+    symbol: previous.topPick.symbol,
+  };
+  const currentTopPick = current.topPick && {
+    pairAddress: current.topPick.pairAddress,
+    symbol: current.topPick.symbol,
+  };
+
+  return {
+    entered,
+    dropped,
+    rankMoves,
+    topPickChanged: previousTopPick?.pairAddress !== currentTopPick?.pairAddress,
+    previousTopPick,
+    currentTopPick,
+    riskChanges,
+  };
+}
+
+/**
+ * Check whether a diff has anything to show
+ */
+export function hasScanChanges(diff: ScanDiff): boolean {
+  return (
+    diff.topPickChanged ||
+    diff.entered.length > 0 ||
+    diff.dropped.length > 0 ||
+    diff.rankMoves.length > 0 ||
+    diff.riskChanges.length > 0
+  );
+}
+
+/**
+ * Find the newest history entry for the same chain and timeframe saved before a given time
+ *
+ * @param history - History entries (any order)
+ * @param chain - Chain of the scan being compared
+ * @param timeframe - Timeframe of the scan being compared
+ * @param before - ISO 8601 time; only entries strictly older are considered
+ * @returns Previous comparable entry, or undefined if there is none
+ */
+export function findPreviousComparable(
+  history: HistoryEntry[],
+  chain: string,
+  timeframe: Timeframe,
+  before: string
+): HistoryEntry | undefined {
+  const cutoff = new Date(before).getTime();
+
+  return history
+    .filter(
+      entry =>
+        entry.chain === chain &&
+        entry.timeframe === timeframe &&
+        new Date(entry.timestamp).getTime() < cutoff
+    )
+    .reduce<HistoryEntry | undefined>(
+      (newest, entry) => (!newest || entry.timestamp > newest.timestamp ? entry : newest),
+      undefined
+    );
+}
@@ -0,0 +1,115 @@
+// Scheduled Scan Manager
+// Stores scan schedules in chrome.storage.local and decides when a run should notify
+
+import { STORAGE_KEYS } from '@/types/storage';
+import type { AnalysisResult, RiskLevel } from '@/types/analysis';
+import type { ScanSchedule } from '@/types/schedule';
+
+/**
+ * Risk levels from least to most risky
+ */
+const RISK_LEVEL_ORDER: RiskLevel[] = ['safe', 'caution', 'warning', 'danger', 'critical'];
+
+/**
+ * Get all schedules
+ */
+export async function getSchedules(): Promise<ScanSchedule[]> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.SCHEDULED_SCANS);
+    const schedules = storage[STORAGE_KEYS.SCHEDULED_SCANS] as ScanSchedule[] | undefined;
+
+    return Array.isArray(schedules) ? schedules : [];
+  } catch (error) {
+    console.error('[Schedules] Failed to get schedules:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the schedule list
+ */
+async function saveSchedules(schedules: ScanSchedule[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.SCHEDULED_SCANS]: schedules });
+}
+
+/**
+ * Add a schedule
+ *
+ * @param schedule - Schedule without ID and creation time
+ * @returns The stored schedule
+ */
+export async function addSchedule(
+  schedule: Omit<ScanSchedule, 'id' | 'createdAt'>
+): Promise<ScanSchedule> {
+  const entry: ScanSchedule = {
+    ...schedule,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+
+  const schedules = await getSchedules();
+  await saveSchedules([...schedules, entry]);
+
+  console.log('[Schedules] Added schedule:', entry.id);
+  return entry;
+}
+
+/**
+ * Update fields of a schedule (no-op if it was deleted meanwhile)
+ */
+export async function updateSchedule(id: string, changes: Partial<ScanSchedule>): Promise<void> {
+  const schedules = await getSchedules();
+  await saveSchedules(
+    schedules.map(schedule => (schedule.id === id ? { ...schedule, ...changes, id } : schedule))
+  );
+}
+
+/**
+ * Delete a schedule
+ */
+export async function deleteSchedule(id: string): Promise<void> {
+  const schedules = await getSchedules();
+  await saveSchedules(schedules.filter(schedule => schedule.id !== id));
+  console.log('[Schedules] Deleted schedule:', id);
+}
+
+/**
+ * Why a scheduled run should notify
+ */
+export interface ScheduleAlert {
+  topPickChanged: boolean;
+  criteriaMet: boolean;
+}
+
+/**
+ * Decide whether a scheduled run's result should raise a notification
+ * Risk and momentum criteria only count if at least one is set; both must hold when both are set.
+ *
+ * @param schedule - Schedule, with the previous run's top pick
+ * @param result - Result of this run
+ * @returns Reasons to notify, or null if there are none
+ */
+export function evaluateScheduleAlert(
+  schedule: ScanSchedule,
+  result: AnalysisResult
+): ScheduleAlert | null {
+  const topPick = result.topPick;
+  if (!topPick?.pairAddress || topPick.unmatched) return null;
+
+  const { notifyOnTopPickChange, maxRiskLevel, minMomentum } = schedule.criteria;
+
+  const topPickChanged =
+    notifyOnTopPickChange && topPick.pairAddress !== schedule.lastTopPickAddress;
+
+  const riskOk =
+    maxRiskLevel === undefined ||
+    (topPick.riskLevel !== undefined &&
+      RISK_LEVEL_ORDER.indexOf(topPick.riskLevel) <= RISK_LEVEL_ORDER.indexOf(maxRiskLevel));
+  const momentumOk =
+    minMomentum === undefined ||
+    (topPick.momentum !== undefined && topPick.momentum >= minMomentum);
+  const criteriaMet =
+    (maxRiskLevel !== undefined || minMomentum !== undefined) && riskOk && momentumOk;
+
+  return topPickChanged || criteriaMet ? { topPickChanged, criteriaMet } : null;
+}
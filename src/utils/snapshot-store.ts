@@ -0,0 +1,146 @@
+// Pair Snapshot Store
+// Time series of pair snapshots in IndexedDB (chrome.storage is too small and has no range queries)
+
+import type { DexPair } from '@/types/dexscreener';
+import type { PairHistories, PairSnapshot } from '@/types/snapshot';
+
+const DB_NAME = 'degenlens';
+const DB_VERSION = 1;
+const STORE_NAME = 'pair_snapshots';
+
+/**
+ * Snapshots older than this are deleted on write (ms)
+ */
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Default look-back for getPairHistories (ms)
+ */
+export const HISTORY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and on first use create) the database
+ * The store is keyed by [key, at] so one pair's snapshots form a contiguous, time-ordered range.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['key', 'at'] });
+        store.createIndex('at', 'at');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Wait for a transaction to finish
+ */
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Snapshot key of a pair
+ */
+export function getPairKey(chainId: string, pairAddress: string): string {
+  return `${chainId}:${pairAddress}`;
+}
+
+/**
+ * Take a snapshot of a pair's current metrics
+ */
+export function toPairSnapshot(pair: DexPair, at = Date.now()): PairSnapshot {
+  return {
+    key: getPairKey(pair.chainId, pair.pairAddress),
+    at,
+    priceUsd: parseFloat(pair.priceUsd || '0') || 0,
+    liquidityUsd: pair.liquidity?.usd || 0,
+    marketCap: pair.marketCap,
+    buysH1: pair.txns?.h1?.buys || 0,
+    sellsH1: pair.txns?.h1?.sells || 0,
+  };
+}
+
+/**
+ * Store snapshots of the given pairs and drop expired ones
+ * Failures are logged, never thrown: snapshots are best-effort history.
+ */
+export async function recordPairSnapshots(pairs: DexPair[]): Promise<void> {
+  if (pairs.length === 0) return;
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const now = Date.now();
+
+    for (const pair of pairs) {
+      store.put(toPairSnapshot(pair, now));
+    }
+
+    // Prune through the time index
+    const expired = store.index('at').openCursor(IDBKeyRange.upperBound(now - RETENTION_MS));
+    expired.onsuccess = () => {
+      const cursor = expired.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+
+    await completion(transaction);
+  } catch (error) {
+    console.error('[SnapshotStore] Failed to record snapshots:', error);
+  }
+}
+
+/**
+ * Get earlier snapshots of the given pairs
+ *
+ * @param pairs - Pairs to look up
+ * @param since - Oldest snapshot time to include (ms)
+ * @returns Snapshots per pair address, oldest first; pairs without history are absent
+ */
+export async function getPairHistories(
+  pairs: DexPair[],
+  since = Date.now() - HISTORY_WINDOW_MS
+): Promise<PairHistories> {
+  const histories: PairHistories = new Map();
+  if (pairs.length === 0) return histories;
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+
+    for (const pair of pairs) {
+      const key = getPairKey(pair.chainId, pair.pairAddress);
+      const request = store.getAll(IDBKeyRange.bound([key, since], [key, Infinity]));
+      request.onsuccess = () => {
+        const snapshots = request.result as PairSnapshot[];
+        if (snapshots.length > 0) histories.set(pair.pairAddress, snapshots);
+      };
+    }
+
+    await completion(transaction);
+  } catch (error) {
+    console.error('[SnapshotStore] Failed to read snapshots:', error);
+  }
+
+  return histories;
+}
@@ -0,0 +1,129 @@
+// Token Pools
+// Group candidate pairs by base token and aggregate liquidity, volume and trades across its pools
+
+import type { DexPair, DexScreenerTxns, Timeframe } from '@/types/dexscreener';
+import type { PoolSummary, TokenPools } from '@/types/token-pools';
+
+/**
+ * Liquidity is fragmented when the deepest pool holds less than this share
+ */
+export const FRAGMENTED_TOP_POOL_SHARE = 0.6;
+
+/**
+ * Pools listed per token (totals still cover every pool)
+ */
+export const MAX_POOL_SUMMARIES = 5;
+
+const TIMEFRAME_KEYS: Timeframe[] = ['m5', 'h1', 'h6', 'h24'];
+
+/**
+ * Lower-cased base token address ('' when missing)
+ */
+function getTokenKey(pair: DexPair): string {
+  return pair.baseToken?.address?.toLowerCase() || '';
+}
+
+/**
+ * Keep the first (best ranked) pair of each base token
+ * Pairs without a base token address are kept as they are.
+ */
+export function dedupeByBaseToken(pairs: DexPair[]): DexPair[] {
+  const seen = new Set<string>();
+  return pairs.filter(pair => {
+    const key = getTokenKey(pair);
+    if (!key) return true;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Aggregate the pools of one base token
+ * @param tokenAddress - Base token address
+ * @param pools - Pools of the token (deduplicated by pair address)
+ */
+export function summarizeTokenPools(tokenAddress: string, pools: DexPair[]): TokenPools {
+  const sorted = [...pools].sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0));
+  const liquidityUsd = sorted.reduce((sum, pool) => sum + (pool.liquidity?.usd ?? 0), 0);
+
+  const volume: TokenPools['volume'] = {};
+  const txns: TokenPools['txns'] = {};
+  for (const timeframe of TIMEFRAME_KEYS) {
+    const withVolume = sorted.filter(pool => pool.volume?.[timeframe] !== undefined);
+    if (withVolume.length > 0) {
+      volume[timeframe] = withVolume.reduce((sum, pool) => sum + (pool.volume[timeframe] ?? 0), 0);
+    }
+
+    const withTxns = sorted.filter(pool => pool.txns?.[timeframe] !== undefined);
+    if (withTxns.length > 0) {
+      txns[timeframe] = withTxns.reduce<DexScreenerTxns>(
+        (sum, pool) => ({
+          buys: sum.buys + (pool.txns[timeframe]?.buys ?? 0),
+          sells: sum.sells + (pool.txns[timeframe]?.sells ?? 0),
+        }),
+        { buys: 0, sells: 0 }
+      );
+    }
+  }
+
+  const topPoolShare = liquidityUsd > 0 ? (sorted[0]?.liquidity?.usd ?? 0) / liquidityUsd : 1;
+
+  return {
+    tokenAddress,
+    poolCount: sorted.length,
+    pools: sorted.slice(0, MAX_POOL_SUMMARIES).map((pool): PoolSummary => ({
+      pairAddress: pool.pairAddress,
+      dexId: pool.dexId,
+      quoteSymbol: pool.quoteToken?.symbol ?? '',
+      liquidityUsd: pool.liquidity?.usd ?? 0,
+      volume: pool.volume ?? {},
+      txns: pool.txns ?? {},
+    })),
+    liquidityUsd,
+    volume,
+    txns,
+    topPoolShare,
+    fragmented: sorted.length > 1 && topPoolShare < FRAGMENTED_TOP_POOL_SHARE,
+  };
+}
+
+/**
+ * Replace each candidate with its token's deepest eligible pool, carrying totals across all pools
+ * @param candidates - One pair per base token, best ranked first
+ * @param poolsByToken - Pools fetched per lower-cased base token address
+ * @param isEligible - Whether a fetched pool may replace the candidate (default: any pool)
+ * @returns Deepest eligible pool of each token with tokenPools set (same order as candidates)
+ */
+export function aggregateTokenPools(
+  candidates: DexPair[],
+  poolsByToken: Map<string, DexPair[]>,
+  isEligible: (pool: DexPair) => boolean = () => true
+): DexPair[] {
+  return candidates.map(candidate => {
+    const key = getTokenKey(candidate);
+    if (!key) return candidate;
+
+    // The token's pools on the candidate's chain; the candidate itself is always one of them
+    const pools = new Map<string, DexPair>([[candidate.pairAddress, candidate]]);
+    for (const pool of poolsByToken.get(key) ?? []) {
+      if (getTokenKey(pool) === key && pool.chainId === candidate.chainId) {
+        pools.set(pool.pairAddress, pool);
+      }
+    }
+
+    const tokenPools = summarizeTokenPools(candidate.baseToken.address, [...pools.values()]);
+
+    // Totals cover every pool, but only a pool passing the candidate filters replaces the candidate
+    const deepest = [...pools.values()]
+      .filter(pool => pool.pairAddress === candidate.pairAddress || isEligible(pool))
+      .reduce((best, pool) =>
+        (pool.liquidity?.usd ?? 0) > (best.liquidity?.usd ?? 0) ? pool : best
+      );
+
+    // Token-level markers carry over to the deepest pool
+    return candidate.promotion
+      ? { ...deepest, promotion: candidate.promotion, tokenPools }
+      : { ...deepest, tokenPools };
+  });
+}
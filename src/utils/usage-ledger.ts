@@ -0,0 +1,215 @@
+// LLM Usage Ledger
+// Records every LLM call in chrome.storage.local and checks runs against the spending caps
+
+import { STORAGE_KEYS } from '@/types/storage';
+import type { BudgetPeriod, UsageBudget, UsageRecord, UsageTotals } from '@/types/usage';
+
+/**
+ * Records older than this are dropped when the ledger is written
+ * (enough for the monthly cap and a few months of history)
+ */
+const LEDGER_RETENTION_DAYS = 92;
+
+/**
+ * Hard cap on stored records (keeps the ledger well inside the storage quota)
+ */
+const MAX_LEDGER_RECORDS = 5000;
+
+/**
+ * Pending ledger write; each write waits for the previous one so concurrent scans
+ * do not overwrite each other's records (the write is a read-modify-write)
+ */
+let ledgerWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Append records to the ledger, dropping expired ones
+ * Writes are serialized within the service worker.
+ *
+ * @param records - LLM calls to record
+ */
+export function appendUsageRecords(records: UsageRecord[]): Promise<void> {
+  if (records.length === 0) return Promise.resolve();
+
+  ledgerWrite = ledgerWrite.then(() => writeUsageRecords(records));
+  return ledgerWrite;
+}
+
+/**
+ * Read-modify-write of the ledger (only called through appendUsageRecords)
+ */
+async function writeUsageRecords(records: UsageRecord[]): Promise<void> {
+  try {
+    const cutoff = Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const ledger = (await getUsageLedger()).filter(
+      record => new Date(record.timestamp).getTime() >= cutoff
+    );
+
+    ledger.push(...records);
+
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.USAGE_LEDGER]: ledger.slice(-MAX_LEDGER_RECORDS),
+    });
+
+    console.log(`[Usage] Recorded ${records.length} LLM calls`);
+  } catch (error) {
+    console.error('[Usage] Failed to record usage:', error);
+  }
+}
+
+/**
+ * Get all ledger records (oldest first)
+ */
+export async function getUsageLedger(): Promise<UsageRecord[]> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.USAGE_LEDGER);
+    const ledger = storage[STORAGE_KEYS.USAGE_LEDGER] as UsageRecord[] | undefined;
+
+    return Array.isArray(ledger) ? ledger : [];
+  } catch (error) {
+    console.error('[Usage] Failed to get usage ledger:', error);
+    return [];
+  }
+}
+
+/**
+ * Clear the ledger
+ */
+export async function clearUsageLedger(): Promise<void> {
+  try {
+    await chrome.storage.local.set({ [STORAGE_KEYS.USAGE_LEDGER]: [] });
+    console.log('[Usage] Cleared usage ledger');
+  } catch (error) {
+    console.error('[Usage] Failed to clear usage ledger:', error);
+  }
+}
+
+/**
+ * Get the spending caps
+ */
+export async function getUsageBudget(): Promise<UsageBudget> {
+  const storage = await chrome.storage.local.get(STORAGE_KEYS.USAGE_BUDGET);
+  return (storage[STORAGE_KEYS.USAGE_BUDGET] as UsageBudget | undefined) || {};
+}
+
+/**
+ * Save the spending caps
+ */
+export async function setUsageBudget(budget: UsageBudget): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.USAGE_BUDGET]: budget });
+}
+
+/**
+ * Start of the local day / month containing `now`
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Total cost of records since a point in time
+ */
+export function getSpentSince(ledger: UsageRecord[], since: Date): number {
+  const start = since.getTime();
+  return ledger
+    .filter(record => new Date(record.timestamp).getTime() >= start)
+    .reduce((sum, record) => sum + record.cost, 0);
+}
+
+/**
+ * Budget a run would exceed
+ */
+export interface BudgetViolation {
+  period: BudgetPeriod;
+  budget: number;
+  spent: number;
+  estimatedCost: number;
+}
+
+/**
+ * Check whether a run fits the remaining budget
+ * Free runs (estimated cost 0) always fit, even when a cap is used up.
+ *
+ * @param estimatedCost - Estimated cost of the run in USD
+ * @param budget - Spending caps
+ * @param ledger - Recorded usage
+ * @param now - Current time (for tests)
+ * @returns The first cap the run would exceed (daily before monthly), or null if it fits
+ */
+export function checkBudget(
+  estimatedCost: number,
+  budget: UsageBudget,
+  ledger: UsageRecord[],
+  now: Date = new Date()
+): BudgetViolation | null {
+  if (estimatedCost <= 0) return null;
+
+  for (const period of ['daily', 'monthly'] as const) {
+    const cap = budget[period];
+    if (cap === undefined) continue;
+
+    const spent = getSpentSince(ledger, getPeriodStart(period, now));
+    if (spent + estimatedCost > cap) {
+      return { period, budget: cap, spent, estimatedCost };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Local calendar day of a record (YYYY-MM-DD)
+ */
+export function getUsageDay(timestamp: string): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Sum records per group key
+ * @returns Totals per key, sorted by key descending (newest day first)
+ */
+function summarizeBy(
+  ledger: UsageRecord[],
+  keyOf: (record: UsageRecord) => string
+): { key: string; totals: UsageTotals }[] {
+  const groups = new Map<string, UsageTotals>();
+
+  for (const record of ledger) {
+    const key = keyOf(record);
+    const totals = groups.get(key) ?? { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+    totals.calls++;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    totals.cost += record.cost;
+    groups.set(key, totals);
+  }
+
+  return [...groups.entries()]
+    .map(([key, totals]) => ({ key, totals }))
+    .sort((a, b) => b.key.localeCompare(a.key));
+}
+
+/**
+ * Usage per local day, newest first
+ */
+export function summarizeUsageByDay(ledger: UsageRecord[]): { day: string; totals: UsageTotals }[] {
+  return summarizeBy(ledger, record => getUsageDay(record.timestamp)).map(({ key, totals }) => ({
+    day: key,
+    totals,
+  }));
+}
+
+/**
+ * Usage per model, most expensive first
+ */
+export function summarizeUsageByModel(
+  ledger: UsageRecord[]
+): { model: string; totals: UsageTotals }[] {
+  return summarizeBy(ledger, record => record.model)
+    .map(({ key, totals }) => ({ model: key, totals }))
+    .sort((a, b) => b.totals.cost - a.totals.cost);
+}
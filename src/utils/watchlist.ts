@@ -0,0 +1,122 @@
+// Watchlist Management
+// Stores watched tokens in chrome.storage.local
+
+import { STORAGE_KEYS } from '@/types/storage';
+import { DEFAULT_WATCH_ALERTS, type WatchAlerts, type WatchlistItem } from '@/types/watchlist';
+
+/**
+ * Fields a background poll writes back to an item
+ */
+export type WatchPollUpdate = Pick<
+  WatchlistItem,
+  | 'chainId'
+  | 'tokenAddress'
+  | 'latest'
+  | 'referencePriceUsd'
+  | 'referenceLiquidityUsd'
+  | 'lastAlertAt'
+>;
+
+/**
+ * Check whether an item is the given token (addresses compared case-insensitively)
+ */
+function isSameToken(
+  item: { chainId: string; tokenAddress: string },
+  chainId: string,
+  tokenAddress: string
+): boolean {
+  return (
+    item.chainId.toLowerCase() === chainId.toLowerCase() &&
+    item.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
+  );
+}
+
+/**
+ * Get all watched tokens
+ */
+export async function getWatchlist(): Promise<WatchlistItem[]> {
+  try {
+    const storage = await chrome.storage.local.get(STORAGE_KEYS.WATCHLIST);
+    const list = storage[STORAGE_KEYS.WATCHLIST] as WatchlistItem[] | undefined;
+
+    return Array.isArray(list) ? list : [];
+  } catch (error) {
+    console.error('[Watchlist] Failed to get watchlist:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the watchlist
+ */
+async function saveWatchlist(list: WatchlistItem[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.WATCHLIST]: list });
+}
+
+/**
+ * Start watching a token (no-op if already watched)
+ */
+export async function addToWatchlist(token: {
+  chainId: string;
+  tokenAddress: string;
+  symbol: string;
+}): Promise<void> {
+  const list = await getWatchlist();
+  if (list.some(item => isSameToken(item, token.chainId, token.tokenAddress))) {
+    console.log('[Watchlist] Token already watched:', token.symbol);
+    return;
+  }
+
+  await saveWatchlist([
+    ...list,
+    { ...token, addedAt: new Date().toISOString(), alerts: { ...DEFAULT_WATCH_ALERTS } },
+  ]);
+  console.log('[Watchlist] Added token:', token.symbol);
+}
+
+/**
+ * Stop watching a token
+ */
+export async function removeFromWatchlist(chainId: string, tokenAddress: string): Promise<void> {
+  const list = await getWatchlist();
+  await saveWatchlist(list.filter(item => !isSameToken(item, chainId, tokenAddress)));
+  console.log('[Watchlist] Removed token:', tokenAddress);
+}
+
+/**
+ * Check whether a token is watched
+ */
+export async function isWatched(chainId: string, tokenAddress: string): Promise<boolean> {
+  const list = await getWatchlist();
+  return list.some(item => isSameToken(item, chainId, tokenAddress));
+}
+
+/**
+ * Change a token's alert thresholds
+ */
+export async function updateWatchAlerts(
+  chainId: string,
+  tokenAddress: string,
+  alerts: WatchAlerts
+): Promise<void> {
+  const list = await getWatchlist();
+  await saveWatchlist(
+    list.map(item => (isSameToken(item, chainId, tokenAddress) ? { ...item, alerts } : item))
+  );
+}
+
+/**
+ * Write poll results back
+ * Re-reads the list so tokens added, removed or edited during the poll are kept as the user left them.
+ */
+export async function applyWatchlistUpdates(updates: WatchPollUpdate[]): Promise<void> {
+  const list = await getWatchlist();
+  await saveWatchlist(
+    list.map(item => {
+      const update = updates.find(u => isSameToken(item, u.chainId, u.tokenAddress));
+      return update
+        ? { ...item, ...update, chainId: item.chainId, tokenAddress: item.tokenAddress }
+        : item;
+    })
+  );
+}